@@ -120,6 +120,81 @@ export enum UserStatus {
   SUSPENDED = 'suspended'
 }
 
+export enum AlertType {
+  SAFE = 'safe',
+  ADVISORY = 'advisory',
+  WARNING = 'warning',
+  EMERGENCY = 'emergency'
+}
+
+export enum AlertStatus {
+  DRAFT = 'draft',
+  SUBMITTED = 'submitted',
+  APPROVED = 'approved',
+  PUBLISHED = 'published',
+  CANCELLED = 'cancelled',
+  EXPIRED = 'expired'
+}
+
+export enum AlertCategory {
+  TSUNAMI = 'tsunami',
+  CYCLONE = 'cyclone',
+  TIDAL = 'tidal',
+  WEATHER = 'weather',
+  ENVIRONMENTAL = 'environmental',
+  POLLUTION = 'pollution',
+  MARINE_LIFE = 'marine-life',
+  OTHER = 'other'
+}
+
+export enum IncidentSeverity {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high',
+  CRITICAL = 'critical'
+}
+
+export enum IncidentStatus {
+  PENDING = 'pending',
+  TRIAGED = 'triaged',
+  INVESTIGATING = 'investigating',
+  VERIFIED = 'verified',
+  REJECTED = 'rejected',
+  RESOLVED = 'resolved',
+  REOPENED = 'reopened',
+  MERGED = 'merged'
+}
+
+export enum SensorType {
+  TIDE_GAUGE = 'tide_gauge',
+  WEATHER_STATION = 'weather_station',
+  WATER_QUALITY = 'water_quality',
+  WAVE_BUOY = 'wave_buoy',
+  CURRENT_METER = 'current_meter',
+  PH_SENSOR = 'ph_sensor',
+  OXYGEN_SENSOR = 'oxygen_sensor',
+  TURBIDITY_SENSOR = 'turbidity_sensor'
+}
+
+export enum SensorStatus {
+  ACTIVE = 'active',
+  INACTIVE = 'inactive',
+  MAINTENANCE = 'maintenance',
+  ERROR = 'error',
+  OFFLINE = 'offline'
+}
+
+export enum PredictionParameter {
+  SST = 'sst',
+  SEA_LEVEL = 'seaLevel',
+  CHLOROPHYLL = 'chlorophyll',
+  WIND = 'wind',
+  TIDE = 'tide',
+  CURRENT = 'current',
+  TEMPERATURE = 'temperature',
+  SALINITY = 'salinity'
+}
+
 export interface User {
   id: string;
   email: string;
@@ -134,3 +209,27 @@ export interface User {
   approved_by: string | null;
   approved_at: string | null;
 }
+
+export interface Sensor {
+  id: string;
+  name: string;
+  type: SensorType;
+  location: string;
+  coordinates: string | null;
+  sector: string | null;
+  status: SensorStatus;
+  manufacturer: string | null;
+  model: string | null;
+  installation_date: string | null;
+  last_maintenance: string | null;
+  next_maintenance: string | null;
+  unit: string | null;
+  range_min: number | null;
+  range_max: number | null;
+  accuracy: number | null;
+  created_at: string;
+  updated_at: string;
+  created_by: string | null;
+  retired_at: string | null;
+  retired_by: string | null;
+}
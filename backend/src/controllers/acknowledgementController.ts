@@ -0,0 +1,89 @@
+import { Response } from 'express';
+import { AlertStatus, supabaseAdmin } from '../config/supabase';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  CoverageMember,
+  getAlertCoverage as computeCoverage,
+  getCoverageSummaries
+} from '../services/acknowledgementService';
+
+const MEMBER_STATUSES = ['pending', 'acknowledged', 'safe', 'need_help'];
+
+const matchesStatus = (member: CoverageMember, status: string) => {
+  switch (status) {
+    case 'pending':
+      return !member.acknowledged_at;
+    case 'acknowledged':
+      return !!member.acknowledged_at;
+    default:
+      return member.response === status;
+  }
+};
+
+// Coverage of one alert, with the recipient list filterable by status, role, organization and sector
+export const getAlertCoverage = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { status, role, organization, sector } = req.query;
+
+    if (status && !MEMBER_STATUSES.includes(String(status))) {
+      return res.status(400).json({ error: `status must be one of: ${MEMBER_STATUSES.join(', ')}` });
+    }
+
+    const { data: alert } = await supabaseAdmin
+      .from('alerts')
+      .select('id')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!alert) {
+      return res.status(404).json({ error: 'Alert not found' });
+    }
+
+    const coverage = await computeCoverage(alert.id);
+
+    let members = coverage.members;
+    if (status) members = members.filter(member => matchesStatus(member, String(status)));
+    if (role) members = members.filter(member => member.role === role);
+    if (organization) members = members.filter(member => member.organization === organization);
+    if (sector) members = members.filter(member => member.sector === sector);
+
+    res.json({ coverage: { ...coverage, members } });
+
+  } catch (error) {
+    console.error('Get alert coverage error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Coverage summary for every live alert, most urgent first
+export const getActiveAlertCoverage = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { data: alerts, error } = await supabaseAdmin
+      .from('alerts')
+      .select('id, type, title, location, sector, published_at')
+      .eq('status', AlertStatus.PUBLISHED)
+      .eq('is_active', true)
+      .order('published_at', { ascending: false });
+
+    if (error) {
+      return res.status(500).json({ error: 'Failed to fetch alerts' });
+    }
+
+    // One pass over the database for every live alert, rather than a recipient lookup per alert
+    const coverage = await getCoverageSummaries((alerts || []).map(alert => alert.id));
+    const summaries = (alerts || []).map(alert => ({
+      alert,
+      ...coverage.get(alert.id)!
+    }));
+
+    const rank: Record<string, number> = { emergency: 0, warning: 1, advisory: 2, safe: 3 };
+    summaries.sort((a, b) => (rank[a.alert.type] ?? 4) - (rank[b.alert.type] ?? 4));
+
+    res.json({ alerts: summaries });
+
+  } catch (error) {
+    console.error('Get active alert coverage error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
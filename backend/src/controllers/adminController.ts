@@ -1,6 +1,7 @@
 import { Response } from 'express';
 import { supabaseAdmin, UserRole, UserStatus } from '../config/supabase';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { listUserSessions, revokeAllUserSessions } from '../services/sessionService';
 
 export const getAllUsers = async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -198,6 +199,9 @@ export const suspendUser = async (req: AuthenticatedRequest, res: Response) => {
       return res.status(500).json({ error: 'Failed to suspend user' });
     }
 
+    // Suspended users lose every session immediately, not at token expiry
+    await revokeAllUserSessions(userId, 'suspended');
+
     // Log the suspension
     console.log(`User ${userId} suspended by admin ${adminId}. Reason: ${reason}`);
 
@@ -320,3 +324,102 @@ export const updateUserRole = async (req: AuthenticatedRequest, res: Response) =
     res.status(500).json({ error: 'Internal server error' });
   }
 };
+
+// Set (or clear, with null) who is told when this user leaves an alert unacknowledged
+export const updateUserSupervisor = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const { supervisor_id } = req.body;
+
+    if (supervisor_id !== null && typeof supervisor_id !== 'string') {
+      return res.status(400).json({ error: 'supervisor_id must be a user id or null' });
+    }
+    if (supervisor_id === userId) {
+      return res.status(400).json({ error: 'A user cannot supervise themselves' });
+    }
+
+    if (supervisor_id) {
+      const { data: supervisor } = await supabaseAdmin
+        .from('users')
+        .select('id, status')
+        .eq('id', supervisor_id)
+        .maybeSingle();
+
+      if (!supervisor || supervisor.status !== 'approved') {
+        return res.status(400).json({ error: 'Supervisor must be an approved user' });
+      }
+    }
+
+    const { data: updatedUser, error } = await supabaseAdmin
+      .from('users')
+      .update({
+        supervisor_id,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', userId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return res.status(500).json({ error: 'Failed to update supervisor' });
+    }
+
+    if (!updatedUser) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json({
+      message: 'User supervisor updated successfully',
+      user: updatedUser
+    });
+
+  } catch (error) {
+    console.error('Update user supervisor error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getUserSessions = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { userId } = req.params;
+
+    const sessions = await listUserSessions(userId);
+
+    res.json({ sessions });
+
+  } catch (error) {
+    console.error('Get user sessions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const revokeUserSessions = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const adminId = req.user!.id;
+
+    const { data: user, error: userError } = await supabaseAdmin
+      .from('users')
+      .select('id')
+      .eq('id', userId)
+      .single();
+
+    if (userError || !user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const revoked = await revokeAllUserSessions(userId, 'admin_signout');
+
+    // Log the forced sign-out
+    console.log(`All sessions of user ${userId} revoked by admin ${adminId} (${revoked} sessions)`);
+
+    res.json({
+      message: 'User signed out everywhere',
+      revoked
+    });
+
+  } catch (error) {
+    console.error('Revoke user sessions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
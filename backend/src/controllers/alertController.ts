@@ -1,20 +1,217 @@
 import { Response } from 'express';
-import { supabase, supabaseAdmin } from '../config/supabase';
+import {
+  AlertCategory,
+  AlertStatus,
+  AlertType,
+  IncidentSeverity,
+  supabase,
+  supabaseAdmin
+} from '../config/supabase';
 import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  isEscalation,
+  queueAlertNotifications
+} from '../services/notificationService';
+import {
+  ALLOWED_FROM,
+  UNPUBLISHED_STATUSES,
+  announceAlert,
+  recordTransition,
+  requiresSecondApprover,
+  transitionAlert
+} from '../services/alertWorkflowService';
+import { AcknowledgementError, recordAcknowledgement } from '../services/acknowledgementService';
+import { recordRevision } from '../services/alertRevisionService';
+import { queueCapMessage } from '../services/capService';
+import { getAlertAreas, getAlertTargets, replaceAlertAreas } from '../services/geofenceService';
+import { OPEN_ALERT_STATUSES, draftAlertFromIncident } from '../services/incidentAlertService';
+import { ALLOWED_FROM as INCIDENT_ALLOWED_FROM, recordIncidentTransition } from '../services/incidentWorkflowService';
+import { ALERT_STAFF_ROLES, publish } from '../services/realtimeService';
+import {
+  ALERT_WORKFLOW,
+  WorkflowAuditError,
+  loadForAction as loadWorkflowRecord,
+  respondConflict
+} from '../services/workflowService';
+import {
+  GeoValidationError,
+  parseAlertAreas,
+  parseGeoFilter,
+  parseGeometry,
+  selectInArea
+} from '../utils/geo';
+
+const STAFF_ROLES = ['super_admin', 'admin', 'authority', 'operational'];
+
+const EDITABLE_FIELDS = [
+  'type',
+  'title',
+  'message',
+  'category',
+  'location',
+  'sector',
+  'severity',
+  'expires_at',
+  'publish_at',
+  'reminder_interval_hours'
+];
+
+// Validate the editable fields present in `body` and turn them into column values.
+// Anything not listed in EDITABLE_FIELDS (status, approvals, timestamps) is ignored.
+const readAlertFields = (body: Record<string, any>): { fields: Record<string, any>; error?: string } => {
+  const fields: Record<string, any> = {};
+  for (const key of EDITABLE_FIELDS) {
+    if (body[key] !== undefined) fields[key] = body[key];
+  }
+
+  for (const key of ['title', 'message', 'location']) {
+    if (fields[key] !== undefined && (typeof fields[key] !== 'string' || !fields[key].trim())) {
+      return { fields, error: `${key} must be a non-empty string` };
+    }
+  }
+  if (fields.type !== undefined && !Object.values(AlertType).includes(fields.type)) {
+    return { fields, error: 'Invalid type' };
+  }
+  if (fields.category !== undefined && !Object.values(AlertCategory).includes(fields.category)) {
+    return { fields, error: 'Invalid category' };
+  }
+  if (fields.severity !== undefined && !Object.values(IncidentSeverity).includes(fields.severity)) {
+    return { fields, error: 'Invalid severity' };
+  }
+
+  for (const key of ['expires_at', 'publish_at']) {
+    if (fields[key] === undefined) continue;
+    const date = fields[key] ? new Date(fields[key]) : null;
+    if (date && Number.isNaN(date.getTime())) {
+      return { fields, error: 'publish_at and expires_at must be ISO 8601 dates' };
+    }
+    fields[key] = date ? date.toISOString() : null;
+  }
+
+  if (fields.reminder_interval_hours !== undefined && fields.reminder_interval_hours !== null) {
+    const hours = Number(fields.reminder_interval_hours);
+    if (!Number.isInteger(hours) || hours <= 0) {
+      return { fields, error: 'reminder_interval_hours must be a positive integer' };
+    }
+    fields.reminder_interval_hours = hours;
+  }
+
+  if (fields.sector !== undefined) fields.sector = fields.sector || null;
+
+  // Geometry is always derived from coordinates, never written directly
+  if (body.coordinates !== undefined) {
+    const position = parseGeometry(body.coordinates);
+    fields.coordinates = position?.coordinates || null;
+    fields.geom = position?.ewkt || null;
+  }
+
+  return { fields };
+};
+
+// expires_at must fall after the alert goes out (its publish time, or now)
+const expiresBeforePublish = (publishAt: string | null, expiresAt: string | null) => {
+  if (!expiresAt) return false;
+  const now = Date.now();
+  const goesOut = publishAt && new Date(publishAt).getTime() > now ? new Date(publishAt).getTime() : now;
+  return new Date(expiresAt).getTime() <= goesOut;
+};
+
+// Put an approved alert live, or leave it approved until its publish_at
+const releaseAlert = async (alert: Record<string, any>, from: string, changes: Record<string, unknown>) => {
+  const scheduled = !!alert.publish_at && new Date(alert.publish_at) > new Date();
+  const now = new Date().toISOString();
+  const to = scheduled ? AlertStatus.APPROVED : AlertStatus.PUBLISHED;
+
+  const released = await transitionAlert(alert.id, from, to, {
+    ...changes,
+    ...(scheduled ? {} : { is_active: true, published_at: now })
+  });
+
+  if (released && !scheduled) {
+    announceAlert(released);
+  }
+  return released;
+};
+
+/**
+ * Validate `body` and insert it as a new draft with its affected areas,
+ * recording the create transition and the first revision. Responds and
+ * returns null when the fields are invalid or the draft cannot be saved.
+ */
+const insertAlertDraft = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  body: Record<string, any>,
+  label: string,
+  source: { incidentId?: string; notes?: string } = {}
+) => {
+  const { fields, error: validationError } = readAlertFields(body);
+  if (validationError) {
+    res.status(400).json({ error: validationError });
+    return null;
+  }
+
+  if (expiresBeforePublish(fields.publish_at || null, fields.expires_at || null)) {
+    res.status(400).json({ error: 'expires_at must be after the alert is published' });
+    return null;
+  }
+
+  const affectedAreas = body.areas ? parseAlertAreas(body.areas) : [];
+
+  // New alerts always start as drafts; nothing goes out until it is published
+  const { data: alert, error } = await supabase
+    .from('alerts')
+    .insert({
+      ...fields,
+      sector: fields.sector || null,
+      status: AlertStatus.DRAFT,
+      is_active: false,
+      published_at: null,
+      created_by: req.user!.id,
+      ...(source.incidentId ? { incident_id: source.incidentId } : {})
+    })
+    .select()
+    .single();
+
+  // The unique index on open alerts per incident catches a draft promoted at the same moment
+  if (error?.code === '23505' && source.incidentId) {
+    res.status(409).json({ error: 'This incident already has an open alert' });
+    return null;
+  }
+  if (error) {
+    console.error(`${label} error:`, error);
+    res.status(500).json({ error: 'Failed to create alert' });
+    return null;
+  }
+
+  if (affectedAreas.length > 0) {
+    try {
+      await replaceAlertAreas(alert.id, affectedAreas);
+    } catch (areaError) {
+      console.error('Create alert areas error:', areaError);
+      await supabaseAdmin.from('alerts').delete().eq('id', alert.id);
+      res.status(500).json({ error: 'Failed to save alert areas' });
+      return null;
+    }
+  }
+
+  await recordTransition({
+    alertId: alert.id,
+    action: 'create',
+    from: null,
+    to: alert.status,
+    userId: req.user!.id,
+    notes: source.notes
+  });
+  await recordRevision(alert, req.user!.id);
+
+  return alert;
+};
 
 export const createAlert = async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const {
-      type,
-      title,
-      message,
-      category,
-      location,
-      sector,
-      coordinates,
-      severity,
-      expires_at
-    } = req.body;
+    const { type, title, message, category, location, severity } = req.body;
 
     // Validate required fields
     if (!type || !title || !message || !category || !location || !severity) {
@@ -24,52 +221,122 @@ export const createAlert = async (req: AuthenticatedRequest, res: Response) => {
     }
 
     // Check if user is admin/authority
-    if (!['super_admin', 'admin', 'authority', 'operational'].includes(req.user!.role)) {
+    if (!STAFF_ROLES.includes(req.user!.role)) {
       return res.status(403).json({ error: 'Insufficient permissions to create alerts' });
     }
 
-    // Create alert
-    const { data: alert, error } = await supabase
+    const alert = await insertAlertDraft(req, res, req.body, 'Create alert');
+    if (!alert) return;
+
+    res.status(201).json({
+      message: 'Alert draft created successfully',
+      alert
+    });
+
+  } catch (error) {
+    if (error instanceof WorkflowAuditError) {
+      return res.status(500).json({ error: error.message });
+    }
+    if (error instanceof GeoValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Create alert error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Start an alert draft from a verified incident report. Category, level,
+ * severity and location are filled in from the incident; anything in the
+ * body overrides them. The draft then goes through the usual authoring
+ * workflow, and stays linked to the incident it came from.
+ */
+export const createAlertFromIncident = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!STAFF_ROLES.includes(req.user!.role)) {
+      return res.status(403).json({ error: 'Insufficient permissions to create alerts' });
+    }
+
+    const { data: incident } = await supabaseAdmin
+      .from('incident_reports')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!incident) {
+      return res.status(404).json({ error: 'Incident report not found' });
+    }
+
+    if (!INCIDENT_ALLOWED_FROM.promote.includes(incident.status)) {
+      return res.status(409).json({
+        error: `Cannot promote an incident that is ${incident.status}; verify it first`,
+        status: incident.status
+      });
+    }
+
+    // One open alert per incident; a cancelled or expired one can be followed by a new draft
+    const { data: existing } = await supabaseAdmin
       .from('alerts')
-      .insert({
-        type,
-        title,
-        message,
-        category,
-        location,
-        sector: sector || null,
-        coordinates: coordinates || null,
-        severity,
-        expires_at: expires_at || null,
-        created_by: req.user!.id
-      })
-      .select()
-      .single();
+      .select('id, status')
+      .eq('incident_id', id)
+      .in('status', OPEN_ALERT_STATUSES)
+      .limit(1)
+      .maybeSingle();
 
-    if (error) {
-      console.error('Create alert error:', error);
-      return res.status(500).json({ error: 'Failed to create alert' });
+    if (existing) {
+      return res.status(409).json({
+        error: 'This incident already has an open alert',
+        alert_id: existing.id,
+        status: existing.status
+      });
     }
 
+    const alert = await insertAlertDraft(
+      req,
+      res,
+      { ...draftAlertFromIncident(incident), ...req.body },
+      'Create alert from incident',
+      { incidentId: incident.id, notes: `Promoted from incident "${incident.incident_title}"` }
+    );
+    if (!alert) return;
+
+    await recordIncidentTransition({
+      incidentId: incident.id,
+      action: 'promote',
+      from: incident.status,
+      to: incident.status,
+      userId: req.user!.id,
+      notes: `Alert draft "${alert.title}" created`
+    });
+
     res.status(201).json({
-      message: 'Alert created successfully',
+      message: 'Alert draft created successfully',
       alert
     });
 
   } catch (error) {
-    console.error('Create alert error:', error);
+    if (error instanceof WorkflowAuditError) {
+      return res.status(500).json({ error: error.message });
+    }
+    if (error instanceof GeoValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Create alert from incident error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
 
 export const getAlerts = async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { type, category, location, sector, is_active = true, page = 1, limit = 20 } = req.query;
+    const { type, category, location, sector, status, page = 1, limit = 20 } = req.query;
+    // Filtering by workflow status (e.g. the review queue) implies looking beyond live alerts
+    const { is_active = status ? undefined : 'true' } = req.query;
     const offset = (Number(page) - 1) * Number(limit);
+    const area = parseGeoFilter(req.query);
 
-    let query = supabase
-      .from('alerts')
-      .select(`
+    let query = selectInArea(supabase, 'alerts', `
         *,
         users!alerts_created_by_fkey (
           id,
@@ -77,7 +344,7 @@ export const getAlerts = async (req: AuthenticatedRequest, res: Response) => {
           email,
           organization
         )
-      `)
+      `, area, 'exact')
       .order('created_at', { ascending: false });
 
     // Apply filters
@@ -85,7 +352,19 @@ export const getAlerts = async (req: AuthenticatedRequest, res: Response) => {
     if (category) query = query.eq('category', category);
     if (location) query = query.ilike('location', `%${location}%`);
     if (sector) query = query.eq('sector', sector);
-    if (is_active !== undefined) query = query.eq('is_active', is_active === 'true');
+    if (status) query = query.eq('status', status);
+    // Drafts and alerts under review are only visible to staff
+    if (!STAFF_ROLES.includes(req.user!.role)) {
+      query = query.not('status', 'in', `(${UNPUBLISHED_STATUSES.join(',')})`);
+    }
+    if (is_active === 'true') {
+      // Expired alerts count as inactive even before the scheduler deactivates them
+      query = query
+        .eq('is_active', true)
+        .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
+    } else if (is_active === 'false') {
+      query = query.eq('is_active', false);
+    }
 
     // Apply pagination
     query = query.range(offset, offset + Number(limit) - 1);
@@ -106,6 +385,9 @@ export const getAlerts = async (req: AuthenticatedRequest, res: Response) => {
     });
 
   } catch (error) {
+    if (error instanceof GeoValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Get alerts error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -114,11 +396,11 @@ export const getAlerts = async (req: AuthenticatedRequest, res: Response) => {
 export const getActiveAlerts = async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { location, sector } = req.query;
+    const area = parseGeoFilter(req.query);
 
-    let query = supabase
-      .from('alerts')
-      .select('*')
+    let query = selectInArea(supabase, 'alerts', '*', area)
       .eq('is_active', true)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
       .order('created_at', { ascending: false });
 
     if (location) query = query.ilike('location', `%${location}%`);
@@ -133,6 +415,9 @@ export const getActiveAlerts = async (req: AuthenticatedRequest, res: Response)
     res.json({ alerts });
 
   } catch (error) {
+    if (error instanceof GeoValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Get active alerts error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -156,11 +441,33 @@ export const getAlert = async (req: AuthenticatedRequest, res: Response) => {
       .eq('id', id)
       .single();
 
-    if (error || !alert) {
+    if (error || !alert || (UNPUBLISHED_STATUSES.includes(alert.status) && !STAFF_ROLES.includes(req.user!.role))) {
       return res.status(404).json({ error: 'Alert not found' });
     }
 
-    res.json({ alert });
+    // The requester's own receipt, so clients can show "acknowledged" / their response
+    const { data: acknowledgement } = await supabaseAdmin
+      .from('alert_acknowledgements')
+      .select('channel, acknowledged_at, response, response_notes, responded_at')
+      .eq('alert_id', id)
+      .eq('user_id', req.user!.id)
+      .maybeSingle();
+
+    // The incident report behind a promoted alert; others only see it if the reporter agreed to share it
+    let incident = null;
+    if (alert.incident_id) {
+      const { data: source } = await supabaseAdmin
+        .from('incident_reports')
+        .select('id, incident_title, incident_type, status, date_time, consent_to_share')
+        .eq('id', alert.incident_id)
+        .maybeSingle();
+      if (source && (source.consent_to_share || STAFF_ROLES.includes(req.user!.role))) {
+        const { consent_to_share, ...summary } = source;
+        incident = { ...summary, evidence_shared: !!consent_to_share };
+      }
+    }
+
+    res.json({ alert, acknowledgement: acknowledgement || null, incident });
 
   } catch (error) {
     console.error('Get alert error:', error);
@@ -171,61 +478,343 @@ export const getAlert = async (req: AuthenticatedRequest, res: Response) => {
 export const updateAlert = async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const updateData = req.body;
 
     // Check if user is admin/authority
-    if (!['super_admin', 'admin', 'authority', 'operational'].includes(req.user!.role)) {
+    if (!STAFF_ROLES.includes(req.user!.role)) {
       return res.status(403).json({ error: 'Insufficient permissions to update alerts' });
     }
 
-    // Update alert
-    const { data: alert, error } = await supabase
+    const { data: currentAlert } = await supabase
       .from('alerts')
-      .update({
-        ...updateData,
-        updated_at: new Date().toISOString()
-      })
+      .select('*')
       .eq('id', id)
-      .select()
       .single();
 
-    if (error || !alert) {
+    if (!currentAlert) {
       return res.status(404).json({ error: 'Alert not found' });
     }
 
+    if (!UNPUBLISHED_STATUSES.includes(currentAlert.status) && currentAlert.status !== AlertStatus.PUBLISHED) {
+      return res.status(409).json({ error: `A ${currentAlert.status} alert can no longer be edited` });
+    }
+
+    const { fields, error: validationError } = readAlertFields(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    // Affected areas live in alert_areas rather than on the alert row
+    const affectedAreas = req.body.areas !== undefined ? parseAlertAreas(req.body.areas || []) : null;
+
+    if (Object.keys(fields).length === 0 && !affectedAreas) {
+      return res.status(400).json({ error: 'No editable fields supplied' });
+    }
+
+    const published = currentAlert.status === AlertStatus.PUBLISHED;
+
+    if (published && fields.publish_at !== undefined) {
+      return res.status(400).json({ error: 'publish_at cannot change after the alert is published' });
+    }
+
+    const publishAt = fields.publish_at !== undefined ? fields.publish_at : currentAlert.publish_at;
+    const expiresAt = fields.expires_at !== undefined ? fields.expires_at : currentAlert.expires_at;
+    if (fields.expires_at !== undefined && expiresBeforePublish(published ? null : publishAt, expiresAt)) {
+      return res.status(400).json({ error: 'expires_at must be after the alert is published' });
+    }
+
+    // Turning a live alert into a warning or emergency is as serious as publishing one, so it
+    // cannot bypass the two-person review: the raised alert is issued as a new one instead
+    if (published && fields.type && isEscalation(currentAlert.type, fields.type) && requiresSecondApprover(fields.type)) {
+      return res.status(409).json({
+        error: `A live alert cannot be raised to ${fields.type} in place. Create a new ${fields.type} alert and submit it for approval by a second authority or admin.`
+      });
+    }
+
+    // Editing an alert under review sends it back to draft, so reviewers approve exactly what goes out
+    const reopened = currentAlert.status === AlertStatus.SUBMITTED || currentAlert.status === AlertStatus.APPROVED;
+    const alert = await transitionAlert(
+      id,
+      currentAlert.status,
+      reopened ? AlertStatus.DRAFT : currentAlert.status,
+      {
+        ...fields,
+        ...(reopened ? { submitted_by: null, submitted_at: null, approved_by: null, approved_at: null } : {})
+      }
+    );
+
+    if (!alert) {
+      return conflict(res, 'editing');
+    }
+
+    if (affectedAreas) {
+      await replaceAlertAreas(alert.id, affectedAreas);
+    }
+
+    await recordTransition({
+      alertId: alert.id,
+      action: 'update',
+      from: currentAlert.status,
+      to: alert.status,
+      userId: req.user!.id,
+      notes: [...Object.keys(fields).filter(key => key !== 'geom'), ...(affectedAreas ? ['areas'] : [])].join(', ')
+    });
+    await recordRevision(alert, req.user!.id);
+
+    if (published) {
+      // Raising the alert type re-notifies everyone in scope
+      if (alert.is_active && isEscalation(currentAlert.type, alert.type)) {
+        queueAlertNotifications(alert, 'escalated');
+      }
+
+      // Changes to an issued alert go out as a CAP Update
+      queueCapMessage(alert, 'Update');
+      publish({ type: 'alert.updated', sector: alert.sector, data: { alert } });
+    }
+
     res.json({
-      message: 'Alert updated successfully',
+      message: reopened ? 'Alert updated and returned to draft for review' : 'Alert updated successfully',
       alert
     });
 
   } catch (error) {
+    if (error instanceof WorkflowAuditError) {
+      return res.status(500).json({ error: error.message });
+    }
+    if (error instanceof GeoValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Update alert error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
 
+const loadForAction = (id: string, action: keyof typeof ALLOWED_FROM, res: Response) =>
+  loadWorkflowRecord(ALERT_WORKFLOW, id, action, ALLOWED_FROM[action], res);
+
+const conflict = (res: Response, doing: string) => respondConflict(res, ALERT_WORKFLOW, doing);
+
+export const submitAlert = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const current = await loadForAction(id, 'submit', res);
+    if (!current) return;
+
+    const alert = await transitionAlert(id, current.status, AlertStatus.SUBMITTED, {
+      submitted_by: req.user!.id,
+      submitted_at: new Date().toISOString()
+    });
+
+    if (!alert) {
+      return conflict(res, 'submitting');
+    }
+
+    await recordTransition({
+      alertId: id,
+      action: 'submit',
+      from: current.status,
+      to: alert.status,
+      userId: req.user!.id,
+      notes: req.body.notes
+    });
+
+    res.json({
+      message: 'Alert submitted for approval',
+      alert
+    });
+
+  } catch (error) {
+    if (error instanceof WorkflowAuditError) {
+      return res.status(500).json({ error: error.message });
+    }
+    console.error('Submit alert error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const approveAlert = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const current = await loadForAction(id, 'approve', res);
+    if (!current) return;
+
+    // Two-person rule: whoever wrote or submitted a warning/emergency cannot also approve it
+    if (requiresSecondApprover(current.type) &&
+        (current.created_by === req.user!.id || current.submitted_by === req.user!.id)) {
+      return res.status(403).json({
+        error: `A ${current.type} alert must be approved by someone other than its author and submitter`
+      });
+    }
+
+    if (current.expires_at && new Date(current.expires_at) <= new Date()) {
+      return res.status(409).json({ error: 'Alert has already expired; update expires_at first' });
+    }
+
+    const alert = await releaseAlert(current, current.status, {
+      approved_by: req.user!.id,
+      approved_at: new Date().toISOString()
+    });
+
+    if (!alert) {
+      return conflict(res, 'approving');
+    }
+
+    await recordTransition({
+      alertId: id,
+      action: 'approve',
+      from: current.status,
+      to: alert.status,
+      userId: req.user!.id,
+      notes: req.body.notes
+    });
+
+    res.json({
+      message: alert.status === AlertStatus.PUBLISHED
+        ? 'Alert approved and published'
+        : `Alert approved and scheduled for ${alert.publish_at}`,
+      alert
+    });
+
+  } catch (error) {
+    if (error instanceof WorkflowAuditError) {
+      return res.status(500).json({ error: error.message });
+    }
+    console.error('Approve alert error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const rejectAlert = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { notes } = req.body;
+
+    if (!notes) {
+      return res.status(400).json({ error: 'notes are required to explain the rejection' });
+    }
+
+    const current = await loadForAction(id, 'reject', res);
+    if (!current) return;
+
+    const alert = await transitionAlert(id, current.status, AlertStatus.DRAFT, {
+      submitted_by: null,
+      submitted_at: null,
+      approved_by: null,
+      approved_at: null
+    });
+
+    if (!alert) {
+      return conflict(res, 'rejecting');
+    }
+
+    await recordTransition({ alertId: id, action: 'reject', from: current.status, to: alert.status, userId: req.user!.id, notes });
+
+    res.json({
+      message: 'Alert returned to draft',
+      alert
+    });
+
+  } catch (error) {
+    if (error instanceof WorkflowAuditError) {
+      return res.status(500).json({ error: error.message });
+    }
+    console.error('Reject alert error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const publishAlert = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!STAFF_ROLES.includes(req.user!.role)) {
+      return res.status(403).json({ error: 'Insufficient permissions to publish alerts' });
+    }
+
+    const current = await loadForAction(id, 'publish', res);
+    if (!current) return;
+
+    if (requiresSecondApprover(current.type)) {
+      return res.status(403).json({
+        error: `A ${current.type} alert must be submitted and approved by a second authority or admin`
+      });
+    }
+
+    if (current.expires_at && new Date(current.expires_at) <= new Date()) {
+      return res.status(409).json({ error: 'Alert has already expired; update expires_at first' });
+    }
+
+    const alert = await releaseAlert(current, current.status, {});
+
+    if (!alert) {
+      return conflict(res, 'publishing');
+    }
+
+    await recordTransition({
+      alertId: id,
+      action: 'publish',
+      from: current.status,
+      to: alert.status,
+      userId: req.user!.id,
+      notes: req.body.notes
+    });
+
+    res.json({
+      message: alert.status === AlertStatus.PUBLISHED
+        ? 'Alert published successfully'
+        : `Alert scheduled for ${alert.publish_at}`,
+      alert
+    });
+
+  } catch (error) {
+    if (error instanceof WorkflowAuditError) {
+      return res.status(500).json({ error: error.message });
+    }
+    console.error('Publish alert error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
 export const deactivateAlert = async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { id } = req.params;
 
     // Check if user is admin/authority
-    if (!['super_admin', 'admin', 'authority', 'operational'].includes(req.user!.role)) {
+    if (!STAFF_ROLES.includes(req.user!.role)) {
       return res.status(403).json({ error: 'Insufficient permissions to deactivate alerts' });
     }
 
-    // Deactivate alert
-    const { data: alert, error } = await supabase
-      .from('alerts')
-      .update({
-        is_active: false,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', id)
-      .select()
-      .single();
+    const current = await loadForAction(id, 'cancel', res);
+    if (!current) return;
 
-    if (error || !alert) {
-      return res.status(404).json({ error: 'Alert not found' });
+    // Cancel alert (this also discards drafts and alerts still waiting to be published)
+    const now = new Date().toISOString();
+    const alert = await transitionAlert(id, current.status, AlertStatus.CANCELLED, {
+      is_active: false,
+      deactivated_at: now,
+      deactivated_by: req.user!.id,
+      deactivation_reason: 'manual'
+    });
+
+    if (!alert) {
+      return conflict(res, 'cancelling');
+    }
+
+    await recordTransition({
+      alertId: id,
+      action: 'cancel',
+      from: current.status,
+      to: alert.status,
+      userId: req.user!.id,
+      notes: req.body?.notes
+    });
+
+    // Only alerts that actually went out need a "lifted" follow-up
+    if (current.status === AlertStatus.PUBLISHED) {
+      if (current.is_active) {
+        queueAlertNotifications(alert, 'lifted');
+      }
+      queueCapMessage(alert, 'Cancel');
+      publish({ type: 'alert.deactivated', sector: alert.sector, data: { alert } });
     }
 
     res.json({
@@ -234,38 +823,82 @@ export const deactivateAlert = async (req: AuthenticatedRequest, res: Response)
     });
 
   } catch (error) {
+    if (error instanceof WorkflowAuditError) {
+      return res.status(500).json({ error: error.message });
+    }
     console.error('Deactivate alert error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
 
+export const getAlertTransitions = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { data: transitions, error } = await supabaseAdmin
+      .from('alert_transitions')
+      .select(`
+        *,
+        users!alert_transitions_performed_by_fkey (
+          id,
+          full_name,
+          role,
+          organization
+        )
+      `)
+      .eq('alert_id', id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      return res.status(500).json({ error: 'Failed to fetch alert transitions' });
+    }
+
+    res.json({ transitions });
+
+  } catch (error) {
+    console.error('Get alert transitions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
 export const acknowledgeAlert = async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const userId = req.user!.id;
+    const { channel, response, notes } = req.body || {};
 
-    // Acknowledge alert
-    const { data: alert, error } = await supabase
+    const { data: alert } = await supabase
       .from('alerts')
-      .update({
-        acknowledged_by: userId,
-        acknowledged_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      })
+      .select('*')
       .eq('id', id)
-      .select()
       .single();
 
-    if (error || !alert) {
+    if (!alert || UNPUBLISHED_STATUSES.includes(alert.status)) {
       return res.status(404).json({ error: 'Alert not found' });
     }
 
-    res.json({
+    const { acknowledgement, first } = await recordAcknowledgement(id, req.user!.id, { channel, response, notes });
+
+    publish({
+      type: 'alert.acknowledged',
+      sector: alert.sector,
+      roles: ALERT_STAFF_ROLES,
+      data: {
+        alert_id: id,
+        user_id: req.user!.id,
+        channel: acknowledgement.channel,
+        response: acknowledgement.response
+      }
+    });
+
+    res.status(first ? 201 : 200).json({
       message: 'Alert acknowledged successfully',
-      alert
+      acknowledgement
     });
 
   } catch (error) {
+    if (error instanceof AcknowledgementError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Acknowledge alert error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -286,15 +919,7 @@ export const getUserNotificationPreferences = async (req: AuthenticatedRequest,
     }
 
     res.json({
-      preferences: profile?.notification_preferences || {
-        sms: true,
-        email: true,
-        push: true,
-        tsunami: true,
-        cyclone: true,
-        pollution: false,
-        tidal: true
-      }
+      preferences: profile?.notification_preferences || DEFAULT_NOTIFICATION_PREFERENCES
     });
 
   } catch (error) {
@@ -336,3 +961,245 @@ export const updateUserNotificationPreferences = async (req: AuthenticatedReques
     res.status(500).json({ error: 'Internal server error' });
   }
 };
+
+export const registerPushToken = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { token } = req.body;
+
+    if (!token || typeof token !== 'string') {
+      return res.status(400).json({ error: 'Device token is required' });
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('push_tokens')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    const tokens: string[] = profile?.push_tokens || [];
+    if (!tokens.includes(token)) tokens.push(token);
+
+    const { error } = profile
+      ? await supabase
+        .from('user_profiles')
+        .update({ push_tokens: tokens, updated_at: new Date().toISOString() })
+        .eq('user_id', userId)
+      : await supabase
+        .from('user_profiles')
+        .insert({ user_id: userId, push_tokens: tokens });
+
+    if (error) {
+      return res.status(500).json({ error: 'Failed to register device token' });
+    }
+
+    res.json({ message: 'Device token registered successfully' });
+
+  } catch (error) {
+    console.error('Register push token error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const removePushToken = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { token } = req.body;
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('push_tokens')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    const tokens: string[] = (profile?.push_tokens || []).filter((t: string) => t !== token);
+
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({
+        push_tokens: tokens,
+        updated_at: new Date().toISOString()
+      })
+      .eq('user_id', userId);
+
+    if (error) {
+      return res.status(500).json({ error: 'Failed to remove device token' });
+    }
+
+    res.json({ message: 'Device token removed successfully' });
+
+  } catch (error) {
+    console.error('Remove push token error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getAlertNotificationLogs = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { status, type } = req.query;
+
+    let query = supabaseAdmin
+      .from('notification_logs')
+      .select(`
+        *,
+        users (
+          id,
+          full_name,
+          organization
+        )
+      `)
+      .eq('alert_id', id)
+      .order('sent_at', { ascending: false });
+
+    if (status) query = query.eq('status', status);
+    if (type) query = query.eq('type', type);
+
+    const { data: logs, error } = await query;
+
+    if (error) {
+      return res.status(500).json({ error: 'Failed to fetch notification logs' });
+    }
+
+    const summary = (logs || []).reduce((acc: Record<string, number>, log) => {
+      acc[log.status] = (acc[log.status] || 0) + 1;
+      return acc;
+    }, {});
+
+    res.json({ logs, summary });
+
+  } catch (error) {
+    console.error('Get alert notification logs error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getAffectedAreas = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const areas = await getAlertAreas(id);
+
+    // Returned as a FeatureCollection so maps can render it directly
+    res.json({
+      type: 'FeatureCollection',
+      features: areas.map(area => ({
+        type: 'Feature',
+        id: area.id,
+        geometry: area.geometry,
+        properties: {
+          ...(area.properties || {}),
+          name: area.name,
+          area_type: area.area_type,
+          radius_m: area.radius_m,
+          area_km2: area.area_km2
+        }
+      }))
+    });
+
+  } catch (error) {
+    console.error('Get alert areas error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const updateAffectedAreas = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Check if user is admin/authority
+    if (!STAFF_ROLES.includes(req.user!.role)) {
+      return res.status(403).json({ error: 'Insufficient permissions to update alerts' });
+    }
+
+    const areas = parseAlertAreas(req.body.areas ?? req.body);
+
+    const { data: alert } = await supabase
+      .from('alerts')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (!alert) {
+      return res.status(404).json({ error: 'Alert not found' });
+    }
+
+    if (!UNPUBLISHED_STATUSES.includes(alert.status) && alert.status !== AlertStatus.PUBLISHED) {
+      return res.status(409).json({ error: `A ${alert.status} alert can no longer be edited` });
+    }
+
+    // As with other edits, changing the areas of an alert under review sends it back to draft
+    if (alert.status === AlertStatus.SUBMITTED || alert.status === AlertStatus.APPROVED) {
+      const reopened = await transitionAlert(id, alert.status, AlertStatus.DRAFT, {
+        submitted_by: null,
+        submitted_at: null,
+        approved_by: null,
+        approved_at: null
+      });
+      if (!reopened) {
+        return conflict(res, 'editing');
+      }
+    }
+
+    await replaceAlertAreas(id, areas);
+    const targets = await getAlertTargets(id);
+
+    // Re-read so the revision, CAP Update and realtime event carry the alert as it now stands
+    const { data: updated, error: reloadError } = await supabaseAdmin
+      .from('alerts')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (reloadError) throw reloadError;
+
+    await recordTransition({ alertId: id, action: 'update', from: alert.status, to: updated.status, userId: req.user!.id, notes: 'areas' });
+    await recordRevision(updated, req.user!.id);
+
+    if (alert.status === AlertStatus.PUBLISHED) {
+      queueCapMessage(updated, 'Update');
+      publish({ type: 'alert.updated', sector: updated.sector, data: { alert: updated } });
+    }
+
+    res.json({
+      message: 'Alert areas updated successfully',
+      areas: areas.length,
+      targets
+    });
+
+  } catch (error) {
+    if (error instanceof WorkflowAuditError) {
+      return res.status(500).json({ error: error.message });
+    }
+    if (error instanceof GeoValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Update alert areas error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getAffectedTargets = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const targets = await getAlertTargets(id);
+
+    // Only staff see who is inside the geofence; everyone else gets counts
+    if (!STAFF_ROLES.includes(req.user!.role)) {
+      return res.json({
+        has_areas: targets.has_areas,
+        users: targets.users.length,
+        sensors: targets.sensors,
+        shelters: targets.shelters,
+        sectors: targets.sectors
+      });
+    }
+
+    res.json(targets);
+
+  } catch (error) {
+    console.error('Get alert targets error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
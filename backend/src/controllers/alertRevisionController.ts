@@ -0,0 +1,146 @@
+import { Response } from 'express';
+import { supabaseAdmin } from '../config/supabase';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { AlertRevision, diffRevisionContent } from '../services/alertRevisionService';
+
+const STAFF_ROLES = ['super_admin', 'admin', 'authority', 'operational'];
+
+const REVISION_AUTHOR = `
+  *,
+  users!alert_revisions_created_by_fkey (
+    id,
+    full_name,
+    role,
+    organization
+  )
+`;
+
+/**
+ * Revisions of an alert the requester may see, oldest first, or null if the
+ * alert does not exist for them. Staff see every revision; everyone else only
+ * sees what was issued: the revision live at publication and those after it.
+ */
+const loadVisibleRevisions = async (req: AuthenticatedRequest, alertId: string) => {
+  const { data: alert } = await supabaseAdmin
+    .from('alerts')
+    .select('id, published_at')
+    .eq('id', alertId)
+    .maybeSingle();
+
+  const staff = STAFF_ROLES.includes(req.user!.role);
+  if (!alert || (!staff && !alert.published_at)) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from('alert_revisions')
+    .select(REVISION_AUTHOR)
+    .eq('alert_id', alertId)
+    .order('revision_number', { ascending: true });
+
+  if (error) throw error;
+
+  const revisions = (data || []) as (AlertRevision & Record<string, any>)[];
+  if (staff) return revisions;
+
+  const publishedAt = new Date(alert.published_at).getTime();
+  const first = revisions.filter(revision => new Date(revision.created_at).getTime() <= publishedAt).length - 1;
+  return revisions.slice(Math.max(first, 0));
+};
+
+// Revision in effect at `at`: the newest one created at or before it
+const revisionAt = (revisions: AlertRevision[], at: Date) =>
+  revisions.filter(revision => new Date(revision.created_at).getTime() <= at.getTime()).pop() || null;
+
+export const getAlertRevisions = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { at } = req.query;
+
+    const revisions = await loadVisibleRevisions(req, id);
+    if (!revisions) {
+      return res.status(404).json({ error: 'Alert not found' });
+    }
+
+    // ?at= answers "what did the alert say at that moment?"
+    if (at) {
+      const moment = new Date(String(at));
+      if (Number.isNaN(moment.getTime())) {
+        return res.status(400).json({ error: 'at must be an ISO 8601 date' });
+      }
+      const revision = revisionAt(revisions, moment);
+      if (!revision) {
+        return res.status(404).json({ error: 'The alert had no issued content at that time' });
+      }
+      return res.json({ revision });
+    }
+
+    res.json({ revisions });
+
+  } catch (error) {
+    console.error('Get alert revisions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getAlertRevision = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id, revision: revisionNumber } = req.params;
+
+    const revisions = await loadVisibleRevisions(req, id);
+    const revision = revisions?.find(item => item.revision_number === Number(revisionNumber));
+
+    if (!revision) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    res.json({ revision });
+
+  } catch (error) {
+    console.error('Get alert revision error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Compare two revisions; `to` defaults to the latest and `from` to the one before `to`
+export const diffAlertRevisions = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const revisions = await loadVisibleRevisions(req, id);
+    if (!revisions) {
+      return res.status(404).json({ error: 'Alert not found' });
+    }
+    if (revisions.length === 0) {
+      return res.status(404).json({ error: 'This alert has no revisions' });
+    }
+
+    const toNumber = req.query.to ? Number(req.query.to) : revisions[revisions.length - 1].revision_number;
+    const to = revisions.find(revision => revision.revision_number === toNumber);
+    if (!to) {
+      return res.status(404).json({ error: `Revision ${req.query.to} not found` });
+    }
+
+    // Without `from`, diff against the previous revision (or nothing, for the first)
+    const fromNumber = req.query.from ? Number(req.query.from) : to.revision_number - 1;
+    const from = revisions.find(revision => revision.revision_number === fromNumber) || null;
+    if (req.query.from && !from) {
+      return res.status(404).json({ error: `Revision ${req.query.from} not found` });
+    }
+
+    const summary = (revision: AlertRevision | null) => revision && {
+      revision_number: revision.revision_number,
+      status: revision.status,
+      created_by: revision.created_by,
+      created_at: revision.created_at
+    };
+
+    res.json({
+      from: summary(from),
+      to: summary(to),
+      changes: diffRevisionContent(from?.content || null, to.content)
+    });
+
+  } catch (error) {
+    console.error('Diff alert revisions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -1,7 +1,23 @@
 import { Request, Response } from 'express';
-import bcrypt from 'bcryptjs';
-import jwt, { SignOptions } from 'jsonwebtoken';
+import { createClient } from '@supabase/supabase-js';
 import { supabase, supabaseAdmin, UserRole, UserStatus } from '../config/supabase';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { validatePassword, hashPassword, verifyPassword } from '../utils/password';
+import {
+  DeviceInfo,
+  createSession,
+  rotateSession,
+  findSessionByRefreshToken,
+  revokeSession,
+  revokeAllUserSessions
+} from '../services/sessionService';
+import { GeoValidationError, parseGeometry } from '../utils/geo';
+
+const getDeviceInfo = (req: Request): DeviceInfo => ({
+  device_id: (req.body?.device_id as string) || (req.headers['x-device-id'] as string) || null,
+  user_agent: req.headers['user-agent'] || null,
+  ip_address: req.ip || null
+});
 
 export const register = async (req: Request, res: Response) => {
   try {
@@ -22,6 +38,15 @@ export const register = async (req: Request, res: Response) => {
       });
     }
 
+    // Enforce password policy
+    const passwordErrors = validatePassword(password, email);
+    if (passwordErrors.length > 0) {
+      return res.status(400).json({
+        error: 'Password does not meet requirements',
+        details: passwordErrors
+      });
+    }
+
     // Validate role selection
     const allowedSignupRoles = [UserRole.FISHERFOLK, UserRole.CONTRIBUTOR];
     if (!allowedSignupRoles.includes(role)) {
@@ -42,20 +67,16 @@ export const register = async (req: Request, res: Response) => {
       return res.status(409).json({ error: 'User already exists' });
     }
 
-    // Hash password
-    const saltRounds = 12;
-    const hashedPassword = await bcrypt.hash(password, saltRounds);
-
     // Determine initial status based on role
     let initialStatus = UserStatus.PENDING;
     if (role === UserRole.FISHERFOLK) {
       initialStatus = UserStatus.APPROVED; // Fisherfolk get auto-approved
     }
 
-    // Create user in Supabase Auth
+    // Create user in Supabase Auth (Supabase hashes the password on its side)
     const { data: authUser, error: authError } = await supabase.auth.signUp({
       email,
-      password: hashedPassword,
+      password,
       options: {
         data: {
           full_name,
@@ -93,6 +114,22 @@ export const register = async (req: Request, res: Response) => {
       return res.status(500).json({ error: 'Profile creation failed' });
     }
 
+    // Store the password hash used by our own login
+    const { error: credentialError } = await supabaseAdmin
+      .from('user_credentials')
+      .insert({
+        user_id: authUser.user.id,
+        password_hash: await hashPassword(password),
+        password_changed_at: new Date().toISOString()
+      });
+
+    if (credentialError) {
+      console.error('Credential creation error:', credentialError);
+      await supabaseAdmin.from('users').delete().eq('id', authUser.user.id);
+      await supabaseAdmin.auth.admin.deleteUser(authUser.user.id);
+      return res.status(500).json({ error: 'Credential creation failed' });
+    }
+
     // Create user profile details
     await supabase
       .from('user_profiles')
@@ -120,6 +157,36 @@ export const register = async (req: Request, res: Response) => {
   }
 };
 
+// Accounts created before user_credentials only have a password in Supabase Auth.
+// Check it there once and store our own hash, so the next login uses the usual path.
+const migrateLegacyCredentials = async (userId: string, email: string, password: string): Promise<boolean> => {
+  // A throwaway client, so the sign-in never becomes the shared client's session
+  const authClient = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_ANON_KEY!, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+
+  const { data, error } = await authClient.auth.signInWithPassword({ email, password });
+  if (error || !data.user || data.user.id !== userId) {
+    return false;
+  }
+  await authClient.auth.signOut();
+
+  const { error: insertError } = await supabaseAdmin
+    .from('user_credentials')
+    .insert({
+      user_id: userId,
+      password_hash: await hashPassword(password),
+      password_changed_at: new Date().toISOString()
+    });
+
+  // A concurrent login may have stored the hash first; the password was still verified
+  if (insertError && insertError.code !== '23505') {
+    console.error('Migrate credentials error:', insertError);
+  }
+
+  return true;
+};
+
 export const login = async (req: Request, res: Response) => {
   try {
     const { email, password } = req.body;
@@ -141,6 +208,21 @@ export const login = async (req: Request, res: Response) => {
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
+    // Verify password against the stored hash before revealing account status
+    const { data: credentials } = await supabaseAdmin
+      .from('user_credentials')
+      .select('password_hash')
+      .eq('user_id', user.id)
+      .single();
+
+    if (credentials) {
+      if (!(await verifyPassword(password, credentials.password_hash))) {
+        return res.status(401).json({ error: 'Invalid credentials' });
+      }
+    } else if (!(await migrateLegacyCredentials(user.id, email, password))) {
+      return res.status(401).json({ error: 'Invalid credentials' });
+    }
+
     // Check if account is approved
     if (user.status !== UserStatus.APPROVED) {
       return res.status(403).json({
@@ -152,44 +234,12 @@ export const login = async (req: Request, res: Response) => {
       });
     }
 
-    // Verify password
-    const isValidPassword = await bcrypt.compare(password, req.body.password);
-    if (!isValidPassword) {
-      return res.status(401).json({ error: 'Invalid credentials' });
-    }
-
-    // Generate JWT token
-    const jwtOptions: SignOptions = { 
-      expiresIn: (process.env.JWT_EXPIRES_IN as string) || '24h' 
-    };
-    
-    const token = jwt.sign(
-      { 
-        userId: user.id, 
-        email: user.email, 
-        role: user.role,
-        status: user.status
-      },
-      process.env.JWT_SECRET || 'fallback-secret',
-      jwtOptions
-    );
-    // import jwt, { StringValue, SignOptions } from "jsonwebtoken";
-    //  const generateToken = (user: any) => {
-    //     const options: SignOptions = {
-    //       expiresIn: (process.env.JWT_EXPIRES_IN as StringValue) || "24h",
-    //     };
-      
-    //     return jwt.sign(
-    //       { id: user.id, role: user.role },
-    //       process.env.JWT_SECRET as string,
-    //       options
-    //     );
-    //   };
-
+    // Start a device session: short-lived access token plus rotating refresh token
+    const tokens = await createSession(user, getDeviceInfo(req));
 
     res.json({
       message: 'Login successful',
-      token,
+      ...tokens,
       user: {
         id: user.id,
         email: user.email,
@@ -206,6 +256,53 @@ export const login = async (req: Request, res: Response) => {
   }
 };
 
+export const refreshToken = async (req: Request, res: Response) => {
+  try {
+    const { refresh_token } = req.body;
+
+    if (!refresh_token) {
+      return res.status(400).json({ error: 'Refresh token is required' });
+    }
+
+    const result = await rotateSession(refresh_token, getDeviceInfo(req));
+
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error });
+    }
+
+    res.json({
+      message: 'Token refreshed successfully',
+      ...result.tokens
+    });
+
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const logout = async (req: Request, res: Response) => {
+  try {
+    const { refresh_token } = req.body;
+
+    if (!refresh_token) {
+      return res.status(400).json({ error: 'Refresh token is required' });
+    }
+
+    // Logging out an unknown or already revoked session is not an error
+    const session = await findSessionByRefreshToken(refresh_token);
+    if (session && !session.revoked_at) {
+      await revokeSession(session.id, 'logout');
+    }
+
+    res.json({ message: 'Logged out successfully' });
+
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
 export const getProfile = async (req: any, res: Response) => {
   try {
     const userId = req.user.id;
@@ -247,7 +344,18 @@ export const getProfile = async (req: any, res: Response) => {
 export const updateProfile = async (req: any, res: Response) => {
   try {
     const userId = req.user.id;
-    const { full_name, organization, phone, location, bio, expertise, emergency_contact } = req.body;
+    const { full_name, organization, phone, location, coordinates, bio, expertise, emergency_contact } = req.body;
+
+    // Home position for geofenced alerts; an explicit null clears it
+    const positionUpdate: Record<string, string | null> = {};
+    if (coordinates !== undefined) {
+      const position = parseGeometry(coordinates);
+      if (position && position.geometry.type !== 'Point') {
+        return res.status(400).json({ error: 'coordinates must be a single point' });
+      }
+      positionUpdate.coordinates = position?.coordinates || null;
+      positionUpdate.geom = position?.ewkt || null;
+    }
 
     // Update user table
     const { data: updatedUser, error: userError } = await supabase
@@ -257,6 +365,7 @@ export const updateProfile = async (req: any, res: Response) => {
         organization: organization || req.user.organization,
         phone: phone || req.user.phone,
         location: location || req.user.location,
+        ...positionUpdate,
         updated_at: new Date().toISOString()
       })
       .eq('id', userId)
@@ -288,7 +397,80 @@ export const updateProfile = async (req: any, res: Response) => {
     });
 
   } catch (error) {
+    if (error instanceof GeoValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Update profile error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
+
+export const changePassword = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { current_password, new_password } = req.body;
+
+    if (!current_password || !new_password) {
+      return res.status(400).json({
+        error: 'Missing required fields: current_password, new_password'
+      });
+    }
+
+    const { data: credentials, error: credentialError } = await supabaseAdmin
+      .from('user_credentials')
+      .select('password_hash')
+      .eq('user_id', userId)
+      .single();
+
+    if (credentialError || !credentials) {
+      return res.status(404).json({ error: 'Credentials not found' });
+    }
+
+    if (!(await verifyPassword(current_password, credentials.password_hash))) {
+      return res.status(401).json({ error: 'Current password is incorrect' });
+    }
+
+    const passwordErrors = validatePassword(new_password, req.user!.email);
+    if (passwordErrors.length > 0) {
+      return res.status(400).json({
+        error: 'Password does not meet requirements',
+        details: passwordErrors
+      });
+    }
+
+    if (await verifyPassword(new_password, credentials.password_hash)) {
+      return res.status(400).json({ error: 'New password must differ from the current password' });
+    }
+
+    // Keep Supabase Auth in sync so both sign-in paths accept the same password
+    const { error: authError } = await supabaseAdmin.auth.admin.updateUserById(userId, {
+      password: new_password
+    });
+
+    if (authError) {
+      console.error('Auth password update error:', authError);
+      return res.status(500).json({ error: 'Failed to update password' });
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('user_credentials')
+      .update({
+        password_hash: await hashPassword(new_password),
+        password_changed_at: new Date().toISOString()
+      })
+      .eq('user_id', userId);
+
+    if (updateError) {
+      return res.status(500).json({ error: 'Failed to update password' });
+    }
+
+    // A password change signs out every device, including this one
+    await revokeAllUserSessions(userId, 'password_changed');
+
+    res.json({ message: 'Password changed successfully, please sign in again' });
+
+  } catch (error) {
+    console.error('Change password error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,127 @@
+import { Request, Response } from 'express';
+import { supabaseAdmin } from '../config/supabase';
+import { CapMessageRecord, renderCapIndex, renderCapMessage } from '../services/capService';
+
+// Cancelled alerts stay in the index this long so consumers see the Cancel
+const CANCELLED_RETENTION_MS = 24 * 3600000;
+
+const feedBaseUrl = (req: Request) =>
+  process.env.CAP_BASE_URL || `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+
+export const getCapIndex = async (req: Request, res: Response) => {
+  try {
+    const now = new Date();
+    const cancelledSince = new Date(now.getTime() - CANCELLED_RETENTION_MS).toISOString();
+
+    const { data: alerts, error: alertsError } = await supabaseAdmin
+      .from('alerts')
+      .select('id')
+      .not('published_at', 'is', null)
+      .or(
+        `and(is_active.eq.true,or(expires_at.is.null,expires_at.gt.${now.toISOString()})),` +
+        `deactivated_at.gt.${cancelledSince}`
+      );
+
+    if (alertsError) {
+      return res.status(500).json({ error: 'Failed to fetch alerts' });
+    }
+
+    const alertIds = (alerts || []).map(alert => alert.id);
+    let latest: CapMessageRecord[] = [];
+
+    if (alertIds.length > 0) {
+      const { data: messages, error } = await supabaseAdmin
+        .from('cap_messages')
+        .select('*')
+        .in('alert_id', alertIds)
+        .order('sent_at', { ascending: false });
+
+      if (error) {
+        return res.status(500).json({ error: 'Failed to fetch CAP messages' });
+      }
+
+      // Newest message per alert
+      const seen = new Set<string>();
+      latest = ((messages || []) as CapMessageRecord[]).filter(message => {
+        if (seen.has(message.alert_id)) return false;
+        seen.add(message.alert_id);
+        return true;
+      });
+    }
+
+    res.type('application/atom+xml').send(renderCapIndex(latest, feedBaseUrl(req)));
+
+  } catch (error) {
+    console.error('Get CAP index error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getAlertCap = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { data: message, error } = await supabaseAdmin
+      .from('cap_messages')
+      .select('*')
+      .eq('alert_id', id)
+      .order('sent_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error || !message) {
+      return res.status(404).json({ error: 'No CAP message has been issued for this alert' });
+    }
+
+    res.type('application/cap+xml').send(renderCapMessage(message as CapMessageRecord));
+
+  } catch (error) {
+    console.error('Get alert CAP error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getCapMessage = async (req: Request, res: Response) => {
+  try {
+    const { identifier } = req.params;
+
+    const { data: message, error } = await supabaseAdmin
+      .from('cap_messages')
+      .select('*')
+      .eq('identifier', identifier)
+      .maybeSingle();
+
+    if (error || !message) {
+      return res.status(404).json({ error: 'CAP message not found' });
+    }
+
+    res.type('application/cap+xml').send(renderCapMessage(message as CapMessageRecord));
+
+  } catch (error) {
+    console.error('Get CAP message error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Message history for an alert (JSON), newest first
+export const getAlertCapHistory = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { data: messages, error } = await supabaseAdmin
+      .from('cap_messages')
+      .select('identifier, msg_type, sent_at, cap_references')
+      .eq('alert_id', id)
+      .order('sent_at', { ascending: false });
+
+    if (error) {
+      return res.status(500).json({ error: 'Failed to fetch CAP messages' });
+    }
+
+    res.json({ messages });
+
+  } catch (error) {
+    console.error('Get alert CAP history error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
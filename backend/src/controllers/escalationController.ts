@@ -0,0 +1,165 @@
+import { Response } from 'express';
+import { supabaseAdmin } from '../config/supabase';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { EscalationPolicyError, readPolicyFields } from '../services/escalationService';
+
+export const getEscalationPolicies = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { data: policies, error } = await supabaseAdmin
+      .from('escalation_policies')
+      .select('*')
+      .order('alert_type', { ascending: true, nullsFirst: false })
+      .order('category', { ascending: true, nullsFirst: false });
+
+    if (error) {
+      return res.status(500).json({ error: 'Failed to fetch escalation policies' });
+    }
+
+    res.json({ policies });
+
+  } catch (error) {
+    console.error('Get escalation policies error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const createEscalationPolicy = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.body.name || !req.body.steps) {
+      return res.status(400).json({ error: 'Missing required fields: name, steps' });
+    }
+
+    const fields = readPolicyFields(req.body);
+
+    const { data: policy, error } = await supabaseAdmin
+      .from('escalation_policies')
+      .insert({
+        ...fields,
+        created_by: req.user!.id,
+        updated_by: req.user!.id
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return res.status(409).json({ error: 'A policy for this alert type and category already exists' });
+      }
+      console.error('Create escalation policy error:', error);
+      return res.status(500).json({ error: 'Failed to create escalation policy' });
+    }
+
+    res.status(201).json({
+      message: 'Escalation policy created successfully',
+      policy
+    });
+
+  } catch (error) {
+    if (error instanceof EscalationPolicyError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Create escalation policy error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const updateEscalationPolicy = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const fields = readPolicyFields(req.body);
+
+    if (Object.keys(fields).length === 0) {
+      return res.status(400).json({ error: 'No editable fields supplied' });
+    }
+
+    const { data: policy, error } = await supabaseAdmin
+      .from('escalation_policies')
+      .update({
+        ...fields,
+        updated_by: req.user!.id,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === '23505') {
+        return res.status(409).json({ error: 'A policy for this alert type and category already exists' });
+      }
+      console.error('Update escalation policy error:', error);
+      return res.status(500).json({ error: 'Failed to update escalation policy' });
+    }
+
+    if (!policy) {
+      return res.status(404).json({ error: 'Escalation policy not found' });
+    }
+
+    res.json({
+      message: 'Escalation policy updated successfully',
+      policy
+    });
+
+  } catch (error) {
+    if (error instanceof EscalationPolicyError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Update escalation policy error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const deleteEscalationPolicy = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { data: deleted, error } = await supabaseAdmin
+      .from('escalation_policies')
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      return res.status(500).json({ error: 'Failed to delete escalation policy' });
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return res.status(404).json({ error: 'Escalation policy not found' });
+    }
+
+    res.json({ message: 'Escalation policy deleted successfully' });
+
+  } catch (error) {
+    console.error('Delete escalation policy error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Steps executed for one alert, oldest first
+export const getAlertEscalations = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { data: escalations, error } = await supabaseAdmin
+      .from('alert_escalations')
+      .select(`
+        *,
+        escalation_policies (
+          id,
+          name
+        )
+      `)
+      .eq('alert_id', id)
+      .order('executed_at', { ascending: true });
+
+    if (error) {
+      return res.status(500).json({ error: 'Failed to fetch alert escalations' });
+    }
+
+    res.json({ escalations });
+
+  } catch (error) {
+    console.error('Get alert escalations error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
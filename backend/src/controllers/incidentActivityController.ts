@@ -0,0 +1,124 @@
+import { Response } from 'express';
+import { supabaseAdmin } from '../config/supabase';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  IncidentComment,
+  IncidentCommentError,
+  announceComment,
+  buildActivity,
+  readCommentFields,
+  resolveMentions
+} from '../services/incidentActivityService';
+import { canFollowIncident } from '../services/incidentClusterService';
+import { INCIDENT_STAFF_ROLES } from '../services/realtimeService';
+
+// Load an incident the caller may follow: a reporter in its cluster or incident handling staff
+const loadFollowedIncident = async (req: AuthenticatedRequest, res: Response) => {
+  const { data: incident } = await supabaseAdmin
+    .from('incident_reports')
+    .select('id, incident_title, location, severity, sector, reporter_id, parent_id')
+    .eq('id', req.params.id)
+    .maybeSingle();
+
+  if (!incident) {
+    res.status(404).json({ error: 'Incident report not found' });
+    return null;
+  }
+
+  if (!INCIDENT_STAFF_ROLES.includes(req.user!.role) && !(await canFollowIncident(incident, req.user!.id))) {
+    res.status(403).json({ error: 'Access denied' });
+    return null;
+  }
+
+  return incident;
+};
+
+export const getIncidentActivity = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const incident = await loadFollowedIncident(req, res);
+    if (!incident) return;
+
+    const activity = await buildActivity(incident.id, INCIDENT_STAFF_ROLES.includes(req.user!.role));
+
+    res.json({ activity });
+
+  } catch (error) {
+    console.error('Get incident activity error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const createIncidentComment = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const staff = INCIDENT_STAFF_ROLES.includes(req.user!.role);
+    const fields = readCommentFields(req.body, staff);
+
+    const incident = await loadFollowedIncident(req, res);
+    if (!incident) return;
+
+    // Reporters take part in the public thread only
+    if (!staff && fields.visibility !== 'public') {
+      return res.status(403).json({ error: 'Reporters can only post public comments' });
+    }
+
+    if (fields.parent_id) {
+      const { data: parent } = await supabaseAdmin
+        .from('incident_comments')
+        .select('id, visibility')
+        .eq('id', fields.parent_id)
+        .eq('incident_id', incident.id)
+        .maybeSingle();
+
+      if (!parent) {
+        return res.status(400).json({ error: 'parent_id must be a comment on this incident' });
+      }
+      // A reply is never more visible than the thread it belongs to
+      if (parent.visibility === 'internal' && fields.visibility === 'public') {
+        return res.status(400).json({ error: 'Replies to an internal comment must be internal' });
+      }
+    }
+
+    const mentions = await resolveMentions(fields.body, fields.visibility, incident.reporter_id);
+
+    const { data: comment, error } = await supabaseAdmin
+      .from('incident_comments')
+      .insert({
+        ...fields,
+        incident_id: incident.id,
+        author_id: req.user!.id,
+        mentions
+      })
+      .select(`
+        *,
+        users!incident_comments_author_id_fkey (
+          id,
+          full_name,
+          role
+        )
+      `)
+      .single();
+
+    if (error) {
+      console.error('Create incident comment error:', error);
+      return res.status(500).json({ error: 'Failed to post comment' });
+    }
+
+    announceComment({
+      incident,
+      comment: comment as IncidentComment,
+      authorName: comment.users?.full_name || req.user!.email
+    });
+
+    res.status(201).json({
+      message: 'Comment posted successfully',
+      comment
+    });
+
+  } catch (error) {
+    if (error instanceof IncidentCommentError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Create incident comment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,48 @@
+import { Response } from 'express';
+import { UserRole, supabaseAdmin } from '../config/supabase';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  IncidentAnalyticsError,
+  analyticsScope,
+  computeIncidentAnalytics,
+  readAnalyticsRange
+} from '../services/incidentAnalyticsService';
+
+// Aggregate figures for incident reviews, limited to the reports the caller may see
+export const getIncidentAnalytics = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { sector, type, severity, include_merged } = req.query;
+    const range = readAnalyticsRange(req.query);
+
+    // Contributors are scoped to their organisation, which the token does not carry
+    let organization: string | null = null;
+    if (req.user!.role === UserRole.CONTRIBUTOR) {
+      const { data: user } = await supabaseAdmin
+        .from('users')
+        .select('organization')
+        .eq('id', req.user!.id)
+        .single();
+      organization = user?.organization || null;
+    }
+
+    const analytics = await computeIncidentAnalytics(
+      analyticsScope({ ...req.user!, organization }),
+      range,
+      {
+        sector: sector ? String(sector) : undefined,
+        incidentType: type ? String(type) : undefined,
+        severity: severity ? String(severity) : undefined,
+        includeMerged: include_merged === 'true'
+      }
+    );
+
+    res.json({ analytics });
+
+  } catch (error) {
+    if (error instanceof IncidentAnalyticsError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Get incident analytics error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,195 @@
+import { Response } from 'express';
+import { IncidentStatus, supabaseAdmin } from '../config/supabase';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  CLUSTER_COLUMNS,
+  ClusterIncident,
+  IncidentClusterError,
+  MAX_MERGE,
+  detectDuplicates,
+  listDuplicates,
+  listMergedClusters,
+  listSuggestedClusters,
+  mergeIncidents,
+  reviewDuplicate
+} from '../services/incidentClusterService';
+
+const loadIncident = async (id: string, res: Response) => {
+  const { data: incident } = await supabaseAdmin
+    .from('incident_reports')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (!incident) {
+    res.status(404).json({ error: 'Incident report not found' });
+    return null;
+  }
+
+  return incident;
+};
+
+const readIncidentIds = (value: unknown, parentId: string) => {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new IncidentClusterError('incident_ids must be a non-empty array of incident ids');
+  }
+  const ids = [...new Set(value.map(String))].filter(id => id !== parentId);
+  if (ids.length === 0) {
+    throw new IncidentClusterError('An incident cannot be merged into itself');
+  }
+  if (ids.length > MAX_MERGE) {
+    throw new IncidentClusterError(`At most ${MAX_MERGE} reports can be merged at once`);
+  }
+  return ids;
+};
+
+// Likely duplicates of a report; refresh=true scores it again against current reports first
+export const getIncidentDuplicates = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const incident = await loadIncident(req.params.id, res);
+    if (!incident) return;
+
+    if (req.query.refresh === 'true') {
+      await detectDuplicates(incident as ClusterIncident);
+    }
+
+    const duplicates = await listDuplicates(incident.id, req.query.include_reviewed === 'true');
+
+    res.json({ duplicates });
+
+  } catch (error) {
+    console.error('Get incident duplicates error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const dismissIncidentDuplicate = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id, otherId } = req.params;
+
+    const pair = await reviewDuplicate(id, otherId, 'dismissed', req.user!.id);
+    if (!pair) {
+      return res.status(404).json({ error: 'Duplicate suggestion not found' });
+    }
+
+    res.json({
+      message: 'Duplicate suggestion dismissed successfully',
+      duplicate: pair
+    });
+
+  } catch (error) {
+    console.error('Dismiss incident duplicate error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Merge duplicate reports into this one. The merged reports close as
+ * `merged` but keep their evidence, comments and reporters, who follow the
+ * parent from then on.
+ */
+export const mergeIncidentReports = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const incidentIds = readIncidentIds(req.body.incident_ids, id);
+
+    const parent = await loadIncident(id, res);
+    if (!parent) return;
+
+    if (parent.parent_id || parent.status === IncidentStatus.MERGED) {
+      return res.status(409).json({
+        error: 'Cannot merge into a report that has itself been merged; use its parent instead',
+        parent_id: parent.parent_id
+      });
+    }
+
+    const { data: children, error } = await supabaseAdmin
+      .from('incident_reports')
+      .select(`${CLUSTER_COLUMNS}, triaged_at, reopened_at`)
+      .in('id', incidentIds);
+
+    if (error) {
+      return res.status(500).json({ error: 'Failed to fetch incident reports' });
+    }
+
+    const missing = incidentIds.filter(incidentId => !children?.some(child => child.id === incidentId));
+    if (missing.length > 0) {
+      return res.status(404).json({ error: 'Incident report not found', incident_ids: missing });
+    }
+
+    const alreadyMerged = children!.filter(child => child.parent_id || child.status === IncidentStatus.MERGED);
+    if (alreadyMerged.length > 0) {
+      return res.status(409).json({
+        error: 'Some reports have already been merged',
+        incident_ids: alreadyMerged.map(child => child.id)
+      });
+    }
+
+    const merged = await mergeIncidents(parent, children as ClusterIncident[], req.user!.id, req.body.notes || null);
+    if (merged.length < incidentIds.length) {
+      return res.status(409).json({
+        error: 'Some reports changed while you were merging them; reload and try again',
+        merged
+      });
+    }
+
+    res.json({
+      message: 'Incident reports merged successfully',
+      incident: parent,
+      merged
+    });
+
+  } catch (error) {
+    if (error instanceof IncidentClusterError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Merge incident reports error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Incidents grouped with their merged reports, each with the combined extent
+ * of where it was reported. include=suggested adds groups linked only by
+ * pending duplicate suggestions; format=geojson returns one feature per
+ * cluster with the extent's hull as its geometry.
+ */
+export const getIncidentClusters = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const includeClosed = req.query.status === 'all';
+    const [merged, suggested] = await Promise.all([
+      listMergedClusters(includeClosed),
+      req.query.include === 'suggested' ? listSuggestedClusters() : Promise.resolve([])
+    ]);
+
+    const clusters = [...merged, ...suggested]
+      .sort((a, b) => (b.last_observed || '').localeCompare(a.last_observed || ''));
+
+    if (req.query.format === 'geojson') {
+      return res.json({
+        type: 'FeatureCollection',
+        features: clusters
+          .filter(cluster => cluster.extent)
+          .map(({ extent, incidents, ...cluster }) => ({
+            type: 'Feature',
+            id: cluster.id,
+            geometry: extent!.hull,
+            bbox: extent!.bbox,
+            properties: {
+              ...cluster,
+              parent: cluster.parent?.id || null,
+              incident_ids: incidents.map(incident => incident.id),
+              center: extent!.center,
+              radius_km: extent!.radius_km
+            }
+          }))
+      });
+    }
+
+    res.json({ clusters });
+
+  } catch (error) {
+    console.error('Get incident clusters error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
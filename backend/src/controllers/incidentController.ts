@@ -1,6 +1,60 @@
 import { Response } from 'express';
-import { supabase, supabaseAdmin } from '../config/supabase';
+import { IncidentSeverity, IncidentStatus, UserRole, supabase, supabaseAdmin } from '../config/supabase';
 import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  ALLOWED_FROM,
+  CLOSED_STATUSES,
+  IncidentWorkflowError,
+  RESOLUTION_OUTCOMES,
+  WORKFLOW_FIELDS,
+  computeDueAt,
+  loadSla,
+  readSlaFields,
+  recordIncidentTransition,
+  transitionIncident
+} from '../services/incidentWorkflowService';
+import {
+  MediaUploadError,
+  applyLocationConsent,
+  attachMedia,
+  loadDraftMedia,
+  readMediaIds
+} from '../services/incidentMediaService';
+import { OPEN_ALERT_STATUSES, loadIncidentAlerts } from '../services/incidentAlertService';
+import { announceDuplicates, canFollowIncident, loadClusterReporterIds } from '../services/incidentClusterService';
+import { INCIDENT_STAFF_ROLES, publish } from '../services/realtimeService';
+import {
+  INCIDENT_WORKFLOW,
+  WorkflowAuditError,
+  loadForAction as loadWorkflowRecord,
+  respondConflict
+} from '../services/workflowService';
+import { GeoValidationError, parseGeoFilter, parseGeometry, selectInArea } from '../utils/geo';
+
+const isStaff = (role: UserRole) => INCIDENT_STAFF_ROLES.includes(role);
+
+// Incident handlers and everyone who reported the incident (including reports merged into it) follow status changes live
+const publishIncidentStatus = (
+  incident: { id: string; status: string; sector: string | null; reporter_id: string; parent_id: string | null },
+  previousStatus: string | null
+) => {
+  loadClusterReporterIds(incident)
+    .catch(error => {
+      console.error(`Loading reporters of incident ${incident.id} failed:`, error);
+      return [incident.reporter_id];
+    })
+    .then(userIds => publish({
+      type: 'incident.status_changed',
+      sector: incident.sector,
+      roles: INCIDENT_STAFF_ROLES,
+      userIds,
+      data: {
+        incident_id: incident.id,
+        status: incident.status,
+        previous_status: previousStatus
+      }
+    }));
+};
 
 export const createIncidentReport = async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -44,6 +98,24 @@ export const createIncidentReport = async (req: AuthenticatedRequest, res: Respo
       });
     }
 
+    if (!Object.values(IncidentSeverity).includes(severity)) {
+      return res.status(400).json({ error: 'Invalid severity' });
+    }
+
+    const position = parseGeometry(coordinates);
+    const createdAt = new Date().toISOString();
+    const sla = await loadSla(severity);
+
+    // Photos and videos uploaded while the report was being written
+    const drafts = await loadDraftMedia(readMediaIds(req.body.media_ids), userId);
+
+    // Contact details default to the reporter's account
+    const { data: reporter } = await supabase
+      .from('users')
+      .select('full_name, phone, organization')
+      .eq('id', userId)
+      .single();
+
     // Create incident report
     const { data: incident, error } = await supabase
       .from('incident_reports')
@@ -54,7 +126,8 @@ export const createIncidentReport = async (req: AuthenticatedRequest, res: Respo
         description,
         severity,
         location,
-        coordinates: coordinates || null,
+        coordinates: position?.coordinates || null,
+        geom: position?.ewkt || null,
         sector: sector || null,
         nearest_landmark: nearest_landmark || null,
         date_time,
@@ -68,16 +141,19 @@ export const createIncidentReport = async (req: AuthenticatedRequest, res: Respo
         immediate_actions: immediate_actions || null,
         authorities_notified: authorities_notified || false,
         emergency_services_called: emergency_services_called || false,
-        reporter_name: reporter_name || req.user!.full_name,
-        reporter_phone: reporter_phone || req.user!.phone,
+        reporter_name: reporter_name || reporter?.full_name || null,
+        reporter_phone: reporter_phone || reporter?.phone || null,
         reporter_email: reporter_email || req.user!.email,
-        organization: organization || req.user!.organization,
+        organization: organization || reporter?.organization || null,
         relationship_to_incident: relationship_to_incident || null,
         photos: photos || [],
         videos: videos || [],
         additional_notes: additional_notes || null,
         consent_to_contact: consent_to_contact || false,
-        consent_to_share: consent_to_share || false
+        consent_to_share: consent_to_share || false,
+        status: IncidentStatus.PENDING,
+        due_at: computeDueAt({ status: IncidentStatus.PENDING, created_at: createdAt }, sla),
+        created_at: createdAt
       })
       .select()
       .single();
@@ -87,12 +163,26 @@ export const createIncidentReport = async (req: AuthenticatedRequest, res: Respo
       return res.status(500).json({ error: 'Failed to create incident report' });
     }
 
+    await recordIncidentTransition({ incidentId: incident.id, action: 'create', from: null, to: incident.status, userId });
+
+    const media = await attachMedia(incident.id, drafts);
+
+    // Triagers are told about likely duplicates once scoring finishes
+    announceDuplicates(incident);
+
     res.status(201).json({
       message: 'Incident report created successfully',
-      incident
+      incident,
+      media
     });
 
   } catch (error) {
+    if (error instanceof WorkflowAuditError) {
+      return res.status(500).json({ error: error.message });
+    }
+    if (error instanceof GeoValidationError || error instanceof MediaUploadError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Create incident error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -100,12 +190,11 @@ export const createIncidentReport = async (req: AuthenticatedRequest, res: Respo
 
 export const getIncidentReports = async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { status, type, severity, location, page = 1, limit = 20 } = req.query;
+    const { status, type, severity, location, assigned_to, assigned_team, overdue, page = 1, limit = 20 } = req.query;
     const offset = (Number(page) - 1) * Number(limit);
+    const area = parseGeoFilter(req.query);
 
-    let query = supabase
-      .from('incident_reports')
-      .select(`
+    let query = selectInArea(supabase, 'incident_reports', `
         *,
         users!incident_reports_reporter_id_fkey (
           id,
@@ -114,7 +203,7 @@ export const getIncidentReports = async (req: AuthenticatedRequest, res: Respons
           organization,
           role
         )
-      `)
+      `, area, 'exact')
       .order('created_at', { ascending: false });
 
     // Apply filters
@@ -122,6 +211,10 @@ export const getIncidentReports = async (req: AuthenticatedRequest, res: Respons
     if (type) query = query.eq('incident_type', type);
     if (severity) query = query.eq('severity', severity);
     if (location) query = query.ilike('location', `%${location}%`);
+    if (assigned_to) query = query.eq('assigned_to', assigned_to === 'me' ? req.user!.id : assigned_to);
+    if (assigned_team) query = query.eq('assigned_team', assigned_team);
+    // Open incidents past their current SLA deadline (closed incidents have no deadline)
+    if (overdue === 'true') query = query.lt('due_at', new Date().toISOString());
 
     // Apply pagination
     query = query.range(offset, offset + Number(limit) - 1);
@@ -142,6 +235,9 @@ export const getIncidentReports = async (req: AuthenticatedRequest, res: Respons
     });
 
   } catch (error) {
+    if (error instanceof GeoValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Get incidents error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -171,12 +267,107 @@ export const getIncidentReport = async (req: AuthenticatedRequest, res: Response
       return res.status(404).json({ error: 'Incident report not found' });
     }
 
-    // Check if user can view this report
-    if (incident.reporter_id !== userId && !['super_admin', 'admin', 'authority', 'operational'].includes(req.user!.role)) {
+    // Check if user can view this report: staff, or anyone who reported it or a report merged with it
+    const staff = isStaff(req.user!.role);
+    if (!staff && !(await canFollowIncident(incident, userId))) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
-    res.json({ incident });
+    // Another reporter's report in the same cluster: its status and where it was merged, nothing that identifies
+    // the reporter or pins down where they were. Its public comments come from /:id/activity.
+    if (!staff && incident.reporter_id !== userId) {
+      const { data: parent } = incident.parent_id
+        ? await supabaseAdmin.from('incident_reports').select('id, incident_title, status').eq('id', incident.parent_id).maybeSingle()
+        : { data: null };
+
+      return res.json({
+        redacted: true,
+        incident: {
+          id: incident.id,
+          incident_title: incident.incident_title,
+          incident_type: incident.incident_type,
+          severity: incident.severity,
+          status: incident.status,
+          parent_id: incident.parent_id,
+          merged_at: incident.merged_at,
+          created_at: incident.created_at
+        },
+        parent
+      });
+    }
+
+    // Reports merged into this one, and the incident this one was merged into
+    const [{ data: mergedReports }, { data: parent }] = await Promise.all([
+      supabaseAdmin
+        .from('incident_reports')
+        .select(staff
+          ? `id, incident_title, incident_type, severity, location, date_time, created_at, merged_at, reporter_id,
+            users!incident_reports_reporter_id_fkey (
+              id,
+              full_name,
+              organization
+            )`
+          : 'id, incident_title, incident_type, severity, date_time, created_at, merged_at')
+        .eq('parent_id', id)
+        .order('date_time', { ascending: true }),
+      incident.parent_id
+        ? supabaseAdmin.from('incident_reports').select('id, incident_title, status').eq('id', incident.parent_id).maybeSingle()
+        : Promise.resolve({ data: null })
+    ]);
+    const cluster = { merged_reports: mergedReports || [], parent };
+
+    // Alerts promoted from this incident (published ones only for reporters), and those still open
+    const alerts = await loadIncidentAlerts(id, staff);
+    const openAlerts = alerts.filter(alert => OPEN_ALERT_STATUSES.includes(alert.status));
+
+    // Every resolution is kept, so a reopened incident shows how it was closed before
+    const { data: resolutions } = await supabaseAdmin
+      .from('incident_resolutions')
+      .select(`
+        *,
+        users!incident_resolutions_resolved_by_fkey (
+          id,
+          full_name,
+          organization
+        )
+      `)
+      .eq('incident_id', id)
+      .order('created_at', { ascending: false });
+
+    if (!staff) {
+      return res.json({ incident, resolutions: resolutions || [], alerts, open_alerts: openAlerts, ...cluster });
+    }
+
+    // Handling details are internal to staff
+    const [{ data: transitions }, { data: assignee }, { data: team }] = await Promise.all([
+      supabaseAdmin
+        .from('incident_transitions')
+        .select(`
+          *,
+          users!incident_transitions_performed_by_fkey (
+            id,
+            full_name,
+            role
+          )
+        `)
+        .eq('incident_id', id)
+        .order('created_at', { ascending: true }),
+      incident.assigned_to
+        ? supabaseAdmin.from('users').select('id, full_name, email, role, organization').eq('id', incident.assigned_to).maybeSingle()
+        : Promise.resolve({ data: null }),
+      incident.assigned_team
+        ? supabaseAdmin.from('teams').select('id, name, organization').eq('id', incident.assigned_team).maybeSingle()
+        : Promise.resolve({ data: null })
+    ]);
+
+    res.json({
+      incident: { ...incident, assignee, team },
+      resolutions: resolutions || [],
+      transitions: transitions || [],
+      alerts,
+      open_alerts: openAlerts,
+      ...cluster
+    });
 
   } catch (error) {
     console.error('Get incident error:', error);
@@ -188,7 +379,24 @@ export const updateIncidentReport = async (req: AuthenticatedRequest, res: Respo
   try {
     const { id } = req.params;
     const userId = req.user!.id;
-    const updateData = req.body;
+    const updateData = { ...req.body };
+
+    // Status, assignment and deadlines only change through the workflow endpoints
+    for (const field of [...WORKFLOW_FIELDS, 'id', 'reporter_id', 'created_at']) {
+      delete updateData[field];
+    }
+
+    if (updateData.severity !== undefined && !Object.values(IncidentSeverity).includes(updateData.severity)) {
+      return res.status(400).json({ error: 'Invalid severity' });
+    }
+
+    // Geometry is always derived from coordinates, never written directly
+    delete updateData.geom;
+    if (updateData.coordinates !== undefined) {
+      const position = parseGeometry(updateData.coordinates);
+      updateData.coordinates = position?.coordinates || null;
+      updateData.geom = position?.ewkt || null;
+    }
 
     // Get current incident
     const { data: currentIncident, error: fetchError } = await supabase
@@ -202,15 +410,20 @@ export const updateIncidentReport = async (req: AuthenticatedRequest, res: Respo
     }
 
     // Check permissions
-    if (currentIncident.reporter_id !== userId && !['super_admin', 'admin', 'authority', 'operational'].includes(req.user!.role)) {
+    if (currentIncident.reporter_id !== userId && !isStaff(req.user!.role)) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
     // Regular users can only update pending reports
-    if (currentIncident.reporter_id === userId && currentIncident.status !== 'pending') {
+    if (currentIncident.reporter_id === userId && currentIncident.status !== IncidentStatus.PENDING) {
       return res.status(400).json({ error: 'Can only update pending reports' });
     }
 
+    // A new severity moves the current SLA deadline
+    if (updateData.severity && updateData.severity !== currentIncident.severity) {
+      updateData.due_at = computeDueAt(currentIncident, await loadSla(updateData.severity));
+    }
+
     // Update incident
     const { data: updatedIncident, error } = await supabase
       .from('incident_reports')
@@ -226,89 +439,462 @@ export const updateIncidentReport = async (req: AuthenticatedRequest, res: Respo
       return res.status(500).json({ error: 'Failed to update incident report' });
     }
 
+    // Withdrawn consent to share removes the embedded location from evidence already stored
+    if (currentIncident.consent_to_share && updatedIncident.consent_to_share === false) {
+      applyLocationConsent(id).catch(consentError => {
+        console.error(`Removing media location for incident ${id} failed:`, consentError);
+      });
+    }
+
     res.json({
       message: 'Incident report updated successfully',
       incident: updatedIncident
     });
 
   } catch (error) {
+    if (error instanceof GeoValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Update incident error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
 
-export const verifyIncidentReport = async (req: AuthenticatedRequest, res: Response) => {
+const loadForAction = (id: string, action: keyof typeof ALLOWED_FROM, res: Response) =>
+  loadWorkflowRecord(INCIDENT_WORKFLOW, id, action, ALLOWED_FROM[action], res);
+
+const conflict = (res: Response, doing: string) => respondConflict(res, INCIDENT_WORKFLOW, doing);
+
+export const triageIncidentReport = async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const adminId = req.user!.id;
+    const { severity, notes } = req.body;
 
-    // Check if user is admin/authority
-    if (!['super_admin', 'admin', 'authority', 'operational'].includes(req.user!.role)) {
-      return res.status(403).json({ error: 'Insufficient permissions' });
+    if (severity !== undefined && !Object.values(IncidentSeverity).includes(severity)) {
+      return res.status(400).json({ error: 'Invalid severity' });
     }
 
-    const { data: incident, error } = await supabase
+    const current = await loadForAction(id, 'triage', res);
+    if (!current) return;
+
+    const incident = await transitionIncident(current, IncidentStatus.TRIAGED, {
+      ...(severity ? { severity } : {}),
+      triaged_by: req.user!.id,
+      triaged_at: new Date().toISOString()
+    });
+
+    if (!incident) return conflict(res, 'triaging');
+
+    await recordIncidentTransition({ incidentId: id, action: 'triage', from: current.status, to: incident.status, userId: req.user!.id, notes });
+    publishIncidentStatus(incident, current.status);
+
+    res.json({
+      message: 'Incident report triaged successfully',
+      incident
+    });
+
+  } catch (error) {
+    if (error instanceof WorkflowAuditError) {
+      return res.status(500).json({ error: error.message });
+    }
+    console.error('Triage incident error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Set or clear the assigned user and/or team; fields left out of the body are unchanged
+export const assignIncidentReport = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { user_id, team_id, notes } = req.body;
+
+    if (user_id === undefined && team_id === undefined) {
+      return res.status(400).json({ error: 'Provide user_id and/or team_id (null to unassign)' });
+    }
+
+    const { data: current } = await supabaseAdmin
       .from('incident_reports')
-      .update({
-        status: 'verified',
-        verified_by: adminId,
-        verified_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      })
+      .select('*')
       .eq('id', id)
-      .select()
-      .single();
+      .maybeSingle();
 
-    if (error || !incident) {
+    if (!current) {
       return res.status(404).json({ error: 'Incident report not found' });
     }
 
+    if (CLOSED_STATUSES.includes(current.status)) {
+      return res.status(409).json({ error: `Cannot assign an incident that is ${current.status}; reopen it first` });
+    }
+
+    if (user_id) {
+      const { data: assignee } = await supabaseAdmin
+        .from('users')
+        .select('id, role, status')
+        .eq('id', user_id)
+        .maybeSingle();
+
+      if (!assignee || assignee.status !== 'approved' || !isStaff(assignee.role)) {
+        return res.status(400).json({ error: 'Incidents can only be assigned to approved staff users' });
+      }
+    }
+
+    let teamMembers: string[] = [];
+    if (team_id) {
+      const { data: team } = await supabaseAdmin
+        .from('teams')
+        .select('id, team_members ( user_id )')
+        .eq('id', team_id)
+        .maybeSingle();
+
+      if (!team) {
+        return res.status(400).json({ error: 'Team not found' });
+      }
+      teamMembers = (team.team_members || []).map((member: { user_id: string }) => member.user_id);
+    }
+
+    const changes: Record<string, unknown> = {
+      assigned_by: req.user!.id,
+      assigned_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    };
+    if (user_id !== undefined) changes.assigned_to = user_id || null;
+    if (team_id !== undefined) changes.assigned_team = team_id || null;
+
+    // Only while the incident is still open in the status we checked
+    const { data: incident, error } = await supabaseAdmin
+      .from('incident_reports')
+      .update(changes)
+      .eq('id', id)
+      .eq('status', current.status)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Assign incident error:', error);
+      return res.status(500).json({ error: 'Failed to assign incident report' });
+    }
+
+    if (!incident) return conflict(res, 'assigning');
+
+    await recordIncidentTransition({
+      incidentId: id,
+      action: 'assign',
+      from: current.status,
+      to: incident.status,
+      userId: req.user!.id,
+      notes: notes || [
+        incident.assigned_to ? `user ${incident.assigned_to}` : null,
+        incident.assigned_team ? `team ${incident.assigned_team}` : null
+      ].filter(Boolean).join(', ') || 'unassigned'
+    });
+
+    // The new assignee and team are told directly
+    const notify = [...new Set([incident.assigned_to, ...teamMembers].filter(Boolean))] as string[];
+    if (notify.length > 0) {
+      publish({
+        type: 'incident.assigned',
+        sector: null,
+        userIds: notify,
+        data: {
+          incident_id: incident.id,
+          incident_title: incident.incident_title,
+          severity: incident.severity,
+          assigned_to: incident.assigned_to,
+          assigned_team: incident.assigned_team,
+          assigned_by: req.user!.id,
+          due_at: incident.due_at
+        }
+      });
+    }
+
+    res.json({
+      message: 'Incident report assigned successfully',
+      incident
+    });
+
+  } catch (error) {
+    if (error instanceof WorkflowAuditError) {
+      return res.status(500).json({ error: error.message });
+    }
+    console.error('Assign incident error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const startIncidentInvestigation = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const current = await loadForAction(id, 'investigate', res);
+    if (!current) return;
+
+    // Whoever starts an unassigned investigation owns it
+    const now = new Date().toISOString();
+    const incident = await transitionIncident(current, IncidentStatus.INVESTIGATING, current.assigned_to ? {} : {
+      assigned_to: req.user!.id,
+      assigned_by: req.user!.id,
+      assigned_at: now
+    });
+
+    if (!incident) return conflict(res, 'starting the investigation of');
+
+    await recordIncidentTransition({ incidentId: id, action: 'investigate', from: current.status, to: incident.status, userId: req.user!.id, notes: req.body.notes });
+    publishIncidentStatus(incident, current.status);
+
+    res.json({
+      message: 'Incident investigation started',
+      incident
+    });
+
+  } catch (error) {
+    if (error instanceof WorkflowAuditError) {
+      return res.status(500).json({ error: error.message });
+    }
+    console.error('Investigate incident error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const verifyIncidentReport = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const current = await loadForAction(id, 'verify', res);
+    if (!current) return;
+
+    const incident = await transitionIncident(current, IncidentStatus.VERIFIED, {
+      verified_by: req.user!.id,
+      verified_at: new Date().toISOString()
+    });
+
+    if (!incident) return conflict(res, 'verifying');
+
+    await recordIncidentTransition({ incidentId: id, action: 'verify', from: current.status, to: incident.status, userId: req.user!.id, notes: req.body.notes });
+    publishIncidentStatus(incident, current.status);
+
     res.json({
       message: 'Incident report verified successfully',
       incident
     });
 
   } catch (error) {
+    if (error instanceof WorkflowAuditError) {
+      return res.status(500).json({ error: error.message });
+    }
     console.error('Verify incident error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
 
+// Close a report as false or unfounded
+export const rejectIncidentReport = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { notes } = req.body;
+
+    if (!notes) {
+      return res.status(400).json({ error: 'notes are required to explain the rejection' });
+    }
+
+    const current = await loadForAction(id, 'reject', res);
+    if (!current) return;
+
+    const incident = await transitionIncident(current, IncidentStatus.REJECTED, {
+      rejected_by: req.user!.id,
+      rejected_at: new Date().toISOString()
+    });
+
+    if (!incident) return conflict(res, 'rejecting');
+
+    await recordIncidentTransition({ incidentId: id, action: 'reject', from: current.status, to: incident.status, userId: req.user!.id, notes });
+    publishIncidentStatus(incident, current.status);
+
+    res.json({
+      message: 'Incident report rejected',
+      incident
+    });
+
+  } catch (error) {
+    if (error instanceof WorkflowAuditError) {
+      return res.status(500).json({ error: error.message });
+    }
+    console.error('Reject incident error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
 export const resolveIncidentReport = async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const { resolution_notes } = req.body;
-    const adminId = req.user!.id;
+    const { outcome = 'resolved', actions_taken } = req.body;
+    // resolution_notes is the field older clients send
+    const summary = req.body.summary ?? req.body.resolution_notes;
 
-    // Check if user is admin/authority
-    if (!['super_admin', 'admin', 'authority', 'operational'].includes(req.user!.role)) {
-      return res.status(403).json({ error: 'Insufficient permissions' });
+    if (!summary) {
+      return res.status(400).json({ error: 'Missing required field: summary' });
+    }
+    if (!RESOLUTION_OUTCOMES.includes(outcome)) {
+      return res.status(400).json({ error: `outcome must be one of: ${RESOLUTION_OUTCOMES.join(', ')}` });
     }
 
-    const { data: incident, error } = await supabase
-      .from('incident_reports')
-      .update({
-        status: 'resolved',
-        resolved_by: adminId,
-        resolved_at: new Date().toISOString(),
-        additional_notes: resolution_notes,
-        updated_at: new Date().toISOString()
+    const current = await loadForAction(id, 'resolve', res);
+    if (!current) return;
+
+    // The resolution is written first so a resolved incident always has one
+    const { data: resolution, error: resolutionError } = await supabaseAdmin
+      .from('incident_resolutions')
+      .insert({
+        incident_id: id,
+        outcome,
+        summary,
+        actions_taken: actions_taken || null,
+        resolved_by: req.user!.id
       })
-      .eq('id', id)
       .select()
       .single();
 
-    if (error || !incident) {
-      return res.status(404).json({ error: 'Incident report not found' });
+    if (resolutionError) {
+      console.error('Create incident resolution error:', resolutionError);
+      return res.status(500).json({ error: 'Failed to record incident resolution' });
     }
 
+    const incident = await transitionIncident(current, IncidentStatus.RESOLVED, {
+      resolved_by: req.user!.id,
+      resolved_at: resolution.created_at
+    });
+
+    if (!incident) {
+      await supabaseAdmin.from('incident_resolutions').delete().eq('id', resolution.id);
+      return conflict(res, 'resolving');
+    }
+
+    await recordIncidentTransition({ incidentId: id, action: 'resolve', from: current.status, to: incident.status, userId: req.user!.id, notes: summary });
+    publishIncidentStatus(incident, current.status);
+
+    // Alerts promoted from this incident are not cancelled automatically; clients offer to deactivate them
+    const alerts = await loadIncidentAlerts(id, true);
+
     res.json({
       message: 'Incident report resolved successfully',
-      incident
+      incident,
+      resolution,
+      open_alerts: alerts.filter(alert => OPEN_ALERT_STATUSES.includes(alert.status))
     });
 
   } catch (error) {
+    if (error instanceof WorkflowAuditError) {
+      return res.status(500).json({ error: error.message });
+    }
     console.error('Resolve incident error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
+
+export const reopenIncidentReport = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { notes } = req.body;
+
+    if (!notes) {
+      return res.status(400).json({ error: 'notes are required to explain why the incident is reopened' });
+    }
+
+    const current = await loadForAction(id, 'reopen', res);
+    if (!current) return;
+
+    // Earlier resolutions and the transition history keep the record of how it was closed;
+    // a merged report that is reopened stands on its own again
+    const incident = await transitionIncident(current, IncidentStatus.REOPENED, {
+      reopened_by: req.user!.id,
+      reopened_at: new Date().toISOString(),
+      resolved_by: null,
+      resolved_at: null,
+      rejected_by: null,
+      rejected_at: null,
+      parent_id: null,
+      merged_by: null,
+      merged_at: null
+    });
+
+    if (!incident) return conflict(res, 'reopening');
+
+    await recordIncidentTransition({ incidentId: id, action: 'reopen', from: current.status, to: incident.status, userId: req.user!.id, notes });
+    publishIncidentStatus(incident, current.status);
+
+    res.json({
+      message: 'Incident report reopened',
+      incident
+    });
+
+  } catch (error) {
+    if (error instanceof WorkflowAuditError) {
+      return res.status(500).json({ error: error.message });
+    }
+    console.error('Reopen incident error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getIncidentSlas = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { data: slas, error } = await supabaseAdmin
+      .from('incident_slas')
+      .select('*');
+
+    if (error) {
+      return res.status(500).json({ error: 'Failed to fetch incident SLAs' });
+    }
+
+    const rank = Object.values(IncidentSeverity).reverse() as string[];
+    res.json({ slas: (slas || []).sort((a, b) => rank.indexOf(a.severity) - rank.indexOf(b.severity)) });
+
+  } catch (error) {
+    console.error('Get incident SLAs error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Applies to deadlines set from now on; open incidents keep the deadline they were given
+export const updateIncidentSla = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { severity } = req.params;
+
+    if (!Object.values(IncidentSeverity).includes(severity as IncidentSeverity)) {
+      return res.status(404).json({ error: 'Unknown severity' });
+    }
+
+    const fields = readSlaFields(req.body);
+    if (Object.keys(fields).length === 0) {
+      return res.status(400).json({ error: 'Provide triage_minutes and/or resolve_minutes' });
+    }
+
+    const merged = { ...(await loadSla(severity)), ...fields };
+    readSlaFields(merged);
+
+    const { data: sla, error } = await supabaseAdmin
+      .from('incident_slas')
+      .upsert({
+        ...merged,
+        severity,
+        updated_by: req.user!.id,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'severity' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Update incident SLA error:', error);
+      return res.status(500).json({ error: 'Failed to update incident SLA' });
+    }
+
+    res.json({
+      message: 'Incident SLA updated successfully',
+      sla
+    });
+
+  } catch (error) {
+    if (error instanceof IncidentWorkflowError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Update incident SLA error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,330 @@
+import { NextFunction, Request, Response } from 'express';
+import { IncidentStatus, supabaseAdmin } from '../config/supabase';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  IncidentMedia,
+  MEDIA_CHUNK_BYTES,
+  MEDIA_SIZE_LIMITS,
+  MEDIA_TYPES,
+  MediaOffsetError,
+  MediaUploadError,
+  appendChunk,
+  attachMedia,
+  createUpload,
+  deleteMedia,
+  loadDraftMedia,
+  openMedia,
+  readMediaIds,
+  readUploadFields,
+  setThumbnail
+} from '../services/incidentMediaService';
+import { backsPublishedAlert } from '../services/incidentAlertService';
+import { canFollowIncident } from '../services/incidentClusterService';
+import { INCIDENT_STAFF_ROLES } from '../services/realtimeService';
+
+// Load an incident whose media the caller may see or add to: a reporter in its cluster or incident handling staff.
+// Anyone may see (not add to) the evidence behind a published alert when the reporter agreed to share it.
+const loadMediaIncident = async (incidentId: string, req: AuthenticatedRequest, res: Response, readOnly = false) => {
+  const { data: incident } = await supabaseAdmin
+    .from('incident_reports')
+    .select('id, reporter_id, status, parent_id, consent_to_share')
+    .eq('id', incidentId)
+    .maybeSingle();
+
+  if (!incident) {
+    res.status(404).json({ error: 'Incident report not found' });
+    return null;
+  }
+
+  if (
+    !INCIDENT_STAFF_ROLES.includes(req.user!.role) &&
+    !(await canFollowIncident(incident, req.user!.id)) &&
+    !(readOnly && await backsPublishedAlert(incident))
+  ) {
+    res.status(403).json({ error: 'Access denied' });
+    return null;
+  }
+
+  return incident;
+};
+
+// Capture metadata (the EXIF location above all) is for staff and the uploader; everyone else gets the file without it
+const redactMedia = (media: IncidentMedia, req: AuthenticatedRequest): IncidentMedia =>
+  media.uploaded_by === req.user!.id || INCIDENT_STAFF_ROLES.includes(req.user!.role)
+    ? media
+    : { ...media, metadata: {} };
+
+// Another reporter in the cluster only sees a report's evidence when its reporter agreed to share it
+const sharesWith = (report: { reporter_id: string | null; consent_to_share: boolean | null }, userId: string) =>
+  report.reporter_id === userId || report.consent_to_share === true;
+
+// Load a media item the caller may see: its uploader, staff, or a reporter in the cluster of the incident it belongs to
+// when that incident is theirs or shared. With readOnly, also anyone when the shared evidence backs a published alert.
+const loadAccessibleMedia = async (req: AuthenticatedRequest, res: Response, readOnly = false) => {
+  const { data: media } = await supabaseAdmin
+    .from('incident_media')
+    .select('*')
+    .eq('id', req.params.mediaId)
+    .maybeSingle();
+
+  if (!media) {
+    res.status(404).json({ error: 'Media not found' });
+    return null;
+  }
+
+  if (media.uploaded_by === req.user!.id || INCIDENT_STAFF_ROLES.includes(req.user!.role)) {
+    return media as IncidentMedia;
+  }
+
+  if (media.incident_id) {
+    const { data: incident } = await supabaseAdmin
+      .from('incident_reports')
+      .select('id, reporter_id, parent_id, consent_to_share')
+      .eq('id', media.incident_id)
+      .maybeSingle();
+    if (incident && sharesWith(incident, req.user!.id) && await canFollowIncident(incident, req.user!.id)) {
+      return media as IncidentMedia;
+    }
+
+    // Evidence merged into a parent incident backs the parent's alerts too
+    const backing = incident?.parent_id ? { ...incident, id: incident.parent_id } : incident;
+    if (readOnly && backing && await backsPublishedAlert(backing)) return media as IncidentMedia;
+  }
+
+  res.status(403).json({ error: 'Access denied' });
+  return null;
+};
+
+const handleMediaError = (label: string, error: unknown, res: Response) => {
+  if (error instanceof MediaOffsetError) {
+    return res.status(409).json({ error: error.message, received_bytes: error.receivedBytes });
+  }
+  if (error instanceof MediaUploadError) {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error(`${label} error:`, error);
+  res.status(500).json({ error: 'Internal server error' });
+};
+
+// Size and type limits, so clients can check files before starting an upload
+export const getMediaLimits = (req: AuthenticatedRequest, res: Response) => {
+  res.json({
+    content_types: Object.keys(MEDIA_TYPES),
+    max_photo_bytes: MEDIA_SIZE_LIMITS.photo,
+    max_video_bytes: MEDIA_SIZE_LIMITS.video,
+    chunk_size: MEDIA_CHUNK_BYTES
+  });
+};
+
+export const createMediaUpload = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const fields = readUploadFields(req.body);
+
+    // Uploads either start as drafts for a report being written, or go straight onto an existing one
+    let incidentId: string | null = null;
+    if (req.body.incident_id) {
+      const incident = await loadMediaIncident(String(req.body.incident_id), req, res);
+      if (!incident) return;
+      incidentId = incident.id;
+    }
+
+    const media = await createUpload(fields, req.user!.id, incidentId);
+
+    res.status(201).json({
+      message: 'Upload started successfully',
+      media,
+      chunk_size: MEDIA_CHUNK_BYTES
+    });
+
+  } catch (error) {
+    handleMediaError('Create media upload', error, res);
+  }
+};
+
+export const getMediaUpload = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const media = await loadAccessibleMedia(req, res);
+    if (!media) return;
+
+    res.json({ media: redactMedia(media, req) });
+
+  } catch (error) {
+    handleMediaError('Get media', error, res);
+  }
+};
+
+// Body is the raw bytes of the chunk; Upload-Offset says where in the file it starts
+export const uploadMediaChunk = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const media = await loadAccessibleMedia(req, res);
+    if (!media) return;
+
+    if (media.uploaded_by !== req.user!.id) {
+      return res.status(403).json({ error: 'Only the uploader can send file content' });
+    }
+
+    const offset = Number(req.header('Upload-Offset'));
+    if (!Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({ error: 'Upload-Offset header must be a byte offset' });
+    }
+    if (!Buffer.isBuffer(req.body)) {
+      return res.status(400).json({ error: 'Chunk must be sent as the raw request body' });
+    }
+
+    const updated = await appendChunk(media, offset, req.body);
+
+    res.json({ media: redactMedia(updated, req) });
+
+  } catch (error) {
+    handleMediaError('Upload media chunk', error, res);
+  }
+};
+
+export const uploadMediaThumbnail = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const media = await loadAccessibleMedia(req, res);
+    if (!media) return;
+
+    if (media.uploaded_by !== req.user!.id && !INCIDENT_STAFF_ROLES.includes(req.user!.role)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+    if (!Buffer.isBuffer(req.body)) {
+      return res.status(400).json({ error: 'Thumbnail must be sent as an image/jpeg request body' });
+    }
+
+    const updated = await setThumbnail(media, req.body);
+
+    res.json({
+      message: 'Thumbnail updated successfully',
+      media: redactMedia(updated, req)
+    });
+
+  } catch (error) {
+    handleMediaError('Upload media thumbnail', error, res);
+  }
+};
+
+export const downloadMedia = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const media = await loadAccessibleMedia(req, res, true);
+    if (!media) return;
+
+    const thumbnail = req.query.variant === 'thumbnail';
+    const stream = await openMedia(media, thumbnail ? 'thumbnail' : undefined);
+    if (!stream) {
+      return res.status(404).json({
+        error: thumbnail ? 'No thumbnail is available for this media' : 'Media is not available yet'
+      });
+    }
+
+    res.setHeader('Content-Type', thumbnail ? 'image/jpeg' : media.content_type);
+    res.setHeader('Content-Disposition', `inline; filename="${media.filename.replace(/["\\\r\n]/g, '_')}"`);
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    stream.on('error', error => {
+      console.error(`Stream media ${media.id} error:`, error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+
+  } catch (error) {
+    handleMediaError('Download media', error, res);
+  }
+};
+
+export const deleteMediaUpload = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const media = await loadAccessibleMedia(req, res);
+    if (!media) return;
+
+    // Reporters can take media back until their report has been triaged; staff at any time
+    if (!INCIDENT_STAFF_ROLES.includes(req.user!.role)) {
+      if (media.uploaded_by !== req.user!.id) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+      if (media.incident_id) {
+        const { data: incident } = await supabaseAdmin
+          .from('incident_reports')
+          .select('status')
+          .eq('id', media.incident_id)
+          .maybeSingle();
+        if (incident && incident.status !== IncidentStatus.PENDING) {
+          return res.status(409).json({ error: 'Media can only be removed while the report is pending' });
+        }
+      }
+    }
+
+    await deleteMedia(media);
+
+    res.json({ message: 'Media deleted successfully' });
+
+  } catch (error) {
+    handleMediaError('Delete media', error, res);
+  }
+};
+
+// A parent incident's evidence includes everything attached to the reports merged into it
+export const getIncidentMedia = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const incident = await loadMediaIncident(req.params.id, req, res, true);
+    if (!incident) return;
+
+    // Staff see all evidence. Reporters in the cluster see their own reports' and the shared ones;
+    // viewers who only see the incident through a published alert get shared evidence only.
+    const staff = INCIDENT_STAFF_ROLES.includes(req.user!.role);
+
+    const { data: merged } = await supabaseAdmin
+      .from('incident_reports')
+      .select('id, reporter_id, consent_to_share')
+      .eq('parent_id', incident.id);
+
+    const visible = [incident, ...(merged || [])]
+      .filter(report => staff || sharesWith(report, req.user!.id));
+
+    const { data: media, error } = await supabaseAdmin
+      .from('incident_media')
+      .select('*')
+      .in('incident_id', visible.map(report => report.id))
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      return res.status(500).json({ error: 'Failed to fetch incident media' });
+    }
+
+    res.json({ media: ((media || []) as IncidentMedia[]).map(item => redactMedia(item, req)) });
+
+  } catch (error) {
+    handleMediaError('Get incident media', error, res);
+  }
+};
+
+// Attach the caller's draft uploads to an existing report
+export const attachIncidentMedia = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const mediaIds = readMediaIds(req.body.media_ids);
+    if (mediaIds.length === 0) {
+      return res.status(400).json({ error: 'Missing required field: media_ids' });
+    }
+
+    const incident = await loadMediaIncident(req.params.id, req, res);
+    if (!incident) return;
+
+    const drafts = await loadDraftMedia(mediaIds, req.user!.id);
+    const media = await attachMedia(incident.id, drafts);
+
+    res.json({
+      message: 'Media attached successfully',
+      media
+    });
+
+  } catch (error) {
+    handleMediaError('Attach incident media', error, res);
+  }
+};
+
+// Body parsers reject oversized chunks before the handler runs; answer with the limit instead of a 500
+export const rejectOversizedBody = (error: any, req: Request, res: Response, next: NextFunction) => {
+  if (error?.type === 'entity.too.large') {
+    return res.status(413).json({ error: `Request body can be at most ${error.limit} bytes` });
+  }
+  next(error);
+};
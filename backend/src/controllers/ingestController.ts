@@ -0,0 +1,113 @@
+import { Response } from 'express';
+import { supabaseAdmin } from '../config/supabase';
+import { ApiKeyRequest, AuthenticatedRequest } from '../middleware/auth';
+import {
+  AlertIngestError,
+  IngestResult,
+  ingestExternalAlert,
+  parseExternalPayload,
+  parseJsonAlert
+} from '../services/alertIngestService';
+import { GeoValidationError } from '../utils/geo';
+
+const MAX_BATCH_SIZE = 100;
+
+// Outcome of one alert in a JSON batch; a bad item is reported without stopping the rest
+type BatchItemResult =
+  | (IngestResult & { index: number })
+  | { index: number; status: 'rejected' | 'failed'; identifier: string | null; alert_id: null; reason: string };
+
+const ingestBatchItem = async (item: any, index: number, source: string): Promise<BatchItemResult> => {
+  const identifier = typeof item?.identifier === 'string' ? item.identifier : null;
+  try {
+    return { index, ...(await ingestExternalAlert(parseJsonAlert(item), source, JSON.stringify(item))) };
+  } catch (error) {
+    if (error instanceof AlertIngestError || error instanceof GeoValidationError) {
+      return { index, status: 'rejected', identifier, alert_id: null, reason: error.message };
+    }
+    console.error(`Ingest alert ${index} error:`, error);
+    return { index, status: 'failed', identifier, alert_id: null, reason: 'Internal server error' };
+  }
+};
+
+export const ingestAlerts = async (req: ApiKeyRequest, res: Response) => {
+  try {
+    const source = req.apiKeyName || 'api';
+
+    if (typeof req.body === 'string') {
+      // CAP XML (or JSON sent as text)
+      const result = await ingestExternalAlert(parseExternalPayload(req.body), source, req.body);
+      return res.status(result.status === 'created' ? 201 : 200).json({
+        message: 'Alerts ingested successfully',
+        results: [result]
+      });
+    }
+
+    const items = Array.isArray(req.body) ? req.body : [req.body];
+    if (items.length === 0 || items.length > MAX_BATCH_SIZE) {
+      return res.status(400).json({ error: `Send between 1 and ${MAX_BATCH_SIZE} alerts per request` });
+    }
+
+    const results: BatchItemResult[] = [];
+    for (const [index, item] of items.entries()) {
+      results.push(await ingestBatchItem(item, index, source));
+    }
+
+    // Items are independent: earlier ones stay imported whatever happens to later ones
+    const accepted = results.filter(result => result.status !== 'rejected' && result.status !== 'failed');
+    if (accepted.length === 0) {
+      const failed = results.some(result => result.status === 'failed');
+      return res.status(failed ? 500 : 400).json({ error: 'No alerts were ingested', results });
+    }
+
+    const created = results.some(result => result.status === 'created');
+    res.status(created ? 201 : 200).json({
+      message: accepted.length === results.length
+        ? 'Alerts ingested successfully'
+        : `${accepted.length} of ${results.length} alerts ingested`,
+      results
+    });
+
+  } catch (error) {
+    if (error instanceof AlertIngestError || error instanceof GeoValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Ingest alerts error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getIngestedMessages = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { sender, status, source, page = 1, limit = 50 } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    let query = supabaseAdmin
+      .from('alert_ingest_messages')
+      .select('id, alert_id, source, sender, identifier, msg_type, sent_at, cap_references, status, received_at', { count: 'exact' })
+      .order('received_at', { ascending: false });
+
+    if (sender) query = query.eq('sender', sender);
+    if (status) query = query.eq('status', status);
+    if (source) query = query.eq('source', source);
+
+    const { data: messages, error, count } = await query.range(offset, offset + Number(limit) - 1);
+
+    if (error) {
+      return res.status(500).json({ error: 'Failed to fetch ingested messages' });
+    }
+
+    res.json({
+      messages,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total: count || 0
+      }
+    });
+
+  } catch (error) {
+    console.error('Get ingested messages error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,245 @@
+import { Response } from 'express';
+import { supabase, PredictionParameter } from '../config/supabase';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { GeoValidationError, parseGeometry } from '../utils/geo';
+
+const MAX_PREDICTIONS_PER_REQUEST = 1000;
+
+const MODEL_FIELDS = `
+  prediction_models (
+    id,
+    name,
+    version,
+    accuracy
+  )
+`;
+
+interface PredictionInput {
+  parameter?: unknown;
+  value?: unknown;
+  unit?: unknown;
+  confidence?: unknown;
+  prediction_horizon_hours?: unknown;
+  prediction_type?: unknown;
+  location?: unknown;
+  coordinates?: unknown;
+  sector?: unknown;
+  valid_from?: unknown;
+  valid_until?: unknown;
+}
+
+// Returns validation errors for one prediction; an empty list means it can be stored
+const validatePrediction = (input: PredictionInput): string[] => {
+  const errors: string[] = [];
+
+  if (!Object.values(PredictionParameter).includes(input.parameter as PredictionParameter)) {
+    errors.push(`parameter must be one of: ${Object.values(PredictionParameter).join(', ')}`);
+  }
+  if (!Number.isFinite(Number(input.value)) || input.value === null || input.value === '') {
+    errors.push('value must be a number');
+  }
+  if (!Number.isInteger(Number(input.prediction_horizon_hours)) || Number(input.prediction_horizon_hours) < 0) {
+    errors.push('prediction_horizon_hours must be a non-negative integer');
+  }
+  if (input.confidence !== undefined && input.confidence !== null) {
+    const confidence = Number(input.confidence);
+    if (!Number.isFinite(confidence) || confidence < 0 || confidence > 100) {
+      errors.push('confidence must be between 0 and 100');
+    }
+  }
+  for (const key of ['valid_from', 'valid_until'] as const) {
+    if (input[key] && Number.isNaN(new Date(input[key] as string).getTime())) {
+      errors.push(`${key} must be an ISO 8601 date`);
+    }
+  }
+  try {
+    parseGeometry(input.coordinates);
+  } catch (error) {
+    if (!(error instanceof GeoValidationError)) throw error;
+    errors.push(`coordinates: ${error.message}`);
+  }
+  if (input.valid_from && input.valid_until &&
+      new Date(input.valid_from as string) >= new Date(input.valid_until as string)) {
+    errors.push('valid_from must be before valid_until');
+  }
+
+  return errors;
+};
+
+export const createPredictions = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { model_id } = req.body;
+    const isBatch = Array.isArray(req.body.predictions);
+    const inputs: PredictionInput[] = isBatch ? req.body.predictions : [req.body];
+
+    if (inputs.length === 0 || inputs.length > MAX_PREDICTIONS_PER_REQUEST) {
+      return res.status(400).json({
+        error: `Provide between 1 and ${MAX_PREDICTIONS_PER_REQUEST} predictions`
+      });
+    }
+
+    if (!model_id) {
+      return res.status(400).json({ error: 'model_id is required so every forecast names its model' });
+    }
+
+    const { data: model, error: modelError } = await supabase
+      .from('prediction_models')
+      .select('id, name, version, parameter, is_active')
+      .eq('id', model_id)
+      .single();
+
+    if (modelError || !model) {
+      return res.status(404).json({ error: 'Prediction model not found' });
+    }
+
+    if (!model.is_active) {
+      return res.status(409).json({ error: 'Prediction model is not active' });
+    }
+
+    const invalid = inputs
+      .map((input, index) => {
+        const errors = validatePrediction(input);
+        if (!errors.length && input.parameter !== model.parameter) {
+          errors.push(`model ${model.name} predicts ${model.parameter}, not ${input.parameter}`);
+        }
+        return { index, errors };
+      })
+      .filter(result => result.errors.length > 0);
+
+    if (invalid.length > 0) {
+      return res.status(400).json({ error: 'Invalid predictions', details: invalid });
+    }
+
+    const rows = inputs.map(input => {
+      const position = parseGeometry(input.coordinates);
+      return {
+        parameter: input.parameter,
+        value: Number(input.value),
+        unit: input.unit || null,
+        confidence: input.confidence ?? null,
+        prediction_horizon_hours: Number(input.prediction_horizon_hours),
+        prediction_type: input.prediction_type || 'forecast',
+        model_id: model.id,
+        model_version: `${model.name}@${model.version}`,
+        location: input.location || null,
+        coordinates: position?.coordinates || null,
+        geom: position?.ewkt || null,
+        sector: input.sector || null,
+        valid_from: input.valid_from || new Date().toISOString(),
+        valid_until: input.valid_until || null,
+        created_by: req.user!.id
+      };
+    });
+
+    const { data: predictions, error } = await supabase
+      .from('predictions')
+      .insert(rows)
+      .select();
+
+    if (error) {
+      console.error('Create predictions error:', error);
+      return res.status(500).json({ error: 'Failed to store predictions' });
+    }
+
+    res.status(201).json({
+      message: 'Predictions stored successfully',
+      predictions
+    });
+
+  } catch (error) {
+    console.error('Create predictions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getPredictions = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const {
+      parameter,
+      location,
+      sector,
+      model_id,
+      valid_at,
+      from,
+      to,
+      page = 1,
+      limit = 100
+    } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    let query = supabase
+      .from('predictions')
+      .select(`*, ${MODEL_FIELDS}`, { count: 'exact' })
+      .order('valid_from', { ascending: true });
+
+    // Apply filters
+    if (parameter) query = query.eq('parameter', parameter);
+    if (location) query = query.ilike('location', `%${location}%`);
+    if (sector) query = query.eq('sector', sector);
+    if (model_id) query = query.eq('model_id', model_id);
+
+    // Forecasts valid at one instant, or whose validity window overlaps [from, to).
+    // Both bound valid_until from below, so they share one or() filter on the later bound
+    // rather than sending PostgREST two `or` parameters.
+    let validAfter: string | null = null;
+    if (valid_at) {
+      validAfter = new Date(valid_at as string).toISOString();
+      query = query.lte('valid_from', validAfter);
+    }
+    if (to) query = query.lt('valid_from', new Date(to as string).toISOString());
+    if (from) {
+      const fromInstant = new Date(from as string).toISOString();
+      if (!validAfter || fromInstant > validAfter) validAfter = fromInstant;
+    }
+    if (validAfter) {
+      query = query.or(`valid_until.is.null,valid_until.gt.${validAfter}`);
+    }
+
+    // Apply pagination
+    query = query.range(offset, offset + Number(limit) - 1);
+
+    const { data: predictions, error, count } = await query;
+
+    if (error) {
+      return res.status(500).json({ error: 'Failed to fetch predictions' });
+    }
+
+    res.json({
+      predictions,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total: count || 0
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof RangeError) {
+      return res.status(400).json({ error: 'valid_at, from and to must be ISO 8601 dates' });
+    }
+    console.error('Get predictions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getPrediction = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { data: prediction, error } = await supabase
+      .from('predictions')
+      .select(`*, ${MODEL_FIELDS}`)
+      .eq('id', id)
+      .single();
+
+    if (error || !prediction) {
+      return res.status(404).json({ error: 'Prediction not found' });
+    }
+
+    res.json({ prediction });
+
+  } catch (error) {
+    console.error('Get prediction error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
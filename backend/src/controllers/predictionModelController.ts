@@ -0,0 +1,298 @@
+import { Response } from 'express';
+import { supabase, PredictionParameter } from '../config/supabase';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+export const registerModel = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const {
+      name,
+      version,
+      parameter,
+      description,
+      accuracy,
+      training_data_size,
+      last_trained,
+      hyperparameters,
+      features,
+      activate
+    } = req.body;
+
+    // Validate required fields
+    if (!name || !version || !parameter) {
+      return res.status(400).json({
+        error: 'Missing required fields: name, version, parameter'
+      });
+    }
+
+    if (!Object.values(PredictionParameter).includes(parameter)) {
+      return res.status(400).json({
+        error: 'Invalid parameter',
+        valid: Object.values(PredictionParameter)
+      });
+    }
+
+    if (features !== undefined && !Array.isArray(features)) {
+      return res.status(400).json({ error: 'features must be an array of strings' });
+    }
+
+    const { data: existing } = await supabase
+      .from('prediction_models')
+      .select('id')
+      .eq('name', name)
+      .eq('version', version)
+      .maybeSingle();
+
+    if (existing) {
+      return res.status(409).json({ error: `Model ${name} version ${version} is already registered` });
+    }
+
+    // New versions are registered inactive unless explicitly activated
+    const { data: model, error } = await supabase
+      .from('prediction_models')
+      .insert({
+        name,
+        version,
+        parameter,
+        description: description || null,
+        accuracy: accuracy ?? null,
+        training_data_size: training_data_size ?? null,
+        last_trained: last_trained || null,
+        hyperparameters: hyperparameters || null,
+        features: features || null,
+        is_active: false,
+        created_by: req.user!.id
+      })
+      .select()
+      .single();
+
+    if (error || !model) {
+      console.error('Register model error:', error);
+      return res.status(500).json({ error: 'Failed to register model' });
+    }
+
+    if (activate) {
+      const activated = await setActiveVersion(model, req.user!.id);
+      if (!activated) {
+        return res.status(500).json({ error: 'Model registered but activation failed' });
+      }
+      return res.status(201).json({
+        message: 'Model registered and activated successfully',
+        model: activated
+      });
+    }
+
+    res.status(201).json({
+      message: 'Model registered successfully',
+      model
+    });
+
+  } catch (error) {
+    console.error('Register model error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Only one version of a model name is active per parameter at a time
+const setActiveVersion = async (model: { id: string; name: string; parameter: string }, userId: string) => {
+  const now = new Date().toISOString();
+
+  const { error: deactivateError } = await supabase
+    .from('prediction_models')
+    .update({
+      is_active: false,
+      deactivated_at: now,
+      deactivated_by: userId,
+      updated_at: now
+    })
+    .eq('name', model.name)
+    .eq('parameter', model.parameter)
+    .eq('is_active', true)
+    .neq('id', model.id);
+
+  if (deactivateError) {
+    console.error('Deactivate previous versions error:', deactivateError);
+    return null;
+  }
+
+  const { data: activated, error } = await supabase
+    .from('prediction_models')
+    .update({
+      is_active: true,
+      activated_at: now,
+      activated_by: userId,
+      deactivated_at: null,
+      deactivated_by: null,
+      updated_at: now
+    })
+    .eq('id', model.id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Activate model error:', error);
+    return null;
+  }
+
+  return activated;
+};
+
+export const getModels = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { parameter, name, is_active } = req.query;
+
+    let query = supabase
+      .from('prediction_models')
+      .select('*')
+      .order('name', { ascending: true })
+      .order('created_at', { ascending: false });
+
+    // Apply filters
+    if (parameter) query = query.eq('parameter', parameter);
+    if (name) query = query.eq('name', name);
+    if (is_active !== undefined) query = query.eq('is_active', is_active === 'true');
+
+    const { data: models, error } = await query;
+
+    if (error) {
+      return res.status(500).json({ error: 'Failed to fetch prediction models' });
+    }
+
+    res.json({ models });
+
+  } catch (error) {
+    console.error('Get models error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getModel = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { data: model, error } = await supabase
+      .from('prediction_models')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error || !model) {
+      return res.status(404).json({ error: 'Prediction model not found' });
+    }
+
+    const { count } = await supabase
+      .from('predictions')
+      .select('id', { count: 'exact', head: true })
+      .eq('model_id', id);
+
+    res.json({
+      model: {
+        ...model,
+        prediction_count: count || 0
+      }
+    });
+
+  } catch (error) {
+    console.error('Get model error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getModelHistory = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { data: model, error: modelError } = await supabase
+      .from('prediction_models')
+      .select('name, parameter')
+      .eq('id', id)
+      .single();
+
+    if (modelError || !model) {
+      return res.status(404).json({ error: 'Prediction model not found' });
+    }
+
+    // Every registered version of this model, newest first
+    const { data: versions, error } = await supabase
+      .from('prediction_models')
+      .select('id, version, description, accuracy, training_data_size, last_trained, hyperparameters, features, is_active, created_at, created_by, activated_at, activated_by, deactivated_at, deactivated_by')
+      .eq('name', model.name)
+      .eq('parameter', model.parameter)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      return res.status(500).json({ error: 'Failed to fetch model history' });
+    }
+
+    res.json({
+      name: model.name,
+      parameter: model.parameter,
+      versions
+    });
+
+  } catch (error) {
+    console.error('Get model history error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const activateModel = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { data: model, error: modelError } = await supabase
+      .from('prediction_models')
+      .select('id, name, parameter')
+      .eq('id', id)
+      .single();
+
+    if (modelError || !model) {
+      return res.status(404).json({ error: 'Prediction model not found' });
+    }
+
+    const activated = await setActiveVersion(model, req.user!.id);
+    if (!activated) {
+      return res.status(500).json({ error: 'Failed to activate model' });
+    }
+
+    res.json({
+      message: 'Model activated successfully',
+      model: activated
+    });
+
+  } catch (error) {
+    console.error('Activate model error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const deactivateModel = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const now = new Date().toISOString();
+
+    const { data: model, error } = await supabase
+      .from('prediction_models')
+      .update({
+        is_active: false,
+        deactivated_at: now,
+        deactivated_by: req.user!.id,
+        updated_at: now
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error || !model) {
+      return res.status(404).json({ error: 'Prediction model not found' });
+    }
+
+    res.json({
+      message: 'Model deactivated successfully',
+      model
+    });
+
+  } catch (error) {
+    console.error('Deactivate model error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,147 @@
+import { Request, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  MAX_QUEUE_LIMIT,
+  MODERATION_STATUSES,
+  PROOF_BITS,
+  PROOF_MAX_AGE_HOURS,
+  PROOF_PREFIX,
+  PublicReportConflictError,
+  PublicReportError,
+  PublicReportLimitError,
+  approvePublicReport,
+  dismissPublicReport,
+  listPublicReports,
+  readPublicReport,
+  submitPublicReport as queuePublicReport
+} from '../services/publicReportService';
+import { GeoValidationError } from '../utils/geo';
+
+// The proof-of-work parameters; clients cache them so reports can be prepared offline
+export const getPublicReportChallenge = async (req: Request, res: Response) => {
+  res.json({
+    challenge: {
+      algorithm: 'sha256',
+      prefix: PROOF_PREFIX,
+      bits: PROOF_BITS,
+      max_age_hours: PROOF_MAX_AGE_HOURS,
+      format: `${PROOF_PREFIX}:<client_report_id>:<issued_at>:<nonce>`
+    }
+  });
+};
+
+export const submitPublicReport = async (req: Request, res: Response) => {
+  try {
+    const input = readPublicReport(req.body || {});
+    const { report, created } = await queuePublicReport(input, req.ip || req.socket.remoteAddress || 'unknown');
+
+    res.status(created ? 201 : 200).json({
+      message: created
+        ? 'Report received successfully; it will be reviewed before it is published to responders'
+        : 'Report already received',
+      report
+    });
+
+  } catch (error) {
+    if (error instanceof PublicReportError || error instanceof GeoValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error instanceof PublicReportConflictError) {
+      return res.status(409).json({ error: error.message });
+    }
+    if (error instanceof PublicReportLimitError) {
+      res.setHeader('Retry-After', String(error.retryAfterSeconds));
+      return res.status(429).json({ error: error.message, retry_after: error.retryAfterSeconds });
+    }
+    console.error('Submit public report error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getPublicReportQueue = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { status = 'pending' } = req.query;
+
+    if (!MODERATION_STATUSES.includes(String(status))) {
+      return res.status(400).json({ error: `status must be one of: ${MODERATION_STATUSES.join(', ')}` });
+    }
+
+    // Whole numbers only; anything missing or unusable falls back to the first page of 20
+    const page = Math.max(1, Math.floor(Number(req.query.page)) || 1);
+    const limit = Math.min(MAX_QUEUE_LIMIT, Math.max(1, Math.floor(Number(req.query.limit)) || 20));
+
+    const { reports, total } = await listPublicReports(String(status), page, limit);
+
+    res.json({
+      reports,
+      pagination: {
+        page,
+        limit,
+        total
+      }
+    });
+
+  } catch (error) {
+    console.error('Get public report queue error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const approvePublicIncidentReport = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { reportId } = req.params;
+    const { incident_type, severity, sector, notes } = req.body;
+
+    const approved = await approvePublicReport(
+      reportId,
+      req.user!.id,
+      {
+        ...(incident_type !== undefined && { incident_type }),
+        ...(severity !== undefined && { severity }),
+        ...(sector !== undefined && { sector: sector || null })
+      },
+      notes || null
+    );
+
+    if (!approved) {
+      return res.status(409).json({ error: 'Public report not found or already moderated' });
+    }
+
+    const { ip_hash, device_hash, ...report } = approved.report;
+    res.status(201).json({
+      message: 'Public report approved successfully',
+      report,
+      incident: approved.incident
+    });
+
+  } catch (error) {
+    if (error instanceof PublicReportError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Approve public report error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const rejectPublicIncidentReport = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { reportId } = req.params;
+    const { spam, notes } = req.body;
+
+    const report = await dismissPublicReport(reportId, spam === true ? 'spam' : 'rejected', req.user!.id, notes || null);
+
+    if (!report) {
+      return res.status(409).json({ error: 'Public report not found or already moderated' });
+    }
+
+    const { ip_hash, device_hash, ...moderated } = report;
+    res.json({
+      message: spam === true ? 'Public report marked as spam successfully' : 'Public report rejected successfully',
+      report: moderated
+    });
+
+  } catch (error) {
+    console.error('Reject public report error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,476 @@
+import { Response } from 'express';
+import { supabase, SensorStatus } from '../config/supabase';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { publish } from '../services/realtimeService';
+
+const MAX_BATCH_SIZE = 10000;
+const INSERT_CHUNK_SIZE = 500;
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+type InvalidMode = 'reject' | 'flag';
+
+type ReadingResultStatus = 'accepted' | 'flagged' | 'rejected' | 'duplicate' | 'failed';
+
+interface ReadingResult {
+  index: number;
+  status: ReadingResultStatus;
+  id?: string;
+  errors?: string[];
+  retryable?: boolean;
+}
+
+interface ReadingInput {
+  value?: unknown;
+  unit?: unknown;
+  timestamp?: unknown;
+  quality_score?: unknown;
+  metadata?: unknown;
+}
+
+interface SensorLimits {
+  id: string;
+  unit: string | null;
+  range_min: number | null;
+  range_max: number | null;
+}
+
+interface PreparedRow {
+  index: number;
+  flagged: boolean;
+  row: {
+    sensor_id: string;
+    value: number;
+    unit: string | null;
+    timestamp: string;
+    status: SensorStatus;
+    quality_score: number | null;
+    flags: string[];
+    metadata: unknown;
+  };
+}
+
+const normaliseUnit = (unit: string) => unit.trim().toLowerCase();
+
+// Check one reading against the sensor configuration. Hard errors always reject the
+// point; range violations are either rejected or stored with an `out_of_range` flag.
+const checkReading = (
+  input: ReadingInput,
+  sensor: SensorLimits,
+  receivedAt: number
+): { hardErrors: string[]; rangeErrors: string[]; value: number; timestamp: string } => {
+  const hardErrors: string[] = [];
+  const rangeErrors: string[] = [];
+
+  const value = typeof input.value === 'string' ? Number(input.value) : (input.value as number);
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    hardErrors.push('value must be a finite number');
+  }
+
+  let timestamp = new Date(receivedAt).toISOString();
+  if (input.timestamp !== undefined) {
+    const parsed = new Date(input.timestamp as string);
+    if (typeof input.timestamp !== 'string' || Number.isNaN(parsed.getTime())) {
+      hardErrors.push('timestamp must be an ISO 8601 date');
+    } else if (parsed.getTime() > receivedAt + MAX_CLOCK_SKEW_MS) {
+      hardErrors.push('timestamp is in the future');
+    } else {
+      timestamp = parsed.toISOString();
+    }
+  }
+
+  if (input.unit !== undefined && input.unit !== null) {
+    if (typeof input.unit !== 'string') {
+      hardErrors.push('unit must be a string');
+    } else if (sensor.unit && normaliseUnit(input.unit) !== normaliseUnit(sensor.unit)) {
+      hardErrors.push(`unit mismatch: expected ${sensor.unit}, got ${input.unit}`);
+    }
+  }
+
+  if (input.quality_score !== undefined && input.quality_score !== null) {
+    const quality = Number(input.quality_score);
+    if (!Number.isFinite(quality) || quality < 0 || quality > 1) {
+      hardErrors.push('quality_score must be between 0 and 1');
+    }
+  }
+
+  if (hardErrors.length === 0) {
+    if (sensor.range_min !== null && value < Number(sensor.range_min)) {
+      rangeErrors.push(`value ${value} is below range_min ${sensor.range_min}`);
+    }
+    if (sensor.range_max !== null && value > Number(sensor.range_max)) {
+      rangeErrors.push(`value ${value} is above range_max ${sensor.range_max}`);
+    }
+  }
+
+  return { hardErrors, rangeErrors, value, timestamp };
+};
+
+const summarise = (results: ReadingResult[]) => {
+  const summary: Record<ReadingResultStatus, number> = {
+    accepted: 0,
+    flagged: 0,
+    rejected: 0,
+    duplicate: 0,
+    failed: 0
+  };
+  for (const result of results) summary[result.status] += 1;
+  return summary;
+};
+
+export const ingestReadings = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const isBatch = Array.isArray(req.body?.readings);
+    const inputs: ReadingInput[] = isBatch ? req.body.readings : [req.body];
+    const mode: InvalidMode = (req.body?.on_invalid || req.query.on_invalid) === 'flag' ? 'flag' : 'reject';
+
+    if (inputs.length === 0) {
+      return res.status(400).json({ error: 'No readings provided' });
+    }
+
+    if (inputs.length > MAX_BATCH_SIZE) {
+      return res.status(413).json({
+        error: `Batch too large: at most ${MAX_BATCH_SIZE} readings per request`
+      });
+    }
+
+    const { data: sensor, error: sensorError } = await supabase
+      .from('sensors')
+      .select('id, sector, unit, range_min, range_max, retired_at')
+      .eq('id', id)
+      .single();
+
+    if (sensorError || !sensor) {
+      return res.status(404).json({ error: 'Sensor not found' });
+    }
+
+    if (sensor.retired_at) {
+      return res.status(409).json({ error: 'Sensor is retired and no longer accepts readings' });
+    }
+
+    const receivedAt = Date.now();
+    const results: ReadingResult[] = new Array(inputs.length);
+    const prepared: PreparedRow[] = [];
+    const seenTimestamps = new Set<string>();
+
+    inputs.forEach((input, index) => {
+      if (!input || typeof input !== 'object') {
+        results[index] = { index, status: 'rejected', errors: ['reading must be an object'] };
+        return;
+      }
+
+      const { hardErrors, rangeErrors, value, timestamp } = checkReading(input, sensor, receivedAt);
+
+      if (hardErrors.length > 0 || (rangeErrors.length > 0 && mode === 'reject')) {
+        results[index] = { index, status: 'rejected', errors: [...hardErrors, ...rangeErrors] };
+        return;
+      }
+
+      // A gateway may buffer the same point twice; only the first one in a batch counts
+      if (seenTimestamps.has(timestamp)) {
+        results[index] = { index, status: 'duplicate' };
+        return;
+      }
+      seenTimestamps.add(timestamp);
+
+      const flagged = rangeErrors.length > 0;
+      prepared.push({
+        index,
+        flagged,
+        row: {
+          sensor_id: sensor.id,
+          value,
+          unit: (input.unit as string) || sensor.unit,
+          timestamp,
+          status: flagged ? SensorStatus.ERROR : SensorStatus.ACTIVE,
+          quality_score: input.quality_score !== undefined && input.quality_score !== null
+            ? Number(input.quality_score)
+            : null,
+          flags: flagged ? ['out_of_range'] : [],
+          metadata: flagged
+            ? { ...(input.metadata as object || {}), validation_errors: rangeErrors }
+            : input.metadata || null
+        }
+      });
+      if (flagged) {
+        results[index] = { index, status: 'flagged', errors: rangeErrors };
+      }
+    });
+
+    // Insert in chunks; rows that already exist for this sensor and timestamp are
+    // skipped by the unique index and reported back as duplicates
+    for (let start = 0; start < prepared.length; start += INSERT_CHUNK_SIZE) {
+      const chunk = prepared.slice(start, start + INSERT_CHUNK_SIZE);
+
+      const { data: inserted, error } = await supabase
+        .from('sensor_readings')
+        .upsert(chunk.map(item => item.row), {
+          onConflict: 'sensor_id,timestamp',
+          ignoreDuplicates: true
+        })
+        .select('id, timestamp');
+
+      if (error) {
+        console.error('Insert sensor readings error:', error);
+        for (const item of chunk) {
+          results[item.index] = { index: item.index, status: 'failed', errors: ['storage error'], retryable: true };
+        }
+        continue;
+      }
+
+      const insertedByTime = new Map<number, string>();
+      for (const row of inserted || []) {
+        insertedByTime.set(new Date(row.timestamp).getTime(), row.id);
+      }
+
+      for (const item of chunk) {
+        const insertedId = insertedByTime.get(new Date(item.row.timestamp).getTime());
+        if (!insertedId) {
+          results[item.index] = { index: item.index, status: 'duplicate' };
+        } else if (item.flagged) {
+          results[item.index] = { ...results[item.index], id: insertedId };
+        } else {
+          results[item.index] = { index: item.index, status: 'accepted', id: insertedId };
+        }
+      }
+    }
+
+    // Announce the newest stored point so live dashboards refresh this sensor
+    const stored = prepared.filter(item => results[item.index]?.id);
+    if (stored.length > 0) {
+      const latest = stored.reduce((a, b) => (a.row.timestamp > b.row.timestamp ? a : b));
+      publish({
+        type: 'reading.created',
+        sector: sensor.sector,
+        data: {
+          sensor_id: sensor.id,
+          count: stored.length,
+          latest: {
+            id: results[latest.index].id,
+            value: latest.row.value,
+            unit: latest.row.unit,
+            timestamp: latest.row.timestamp,
+            status: latest.row.status
+          }
+        }
+      });
+    }
+
+    if (!isBatch) {
+      const [result] = results;
+      if (result.status === 'rejected') {
+        return res.status(422).json({ error: 'Reading rejected', details: result.errors });
+      }
+      if (result.status === 'failed') {
+        return res.status(500).json({ error: 'Failed to store reading' });
+      }
+      return res.status(result.status === 'duplicate' ? 200 : 201).json({
+        message: result.status === 'duplicate' ? 'Reading already recorded' : 'Reading recorded successfully',
+        result
+      });
+    }
+
+    res.status(200).json({
+      message: 'Batch processed',
+      sensor_id: sensor.id,
+      mode,
+      summary: summarise(results),
+      results
+    });
+
+  } catch (error) {
+    console.error('Ingest readings error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Bucket sizes the aggregate endpoint accepts, in seconds
+const AGGREGATE_INTERVALS: Record<string, number> = {
+  '1m': 60,
+  '5m': 5 * 60,
+  '15m': 15 * 60,
+  '1h': 60 * 60,
+  '6h': 6 * 60 * 60,
+  '1d': 24 * 60 * 60,
+  '1w': 7 * 24 * 60 * 60
+};
+
+const MAX_BUCKETS = 2000;
+const AUTO_TARGET_BUCKETS = 200;
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+
+// Relative change below which a trend is reported as stable
+const STABLE_TREND_THRESHOLD = 0.01;
+
+const parseTimeRange = (from: unknown, to: unknown) => {
+  const end = to ? new Date(to as string) : new Date();
+  const start = from ? new Date(from as string) : new Date(end.getTime() - DEFAULT_RANGE_MS);
+
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    return { error: 'from and to must be ISO 8601 dates' };
+  }
+  if (start >= end) {
+    return { error: 'from must be before to' };
+  }
+
+  return { start, end };
+};
+
+// Pick the smallest interval that keeps the series around AUTO_TARGET_BUCKETS points
+const autoInterval = (rangeSeconds: number) => {
+  const entries = Object.entries(AGGREGATE_INTERVALS);
+  const match = entries.find(([, seconds]) => rangeSeconds / seconds <= AUTO_TARGET_BUCKETS);
+  return match || entries[entries.length - 1];
+};
+
+export const getReadingAggregates = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { interval = 'auto', from, to, include_flagged } = req.query;
+
+    const range = parseTimeRange(from, to);
+    if ('error' in range) {
+      return res.status(400).json({ error: range.error });
+    }
+
+    const rangeSeconds = (range.end.getTime() - range.start.getTime()) / 1000;
+    let intervalName: string;
+    let bucketSeconds: number;
+
+    if (interval === 'auto') {
+      [intervalName, bucketSeconds] = autoInterval(rangeSeconds);
+    } else if (typeof interval === 'string' && AGGREGATE_INTERVALS[interval]) {
+      intervalName = interval;
+      bucketSeconds = AGGREGATE_INTERVALS[interval];
+    } else {
+      return res.status(400).json({
+        error: 'Invalid interval',
+        valid: ['auto', ...Object.keys(AGGREGATE_INTERVALS)]
+      });
+    }
+
+    if (rangeSeconds / bucketSeconds > MAX_BUCKETS) {
+      return res.status(400).json({
+        error: `Too many buckets: choose a larger interval or shorter range (max ${MAX_BUCKETS} buckets)`
+      });
+    }
+
+    const { data: sensor, error: sensorError } = await supabase
+      .from('sensors')
+      .select('id, unit')
+      .eq('id', id)
+      .single();
+
+    if (sensorError || !sensor) {
+      return res.status(404).json({ error: 'Sensor not found' });
+    }
+
+    const { data: buckets, error } = await supabase.rpc('get_sensor_reading_aggregates', {
+      target_sensor_id: id,
+      bucket_seconds: bucketSeconds,
+      range_start: range.start.toISOString(),
+      range_end: range.end.toISOString(),
+      include_flagged: include_flagged === 'true'
+    });
+
+    if (error) {
+      console.error('Aggregate readings error:', error);
+      return res.status(500).json({ error: 'Failed to aggregate readings' });
+    }
+
+    res.json({
+      sensor_id: id,
+      unit: sensor.unit,
+      interval: intervalName,
+      bucket_seconds: bucketSeconds,
+      from: range.start.toISOString(),
+      to: range.end.toISOString(),
+      buckets: buckets || []
+    });
+
+  } catch (error) {
+    console.error('Aggregate readings error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getReadingTrend = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { from, to, include_flagged } = req.query;
+
+    const range = parseTimeRange(from, to);
+    if ('error' in range) {
+      return res.status(400).json({ error: range.error });
+    }
+
+    const { data: sensor, error: sensorError } = await supabase
+      .from('sensors')
+      .select('id, unit')
+      .eq('id', id)
+      .single();
+
+    if (sensorError || !sensor) {
+      return res.status(404).json({ error: 'Sensor not found' });
+    }
+
+    const { data, error } = await supabase.rpc('get_sensor_reading_trend', {
+      target_sensor_id: id,
+      range_start: range.start.toISOString(),
+      range_end: range.end.toISOString(),
+      include_flagged: include_flagged === 'true'
+    });
+
+    if (error) {
+      console.error('Reading trend error:', error);
+      return res.status(500).json({ error: 'Failed to compute reading trend' });
+    }
+
+    const stats = data?.[0];
+    if (!stats || Number(stats.count) === 0) {
+      return res.json({
+        sensor_id: id,
+        unit: sensor.unit,
+        from: range.start.toISOString(),
+        to: range.end.toISOString(),
+        statistics: null
+      });
+    }
+
+    const slopePerSecond = stats.slope_per_second ?? 0;
+    const spanSeconds = (new Date(stats.last_timestamp).getTime() - new Date(stats.first_timestamp).getTime()) / 1000;
+    const change = slopePerSecond * spanSeconds;
+    const mean = Number(stats.mean);
+    const relativeChange = mean !== 0 ? Math.abs(change / mean) : Math.abs(change);
+
+    let direction: 'increasing' | 'decreasing' | 'stable' = 'stable';
+    if (relativeChange >= STABLE_TREND_THRESHOLD) {
+      direction = change > 0 ? 'increasing' : 'decreasing';
+    }
+
+    res.json({
+      sensor_id: id,
+      unit: sensor.unit,
+      from: range.start.toISOString(),
+      to: range.end.toISOString(),
+      statistics: {
+        count: Number(stats.count),
+        min: Number(stats.min),
+        max: Number(stats.max),
+        mean,
+        stddev: stats.stddev !== null ? Number(stats.stddev) : null,
+        first_timestamp: stats.first_timestamp,
+        last_timestamp: stats.last_timestamp,
+        slope_per_hour: slopePerSecond * 3600,
+        slope_per_day: slopePerSecond * 86400,
+        r_squared: stats.r_squared,
+        change_over_range: change,
+        direction
+      }
+    });
+
+  } catch (error) {
+    console.error('Reading trend error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,46 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { subscribe, unsubscribe } from '../services/realtimeService';
+
+const TOPICS = ['alert', 'reading', 'incident'];
+
+const parseList = (value: unknown) =>
+  typeof value === 'string' && value.trim()
+    ? new Set(value.split(',').map(item => item.trim()).filter(Boolean))
+    : null;
+
+// Server-Sent Events stream of alert, reading and incident changes
+export const streamEvents = (req: AuthenticatedRequest, res: Response) => {
+  const sectors = parseList(req.query.sectors);
+  const topics = parseList(req.query.topics);
+
+  if (topics) {
+    const unknown = [...topics].filter(topic => !TOPICS.includes(topic));
+    if (unknown.length > 0) {
+      return res.status(400).json({ error: `Unknown topics: ${unknown.join(', ')}`, valid: TOPICS });
+    }
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Disable response buffering in nginx
+    'X-Accel-Buffering': 'no'
+  });
+  res.write(`retry: 5000\nevent: ready\ndata: ${JSON.stringify({
+    sectors: sectors ? [...sectors] : null,
+    topics: topics ? [...topics] : TOPICS
+  })}\n\n`);
+
+  const subscriberId = subscribe({
+    userId: req.user!.id,
+    role: req.user!.role,
+    sessionId: req.sessionId,
+    sectors,
+    topics,
+    res
+  });
+
+  req.on('close', () => unsubscribe(subscriberId));
+};
@@ -0,0 +1,240 @@
+import { Response } from 'express';
+import { supabase } from '../config/supabase';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  DEFAULT_RISK_WEIGHTS,
+  RiskFactor,
+  getRiskWeights,
+  listKnownSectors,
+  runRiskAssessment
+} from '../services/riskService';
+
+const PEOPLE_FIELDS = `
+  creator:users!risk_assessments_created_by_fkey (
+    id,
+    full_name,
+    organization
+  ),
+  reviewer:users!risk_assessments_reviewed_by_fkey (
+    id,
+    full_name,
+    organization
+  )
+`;
+
+export const computeAssessments = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { sector } = req.body;
+
+    const sectors = sector ? [sector] : await listKnownSectors();
+    if (sectors.length === 0) {
+      return res.status(400).json({ error: 'No sectors with sensors or active alerts to assess' });
+    }
+
+    const assessments = await runRiskAssessment(sectors, req.user!.id);
+
+    res.status(201).json({
+      message: 'Risk assessments computed successfully',
+      assessments
+    });
+
+  } catch (error) {
+    console.error('Compute risk assessments error:', error);
+    res.status(500).json({ error: 'Failed to compute risk assessments' });
+  }
+};
+
+export const getAssessments = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { sector, risk_level, risk_type, latest, reviewed, page = 1, limit = 50 } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    // Latest current assessment per sector, as shown on the dashboard
+    if (latest === 'true') {
+      let latestQuery = supabase
+        .from('risk_assessments')
+        .select('*')
+        .eq('risk_type', risk_type || 'composite')
+        .or(`valid_until.is.null,valid_until.gt.${new Date().toISOString()}`)
+        .order('created_at', { ascending: false })
+        .limit(500);
+
+      if (sector) latestQuery = latestQuery.eq('sector', sector);
+
+      const { data, error } = await latestQuery;
+
+      if (error) {
+        return res.status(500).json({ error: 'Failed to fetch risk assessments' });
+      }
+
+      const bySector = new Map<string, any>();
+      for (const assessment of data || []) {
+        const key = assessment.sector || assessment.location;
+        if (!bySector.has(key)) bySector.set(key, assessment);
+      }
+
+      const assessments = [...bySector.values()]
+        .sort((a, b) => Number(b.risk_score) - Number(a.risk_score));
+
+      return res.json({ assessments });
+    }
+
+    let query = supabase
+      .from('risk_assessments')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false });
+
+    // Apply filters
+    if (sector) query = query.eq('sector', sector);
+    if (risk_level) query = query.eq('risk_level', risk_level);
+    if (risk_type) query = query.eq('risk_type', risk_type);
+    if (reviewed === 'true') query = query.not('reviewed_by', 'is', null);
+    if (reviewed === 'false') query = query.is('reviewed_by', null);
+
+    // Apply pagination
+    query = query.range(offset, offset + Number(limit) - 1);
+
+    const { data: assessments, error, count } = await query;
+
+    if (error) {
+      return res.status(500).json({ error: 'Failed to fetch risk assessments' });
+    }
+
+    res.json({
+      assessments,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total: count || 0
+      }
+    });
+
+  } catch (error) {
+    console.error('Get risk assessments error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getAssessment = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { data: assessment, error } = await supabase
+      .from('risk_assessments')
+      .select(`*, ${PEOPLE_FIELDS}`)
+      .eq('id', id)
+      .single();
+
+    if (error || !assessment) {
+      return res.status(404).json({ error: 'Risk assessment not found' });
+    }
+
+    res.json({ assessment });
+
+  } catch (error) {
+    console.error('Get risk assessment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const reviewAssessment = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { notes, mitigation_strategies } = req.body;
+
+    if (mitigation_strategies !== undefined && !Array.isArray(mitigation_strategies)) {
+      return res.status(400).json({ error: 'mitigation_strategies must be an array of strings' });
+    }
+
+    // An assessment is signed off once; later evidence produces a new assessment
+    const { data: assessment, error } = await supabase
+      .from('risk_assessments')
+      .update({
+        reviewed_by: req.user!.id,
+        reviewed_at: new Date().toISOString(),
+        review_notes: notes || null,
+        ...(mitigation_strategies !== undefined && { mitigation_strategies }),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .is('reviewed_by', null)
+      .select()
+      .single();
+
+    if (error || !assessment) {
+      return res.status(404).json({ error: 'Risk assessment not found or already reviewed' });
+    }
+
+    res.json({
+      message: 'Risk assessment reviewed successfully',
+      assessment
+    });
+
+  } catch (error) {
+    console.error('Review risk assessment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getWeights = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const weights = await getRiskWeights();
+
+    res.json({
+      weights,
+      defaults: DEFAULT_RISK_WEIGHTS
+    });
+
+  } catch (error) {
+    console.error('Get risk weights error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const updateWeights = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { weights } = req.body;
+
+    if (!weights || typeof weights !== 'object' || Array.isArray(weights)) {
+      return res.status(400).json({ error: 'weights must be an object of factor to weight' });
+    }
+
+    const validFactors = Object.keys(DEFAULT_RISK_WEIGHTS) as RiskFactor[];
+    const rows = [];
+
+    for (const [factor, weight] of Object.entries(weights)) {
+      if (!validFactors.includes(factor as RiskFactor)) {
+        return res.status(400).json({ error: `Unknown risk factor: ${factor}`, valid: validFactors });
+      }
+      if (!Number.isFinite(Number(weight)) || Number(weight) < 0) {
+        return res.status(400).json({ error: `Weight for ${factor} must be a non-negative number` });
+      }
+      rows.push({
+        factor,
+        weight: Number(weight),
+        updated_at: new Date().toISOString(),
+        updated_by: req.user!.id
+      });
+    }
+
+    const { error } = await supabase
+      .from('risk_weights')
+      .upsert(rows, { onConflict: 'factor' });
+
+    if (error) {
+      console.error('Update risk weights error:', error);
+      return res.status(500).json({ error: 'Failed to update risk weights' });
+    }
+
+    console.log(`Risk weights updated by ${req.user!.id}: ${rows.map(r => `${r.factor}=${r.weight}`).join(', ')}`);
+
+    res.json({
+      message: 'Risk weights updated successfully',
+      weights: await getRiskWeights()
+    });
+
+  } catch (error) {
+    console.error('Update risk weights error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
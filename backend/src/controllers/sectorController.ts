@@ -0,0 +1,173 @@
+import { Response } from 'express';
+import { supabase, supabaseAdmin } from '../config/supabase';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { GeoValidationError, geometryToEwkt, parseGeometry } from '../utils/geo';
+
+export const getSectors = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { data: sectors, error } = await supabase
+      .from('sectors')
+      .select('code, name, created_at, updated_at')
+      .order('code');
+
+    if (error) {
+      return res.status(500).json({ error: 'Failed to fetch sectors' });
+    }
+
+    res.json({ sectors });
+
+  } catch (error) {
+    console.error('Get sectors error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Create or replace a sector and its boundary (GeoJSON Polygon or MultiPolygon)
+export const upsertSector = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { code } = req.params;
+    const { name, boundary } = req.body;
+
+    if (!name || !boundary) {
+      return res.status(400).json({ error: 'Missing required fields: name, boundary' });
+    }
+
+    const area = parseGeometry(boundary);
+    if (!area || area.geometry.type === 'Point') {
+      return res.status(400).json({ error: 'boundary must be a GeoJSON Polygon or MultiPolygon' });
+    }
+
+    // Stored as MultiPolygon so every sector has the same geometry type
+    const multiPolygon = area.geometry.type === 'Polygon'
+      ? geometryToEwkt({ type: 'MultiPolygon', coordinates: [area.geometry.coordinates] })
+      : area.ewkt;
+
+    const { data: sector, error } = await supabase
+      .from('sectors')
+      .upsert({
+        code,
+        name,
+        geom: multiPolygon,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'code' })
+      .select('code, name, created_at, updated_at')
+      .single();
+
+    if (error) {
+      console.error('Upsert sector error:', error);
+      return res.status(500).json({ error: 'Failed to save sector' });
+    }
+
+    res.json({
+      message: 'Sector saved successfully',
+      sector
+    });
+
+  } catch (error) {
+    if (error instanceof GeoValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Upsert sector error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getSectorOfficers = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { code } = req.params;
+
+    const { data: officers, error } = await supabaseAdmin
+      .from('sector_officers')
+      .select(`
+        user_id,
+        created_at,
+        users (
+          id,
+          full_name,
+          role,
+          organization,
+          phone,
+          supervisor_id
+        )
+      `)
+      .eq('sector', code);
+
+    if (error) {
+      return res.status(500).json({ error: 'Failed to fetch sector officers' });
+    }
+
+    res.json({ officers });
+
+  } catch (error) {
+    console.error('Get sector officers error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Replace the designated officers of a sector (escalation policies chase them first)
+export const replaceSectorOfficers = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { code } = req.params;
+    const { user_ids } = req.body;
+
+    if (!Array.isArray(user_ids) || user_ids.some(id => typeof id !== 'string')) {
+      return res.status(400).json({ error: 'user_ids must be a list of user ids' });
+    }
+
+    const userIds = [...new Set(user_ids as string[])];
+
+    const { data: sector } = await supabaseAdmin
+      .from('sectors')
+      .select('code')
+      .eq('code', code)
+      .maybeSingle();
+
+    if (!sector) {
+      return res.status(404).json({ error: 'Sector not found' });
+    }
+
+    if (userIds.length > 0) {
+      const { data: users, error: usersError } = await supabaseAdmin
+        .from('users')
+        .select('id')
+        .in('id', userIds)
+        .eq('status', 'approved');
+
+      if (usersError) {
+        return res.status(500).json({ error: 'Failed to check users' });
+      }
+      if ((users || []).length !== userIds.length) {
+        return res.status(400).json({ error: 'Every officer must be an approved user' });
+      }
+    }
+
+    const { error: deleteError } = await supabaseAdmin
+      .from('sector_officers')
+      .delete()
+      .eq('sector', code);
+
+    if (deleteError) {
+      return res.status(500).json({ error: 'Failed to update sector officers' });
+    }
+
+    if (userIds.length > 0) {
+      const { error } = await supabaseAdmin
+        .from('sector_officers')
+        .insert(userIds.map(userId => ({ sector: code, user_id: userId })));
+
+      if (error) {
+        console.error('Replace sector officers error:', error);
+        return res.status(500).json({ error: 'Failed to update sector officers' });
+      }
+    }
+
+    res.json({
+      message: 'Sector officers updated successfully',
+      officers: userIds
+    });
+
+  } catch (error) {
+    console.error('Replace sector officers error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,318 @@
+import { Response } from 'express';
+import { supabase, SensorType, SensorStatus } from '../config/supabase';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { GeoValidationError, parseGeoFilter, parseGeometry, selectInArea } from '../utils/geo';
+
+// Fields an operator may set when registering or updating a sensor
+const EDITABLE_FIELDS = [
+  'name',
+  'type',
+  'location',
+  'coordinates',
+  'sector',
+  'status',
+  'manufacturer',
+  'model',
+  'installation_date',
+  'last_maintenance',
+  'next_maintenance',
+  'unit',
+  'range_min',
+  'range_max',
+  'accuracy'
+] as const;
+
+const pickEditableFields = (body: Record<string, any>) => {
+  const fields: Record<string, any> = {};
+  for (const key of EDITABLE_FIELDS) {
+    if (body[key] !== undefined) fields[key] = body[key];
+  }
+
+  // Store the parsed position alongside the normalised "lat,lng" text
+  if (fields.coordinates !== undefined) {
+    const position = parseGeometry(fields.coordinates);
+    if (position && position.geometry.type !== 'Point') {
+      throw new GeoValidationError('Sensor coordinates must be a single point');
+    }
+    fields.coordinates = position?.coordinates || null;
+    fields.geom = position?.ewkt || null;
+  }
+
+  return fields;
+};
+
+// Returns an error message, or null when the sensor fields are valid
+const validateSensorFields = (fields: Record<string, any>): string | null => {
+  if (fields.type !== undefined && !Object.values(SensorType).includes(fields.type)) {
+    return `Invalid sensor type. Valid types: ${Object.values(SensorType).join(', ')}`;
+  }
+
+  if (fields.status !== undefined && !Object.values(SensorStatus).includes(fields.status)) {
+    return `Invalid sensor status. Valid statuses: ${Object.values(SensorStatus).join(', ')}`;
+  }
+
+  for (const key of ['range_min', 'range_max', 'accuracy'] as const) {
+    if (fields[key] !== undefined && fields[key] !== null && !Number.isFinite(Number(fields[key]))) {
+      return `${key} must be a number`;
+    }
+  }
+
+  if (
+    fields.range_min !== undefined && fields.range_min !== null &&
+    fields.range_max !== undefined && fields.range_max !== null &&
+    Number(fields.range_min) >= Number(fields.range_max)
+  ) {
+    return 'range_min must be less than range_max';
+  }
+
+  return null;
+};
+
+export const createSensor = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const fields = pickEditableFields(req.body);
+
+    // Validate required fields
+    if (!fields.name || !fields.type || !fields.location) {
+      return res.status(400).json({
+        error: 'Missing required fields: name, type, location'
+      });
+    }
+
+    const validationError = validateSensorFields(fields);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const { data: sensor, error } = await supabase
+      .from('sensors')
+      .insert({
+        ...fields,
+        status: fields.status || SensorStatus.ACTIVE,
+        created_by: req.user!.id
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Create sensor error:', error);
+      return res.status(500).json({ error: 'Failed to create sensor' });
+    }
+
+    res.status(201).json({
+      message: 'Sensor registered successfully',
+      sensor
+    });
+
+  } catch (error) {
+    if (error instanceof GeoValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Create sensor error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getSensors = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { type, sector, status, location, include_retired, readings, page = 1, limit = 50 } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    // Optionally embed the last N readings of each sensor (capped) for dashboard cards
+    const readingCount = Math.min(Number(readings) || 0, 10);
+
+    let query = selectInArea(
+      supabase,
+      'sensors',
+      readingCount > 0
+        ? '*, latest_readings:sensor_readings (value, unit, timestamp, status)'
+        : '*',
+      parseGeoFilter(req.query),
+      'exact'
+    )
+      .order('name', { ascending: true });
+
+    if (readingCount > 0) {
+      query = query
+        .order('timestamp', { referencedTable: 'latest_readings', ascending: false })
+        .limit(readingCount, { referencedTable: 'latest_readings' });
+    }
+
+    // Apply filters
+    if (type) query = query.eq('type', type);
+    if (sector) query = query.eq('sector', sector);
+    if (status) query = query.eq('status', status);
+    if (location) query = query.ilike('location', `%${location}%`);
+    if (include_retired !== 'true') query = query.is('retired_at', null);
+
+    // Apply pagination
+    query = query.range(offset, offset + Number(limit) - 1);
+
+    const { data: sensors, error, count } = await query;
+
+    if (error) {
+      return res.status(500).json({ error: 'Failed to fetch sensors' });
+    }
+
+    res.json({
+      sensors,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total: count || 0
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof GeoValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Get sensors error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getSensor = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { data: sensor, error } = await supabase
+      .from('sensors')
+      .select(`
+        *,
+        users!sensors_created_by_fkey (
+          id,
+          full_name,
+          organization
+        )
+      `)
+      .eq('id', id)
+      .single();
+
+    if (error || !sensor) {
+      return res.status(404).json({ error: 'Sensor not found' });
+    }
+
+    // Include the most recent readings so the detail view needs one request
+    const { data: latestReadings } = await supabase
+      .from('sensor_readings')
+      .select('id, value, unit, timestamp, status, quality_score, flags')
+      .eq('sensor_id', id)
+      .order('timestamp', { ascending: false })
+      .limit(10);
+
+    const maintenanceDue = sensor.next_maintenance
+      ? new Date(sensor.next_maintenance).getTime() <= Date.now()
+      : false;
+
+    res.json({
+      sensor: {
+        ...sensor,
+        latest_readings: latestReadings || [],
+        maintenance_due: maintenanceDue
+      }
+    });
+
+  } catch (error) {
+    console.error('Get sensor error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const updateSensor = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const fields = pickEditableFields(req.body);
+
+    if (Object.keys(fields).length === 0) {
+      return res.status(400).json({ error: 'No updatable fields provided' });
+    }
+
+    const { data: currentSensor, error: fetchError } = await supabase
+      .from('sensors')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !currentSensor) {
+      return res.status(404).json({ error: 'Sensor not found' });
+    }
+
+    if (currentSensor.retired_at) {
+      return res.status(400).json({ error: 'Cannot update a retired sensor' });
+    }
+
+    // Validate against the merged record so a partial range update is still checked
+    const validationError = validateSensorFields({
+      range_min: currentSensor.range_min,
+      range_max: currentSensor.range_max,
+      ...fields
+    });
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const { data: sensor, error } = await supabase
+      .from('sensors')
+      .update({
+        ...fields,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error || !sensor) {
+      return res.status(500).json({ error: 'Failed to update sensor' });
+    }
+
+    res.json({
+      message: 'Sensor updated successfully',
+      sensor
+    });
+
+  } catch (error) {
+    if (error instanceof GeoValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Update sensor error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const retireSensor = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { reason } = req.body;
+    const userId = req.user!.id;
+
+    // Retired sensors keep their readings; they only leave the active network
+    const { data: sensor, error } = await supabase
+      .from('sensors')
+      .update({
+        status: SensorStatus.INACTIVE,
+        retired_at: new Date().toISOString(),
+        retired_by: userId,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .is('retired_at', null)
+      .select()
+      .single();
+
+    if (error || !sensor) {
+      return res.status(404).json({ error: 'Sensor not found or already retired' });
+    }
+
+    console.log(`Sensor ${id} retired by ${userId}. Reason: ${reason}`);
+
+    res.json({
+      message: 'Sensor retired successfully',
+      sensor
+    });
+
+  } catch (error) {
+    console.error('Retire sensor error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,158 @@
+import { Response } from 'express';
+import { supabase } from '../config/supabase';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { GeoValidationError, parseGeometry } from '../utils/geo';
+
+// Fields a client may set on a shelter; the position is parsed into coordinates + geom
+const pickShelterFields = (body: Record<string, any>) => {
+  const fields: Record<string, any> = {};
+  for (const key of ['name', 'address', 'sector', 'capacity', 'contact_phone', 'facilities', 'is_active']) {
+    if (body[key] !== undefined) fields[key] = body[key];
+  }
+
+  if (body.coordinates !== undefined) {
+    const position = parseGeometry(body.coordinates);
+    if (position && position.geometry.type !== 'Point') {
+      throw new GeoValidationError('Shelter coordinates must be a single point');
+    }
+    fields.coordinates = position?.coordinates || null;
+    fields.geom = position?.ewkt || null;
+  }
+
+  return fields;
+};
+
+const validateShelterFields = (fields: Record<string, any>) => {
+  if (fields.capacity !== undefined && fields.capacity !== null &&
+      (!Number.isInteger(Number(fields.capacity)) || Number(fields.capacity) < 0)) {
+    return 'capacity must be a non-negative integer';
+  }
+  if (fields.facilities !== undefined && fields.facilities !== null && !Array.isArray(fields.facilities)) {
+    return 'facilities must be an array of strings';
+  }
+  return null;
+};
+
+export const createShelter = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const fields = pickShelterFields(req.body);
+
+    if (!fields.name || !fields.coordinates) {
+      return res.status(400).json({ error: 'Missing required fields: name, coordinates' });
+    }
+
+    const validationError = validateShelterFields(fields);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const { data: shelter, error } = await supabase
+      .from('shelters')
+      .insert({ ...fields, created_by: req.user!.id })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Create shelter error:', error);
+      return res.status(500).json({ error: 'Failed to create shelter' });
+    }
+
+    res.status(201).json({
+      message: 'Shelter created successfully',
+      shelter
+    });
+
+  } catch (error) {
+    if (error instanceof GeoValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Create shelter error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getShelters = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { sector, include_inactive } = req.query;
+
+    let query = supabase
+      .from('shelters')
+      .select('*')
+      .order('name');
+
+    if (sector) query = query.eq('sector', sector);
+    if (include_inactive !== 'true') query = query.eq('is_active', true);
+
+    const { data: shelters, error } = await query;
+
+    if (error) {
+      return res.status(500).json({ error: 'Failed to fetch shelters' });
+    }
+
+    res.json({ shelters });
+
+  } catch (error) {
+    console.error('Get shelters error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getShelter = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { data: shelter, error } = await supabase
+      .from('shelters')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error || !shelter) {
+      return res.status(404).json({ error: 'Shelter not found' });
+    }
+
+    res.json({ shelter });
+
+  } catch (error) {
+    console.error('Get shelter error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const updateShelter = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const fields = pickShelterFields(req.body);
+
+    const validationError = validateShelterFields(fields);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const { data: shelter, error } = await supabase
+      .from('shelters')
+      .update({
+        ...fields,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error || !shelter) {
+      return res.status(404).json({ error: 'Shelter not found' });
+    }
+
+    res.json({
+      message: 'Shelter updated successfully',
+      shelter
+    });
+
+  } catch (error) {
+    if (error instanceof GeoValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Update shelter error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
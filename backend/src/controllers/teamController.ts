@@ -0,0 +1,214 @@
+import { Response } from 'express';
+import { supabaseAdmin } from '../config/supabase';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+const TEAM_COLUMNS = `
+  *,
+  team_members (
+    user_id,
+    users (
+      id,
+      full_name,
+      email,
+      role,
+      organization
+    )
+  )
+`;
+
+export const getTeams = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { data: teams, error } = await supabaseAdmin
+      .from('teams')
+      .select(TEAM_COLUMNS)
+      .order('name');
+
+    if (error) {
+      return res.status(500).json({ error: 'Failed to fetch teams' });
+    }
+
+    res.json({ teams });
+
+  } catch (error) {
+    console.error('Get teams error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const createTeam = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { name, description, organization } = req.body;
+
+    if (!name) {
+      return res.status(400).json({ error: 'Missing required field: name' });
+    }
+
+    const { data: team, error } = await supabaseAdmin
+      .from('teams')
+      .insert({
+        name,
+        description: description || null,
+        organization: organization || null
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return res.status(409).json({ error: 'A team with this name already exists' });
+      }
+      console.error('Create team error:', error);
+      return res.status(500).json({ error: 'Failed to create team' });
+    }
+
+    res.status(201).json({
+      message: 'Team created successfully',
+      team
+    });
+
+  } catch (error) {
+    console.error('Create team error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const updateTeam = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { name, description, organization } = req.body;
+
+    const changes: Record<string, unknown> = {};
+    if (name !== undefined) changes.name = name;
+    if (description !== undefined) changes.description = description;
+    if (organization !== undefined) changes.organization = organization;
+
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).json({ error: 'No editable fields supplied' });
+    }
+
+    const { data: team, error } = await supabaseAdmin
+      .from('teams')
+      .update({
+        ...changes,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === '23505') {
+        return res.status(409).json({ error: 'A team with this name already exists' });
+      }
+      console.error('Update team error:', error);
+      return res.status(500).json({ error: 'Failed to update team' });
+    }
+
+    if (!team) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+
+    res.json({
+      message: 'Team updated successfully',
+      team
+    });
+
+  } catch (error) {
+    console.error('Update team error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Incidents assigned to the team keep their user assignee and lose the team
+export const deleteTeam = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { data: deleted, error } = await supabaseAdmin
+      .from('teams')
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      return res.status(500).json({ error: 'Failed to delete team' });
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+
+    res.json({ message: 'Team deleted successfully' });
+
+  } catch (error) {
+    console.error('Delete team error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const replaceTeamMembers = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { user_ids } = req.body;
+
+    if (!Array.isArray(user_ids) || user_ids.some(userId => typeof userId !== 'string')) {
+      return res.status(400).json({ error: 'user_ids must be a list of user ids' });
+    }
+
+    const userIds = [...new Set(user_ids as string[])];
+
+    const { data: team } = await supabaseAdmin
+      .from('teams')
+      .select('id')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!team) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+
+    if (userIds.length > 0) {
+      const { data: users, error: usersError } = await supabaseAdmin
+        .from('users')
+        .select('id')
+        .in('id', userIds)
+        .eq('status', 'approved');
+
+      if (usersError) {
+        return res.status(500).json({ error: 'Failed to check users' });
+      }
+      if ((users || []).length !== userIds.length) {
+        return res.status(400).json({ error: 'Every member must be an approved user' });
+      }
+    }
+
+    const { error: deleteError } = await supabaseAdmin
+      .from('team_members')
+      .delete()
+      .eq('team_id', id);
+
+    if (deleteError) {
+      return res.status(500).json({ error: 'Failed to update team members' });
+    }
+
+    if (userIds.length > 0) {
+      const { error } = await supabaseAdmin
+        .from('team_members')
+        .insert(userIds.map(userId => ({ team_id: id, user_id: userId })));
+
+      if (error) {
+        console.error('Replace team members error:', error);
+        return res.status(500).json({ error: 'Failed to update team members' });
+      }
+    }
+
+    res.json({
+      message: 'Team members updated successfully',
+      members: userIds
+    });
+
+  } catch (error) {
+    console.error('Replace team members error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -5,6 +5,19 @@ import authRoutes from './routes/auth';
 import adminRoutes from './routes/admin';
 import incidentRoutes from './routes/incidents';
 import alertRoutes from './routes/alerts';
+import sensorRoutes from './routes/sensors';
+import predictionRoutes from './routes/predictions';
+import predictionModelRoutes from './routes/predictionModels';
+import riskRoutes from './routes/risk';
+import realtimeRoutes from './routes/realtime';
+import shelterRoutes from './routes/shelters';
+import sectorRoutes from './routes/sectors';
+import capRoutes from './routes/cap';
+import ingestRoutes from './routes/ingest';
+import teamRoutes from './routes/teams';
+import publicRoutes from './routes/public';
+import { startAlertScheduler } from './services/alertScheduler';
+import { startAlertDropImporter } from './services/alertDropImporter';
 
 // Load environment variables
 dotenv.config();
@@ -12,6 +25,13 @@ dotenv.config();
 const app = express();
 const PORT = process.env.PORT || 5000;
 
+// Behind a reverse proxy, trust it for the client address so rate limits apply per client
+// (true, a number of hops, or a list of proxy addresses)
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set('trust proxy', trustProxy === 'true' ? true : /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+}
+
 // Middleware
 app.use(cors({
   origin: process.env.NODE_ENV === 'production' 
@@ -37,6 +57,17 @@ app.use('/api/auth', authRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/incidents', incidentRoutes);
 app.use('/api/alerts', alertRoutes);
+app.use('/api/sensors', sensorRoutes);
+app.use('/api/predictions', predictionRoutes);
+app.use('/api/prediction-models', predictionModelRoutes);
+app.use('/api/risk', riskRoutes);
+app.use('/api/realtime', realtimeRoutes);
+app.use('/api/shelters', shelterRoutes);
+app.use('/api/sectors', sectorRoutes);
+app.use('/api/cap', capRoutes);
+app.use('/api/ingest', ingestRoutes);
+app.use('/api/teams', teamRoutes);
+app.use('/api/public', publicRoutes);
 
 // Error handling middleware
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -62,6 +93,19 @@ app.listen(PORT, () => {
   console.log(`   - Admin: http://localhost:${PORT}/api/admin`);
   console.log(`   - Incidents: http://localhost:${PORT}/api/incidents`);
   console.log(`   - Alerts: http://localhost:${PORT}/api/alerts`);
+  console.log(`   - Sensors: http://localhost:${PORT}/api/sensors`);
+  console.log(`   - Predictions: http://localhost:${PORT}/api/predictions`);
+  console.log(`   - Prediction models: http://localhost:${PORT}/api/prediction-models`);
+  console.log(`   - Risk: http://localhost:${PORT}/api/risk`);
+  console.log(`   - Realtime stream: http://localhost:${PORT}/api/realtime/stream`);
+  console.log(`   - Shelters: http://localhost:${PORT}/api/shelters`);
+  console.log(`   - Sectors: http://localhost:${PORT}/api/sectors`);
+  console.log(`   - CAP feed: http://localhost:${PORT}/api/cap/alerts`);
+  console.log(`   - Alert ingest: http://localhost:${PORT}/api/ingest/alerts`);
+  console.log(`   - Public reports: http://localhost:${PORT}/api/public/incidents`);
+
+  startAlertScheduler();
+  startAlertDropImporter();
 });
 
 export default app;
@@ -1,7 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import { supabase } from '../config/supabase';
 import { UserRole, UserStatus } from '../config/supabase';
+import { isSessionActive } from '../services/sessionService';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
@@ -10,6 +12,11 @@ export interface AuthenticatedRequest extends Request {
     role: UserRole;
     status: UserStatus;
   };
+  sessionId?: string;
+}
+
+export interface ApiKeyRequest extends Request {
+  apiKeyName?: string;
 }
 
 export const authenticateToken = async (
@@ -24,9 +31,22 @@ export const authenticateToken = async (
     return res.status(401).json({ error: 'Access token required' });
   }
 
+  let decoded: any;
   try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
-    
+    decoded = jwt.verify(token, process.env.JWT_SECRET!);
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      return res.status(401).json({ error: 'Token expired' });
+    }
+    return res.status(403).json({ error: 'Invalid token' });
+  }
+
+  try {
+    // Tokens are bound to a server-side session so logout and revocation take effect immediately
+    if (!decoded.sid || !(await isSessionActive(decoded.sid, decoded.userId))) {
+      return res.status(401).json({ error: 'Session revoked' });
+    }
+
     // Get user from Supabase to verify current status
     const { data: user, error } = await supabase
       .from('users')
@@ -46,9 +66,11 @@ export const authenticateToken = async (
     }
 
     req.user = user;
+    req.sessionId = decoded.sid;
     next();
   } catch (error) {
-    return res.status(403).json({ error: 'Invalid token' });
+    console.error('Authentication error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
   }
 };
 
@@ -88,3 +110,35 @@ export const requireApprovedStatus = (req: AuthenticatedRequest, res: Response,
 
   next();
 };
+
+// Machine-to-machine keys, configured as ALERT_INGEST_API_KEYS="name:key,name:key"
+const loadApiKeys = () =>
+  (process.env.ALERT_INGEST_API_KEYS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf(':');
+      return separator === -1
+        ? { name: 'default', key: entry }
+        : { name: entry.slice(0, separator), key: entry.slice(separator + 1) };
+    });
+
+const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+
+export const requireIngestApiKey = (req: ApiKeyRequest, res: Response, next: NextFunction) => {
+  const provided = req.headers['x-api-key'];
+
+  if (typeof provided !== 'string' || !provided) {
+    return res.status(401).json({ error: 'API key required' });
+  }
+
+  // Compare digests in constant time so the key cannot be guessed byte by byte
+  const match = loadApiKeys().find(({ key }) => crypto.timingSafeEqual(digest(key), digest(provided)));
+  if (!match) {
+    return res.status(403).json({ error: 'Invalid API key' });
+  }
+
+  req.apiKeyName = match.name;
+  next();
+};
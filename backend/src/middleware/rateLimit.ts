@@ -0,0 +1,43 @@
+import { Request, Response, NextFunction } from 'express';
+
+interface RateWindow {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Fixed-window request limit per client address, kept in memory. It blunts
+ * scripted abuse of unauthenticated endpoints before they reach the
+ * database; limits that must survive a restart are checked by the handlers.
+ * Behind a proxy, set TRUST_PROXY so req.ip is the client's address.
+ */
+export const rateLimit = ({ windowMs, max }: { windowMs: number; max: number }) => {
+  const windows = new Map<string, RateWindow>();
+
+  // Forget finished windows so the map does not keep every address ever seen
+  setInterval(() => {
+    const now = Date.now();
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) windows.delete(key);
+    }
+  }, windowMs).unref();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = req.ip || req.socket.remoteAddress || 'unknown';
+    const now = Date.now();
+
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+
+    window.count++;
+    if (window.count > max) {
+      res.setHeader('Retry-After', String(Math.ceil((window.resetAt - now) / 1000)));
+      return res.status(429).json({ error: 'Too many requests; try again later' });
+    }
+
+    next();
+  };
+};
@@ -6,8 +6,17 @@ import {
   rejectUser,
   suspendUser,
   reactivateUser,
-  updateUserRole
+  updateUserRole,
+  updateUserSupervisor,
+  getUserSessions,
+  revokeUserSessions
 } from '../controllers/adminController';
+import {
+  createEscalationPolicy,
+  deleteEscalationPolicy,
+  getEscalationPolicies,
+  updateEscalationPolicy
+} from '../controllers/escalationController';
 import { authenticateToken, requireAdmin } from '../middleware/auth';
 
 const router = Router();
@@ -30,5 +39,16 @@ router.post('/users/:userId/reactivate', reactivateUser);
 
 // User role management routes
 router.put('/users/:userId/role', updateUserRole);
+router.put('/users/:userId/supervisor', updateUserSupervisor);
+
+// Session management routes
+router.get('/users/:userId/sessions', getUserSessions);
+router.delete('/users/:userId/sessions', revokeUserSessions);
+
+// Escalation policy routes
+router.get('/escalation-policies', getEscalationPolicies);
+router.post('/escalation-policies', createEscalationPolicy);
+router.put('/escalation-policies/:id', updateEscalationPolicy);
+router.delete('/escalation-policies/:id', deleteEscalationPolicy);
 
 export default router;
@@ -8,9 +8,24 @@ import {
   deactivateAlert,
   acknowledgeAlert,
   getUserNotificationPreferences,
-  updateUserNotificationPreferences
+  updateUserNotificationPreferences,
+  registerPushToken,
+  removePushToken,
+  getAlertNotificationLogs,
+  getAffectedAreas,
+  updateAffectedAreas,
+  getAffectedTargets,
+  submitAlert,
+  approveAlert,
+  rejectAlert,
+  publishAlert,
+  getAlertTransitions
 } from '../controllers/alertController';
-import { authenticateToken, requireApprovedStatus } from '../middleware/auth';
+import { getActiveAlertCoverage, getAlertCoverage } from '../controllers/acknowledgementController';
+import { diffAlertRevisions, getAlertRevision, getAlertRevisions } from '../controllers/alertRevisionController';
+import { getAlertEscalations } from '../controllers/escalationController';
+import { getIngestedMessages } from '../controllers/ingestController';
+import { authenticateToken, requireApprovedStatus, requireAuthority, requireOperational } from '../middleware/auth';
 
 const router = Router();
 
@@ -21,16 +36,36 @@ router.use(requireApprovedStatus);
 // Alert routes
 router.get('/', getAlerts);
 router.get('/active', getActiveAlerts);
+router.get('/imports', requireAuthority, getIngestedMessages);
+router.get('/coverage', requireOperational, getActiveAlertCoverage);
 router.get('/:id', getAlert);
+router.get('/:id/areas', getAffectedAreas);
+router.get('/:id/targets', getAffectedTargets);
+router.get('/:id/revisions', getAlertRevisions);
+router.get('/:id/revisions/diff', diffAlertRevisions);
+router.get('/:id/revisions/:revision', getAlertRevision);
 router.post('/:id/acknowledge', acknowledgeAlert);
 
 // Notification preferences
 router.get('/preferences/notifications', getUserNotificationPreferences);
 router.put('/preferences/notifications', updateUserNotificationPreferences);
+router.post('/preferences/push-tokens', registerPushToken);
+router.delete('/preferences/push-tokens', removePushToken);
 
 // Admin/Authority only routes
 router.post('/', createAlert);
 router.put('/:id', updateAlert);
+router.put('/:id/areas', updateAffectedAreas);
 router.post('/:id/deactivate', deactivateAlert);
+router.get('/:id/transitions', requireOperational, getAlertTransitions);
+router.get('/:id/coverage', requireOperational, getAlertCoverage);
+router.get('/:id/escalations', requireOperational, getAlertEscalations);
+
+// Authoring workflow
+router.post('/:id/submit', requireOperational, submitAlert);
+router.post('/:id/publish', requireOperational, publishAlert);
+router.post('/:id/approve', requireAuthority, approveAlert);
+router.post('/:id/reject', requireAuthority, rejectAlert);
+router.get('/:id/notifications', requireAuthority, getAlertNotificationLogs);
 
 export default router;
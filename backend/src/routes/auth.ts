@@ -1,5 +1,13 @@
 import { Router } from 'express';
-import { register, login, getProfile, updateProfile } from '../controllers/authController';
+import {
+  register,
+  login,
+  refreshToken,
+  logout,
+  getProfile,
+  updateProfile,
+  changePassword
+} from '../controllers/authController';
 import { authenticateToken, requireApprovedStatus } from '../middleware/auth';
 
 const router = Router();
@@ -7,9 +15,12 @@ const router = Router();
 // Public routes
 router.post('/register', register);
 router.post('/login', login);
+router.post('/refresh', refreshToken);
+router.post('/logout', logout);
 
 // Protected routes
 router.get('/profile', authenticateToken, requireApprovedStatus, getProfile);
 router.put('/profile', authenticateToken, requireApprovedStatus, updateProfile);
+router.put('/password', authenticateToken, requireApprovedStatus, changePassword);
 
 export default router;
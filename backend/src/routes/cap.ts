@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import {
+  getCapIndex,
+  getAlertCap,
+  getAlertCapHistory,
+  getCapMessage
+} from '../controllers/capController';
+
+const router = Router();
+
+// Public CAP 1.2 feed for other agencies; only issued messages are exposed
+router.get('/alerts', getCapIndex);
+router.get('/alerts/:id', getAlertCap);
+router.get('/alerts/:id/messages', getAlertCapHistory);
+router.get('/messages/:identifier', getCapMessage);
+
+export default router;
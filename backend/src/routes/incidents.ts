@@ -1,13 +1,47 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import {
   createIncidentReport,
   getIncidentReports,
   getIncidentReport,
   updateIncidentReport,
+  triageIncidentReport,
+  assignIncidentReport,
+  startIncidentInvestigation,
   verifyIncidentReport,
-  resolveIncidentReport
+  rejectIncidentReport,
+  resolveIncidentReport,
+  reopenIncidentReport,
+  getIncidentSlas,
+  updateIncidentSla
 } from '../controllers/incidentController';
-import { authenticateToken, requireApprovedStatus } from '../middleware/auth';
+import { createIncidentComment, getIncidentActivity } from '../controllers/incidentActivityController';
+import { createAlertFromIncident } from '../controllers/alertController';
+import {
+  dismissIncidentDuplicate,
+  getIncidentClusters,
+  getIncidentDuplicates,
+  mergeIncidentReports
+} from '../controllers/incidentClusterController';
+import {
+  attachIncidentMedia,
+  createMediaUpload,
+  deleteMediaUpload,
+  downloadMedia,
+  getIncidentMedia,
+  getMediaLimits,
+  getMediaUpload,
+  rejectOversizedBody,
+  uploadMediaChunk,
+  uploadMediaThumbnail
+} from '../controllers/incidentMediaController';
+import { getIncidentAnalytics } from '../controllers/incidentAnalyticsController';
+import {
+  approvePublicIncidentReport,
+  getPublicReportQueue,
+  rejectPublicIncidentReport
+} from '../controllers/publicReportController';
+import { MAX_THUMBNAIL_BYTES, MEDIA_CHUNK_BYTES } from '../services/incidentMediaService';
+import { authenticateToken, requireAdmin, requireApprovedStatus, requireAuthority, requireOperational } from '../middleware/auth';
 
 const router = Router();
 
@@ -15,14 +49,69 @@ const router = Router();
 router.use(authenticateToken);
 router.use(requireApprovedStatus);
 
+// SLA routes (before /:id so "slas" is not taken for an incident id)
+router.get('/slas', requireOperational, getIncidentSlas);
+router.put('/slas/:severity', requireAdmin, updateIncidentSla);
+
+// Reports grouped by merges and duplicate suggestions (also before /:id)
+router.get('/clusters', requireOperational, getIncidentClusters);
+
+// Aggregate figures; staff see every report, contributors their organisation's, others their own (also before /:id)
+router.get('/analytics', getIncidentAnalytics);
+
+// Moderation of reports sent without an account (also before /:id)
+router.get('/moderation', requireOperational, getPublicReportQueue);
+router.post('/moderation/:reportId/approve', requireOperational, approvePublicIncidentReport);
+router.post('/moderation/:reportId/reject', requireOperational, rejectPublicIncidentReport);
+
+// Photo and video uploads, sent in chunks so an interrupted upload can resume (also before /:id)
+router.get('/media/limits', getMediaLimits);
+router.post('/media', createMediaUpload);
+router.get('/media/:mediaId', getMediaUpload);
+router.put(
+  '/media/:mediaId/content',
+  express.raw({ type: () => true, limit: MEDIA_CHUNK_BYTES }),
+  uploadMediaChunk,
+  rejectOversizedBody
+);
+router.put(
+  '/media/:mediaId/thumbnail',
+  express.raw({ type: 'image/jpeg', limit: MAX_THUMBNAIL_BYTES }),
+  uploadMediaThumbnail,
+  rejectOversizedBody
+);
+router.get('/media/:mediaId/file', downloadMedia);
+router.delete('/media/:mediaId', deleteMediaUpload);
+
 // Incident report routes
 router.post('/', createIncidentReport);
 router.get('/', getIncidentReports);
 router.get('/:id', getIncidentReport);
 router.put('/:id', updateIncidentReport);
 
-// Admin/Authority only routes
-router.post('/:id/verify', verifyIncidentReport);
-router.post('/:id/resolve', resolveIncidentReport);
+// Activity timeline and comments (the reporter and incident handling staff)
+router.get('/:id/activity', getIncidentActivity);
+router.post('/:id/comments', createIncidentComment);
+
+// Evidence attached to the report (the reporter and incident handling staff)
+router.get('/:id/media', getIncidentMedia);
+router.post('/:id/media', attachIncidentMedia);
+
+// Investigation workflow (incident handling staff only)
+router.post('/:id/triage', requireOperational, triageIncidentReport);
+router.post('/:id/assign', requireOperational, assignIncidentReport);
+router.post('/:id/investigate', requireOperational, startIncidentInvestigation);
+router.post('/:id/verify', requireOperational, verifyIncidentReport);
+router.post('/:id/reject', requireOperational, rejectIncidentReport);
+router.post('/:id/resolve', requireOperational, resolveIncidentReport);
+router.post('/:id/reopen', requireOperational, reopenIncidentReport);
+
+// Start an alert draft from a verified incident
+router.post('/:id/promote', requireOperational, createAlertFromIncident);
+
+// Duplicate review: staff see and dismiss suggestions, authorities merge
+router.get('/:id/duplicates', requireOperational, getIncidentDuplicates);
+router.post('/:id/duplicates/:otherId/dismiss', requireOperational, dismissIncidentDuplicate);
+router.post('/:id/merge', requireAuthority, mergeIncidentReports);
 
 export default router;
@@ -0,0 +1,17 @@
+import express, { Router } from 'express';
+import { ingestAlerts } from '../controllers/ingestController';
+import { requireIngestApiKey } from '../middleware/auth';
+
+const router = Router();
+
+// Upstream agencies authenticate with an API key rather than a user session
+router.use(requireIngestApiKey);
+
+// CAP XML arrives as text; JSON webhooks use the app-wide JSON parser
+router.post(
+  '/alerts',
+  express.text({ type: ['application/xml', 'text/xml', 'application/cap+xml'], limit: '2mb' }),
+  ingestAlerts
+);
+
+export default router;
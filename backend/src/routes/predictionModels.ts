@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import {
+  registerModel,
+  getModels,
+  getModel,
+  getModelHistory,
+  activateModel,
+  deactivateModel
+} from '../controllers/predictionModelController';
+import { authenticateToken, requireApprovedStatus, requireOperational } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require authentication and approved status
+router.use(authenticateToken);
+router.use(requireApprovedStatus);
+
+// Model registry routes
+router.get('/', getModels);
+router.get('/:id', getModel);
+router.get('/:id/history', getModelHistory);
+
+// Operational and above only routes
+router.post('/', requireOperational, registerModel);
+router.post('/:id/activate', requireOperational, activateModel);
+router.post('/:id/deactivate', requireOperational, deactivateModel);
+
+export default router;
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import {
+  createPredictions,
+  getPredictions,
+  getPrediction
+} from '../controllers/predictionController';
+import { authenticateToken, requireApprovedStatus, requireOperational } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require authentication and approved status
+router.use(authenticateToken);
+router.use(requireApprovedStatus);
+
+// Prediction routes
+router.get('/', getPredictions);
+router.get('/:id', getPrediction);
+
+// Operational and above only routes
+router.post('/', requireOperational, createPredictions);
+
+export default router;
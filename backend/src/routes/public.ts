@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { getPublicReportChallenge, submitPublicReport } from '../controllers/publicReportController';
+import { rateLimit } from '../middleware/rateLimit';
+
+const router = Router();
+
+// No account needed; a coarse per-address limit sits in front of the per-device and per-network checks
+router.use(rateLimit({ windowMs: 10 * 60000, max: 30 }));
+
+// Anonymous incident reports, held for moderation before they join the incident workflow
+router.get('/incidents/challenge', getPublicReportChallenge);
+router.post('/incidents', submitPublicReport);
+
+export default router;
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { streamEvents } from '../controllers/realtimeController';
+import { authenticateToken, requireApprovedStatus } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require authentication and approved status
+router.use(authenticateToken);
+router.use(requireApprovedStatus);
+
+// Live event stream
+router.get('/stream', streamEvents);
+
+export default router;
@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import {
+  computeAssessments,
+  getAssessments,
+  getAssessment,
+  reviewAssessment,
+  getWeights,
+  updateWeights
+} from '../controllers/riskController';
+import {
+  authenticateToken,
+  requireApprovedStatus,
+  requireOperational,
+  requireAuthority,
+  requireAdmin
+} from '../middleware/auth';
+
+const router = Router();
+
+// All routes require authentication and approved status
+router.use(authenticateToken);
+router.use(requireApprovedStatus);
+
+// Risk weight configuration
+router.get('/weights', getWeights);
+router.put('/weights', requireAdmin, updateWeights);
+
+// Risk assessment routes
+router.get('/assessments', getAssessments);
+router.get('/assessments/:id', getAssessment);
+router.post('/assessments/compute', requireOperational, computeAssessments);
+router.post('/assessments/:id/review', requireAuthority, reviewAssessment);
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { getSectorOfficers, getSectors, replaceSectorOfficers, upsertSector } from '../controllers/sectorController';
+import { authenticateToken, requireAdmin, requireApprovedStatus, requireOperational } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require authentication and approved status
+router.use(authenticateToken);
+router.use(requireApprovedStatus);
+
+// Sector routes
+router.get('/', getSectors);
+router.get('/:code/officers', requireOperational, getSectorOfficers);
+
+// Admin only routes
+router.put('/:code', requireAdmin, upsertSector);
+router.put('/:code/officers', requireAdmin, replaceSectorOfficers);
+
+export default router;
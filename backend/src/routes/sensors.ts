@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import {
+  createSensor,
+  getSensors,
+  getSensor,
+  updateSensor,
+  retireSensor
+} from '../controllers/sensorController';
+import {
+  ingestReadings,
+  getReadingAggregates,
+  getReadingTrend
+} from '../controllers/readingController';
+import { authenticateToken, requireApprovedStatus, requireOperational } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require authentication and approved status
+router.use(authenticateToken);
+router.use(requireApprovedStatus);
+
+// Sensor registry routes
+router.get('/', getSensors);
+router.get('/:id', getSensor);
+router.get('/:id/readings/aggregate', getReadingAggregates);
+router.get('/:id/readings/trend', getReadingTrend);
+
+// Operational and above only routes
+router.post('/', requireOperational, createSensor);
+router.put('/:id', requireOperational, updateSensor);
+router.post('/:id/retire', requireOperational, retireSensor);
+router.post('/:id/readings', requireOperational, ingestReadings);
+
+export default router;
@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import {
+  createShelter,
+  getShelters,
+  getShelter,
+  updateShelter
+} from '../controllers/shelterController';
+import { authenticateToken, requireApprovedStatus, requireOperational } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require authentication and approved status
+router.use(authenticateToken);
+router.use(requireApprovedStatus);
+
+// Shelter routes
+router.get('/', getShelters);
+router.get('/:id', getShelter);
+
+// Operational and above only routes
+router.post('/', requireOperational, createShelter);
+router.put('/:id', requireOperational, updateShelter);
+
+export default router;
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { createTeam, deleteTeam, getTeams, replaceTeamMembers, updateTeam } from '../controllers/teamController';
+import { authenticateToken, requireAdmin, requireApprovedStatus, requireOperational } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require authentication and approved status
+router.use(authenticateToken);
+router.use(requireApprovedStatus);
+
+// Team routes
+router.get('/', requireOperational, getTeams);
+
+// Admin only routes
+router.post('/', requireAdmin, createTeam);
+router.put('/:id', requireAdmin, updateTeam);
+router.delete('/:id', requireAdmin, deleteTeam);
+router.put('/:id/members', requireAdmin, replaceTeamMembers);
+
+export default router;
@@ -0,0 +1,251 @@
+import { supabaseAdmin } from '../config/supabase';
+
+export const ACK_CHANNELS = ['app', 'web', 'sms', 'email', 'push'];
+export const ACK_RESPONSES = ['safe', 'need_help'];
+
+export interface AcknowledgementInput {
+  channel?: string;
+  response?: string | null;
+  notes?: string | null;
+}
+
+export interface CoverageMember {
+  alert_id: string;
+  user_id: string;
+  full_name: string;
+  organization: string | null;
+  role: string;
+  sector: string | null;
+  phone: string | null;
+  acknowledged_at: string | null;
+  channel: string | null;
+  response: string | null;
+  response_notes: string | null;
+}
+
+export interface CoverageGroup {
+  key: string | null;
+  recipients: number;
+  acknowledged: number;
+  safe: number;
+  need_help: number;
+  coverage: number;
+}
+
+export interface CoverageSummary {
+  alert_id: string;
+  totals: Omit<CoverageGroup, 'key'>;
+  by_organization: CoverageGroup[];
+  by_sector: CoverageGroup[];
+  by_role: CoverageGroup[];
+}
+
+export interface AlertCoverage extends CoverageSummary {
+  members: CoverageMember[];
+}
+
+// A row of get_alert_coverage_groups
+interface CoverageGroupRow {
+  alert_id: string;
+  dimension: 'total' | 'organization' | 'sector' | 'role';
+  key: string | null;
+  recipients: number;
+  acknowledged: number;
+  safe: number;
+  need_help: number;
+}
+
+// Coverage rows are read in pages; PostgREST caps a single response at 1000 rows
+const COVERAGE_PAGE_SIZE = 1000;
+
+export class AcknowledgementError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AcknowledgementError';
+  }
+}
+
+/**
+ * Record that `userId` received the alert. The first acknowledgement keeps its
+ * time and channel; later calls only update the welfare response, so a
+ * recipient can report "safe" and then "need help" (or the reverse).
+ */
+export const recordAcknowledgement = async (alertId: string, userId: string, input: AcknowledgementInput) => {
+  const channel = input.channel || 'app';
+  if (!ACK_CHANNELS.includes(channel)) {
+    throw new AcknowledgementError(`channel must be one of: ${ACK_CHANNELS.join(', ')}`);
+  }
+  if (input.response && !ACK_RESPONSES.includes(input.response)) {
+    throw new AcknowledgementError(`response must be one of: ${ACK_RESPONSES.join(', ')}`);
+  }
+
+  const now = new Date().toISOString();
+  const response = input.response
+    ? { response: input.response, response_notes: input.notes || null, responded_at: now }
+    : {};
+
+  const { data: inserted, error: insertError } = await supabaseAdmin
+    .from('alert_acknowledgements')
+    .insert({ alert_id: alertId, user_id: userId, channel, acknowledged_at: now, ...response })
+    .select()
+    .single();
+
+  if (!insertError) return { acknowledgement: inserted, first: true };
+  if (insertError.code !== '23505') throw insertError;
+
+  // Already acknowledged: keep the original receipt, update the response if one was given
+  const { data: existing, error } = input.response
+    ? await supabaseAdmin
+      .from('alert_acknowledgements')
+      .update(response)
+      .eq('alert_id', alertId)
+      .eq('user_id', userId)
+      .select()
+      .single()
+    : await supabaseAdmin
+      .from('alert_acknowledgements')
+      .select('*')
+      .eq('alert_id', alertId)
+      .eq('user_id', userId)
+      .single();
+
+  if (error) throw error;
+  return { acknowledgement: existing, first: false };
+};
+
+const coverageRatio = (group: CoverageGroup) =>
+  group.recipients > 0 ? Math.round((group.acknowledged / group.recipients) * 1000) / 1000 : 0;
+
+const emptyGroup = (key: string | null): CoverageGroup =>
+  ({ key, recipients: 0, acknowledged: 0, safe: 0, need_help: 0, coverage: 0 });
+
+const addMember = (group: CoverageGroup, member: CoverageMember) => {
+  group.recipients++;
+  if (member.acknowledged_at) group.acknowledged++;
+  if (member.response === 'safe') group.safe++;
+  if (member.response === 'need_help') group.need_help++;
+  group.coverage = coverageRatio(group);
+};
+
+// Least-covered groups first so gaps stand out
+const byCoverage = (a: CoverageGroup, b: CoverageGroup) => a.coverage - b.coverage || b.recipients - a.recipients;
+
+// Tally members by one attribute
+const groupBy = (members: CoverageMember[], keyOf: (member: CoverageMember) => string | null) => {
+  const groups = new Map<string | null, CoverageGroup>();
+  for (const member of members) {
+    const key = keyOf(member);
+    if (!groups.has(key)) groups.set(key, emptyGroup(key));
+    addMember(groups.get(key)!, member);
+  }
+  return [...groups.values()].sort(byCoverage);
+};
+
+// Page through a coverage function, so large alerts are not cut off at the response cap
+const loadCoverageRows = async <T>(
+  fn: 'get_alert_coverage_members' | 'get_alert_coverage_groups',
+  alertIds: string[],
+  filter?: { column: string; value: string }
+): Promise<T[]> => {
+  const rows: T[] = [];
+
+  for (let offset = 0; ; offset += COVERAGE_PAGE_SIZE) {
+    let query = supabaseAdmin.rpc(fn, { alert_ids: alertIds });
+    if (filter) query = query.eq(filter.column, filter.value);
+
+    const { data: page, error } = await query
+      .order('alert_id', { ascending: true })
+      .order(fn === 'get_alert_coverage_members' ? 'user_id' : 'dimension', { ascending: true })
+      .range(offset, offset + COVERAGE_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...((page || []) as T[]));
+    if (!page || page.length < COVERAGE_PAGE_SIZE) return rows;
+  }
+};
+
+/**
+ * Who an alert reached and who has confirmed it. Recipients are the users a
+ * notification for the alert was actually sent to (from notification_logs),
+ * plus anyone who acknowledged it without being notified.
+ */
+export const getAlertCoverage = async (alertId: string): Promise<AlertCoverage> => {
+  const members = await loadCoverageRows<CoverageMember>('get_alert_coverage_members', [alertId]);
+
+  const totals = emptyGroup(null);
+  members.forEach(member => addMember(totals, member));
+  const { key: _key, ...summary } = totals;
+
+  return {
+    alert_id: alertId,
+    totals: summary,
+    by_organization: groupBy(members, member => member.organization),
+    by_sector: groupBy(members, member => member.sector),
+    by_role: groupBy(members, member => member.role),
+    members
+  };
+};
+
+/**
+ * Coverage totals and groups for several alerts, tallied in the database, plus
+ * the recipients who asked for help. Cheap enough to poll for every live alert.
+ */
+export const getCoverageSummaries = async (alertIds: string[]) => {
+  const summaries = new Map<string, CoverageSummary & { need_help: CoverageMember[] }>();
+  if (alertIds.length === 0) return summaries;
+
+  for (const alertId of alertIds) {
+    summaries.set(alertId, {
+      alert_id: alertId,
+      totals: { recipients: 0, acknowledged: 0, safe: 0, need_help: 0, coverage: 0 },
+      by_organization: [],
+      by_sector: [],
+      by_role: [],
+      need_help: []
+    });
+  }
+
+  const groups = await loadCoverageRows<CoverageGroupRow>('get_alert_coverage_groups', alertIds);
+  for (const row of groups) {
+    const summary = summaries.get(row.alert_id);
+    if (!summary) continue;
+
+    const group: CoverageGroup = {
+      key: row.key,
+      recipients: Number(row.recipients),
+      acknowledged: Number(row.acknowledged),
+      safe: Number(row.safe),
+      need_help: Number(row.need_help),
+      coverage: 0
+    };
+    group.coverage = coverageRatio(group);
+
+    if (row.dimension === 'total') {
+      const { key: _key, ...totals } = group;
+      summary.totals = totals;
+    } else if (row.dimension === 'organization') {
+      summary.by_organization.push(group);
+    } else if (row.dimension === 'sector') {
+      summary.by_sector.push(group);
+    } else {
+      summary.by_role.push(group);
+    }
+  }
+
+  const needHelp = await loadCoverageRows<CoverageMember>(
+    'get_alert_coverage_members',
+    alertIds,
+    { column: 'response', value: 'need_help' }
+  );
+  for (const member of needHelp) {
+    summaries.get(member.alert_id)?.need_help.push(member);
+  }
+
+  for (const summary of summaries.values()) {
+    summary.by_organization.sort(byCoverage);
+    summary.by_sector.sort(byCoverage);
+    summary.by_role.sort(byCoverage);
+  }
+
+  return summaries;
+};
@@ -0,0 +1,92 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AlertIngestError, ingestExternalAlert, parseExternalPayload } from './alertIngestService';
+import { GeoValidationError } from '../utils/geo';
+
+// Offline import: agencies (or a sync job) drop CAP XML / JSON files into ALERT_IMPORT_DIR.
+// Each file is ingested once and moved to processed/ or failed/ next to it.
+// A file that is itself invalid fails at once; one that hit a database or network error
+// stays where it is and is tried again on later runs, up to MAX_IMPORT_ATTEMPTS times.
+
+const IMPORT_DIR = process.env.ALERT_IMPORT_DIR;
+const IMPORT_INTERVAL_MS = Number(process.env.ALERT_IMPORT_INTERVAL_MS || 30000);
+const IMPORT_EXTENSIONS = ['.xml', '.cap', '.json'];
+
+const MAX_IMPORT_ATTEMPTS = 5;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+// Failed attempts per file still waiting in the drop directory
+const attempts = new Map<string, number>();
+
+const moveTo = async (dir: string, file: string, folder: 'processed' | 'failed') => {
+  const target = path.join(dir, folder);
+  await fs.mkdir(target, { recursive: true });
+  await fs.rename(path.join(dir, file), path.join(target, file));
+  return target;
+};
+
+export const importDropDirectory = async (dir: string) => {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  // File names usually carry the issue time, so name order is issue order
+  const files = entries
+    .filter(entry => entry.isFile() && IMPORT_EXTENSIONS.includes(path.extname(entry.name).toLowerCase()))
+    .map(entry => entry.name)
+    .sort();
+
+  let imported = 0;
+  for (const file of files) {
+    const key = path.join(dir, file);
+    try {
+      const payload = await fs.readFile(path.join(dir, file), 'utf8');
+      const result = await ingestExternalAlert(parseExternalPayload(payload), 'directory', payload);
+      await moveTo(dir, file, 'processed');
+      console.log(`Imported ${file}: ${result.status}${result.alert_id ? ` (alert ${result.alert_id})` : ''}`);
+      imported += 1;
+      attempts.delete(key);
+    } catch (error) {
+      const tries = (attempts.get(key) || 0) + 1;
+      const invalid = error instanceof AlertIngestError || error instanceof GeoValidationError;
+
+      if (!invalid && tries < MAX_IMPORT_ATTEMPTS) {
+        attempts.set(key, tries);
+        console.error(`Import of ${file} failed (attempt ${tries} of ${MAX_IMPORT_ATTEMPTS}), will retry:`, error);
+        continue;
+      }
+
+      attempts.delete(key);
+      console.error(`Import of ${file} failed:`, error);
+      const target = await moveTo(dir, file, 'failed');
+      await fs.writeFile(path.join(target, `${file}.error.txt`), `${(error as Error).message}\n`);
+    }
+  }
+
+  return imported;
+};
+
+export const startAlertDropImporter = () => {
+  if (timer || !IMPORT_DIR) return;
+
+  timer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow run
+    if (running) return;
+    running = true;
+    try {
+      await importDropDirectory(IMPORT_DIR);
+    } catch (error) {
+      console.error('Alert import run failed:', error);
+    } finally {
+      running = false;
+    }
+  }, IMPORT_INTERVAL_MS);
+
+  console.log(`📥 Alert importer watching ${IMPORT_DIR} every ${IMPORT_INTERVAL_MS / 1000}s`);
+};
+
+export const stopAlertDropImporter = () => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
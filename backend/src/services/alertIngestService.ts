@@ -0,0 +1,466 @@
+import { AlertCategory, AlertType, IncidentSeverity, supabaseAdmin } from '../config/supabase';
+import { recordRevision } from './alertRevisionService';
+import { recordTransition } from './alertWorkflowService';
+import { replaceAlertAreas } from './geofenceService';
+import { isEscalation, queueAlertNotifications } from './notificationService';
+import { publish } from './realtimeService';
+import { parseAlertAreas, parseGeometry } from '../utils/geo';
+import { XmlElement, childText, children, parseXml } from '../utils/xml';
+
+// Import of alerts issued by other agencies, as CAP 1.2 XML or a simple JSON webhook.
+// Every received message is recorded in alert_ingest_messages; its (sender, identifier)
+// pair is unique, which is what makes re-deliveries no-ops.
+
+export type IngestStatus = 'created' | 'updated' | 'cancelled' | 'ignored' | 'duplicate';
+
+export interface ExternalReference {
+  sender: string;
+  identifier: string;
+}
+
+export interface ExternalAlert {
+  sender: string;
+  identifier: string;
+  sent: string | null;
+  status: string;
+  msg_type: string;
+  references: ExternalReference[];
+  type: string | null;
+  title: string | null;
+  message: string | null;
+  category: string | null;
+  severity: string | null;
+  location: string | null;
+  sector: string | null;
+  coordinates: unknown;
+  areas: unknown[];
+  expires_at: string | null;
+}
+
+export interface IngestResult {
+  status: IngestStatus;
+  identifier: string;
+  alert_id: string | null;
+  reason?: string;
+}
+
+export class AlertIngestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlertIngestError';
+  }
+}
+
+const MSG_TYPES = ['Alert', 'Update', 'Cancel'];
+
+// CAP severity → incident_severity
+const SEVERITY: Record<string, IncidentSeverity> = {
+  Extreme: IncidentSeverity.CRITICAL,
+  Severe: IncidentSeverity.HIGH,
+  Moderate: IncidentSeverity.MEDIUM,
+  Minor: IncidentSeverity.LOW,
+  Unknown: IncidentSeverity.LOW
+};
+
+// Checked in order against the event name and headline
+const CATEGORY_KEYWORDS: [RegExp, AlertCategory][] = [
+  [/tsunami/i, AlertCategory.TSUNAMI],
+  [/storm surge|tide|tidal|high wave|swell/i, AlertCategory.TIDAL],
+  [/cyclone|hurricane|typhoon|depression/i, AlertCategory.CYCLONE],
+  [/oil|spill|pollution|contamina/i, AlertCategory.POLLUTION],
+  [/algal|bloom|marine life|fish kill|coral|jellyfish/i, AlertCategory.MARINE_LIFE]
+];
+
+const CAP_CATEGORY: Record<string, AlertCategory> = {
+  Met: AlertCategory.WEATHER,
+  Env: AlertCategory.ENVIRONMENTAL
+};
+
+const capType = (urgency: string | null, severity: string | null, responseType: string | null) => {
+  if (responseType === 'AllClear' || urgency === 'Past') return AlertType.SAFE;
+  const serious = severity === 'Extreme' || severity === 'Severe';
+  if (urgency === 'Immediate' && serious) return AlertType.EMERGENCY;
+  if ((urgency === 'Immediate' || urgency === 'Expected') && (serious || severity === 'Moderate')) {
+    return AlertType.WARNING;
+  }
+  return AlertType.ADVISORY;
+};
+
+const capCategory = (text: string, categories: string[]) => {
+  const match = CATEGORY_KEYWORDS.find(([pattern]) => pattern.test(text));
+  if (match) return match[1];
+  return categories.map(category => CAP_CATEGORY[category]).find(Boolean) || AlertCategory.OTHER;
+};
+
+// "sender,identifier,sent sender,identifier,sent"
+const parseReferences = (value: string | null): ExternalReference[] =>
+  (value || '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(entry => {
+      const [sender, identifier] = entry.split(',');
+      return { sender, identifier };
+    })
+    .filter(reference => reference.sender && reference.identifier);
+
+// CAP polygon "lat,lon lat,lon ..." → GeoJSON Polygon; circle "lat,lon radiusKm" → circle area
+const capAreaShapes = (area: XmlElement) => {
+  const shapes: unknown[] = [];
+
+  for (const polygon of children(area, 'polygon')) {
+    const ring = polygon.text.trim().split(/\s+/).map(pair => {
+      const [lat, lng] = pair.split(',').map(Number);
+      return [lng, lat];
+    });
+    shapes.push({ type: 'Feature', properties: { name: childText(area, 'areaDesc') }, geometry: { type: 'Polygon', coordinates: [ring] } });
+  }
+
+  for (const circle of children(area, 'circle')) {
+    const [center, radiusKm] = circle.text.trim().split(/\s+/);
+    const radius = Number(radiusKm) * 1000;
+    if (radius > 0) {
+      shapes.push({ type: 'Circle', name: childText(area, 'areaDesc'), center, radius_m: radius });
+    }
+  }
+
+  return shapes;
+};
+
+/**
+ * Read a CAP 1.2 document. The English <info> block is used when there are
+ * several languages. Throws AlertIngestError for anything that is not CAP.
+ */
+export const parseCapAlert = (xml: string): ExternalAlert => {
+  let root: XmlElement;
+  try {
+    root = parseXml(xml);
+  } catch (error) {
+    throw new AlertIngestError(`Invalid XML: ${(error as Error).message}`);
+  }
+
+  if (root.name !== 'alert') {
+    throw new AlertIngestError('Document is not a CAP <alert>');
+  }
+
+  const identifier = childText(root, 'identifier');
+  const sender = childText(root, 'sender');
+  if (!identifier || !sender) {
+    throw new AlertIngestError('CAP alert needs <identifier> and <sender>');
+  }
+
+  const infos = children(root, 'info');
+  const info = infos.find(block => (childText(block, 'language') || 'en-US').toLowerCase().startsWith('en')) || infos[0];
+  const areas = children(info, 'area');
+
+  // A zero-radius circle is just the alert's position
+  const pointCircle = areas
+    .flatMap(area => children(area, 'circle'))
+    .map(circle => circle.text.trim().split(/\s+/))
+    .find(([, radius]) => Number(radius) === 0);
+
+  const event = childText(info, 'event') || '';
+  const headline = childText(info, 'headline');
+  const description = [childText(info, 'description'), childText(info, 'instruction')].filter(Boolean).join('\n\n');
+
+  return {
+    sender,
+    identifier,
+    sent: childText(root, 'sent'),
+    status: childText(root, 'status') || 'Actual',
+    msg_type: childText(root, 'msgType') || 'Alert',
+    references: parseReferences(childText(root, 'references')),
+    type: info ? capType(childText(info, 'urgency'), childText(info, 'severity'), childText(info, 'responseType')) : null,
+    title: headline || event || null,
+    message: description || headline || event || null,
+    category: info ? capCategory(`${event} ${headline || ''}`, children(info, 'category').map(node => node.text.trim())) : null,
+    severity: info ? SEVERITY[childText(info, 'severity') || 'Unknown'] || IncidentSeverity.LOW : null,
+    location: areas.map(area => childText(area, 'areaDesc')).filter(Boolean).join('; ') || null,
+    sector: null,
+    coordinates: pointCircle ? pointCircle[0] : null,
+    areas: areas.flatMap(capAreaShapes),
+    expires_at: childText(info, 'expires')
+  };
+};
+
+/**
+ * Read a JSON webhook body. Fields use our own alert vocabulary; `references`
+ * lists earlier identifiers from the same sender (or "sender,identifier,sent" strings).
+ */
+export const parseJsonAlert = (body: Record<string, any>): ExternalAlert => {
+  if (!body || typeof body !== 'object' || !body.identifier || !body.sender) {
+    throw new AlertIngestError('JSON alert needs identifier and sender');
+  }
+
+  const sender = String(body.sender);
+  const references = Array.isArray(body.references)
+    ? body.references.map((reference: unknown) => {
+      const parts = String(reference).split(',');
+      return parts.length > 1 ? { sender: parts[0], identifier: parts[1] } : { sender, identifier: parts[0] };
+    })
+    : [];
+
+  return {
+    sender,
+    identifier: String(body.identifier),
+    sent: body.sent || null,
+    status: body.status || 'Actual',
+    msg_type: body.msg_type || 'Alert',
+    references,
+    type: body.type || null,
+    title: body.title || null,
+    message: body.message || null,
+    category: body.category || null,
+    severity: body.severity || null,
+    location: body.location || null,
+    sector: body.sector || null,
+    coordinates: body.coordinates ?? null,
+    areas: Array.isArray(body.areas) ? body.areas : body.areas ? [body.areas] : [],
+    expires_at: body.expires_at || null
+  };
+};
+
+// Check the alert content of an Alert/Update message and turn it into column values
+const toAlertFields = (input: ExternalAlert) => {
+  if (!input.title || !input.message || !input.location) {
+    throw new AlertIngestError('Alert needs a title, message and location (CAP headline/event, description, areaDesc)');
+  }
+  if (!Object.values(AlertType).includes(input.type as AlertType)) {
+    throw new AlertIngestError(`Invalid type: ${input.type}`);
+  }
+  if (!Object.values(AlertCategory).includes(input.category as AlertCategory)) {
+    throw new AlertIngestError(`Invalid category: ${input.category}`);
+  }
+  if (!Object.values(IncidentSeverity).includes(input.severity as IncidentSeverity)) {
+    throw new AlertIngestError(`Invalid severity: ${input.severity}`);
+  }
+
+  const expiresAt = input.expires_at ? new Date(input.expires_at) : null;
+  if (expiresAt && Number.isNaN(expiresAt.getTime())) {
+    throw new AlertIngestError('expires must be an ISO 8601 date');
+  }
+
+  const position = parseGeometry(input.coordinates);
+
+  return {
+    fields: {
+      type: input.type,
+      title: input.title,
+      message: input.message,
+      category: input.category,
+      severity: input.severity,
+      location: input.location,
+      sector: input.sector,
+      coordinates: position?.coordinates || null,
+      geom: position?.ewkt || null,
+      expires_at: expiresAt ? expiresAt.toISOString() : null
+    },
+    areas: parseAlertAreas(input.areas)
+  };
+};
+
+// Newest alert created from any of the referenced messages
+const findReferencedAlert = async (references: ExternalReference[]) => {
+  if (references.length === 0) return null;
+
+  const { data: messages, error } = await supabaseAdmin
+    .from('alert_ingest_messages')
+    .select('sender, identifier, alert_id')
+    .in('identifier', references.map(reference => reference.identifier))
+    .not('alert_id', 'is', null)
+    .order('received_at', { ascending: false });
+
+  if (error) throw error;
+
+  const match = (messages || []).find(message =>
+    references.some(reference => reference.sender === message.sender && reference.identifier === message.identifier)
+  );
+  if (!match) return null;
+
+  const { data: alert } = await supabaseAdmin
+    .from('alerts')
+    .select('*')
+    .eq('id', match.alert_id)
+    .maybeSingle();
+
+  return alert;
+};
+
+const createImportedAlert = async (input: ExternalAlert) => {
+  const { fields, areas } = toAlertFields(input);
+  const now = new Date().toISOString();
+
+  if (fields.expires_at && fields.expires_at <= now) {
+    return { status: 'ignored' as IngestStatus, alert: null, reason: 'Alert already expired' };
+  }
+
+  const { data: alert, error } = await supabaseAdmin
+    .from('alerts')
+    .insert({
+      ...fields,
+      source: input.sender,
+      source_identifier: input.identifier,
+      status: 'published',
+      is_active: true,
+      published_at: now,
+      created_by: null
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  await replaceAlertAreas(alert.id, areas);
+  await recordTransition({ alertId: alert.id, action: 'publish', from: null, to: alert.status, userId: null, notes: `Imported from ${input.sender}` });
+  await recordRevision(alert, null);
+
+  // Imported alerts are not re-exported to our CAP feed, so agencies ingesting each other do not loop
+  queueAlertNotifications(alert, 'created');
+  publish({ type: 'alert.created', sector: alert.sector, data: { alert } });
+
+  return { status: 'created' as IngestStatus, alert };
+};
+
+const updateImportedAlert = async (input: ExternalAlert, current: Record<string, any>) => {
+  const { fields, areas } = toAlertFields(input);
+
+  const { data: alert, error } = await supabaseAdmin
+    .from('alerts')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', current.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  await replaceAlertAreas(alert.id, areas);
+  await recordTransition({ alertId: alert.id, action: 'update', from: current.status, to: alert.status, userId: null, notes: `Update ${input.identifier} from ${input.sender}` });
+  await recordRevision(alert, null);
+
+  if (alert.is_active && isEscalation(current.type, alert.type)) {
+    queueAlertNotifications(alert, 'escalated');
+  }
+  publish({ type: 'alert.updated', sector: alert.sector, data: { alert } });
+
+  return { status: 'updated' as IngestStatus, alert };
+};
+
+const cancelImportedAlert = async (current: Record<string, any>) => {
+  if (current.deactivated_at) {
+    return { status: 'ignored' as IngestStatus, alert: current, reason: 'Alert already deactivated' };
+  }
+
+  const now = new Date().toISOString();
+  const { data: alert, error } = await supabaseAdmin
+    .from('alerts')
+    .update({
+      status: 'cancelled',
+      is_active: false,
+      deactivated_at: now,
+      deactivation_reason: 'cancelled',
+      updated_at: now
+    })
+    .eq('id', current.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  await recordTransition({ alertId: alert.id, action: 'cancel', from: current.status, to: alert.status, userId: null, notes: 'Cancelled upstream' });
+
+  if (current.is_active) {
+    queueAlertNotifications(alert, 'lifted');
+  }
+  publish({ type: 'alert.deactivated', sector: alert.sector, data: { alert } });
+
+  return { status: 'cancelled' as IngestStatus, alert };
+};
+
+/**
+ * Apply one external message. The message row is claimed first so concurrent
+ * re-deliveries of the same identifier resolve to a single alert.
+ */
+export const ingestExternalAlert = async (input: ExternalAlert, source: string, payload: string): Promise<IngestResult> => {
+  if (!MSG_TYPES.includes(input.msg_type)) {
+    throw new AlertIngestError(`Unsupported msgType: ${input.msg_type}`);
+  }
+
+  const sentAt = input.sent && !Number.isNaN(new Date(input.sent).getTime()) ? new Date(input.sent).toISOString() : null;
+
+  const { data: claim, error: claimError } = await supabaseAdmin
+    .from('alert_ingest_messages')
+    .insert({
+      source,
+      sender: input.sender,
+      identifier: input.identifier,
+      msg_type: input.msg_type,
+      sent_at: sentAt,
+      cap_references: input.references.map(reference => `${reference.sender},${reference.identifier}`).join(' ') || null,
+      status: 'ignored',
+      payload
+    })
+    .select('id')
+    .single();
+
+  if (claimError) {
+    // 23505: unique violation on (sender, identifier) — already received
+    if (claimError.code === '23505') {
+      const { data: existing } = await supabaseAdmin
+        .from('alert_ingest_messages')
+        .select('alert_id')
+        .eq('sender', input.sender)
+        .eq('identifier', input.identifier)
+        .maybeSingle();
+      return { status: 'duplicate', identifier: input.identifier, alert_id: existing?.alert_id || null };
+    }
+    throw claimError;
+  }
+
+  let outcome: { status: IngestStatus; alert: Record<string, any> | null; reason?: string };
+
+  try {
+    if (input.status !== 'Actual') {
+      outcome = { status: 'ignored', alert: null, reason: `CAP status ${input.status} is not imported` };
+    } else if (input.msg_type === 'Alert') {
+      outcome = await createImportedAlert(input);
+    } else {
+      const current = await findReferencedAlert(input.references);
+      if (input.msg_type === 'Cancel') {
+        outcome = current
+          ? await cancelImportedAlert(current)
+          : { status: 'ignored', alert: null, reason: 'Cancel does not reference a known alert' };
+      } else {
+        // An Update for an alert we never saw is imported as new
+        outcome = current ? await updateImportedAlert(input, current) : await createImportedAlert(input);
+      }
+    }
+  } catch (error) {
+    // Release the claim so a corrected re-delivery can be processed
+    await supabaseAdmin.from('alert_ingest_messages').delete().eq('id', claim.id);
+    throw error;
+  }
+
+  await supabaseAdmin
+    .from('alert_ingest_messages')
+    .update({ status: outcome.status, alert_id: outcome.alert?.id || null })
+    .eq('id', claim.id);
+
+  return {
+    status: outcome.status,
+    identifier: input.identifier,
+    alert_id: outcome.alert?.id || null,
+    ...(outcome.reason ? { reason: outcome.reason } : {})
+  };
+};
+
+// Parse a raw payload by content: XML is CAP, anything else must be JSON
+export const parseExternalPayload = (payload: string): ExternalAlert => {
+  const trimmed = payload.trim();
+  if (trimmed.startsWith('<')) return parseCapAlert(trimmed);
+
+  try {
+    return parseJsonAlert(JSON.parse(trimmed));
+  } catch (error) {
+    if (error instanceof AlertIngestError) throw error;
+    throw new AlertIngestError('Payload is neither CAP XML nor JSON');
+  }
+};
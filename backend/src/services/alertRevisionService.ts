@@ -0,0 +1,116 @@
+import { supabaseAdmin } from '../config/supabase';
+import { AlertAreaRow, getAlertAreas } from './geofenceService';
+
+// Content captured in every revision. Workflow columns (status, approvals)
+// are tracked by alert_transitions instead.
+export const REVISION_FIELDS = [
+  'type',
+  'title',
+  'message',
+  'category',
+  'severity',
+  'location',
+  'sector',
+  'coordinates',
+  'expires_at',
+  'publish_at',
+  'reminder_interval_hours',
+  'areas'
+];
+
+export interface AlertRevision {
+  id: string;
+  alert_id: string;
+  revision_number: number;
+  status: string;
+  content: Record<string, unknown>;
+  changed_fields: string[] | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface RevisionChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+// Two edits saved at once may pick the same revision number; the loser re-reads and tries the next
+const MAX_REVISION_ATTEMPTS = 5;
+
+// JSON-equal comparison; content values are plain JSON so key order is stable
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Field-by-field differences between two revision contents
+export const diffRevisionContent = (
+  from: Record<string, unknown> | null,
+  to: Record<string, unknown>
+): RevisionChange[] =>
+  REVISION_FIELDS
+    .filter(field => !sameValue(from?.[field], to[field]))
+    .map(field => ({ field, from: from?.[field] ?? null, to: to[field] ?? null }));
+
+const snapshotAlert = async (alert: Record<string, any>) => {
+  const content: Record<string, unknown> = {};
+  for (const field of REVISION_FIELDS) {
+    if (field !== 'areas') content[field] = alert[field] ?? null;
+  }
+
+  const areas = await getAlertAreas(alert.id);
+  content.areas = areas.map((area: AlertAreaRow) => ({
+    name: area.name,
+    area_type: area.area_type,
+    radius_m: area.radius_m,
+    geometry: area.geometry
+  }));
+
+  return content;
+};
+
+/**
+ * Store the current content of `alert` (including its affected areas) as the
+ * next revision. Edits that leave the content unchanged do not create one.
+ * A revision number taken by a concurrent edit (a unique violation) is retried
+ * against the new latest revision. Like transitions, any other failed write is
+ * logged rather than failing the edit.
+ */
+export const recordRevision = async (alert: Record<string, any>, userId: string | null) => {
+  try {
+    const content = await snapshotAlert(alert);
+
+    for (let attempt = 1; ; attempt++) {
+      const { data: latest, error: latestError } = await supabaseAdmin
+        .from('alert_revisions')
+        .select('revision_number, content')
+        .eq('alert_id', alert.id)
+        .order('revision_number', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (latestError) throw latestError;
+
+      const changes = diffRevisionContent(latest?.content || null, content);
+      if (latest && changes.length === 0) return null;
+
+      const { data: revision, error } = await supabaseAdmin
+        .from('alert_revisions')
+        .insert({
+          alert_id: alert.id,
+          revision_number: (latest?.revision_number || 0) + 1,
+          status: alert.status,
+          content,
+          changed_fields: latest ? changes.map(change => change.field) : null,
+          created_by: userId
+        })
+        .select()
+        .single();
+
+      if (error?.code === '23505' && attempt < MAX_REVISION_ATTEMPTS) continue;
+      if (error) throw error;
+      return revision as AlertRevision;
+    }
+  } catch (error) {
+    console.error(`Record alert ${alert.id} revision error:`, error);
+    return null;
+  }
+};
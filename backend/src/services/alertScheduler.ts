@@ -0,0 +1,200 @@
+import { supabaseAdmin } from '../config/supabase';
+import { recordTransition } from './alertWorkflowService';
+import { queueCapMessage } from './capService';
+import { runEscalations } from './escalationService';
+import { queueAlertNotifications } from './notificationService';
+import { ALERT_STAFF_ROLES, publish } from './realtimeService';
+
+const SCHEDULER_INTERVAL_MS = Number(process.env.ALERT_SCHEDULER_INTERVAL_MS || 60000);
+
+// Only long-running alerts of these types are re-issued as reminders
+const REMINDER_TYPES = ['warning', 'emergency'];
+
+export interface LifecycleRunSummary {
+  published: number;
+  expired: number;
+  reminded: number;
+  escalated: number;
+}
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+// Activate approved alerts whose scheduled publish time has arrived
+const publishScheduledAlerts = async (now: string) => {
+  const { data: alerts, error } = await supabaseAdmin
+    .from('alerts')
+    .update({
+      status: 'published',
+      is_active: true,
+      published_at: now,
+      updated_at: now
+    })
+    .eq('status', 'approved')
+    .is('published_at', null)
+    .is('deactivated_at', null)
+    .lte('publish_at', now)
+    .or(`expires_at.is.null,expires_at.gt.${now}`)
+    .select();
+
+  if (error) {
+    console.error('Publish scheduled alerts error:', error);
+    return 0;
+  }
+
+  for (const alert of alerts || []) {
+    // Already live, so recipients are told even if the audit row could not be written (it is logged)
+    await recordTransition({ alertId: alert.id, action: 'publish', from: 'approved', to: alert.status, userId: null, notes: 'Scheduled publish' })
+      .catch(() => undefined);
+    publish({ type: 'alert.created', sector: alert.sector, data: { alert } });
+    queueCapMessage(alert, 'Alert');
+    // Queued, so a failing or slow send for one alert holds up neither the others nor the tick
+    queueAlertNotifications(alert, 'created');
+  }
+
+  return alerts?.length || 0;
+};
+
+// Deactivate alerts past their expiry and tell recipients the alert is lifted
+const expireAlerts = async (now: string) => {
+  const { data: alerts, error } = await supabaseAdmin
+    .from('alerts')
+    .update({
+      status: 'expired',
+      is_active: false,
+      deactivated_at: now,
+      deactivation_reason: 'expired',
+      updated_at: now
+    })
+    .eq('is_active', true)
+    .lte('expires_at', now)
+    .select();
+
+  if (error) {
+    console.error('Expire alerts error:', error);
+    return 0;
+  }
+
+  for (const alert of alerts || []) {
+    await recordTransition({ alertId: alert.id, action: 'expire', from: 'published', to: alert.status, userId: null })
+      .catch(() => undefined);
+    publish({ type: 'alert.deactivated', sector: alert.sector, data: { alert } });
+    queueAlertNotifications(alert, 'lifted');
+  }
+
+  return alerts?.length || 0;
+};
+
+// Retire approved alerts whose expiry passed before they were ever published. Recipients
+// never heard of them, so nothing is lifted; only staff views are told.
+const expireUnpublishedAlerts = async (now: string) => {
+  const { data: alerts, error } = await supabaseAdmin
+    .from('alerts')
+    .update({
+      status: 'expired',
+      deactivated_at: now,
+      deactivation_reason: 'expired',
+      updated_at: now
+    })
+    .eq('status', 'approved')
+    .is('published_at', null)
+    .lte('expires_at', now)
+    .select();
+
+  if (error) {
+    console.error('Expire unpublished alerts error:', error);
+    return 0;
+  }
+
+  for (const alert of alerts || []) {
+    await recordTransition({ alertId: alert.id, action: 'expire', from: 'approved', to: alert.status, userId: null, notes: 'Expired before publication' })
+      .catch(() => undefined);
+    publish({ type: 'alert.updated', sector: alert.sector, roles: ALERT_STAFF_ROLES, data: { alert } });
+  }
+
+  return alerts?.length || 0;
+};
+
+// Re-issue active warnings and emergencies whose reminder interval has elapsed
+const sendReminders = async (now: string) => {
+  const { data: alerts, error } = await supabaseAdmin
+    .from('alerts')
+    .select('*')
+    .eq('is_active', true)
+    .in('type', REMINDER_TYPES)
+    .not('reminder_interval_hours', 'is', null);
+
+  if (error) {
+    console.error('Load reminder alerts error:', error);
+    return 0;
+  }
+
+  const nowMs = new Date(now).getTime();
+  const due = (alerts || []).filter(alert => {
+    const last = alert.last_reminded_at || alert.published_at || alert.created_at;
+    return new Date(last).getTime() + alert.reminder_interval_hours * 3600000 <= nowMs;
+  });
+
+  let reminded = 0;
+  for (const alert of due) {
+    // Claim the reminder first so an overlapping run cannot send it twice
+    let claim = supabaseAdmin
+      .from('alerts')
+      .update({ last_reminded_at: now })
+      .eq('id', alert.id)
+      .eq('is_active', true);
+    claim = alert.last_reminded_at
+      ? claim.eq('last_reminded_at', alert.last_reminded_at)
+      : claim.is('last_reminded_at', null);
+
+    const { data: claimed } = await claim.select('id');
+
+    if (claimed && claimed.length > 0) {
+      queueAlertNotifications(alert, 'reminder');
+      reminded++;
+    }
+  }
+
+  return reminded;
+};
+
+export const runAlertLifecycle = async (): Promise<LifecycleRunSummary> => {
+  const now = new Date().toISOString();
+
+  const published = await publishScheduledAlerts(now);
+  const expired = await expireAlerts(now) + await expireUnpublishedAlerts(now);
+  const reminded = await sendReminders(now);
+  const escalated = await runEscalations(now);
+
+  if (published || expired || reminded || escalated) {
+    console.log(`Alert lifecycle: ${published} published, ${expired} expired, ${reminded} reminders, ${escalated} escalation steps`);
+  }
+
+  return { published, expired, reminded, escalated };
+};
+
+export const startAlertScheduler = () => {
+  if (timer || process.env.ALERT_SCHEDULER_ENABLED === 'false') return;
+
+  timer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow run
+    if (running) return;
+    running = true;
+    try {
+      await runAlertLifecycle();
+    } catch (error) {
+      console.error('Alert lifecycle run failed:', error);
+    } finally {
+      running = false;
+    }
+  }, SCHEDULER_INTERVAL_MS);
+
+  console.log(`⏰ Alert scheduler running every ${SCHEDULER_INTERVAL_MS / 1000}s`);
+};
+
+export const stopAlertScheduler = () => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
@@ -0,0 +1,57 @@
+import { AlertStatus, UserRole } from '../config/supabase';
+import { queueCapMessage } from './capService';
+import { DispatchableAlert, queueAlertNotifications } from './notificationService';
+import { publish } from './realtimeService';
+import { ALERT_WORKFLOW, recordWorkflowTransition, transitionRecord } from './workflowService';
+
+// Alert authoring workflow:
+//   draft → submitted → approved (scheduled) → published → cancelled / expired
+// Advisories and all-clears may be published by their author; warnings and
+// emergencies must be approved by a second person with authority or admin role.
+
+export type AlertAction = 'create' | 'update' | 'submit' | 'approve' | 'reject' | 'publish' | 'cancel' | 'expire';
+
+const TWO_PERSON_TYPES = ['warning', 'emergency'];
+
+export const APPROVER_ROLES: string[] = [UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.AUTHORITY];
+
+// States each action may start from
+export const ALLOWED_FROM: Record<Exclude<AlertAction, 'create' | 'update' | 'expire'>, AlertStatus[]> = {
+  submit: [AlertStatus.DRAFT],
+  approve: [AlertStatus.SUBMITTED],
+  reject: [AlertStatus.SUBMITTED, AlertStatus.APPROVED],
+  publish: [AlertStatus.DRAFT, AlertStatus.SUBMITTED],
+  cancel: [AlertStatus.DRAFT, AlertStatus.SUBMITTED, AlertStatus.APPROVED, AlertStatus.PUBLISHED]
+};
+
+// States in which the alert is not visible outside the authoring team
+export const UNPUBLISHED_STATUSES: string[] = [AlertStatus.DRAFT, AlertStatus.SUBMITTED, AlertStatus.APPROVED];
+
+export const requiresSecondApprover = (type: string) => TWO_PERSON_TYPES.includes(type);
+
+interface TransitionRecord {
+  alertId: string;
+  action: AlertAction;
+  from: string | null;
+  to: string;
+  userId: string | null;
+  notes?: string | null;
+}
+
+export const recordTransition = ({ alertId, ...transition }: TransitionRecord) =>
+  recordWorkflowTransition(ALERT_WORKFLOW, { subjectId: alertId, ...transition });
+
+// Move an alert from `from` to `to`, applying `changes`; null if it moved on first
+export const transitionAlert = (
+  alertId: string,
+  from: string,
+  to: string,
+  changes: Record<string, unknown> = {}
+) => transitionRecord(ALERT_WORKFLOW, alertId, from, { ...changes, status: to });
+
+// Everything that happens when an alert goes live
+export const announceAlert = (alert: DispatchableAlert & Record<string, any>) => {
+  queueAlertNotifications(alert, 'created');
+  queueCapMessage(alert, 'Alert');
+  publish({ type: 'alert.created', sector: alert.sector, data: { alert } });
+};
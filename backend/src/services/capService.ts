@@ -0,0 +1,243 @@
+import { supabaseAdmin } from '../config/supabase';
+import { getAlertAreas } from './geofenceService';
+
+// Common Alerting Protocol 1.2 (OASIS) export of alerts.
+// Every publish, update and manual deactivation is recorded in cap_messages with the
+// alert content at that moment, so an issued message never changes afterwards.
+
+export type CapMsgType = 'Alert' | 'Update' | 'Cancel';
+
+export interface CapMessageRecord {
+  id: string;
+  alert_id: string;
+  identifier: string;
+  msg_type: CapMsgType;
+  sent_at: string;
+  cap_references: string | null;
+  alert_snapshot: Record<string, any>;
+  areas: Record<string, any>[] | null;
+}
+
+const CAP_NAMESPACE = 'urn:oasis:names:tc:emergency:cap:1.2';
+const CAP_SENDER = process.env.CAP_SENDER || 'alerts@coastal-monitoring.local';
+const CAP_SENDER_NAME = process.env.CAP_SENDER_NAME || 'Coastal Monitoring System';
+const CAP_IDENTIFIER_PREFIX = process.env.CAP_IDENTIFIER_PREFIX || 'coastal-monitoring';
+const MAX_IDENTIFIER_ATTEMPTS = 5;
+
+// Alert fields copied into each message; everything else on the row is operational state
+const SNAPSHOT_FIELDS = [
+  'id', 'type', 'title', 'message', 'category', 'location', 'sector', 'coordinates',
+  'severity', 'expires_at', 'published_at', 'created_at', 'deactivated_at', 'deactivation_reason'
+];
+
+// alert_type drives how soon to act and how sure we are
+const URGENCY: Record<string, string> = {
+  emergency: 'Immediate',
+  warning: 'Expected',
+  advisory: 'Future',
+  safe: 'Past'
+};
+
+const CERTAINTY: Record<string, string> = {
+  emergency: 'Observed',
+  warning: 'Likely',
+  advisory: 'Possible',
+  safe: 'Observed'
+};
+
+const RESPONSE_TYPE: Record<string, string> = {
+  emergency: 'Execute',
+  warning: 'Prepare',
+  advisory: 'Monitor',
+  safe: 'AllClear'
+};
+
+// incident_severity → CAP severity
+const SEVERITY: Record<string, string> = {
+  critical: 'Extreme',
+  high: 'Severe',
+  medium: 'Moderate',
+  low: 'Minor'
+};
+
+// alert_category → CAP category
+const CATEGORY: Record<string, string> = {
+  tsunami: 'Geo',
+  cyclone: 'Met',
+  tidal: 'Met',
+  weather: 'Met',
+  environmental: 'Env',
+  pollution: 'Env',
+  'marine-life': 'Env',
+  other: 'Other'
+};
+
+const escapeXml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// CAP dateTime forbids "Z" and fractional seconds: 2024-06-01T10:15:00+00:00
+export const toCapTime = (value: string | Date) =>
+  new Date(value).toISOString().replace(/\.\d{3}Z$/, '+00:00');
+
+const capitalize = (value: string) =>
+  value.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const eventName = (alert: Record<string, any>) =>
+  `${capitalize(alert.category)} ${alert.type === 'safe' ? 'All Clear' : capitalize(alert.type)}`;
+
+const element = (name: string, value: unknown, indent: string) =>
+  value === null || value === undefined || value === ''
+    ? ''
+    : `${indent}<${name}>${escapeXml(value)}</${name}>\n`;
+
+// CAP positions are "lat,lon"; GeoJSON rings are [lon, lat]
+const ringToCap = (ring: [number, number][]) => ring.map(([lng, lat]) => `${lat},${lng}`).join(' ');
+
+const renderArea = (alert: Record<string, any>, areas: Record<string, any>[]) => {
+  const shapes: string[] = [];
+
+  for (const area of areas) {
+    if (area.area_type === 'circle' && area.center) {
+      const [lng, lat] = area.center.coordinates;
+      shapes.push(`      <circle>${lat},${lng} ${Number(area.radius_m) / 1000}</circle>\n`);
+    } else if (area.geometry?.type === 'Polygon') {
+      shapes.push(`      <polygon>${ringToCap(area.geometry.coordinates[0])}</polygon>\n`);
+    } else if (area.geometry?.type === 'MultiPolygon') {
+      for (const polygon of area.geometry.coordinates) {
+        shapes.push(`      <polygon>${ringToCap(polygon[0])}</polygon>\n`);
+      }
+    }
+  }
+
+  // Without affected areas, fall back to the alert's point as a zero-radius circle
+  if (shapes.length === 0 && alert.coordinates) {
+    shapes.push(`      <circle>${escapeXml(alert.coordinates)} 0</circle>\n`);
+  }
+
+  const areaDesc = alert.sector ? `${alert.location} (Sector ${alert.sector})` : alert.location;
+  return `    <area>\n${element('areaDesc', areaDesc, '      ')}${shapes.join('')}    </area>\n`;
+};
+
+/**
+ * Render a recorded message as a CAP 1.2 XML document.
+ */
+export const renderCapMessage = (message: CapMessageRecord) => {
+  const alert = message.alert_snapshot;
+  const sent = toCapTime(message.sent_at);
+
+  const info = [
+    element('language', 'en-US', '    '),
+    element('category', CATEGORY[alert.category] || 'Other', '    '),
+    element('event', eventName(alert), '    '),
+    element('responseType', message.msg_type === 'Cancel' ? 'AllClear' : RESPONSE_TYPE[alert.type], '    '),
+    element('urgency', URGENCY[alert.type] || 'Unknown', '    '),
+    element('severity', SEVERITY[alert.severity] || 'Unknown', '    '),
+    element('certainty', CERTAINTY[alert.type] || 'Unknown', '    '),
+    element('effective', alert.published_at ? toCapTime(alert.published_at) : null, '    '),
+    element('expires', alert.expires_at ? toCapTime(alert.expires_at) : null, '    '),
+    element('senderName', CAP_SENDER_NAME, '    '),
+    element('headline', alert.title, '    '),
+    element('description', alert.message, '    '),
+    renderArea(alert, message.areas || [])
+  ].join('');
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<alert xmlns="${CAP_NAMESPACE}">\n` +
+    element('identifier', message.identifier, '  ') +
+    element('sender', CAP_SENDER, '  ') +
+    element('sent', sent, '  ') +
+    element('status', 'Actual', '  ') +
+    element('msgType', message.msg_type, '  ') +
+    element('scope', 'Public', '  ') +
+    element('references', message.cap_references, '  ') +
+    `  <info>\n${info}  </info>\n` +
+    '</alert>\n';
+};
+
+/**
+ * Render an Atom index of CAP messages, one entry per alert, linking to each document.
+ */
+export const renderCapIndex = (messages: CapMessageRecord[], baseUrl: string) => {
+  const updated = messages.length > 0 ? messages[0].sent_at : new Date().toISOString();
+
+  const entries = messages.map(message => {
+    const alert = message.alert_snapshot;
+    return '  <entry>\n' +
+      element('id', `urn:${CAP_IDENTIFIER_PREFIX}:${message.identifier}`, '    ') +
+      element('title', `${message.msg_type === 'Cancel' ? 'Cancelled: ' : ''}${alert.title}`, '    ') +
+      element('updated', new Date(message.sent_at).toISOString(), '    ') +
+      element('summary', `${eventName(alert)} for ${alert.location}`, '    ') +
+      `    <link rel="alternate" type="application/cap+xml" href="${escapeXml(`${baseUrl}/messages/${message.identifier}`)}"/>\n` +
+      '  </entry>\n';
+  }).join('');
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<feed xmlns="http://www.w3.org/2005/Atom">\n' +
+    element('id', `urn:${CAP_IDENTIFIER_PREFIX}:cap-index`, '  ') +
+    element('title', `${CAP_SENDER_NAME} active alerts`, '  ') +
+    element('updated', new Date(updated).toISOString(), '  ') +
+    `  <author>\n${element('name', CAP_SENDER_NAME, '    ')}  </author>\n` +
+    `  <link rel="self" href="${escapeXml(`${baseUrl}/alerts`)}"/>\n` +
+    entries +
+    '</feed>\n';
+};
+
+/**
+ * Record a CAP message for the alert's current content. Updates and cancellations
+ * reference every earlier message for the alert, the original first. The identifier
+ * numbers the message within its alert; when a concurrent write takes the same number
+ * (a unique violation), the history is read again and the next number tried.
+ */
+export const recordCapMessage = async (alert: Record<string, any>, msgType: CapMsgType) => {
+  const snapshot: Record<string, any> = {};
+  for (const field of SNAPSHOT_FIELDS) snapshot[field] = alert[field] ?? null;
+
+  const areas = await getAlertAreas(alert.id);
+
+  for (let attempt = 1; ; attempt++) {
+    const { data: previous, error: previousError } = await supabaseAdmin
+      .from('cap_messages')
+      .select('identifier, sent_at')
+      .eq('alert_id', alert.id)
+      .order('sent_at', { ascending: true });
+
+    if (previousError) throw previousError;
+
+    // Nothing to update or cancel if the alert was never issued
+    if (msgType !== 'Alert' && (!previous || previous.length === 0)) return null;
+
+    const references = (previous || [])
+      .map(message => `${CAP_SENDER},${message.identifier},${toCapTime(message.sent_at)}`)
+      .join(' ');
+
+    const { data: message, error } = await supabaseAdmin
+      .from('cap_messages')
+      .insert({
+        alert_id: alert.id,
+        identifier: `${CAP_IDENTIFIER_PREFIX}.${alert.id}.${(previous?.length || 0) + 1}`,
+        msg_type: msgType,
+        sent_at: new Date().toISOString(),
+        cap_references: references || null,
+        alert_snapshot: snapshot,
+        areas
+      })
+      .select()
+      .single();
+
+    if (error?.code === '23505' && attempt < MAX_IDENTIFIER_ATTEMPTS) continue;
+    if (error) throw error;
+    return message as CapMessageRecord;
+  }
+};
+
+// Fire-and-forget wrapper for request handlers
+export const queueCapMessage = (alert: Record<string, any>, msgType: CapMsgType) => {
+  recordCapMessage(alert, msgType).catch(error => {
+    console.error(`CAP ${msgType} message for alert ${alert.id} failed:`, error);
+  });
+};
@@ -0,0 +1,352 @@
+import { AlertCategory, AlertType, supabaseAdmin } from '../config/supabase';
+import { getAlertTargets } from './geofenceService';
+import { NotificationChannel } from './notificationProviders';
+import {
+  DispatchableAlert,
+  Recipient,
+  dispatchEscalation,
+  findRecipients,
+  loadRecipients
+} from './notificationService';
+
+// Who a step notifies:
+//   sector_officers      designated officers of the alert's sectors who have not acknowledged
+//   recipients           every recipient who has not acknowledged
+//   supervisors          supervisors of the watched users who have not acknowledged
+//   organization_admins  admins of the organisations those users belong to
+export const ESCALATION_TARGETS = ['sector_officers', 'recipients', 'supervisors', 'organization_admins'];
+export const ESCALATION_WATCH = ['sector_officers', 'recipients'];
+const ESCALATION_CHANNELS: NotificationChannel[] = ['sms', 'email', 'push'];
+const MAX_STEPS = 10;
+
+export interface EscalationStep {
+  after_minutes: number;
+  targets: string[];
+  channels: NotificationChannel[];
+}
+
+export interface EscalationPolicy {
+  id: string;
+  name: string;
+  alert_type: string | null;
+  category: string | null;
+  watch: string;
+  steps: EscalationStep[];
+  is_active: boolean;
+  created_at: string;
+}
+
+export class EscalationPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EscalationPolicyError';
+  }
+}
+
+const isSubset = (values: unknown, allowed: string[]): values is string[] =>
+  Array.isArray(values) && values.length > 0 && values.every(value => allowed.includes(value));
+
+// Validate a policy's steps; they must be in order of increasing delay
+export const parseEscalationSteps = (value: unknown): EscalationStep[] => {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_STEPS) {
+    throw new EscalationPolicyError(`steps must be a list of 1 to ${MAX_STEPS} steps`);
+  }
+
+  return value.map((step, index) => {
+    const afterMinutes = Number(step?.after_minutes);
+    if (!Number.isInteger(afterMinutes) || afterMinutes < 0) {
+      throw new EscalationPolicyError(`Step ${index + 1}: after_minutes must be a non-negative integer`);
+    }
+    if (index > 0 && afterMinutes <= Number(value[index - 1].after_minutes)) {
+      throw new EscalationPolicyError(`Step ${index + 1}: after_minutes must be later than the previous step`);
+    }
+    if (!isSubset(step.targets, ESCALATION_TARGETS)) {
+      throw new EscalationPolicyError(`Step ${index + 1}: targets must be some of ${ESCALATION_TARGETS.join(', ')}`);
+    }
+    if (!isSubset(step.channels, ESCALATION_CHANNELS)) {
+      throw new EscalationPolicyError(`Step ${index + 1}: channels must be some of ${ESCALATION_CHANNELS.join(', ')}`);
+    }
+    return {
+      after_minutes: afterMinutes,
+      targets: [...new Set(step.targets as string[])],
+      channels: [...new Set(step.channels as NotificationChannel[])]
+    };
+  });
+};
+
+// Validate the scalar policy fields present in `body`
+export const readPolicyFields = (body: Record<string, any>) => {
+  const fields: Record<string, unknown> = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      throw new EscalationPolicyError('name must be a non-empty string');
+    }
+    fields.name = body.name.trim();
+  }
+  if (body.alert_type !== undefined) {
+    if (body.alert_type !== null && !Object.values(AlertType).includes(body.alert_type)) {
+      throw new EscalationPolicyError('Invalid alert_type');
+    }
+    fields.alert_type = body.alert_type;
+  }
+  if (body.category !== undefined) {
+    if (body.category !== null && !Object.values(AlertCategory).includes(body.category)) {
+      throw new EscalationPolicyError('Invalid category');
+    }
+    fields.category = body.category;
+  }
+  if (body.watch !== undefined) {
+    if (!ESCALATION_WATCH.includes(body.watch)) {
+      throw new EscalationPolicyError(`watch must be one of: ${ESCALATION_WATCH.join(', ')}`);
+    }
+    fields.watch = body.watch;
+  }
+  if (body.is_active !== undefined) fields.is_active = body.is_active === true;
+  if (body.steps !== undefined) fields.steps = parseEscalationSteps(body.steps);
+
+  return fields;
+};
+
+// Most specific active policy: type and category, then type only, then category only, then the catch-all
+export const selectPolicy = (policies: EscalationPolicy[], alert: { type: string; category: string }) => {
+  const specificity = (policy: EscalationPolicy) => (policy.alert_type ? 2 : 0) + (policy.category ? 1 : 0);
+  return policies
+    .filter(policy =>
+      (!policy.alert_type || policy.alert_type === alert.type) &&
+      (!policy.category || policy.category === alert.category))
+    .sort((a, b) => specificity(b) - specificity(a))[0] || null;
+};
+
+interface WatchState {
+  acknowledged: Set<string>;
+  recipients: Recipient[];
+  officers: Recipient[];
+  // Watched users who have not acknowledged yet
+  pending: Recipient[];
+}
+
+// Everything a step needs to know about who has and has not confirmed the alert
+const loadWatchState = async (alert: DispatchableAlert, policy: EscalationPolicy): Promise<WatchState> => {
+  const { data: acknowledgements, error } = await supabaseAdmin
+    .from('alert_acknowledgements')
+    .select('user_id')
+    .eq('alert_id', alert.id);
+
+  if (error) throw error;
+  const acknowledged = new Set((acknowledgements || []).map(ack => ack.user_id as string));
+
+  // The alert's own sector plus any sector its areas touch
+  const targets = await getAlertTargets(alert.id);
+  const sectors = [...new Set([alert.sector, ...targets.sectors.map(sector => sector.target_id)].filter(Boolean))];
+
+  let officers: Recipient[] = [];
+  if (sectors.length > 0) {
+    const { data: rows, error: officerError } = await supabaseAdmin
+      .from('sector_officers')
+      .select('user_id')
+      .in('sector', sectors);
+
+    if (officerError) throw officerError;
+    officers = await loadRecipients([...new Set((rows || []).map(row => row.user_id as string))]);
+  }
+
+  const recipients = await findRecipients(alert);
+
+  // Without designated officers, fall back to watching every recipient
+  const watched = policy.watch === 'recipients' || officers.length === 0 ? recipients : officers;
+  const pending = watched.filter(user => !acknowledged.has(user.id));
+
+  return { acknowledged, recipients, officers, pending };
+};
+
+const resolveTarget = async (target: string, state: WatchState): Promise<Recipient[]> => {
+  switch (target) {
+    case 'sector_officers':
+      return state.officers.filter(user => !state.acknowledged.has(user.id));
+    case 'recipients':
+      return state.recipients.filter(user => !state.acknowledged.has(user.id));
+    case 'supervisors': {
+      const { data, error } = await supabaseAdmin
+        .from('users')
+        .select('supervisor_id')
+        .in('id', state.pending.map(user => user.id))
+        .not('supervisor_id', 'is', null);
+
+      if (error) throw error;
+      return loadRecipients([...new Set((data || []).map(row => row.supervisor_id as string))]);
+    }
+    case 'organization_admins': {
+      const organizations = [...new Set(state.pending.map(user => user.organization).filter(Boolean))] as string[];
+      if (organizations.length === 0) return [];
+
+      const { data, error } = await supabaseAdmin
+        .from('users')
+        .select('id')
+        .eq('role', 'admin')
+        .eq('status', 'approved')
+        .in('organization', organizations);
+
+      if (error) throw error;
+      return loadRecipients((data || []).map(row => row.id as string));
+    }
+    default:
+      return [];
+  }
+};
+
+// People being chased are asked to acknowledge; everyone above them is told who has not
+const noticeText = (target: string, alert: DispatchableAlert, step: EscalationStep, pending: Recipient[]) => {
+  if (target === 'sector_officers' || target === 'recipients') {
+    return {
+      title: `Please acknowledge: ${alert.title}`,
+      message: `The ${alert.type} for ${alert.location} has not been acknowledged. ${alert.message}`
+    };
+  }
+
+  const names = pending.slice(0, 10).map(user => user.full_name).join(', ');
+  const more = pending.length > 10 ? ` and ${pending.length - 10} more` : '';
+  return {
+    title: `Unacknowledged ${alert.type}: ${alert.title}`,
+    message: `After ${step.after_minutes} minutes, ${pending.length} recipient(s) have not acknowledged the ${alert.type} for ${alert.location}: ${names}${more}.`
+  };
+};
+
+/**
+ * Run one step of a policy for an alert. The alert_escalations row is claimed
+ * as `pending` first so overlapping scheduler runs cannot execute the same step
+ * twice, then marked `sent` or `failed` once the notices have gone out.
+ * Returns false if another run already claimed it.
+ */
+const executeStep = async (
+  alert: DispatchableAlert,
+  policy: EscalationPolicy,
+  stepIndex: number,
+  state: WatchState
+) => {
+  const step = policy.steps[stepIndex];
+
+  const { data: claim, error: claimError } = await supabaseAdmin
+    .from('alert_escalations')
+    .insert({
+      alert_id: alert.id,
+      policy_id: policy.id,
+      step_index: stepIndex,
+      status: state.pending.length > 0 ? 'pending' : 'skipped',
+      pending_users: state.pending.map(user => user.id)
+    })
+    .select('id')
+    .single();
+
+  if (claimError) {
+    if (claimError.code === '23505') return false;
+    throw claimError;
+  }
+
+  // Everyone watched has acknowledged, so there is nobody to chase
+  if (state.pending.length === 0) return true;
+
+  const notified = new Set<string>();
+  let sent = 0;
+  let failure: string | null = null;
+  try {
+    for (const target of step.targets) {
+      const users = (await resolveTarget(target, state)).filter(user => !notified.has(user.id));
+      if (users.length === 0) continue;
+
+      users.forEach(user => notified.add(user.id));
+      const summary = await dispatchEscalation(alert, users, {
+        policyId: policy.id,
+        step: stepIndex,
+        channels: step.channels,
+        ...noticeText(target, alert, step, state.pending)
+      });
+      sent += summary.sent;
+    }
+    if (notified.size > 0 && sent === 0) failure = 'No notification could be delivered';
+  } catch (error) {
+    failure = error instanceof Error ? error.message : String(error);
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from('alert_escalations')
+    .update({ status: failure ? 'failed' : 'sent', notified: notified.size, error_message: failure })
+    .eq('id', claim.id);
+
+  if (updateError) {
+    console.error('Update alert escalation error:', updateError);
+  }
+
+  console.log(`Escalation "${policy.name}" step ${stepIndex + 1} for alert ${alert.id}: ${state.pending.length} pending, ${notified.size} notified${failure ? ` (failed: ${failure})` : ''}`);
+  return true;
+};
+
+// Execute every policy step that has come due for a live alert; returns the number of steps run
+export const runEscalations = async (now: string) => {
+  const { data: policies, error: policyError } = await supabaseAdmin
+    .from('escalation_policies')
+    .select('*')
+    .eq('is_active', true);
+
+  if (policyError) {
+    console.error('Load escalation policies error:', policyError);
+    return 0;
+  }
+  if (!policies || policies.length === 0) return 0;
+
+  const { data: alerts, error } = await supabaseAdmin
+    .from('alerts')
+    .select('*')
+    .eq('status', 'published')
+    .eq('is_active', true)
+    .not('published_at', 'is', null);
+
+  if (error) {
+    console.error('Load alerts for escalation error:', error);
+    return 0;
+  }
+
+  const nowMs = new Date(now).getTime();
+  let executed = 0;
+
+  for (const alert of alerts || []) {
+    const policy = selectPolicy(policies as EscalationPolicy[], alert);
+    if (!policy) continue;
+
+    // Steps are counted from publication. For an alert that was already live when the
+    // policy was created, steps that fell due before then are not run after the fact.
+    const publishedMs = new Date(alert.published_at).getTime();
+    const policyCreatedMs = new Date(policy.created_at).getTime();
+    const due = policy.steps
+      .map((step, index) => ({ step, index, dueMs: publishedMs + step.after_minutes * 60000 }))
+      .filter(({ dueMs }) => dueMs <= nowMs && dueMs >= policyCreatedMs);
+    if (due.length === 0) continue;
+
+    const { data: done, error: doneError } = await supabaseAdmin
+      .from('alert_escalations')
+      .select('step_index')
+      .eq('alert_id', alert.id)
+      .eq('policy_id', policy.id);
+
+    if (doneError) {
+      console.error('Load alert escalations error:', doneError);
+      continue;
+    }
+
+    const executedSteps = new Set((done || []).map(row => row.step_index as number));
+    const todo = due.filter(({ index }) => !executedSteps.has(index));
+    if (todo.length === 0) continue;
+
+    try {
+      // Acknowledgements are re-read for each alert so late confirmations stop the chain
+      const state = await loadWatchState(alert, policy);
+      for (const { index } of todo) {
+        if (await executeStep(alert, policy, index, state)) executed++;
+      }
+    } catch (stepError) {
+      console.error(`Escalation for alert ${alert.id} failed:`, stepError);
+    }
+  }
+
+  return executed;
+};
@@ -0,0 +1,106 @@
+import { supabaseAdmin } from '../config/supabase';
+import { AlertAreaInput, GeoJSONGeometry, geometryToEwkt } from '../utils/geo';
+
+export type AlertTargetType = 'user' | 'sensor' | 'shelter' | 'sector';
+
+export interface AlertTarget {
+  target_type: AlertTargetType;
+  target_id: string;
+  name: string | null;
+  sector: string | null;
+}
+
+// A row of get_alert_areas
+export interface AlertAreaRow {
+  id: string;
+  name: string | null;
+  area_type: 'polygon' | 'circle';
+  radius_m: number | null;
+  properties: Record<string, unknown> | null;
+  center: GeoJSONGeometry | null;
+  geometry: GeoJSONGeometry;
+  area_km2: number;
+}
+
+export interface AlertTargets {
+  has_areas: boolean;
+  users: AlertTarget[];
+  sensors: AlertTarget[];
+  shelters: AlertTarget[];
+  sectors: AlertTarget[];
+}
+
+// Targets are read in pages; PostgREST caps a single response at 1000 rows
+const TARGET_PAGE_SIZE = 1000;
+
+// Replace every affected area of an alert with `areas` (an empty list clears them).
+// The delete and insert run in one database function, so a failed insert keeps the old areas.
+export const replaceAlertAreas = async (alertId: string, areas: AlertAreaInput[]) => {
+  // Circles carry their centre; the insert trigger buffers it into `geom`
+  const rows = areas.map(area => {
+    const ewkt = geometryToEwkt(area.geometry);
+    return {
+      name: area.name,
+      area_type: area.area_type,
+      radius_m: area.radius_m,
+      center: area.area_type === 'circle' ? ewkt : null,
+      geom: ewkt,
+      properties: area.properties
+    };
+  });
+
+  const { error } = await supabaseAdmin.rpc('replace_alert_areas', { target_alert: alertId, areas: rows });
+  if (error) throw error;
+};
+
+// Affected areas as GeoJSON geometries, ready for map display
+export const getAlertAreas = async (alertId: string): Promise<AlertAreaRow[]> => {
+  const { data, error } = await supabaseAdmin.rpc('get_alert_areas', { target_alert: alertId });
+  if (error) throw error;
+  return (data || []) as AlertAreaRow[];
+};
+
+// Users, sensors, shelters and sectors that fall inside an alert's areas
+export const getAlertTargets = async (alertId: string): Promise<AlertTargets> => {
+  const { count, error: countError } = await supabaseAdmin
+    .from('alert_areas')
+    .select('id', { count: 'exact', head: true })
+    .eq('alert_id', alertId);
+
+  if (countError) throw countError;
+
+  const targets: AlertTargets = { has_areas: (count || 0) > 0, users: [], sensors: [], shelters: [], sectors: [] };
+  if (!targets.has_areas) return targets;
+
+  const rows: AlertTarget[] = [];
+  for (let offset = 0; ; offset += TARGET_PAGE_SIZE) {
+    const { data: page, error } = await supabaseAdmin
+      .rpc('get_alert_targets', { target_alert: alertId })
+      .order('target_type', { ascending: true })
+      .order('target_id', { ascending: true })
+      .range(offset, offset + TARGET_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...((page || []) as AlertTarget[]));
+    if (!page || page.length < TARGET_PAGE_SIZE) break;
+  }
+
+  for (const target of rows) {
+    switch (target.target_type) {
+      case 'user':
+        targets.users.push(target);
+        break;
+      case 'sensor':
+        targets.sensors.push(target);
+        break;
+      case 'shelter':
+        targets.shelters.push(target);
+        break;
+      case 'sector':
+        targets.sectors.push(target);
+        break;
+    }
+  }
+
+  return targets;
+};
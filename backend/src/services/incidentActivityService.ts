@@ -0,0 +1,261 @@
+import { supabaseAdmin } from '../config/supabase';
+import { loadClusterReporterIds } from './incidentClusterService';
+import { dispatchIncidentMention, loadRecipients } from './notificationService';
+import { INCIDENT_STAFF_ROLES, publish } from './realtimeService';
+
+export const COMMENT_KINDS = ['comment', 'field_note'];
+export const COMMENT_VISIBILITIES = ['internal', 'public'];
+const MAX_COMMENT_LENGTH = 10000;
+
+// Workflow actions a reporter sees on their own report; assignment and internal notes stay with staff
+const REPORTER_VISIBLE_ACTIONS = ['create', 'triage', 'investigate', 'verify', 'reject', 'resolve', 'reopen', 'merge'];
+
+// "@jane.doe" (email local part) or "@jane.doe@agency.gov" (full email)
+const MENTION_PATTERN = /(^|[^\w@.])@([a-z0-9._%+-]+(?:@[a-z0-9.-]+\.[a-z]{2,})?)/gi;
+
+export class IncidentCommentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IncidentCommentError';
+  }
+}
+
+interface ActivityUser {
+  id: string;
+  full_name: string;
+  role: string;
+}
+
+export interface IncidentComment {
+  id: string;
+  incident_id: string;
+  parent_id: string | null;
+  author_id: string | null;
+  kind: string;
+  visibility: string;
+  body: string;
+  mentions: string[];
+  created_at: string;
+  users: ActivityUser | null;
+}
+
+export type ActivityItem =
+  | {
+      type: 'event';
+      id: string;
+      created_at: string;
+      action: string;
+      from_status: string | null;
+      to_status: string;
+      notes: string | null;
+      actor: ActivityUser | null;
+    }
+  | {
+      type: 'comment';
+      id: string;
+      created_at: string;
+      comment: IncidentComment;
+      replies: IncidentComment[];
+    };
+
+// Validate the fields of a new comment; staff default to an internal note, reporters to the public thread
+export const readCommentFields = (body: Record<string, any>, staff: boolean) => {
+  const text = typeof body.body === 'string' ? body.body.trim() : '';
+  if (!text) {
+    throw new IncidentCommentError('Missing required field: body');
+  }
+  if (text.length > MAX_COMMENT_LENGTH) {
+    throw new IncidentCommentError(`body must be at most ${MAX_COMMENT_LENGTH} characters`);
+  }
+
+  const kind = body.kind ?? 'comment';
+  if (!COMMENT_KINDS.includes(kind)) {
+    throw new IncidentCommentError(`kind must be one of: ${COMMENT_KINDS.join(', ')}`);
+  }
+
+  const visibility = body.visibility ?? (staff ? 'internal' : 'public');
+  if (!COMMENT_VISIBILITIES.includes(visibility)) {
+    throw new IncidentCommentError(`visibility must be one of: ${COMMENT_VISIBILITIES.join(', ')}`);
+  }
+
+  return { body: text, kind, visibility, parent_id: body.parent_id || null };
+};
+
+export const extractMentionHandles = (text: string) => {
+  const handles = new Set<string>();
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    handles.add(match[2].replace(/\.+$/, '').toLowerCase());
+  }
+  return [...handles];
+};
+
+// Match a handle literally in an ilike pattern
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+/**
+ * Resolve @handles to users who can read the comment: approved staff, plus
+ * the reporter when the comment is public. Only the users a handle could name
+ * are loaded. A bare "@jane.doe" must name exactly one of them; when the same
+ * local part exists under several domains the full email is needed. Handles
+ * nobody matches, or that match someone who could not see the comment, are
+ * ignored.
+ */
+export const resolveMentions = async (text: string, visibility: string, reporterId: string) => {
+  const handles = extractMentionHandles(text);
+  if (handles.length === 0) return [];
+
+  const patterns = handles.map(handle =>
+    `email.ilike.${escapeLike(handle)}${handle.includes('@') ? '' : '@%'}`);
+
+  const { data: users, error } = await supabaseAdmin
+    .from('users')
+    .select('id, email, role')
+    .eq('status', 'approved')
+    .or(patterns.join(','));
+
+  if (error) throw error;
+
+  const readers = (users || []).filter(user =>
+    INCIDENT_STAFF_ROLES.includes(user.role) ||
+    (visibility === 'public' && user.id === reporterId));
+
+  const mentioned = new Set<string>();
+  for (const handle of handles) {
+    const matches = readers.filter(user => {
+      const email = String(user.email).toLowerCase();
+      return handle.includes('@') ? email === handle : email.split('@')[0] === handle;
+    });
+    if (matches.length === 1) mentioned.add(matches[0].id);
+  }
+
+  return [...mentioned];
+};
+
+interface PostedComment {
+  incident: { id: string; incident_title: string; location: string; severity: string; sector: string | null; reporter_id: string; parent_id: string | null };
+  comment: IncidentComment;
+  authorName: string;
+}
+
+// Let staff (and the cluster's reporters, for public comments) know about a new comment, and notify anyone mentioned
+export const announceComment = ({ incident, comment, authorName }: PostedComment) => {
+  const reporterIds = comment.visibility === 'public'
+    ? loadClusterReporterIds(incident).catch(error => {
+      console.error(`Loading reporters of incident ${incident.id} failed:`, error);
+      return [incident.reporter_id];
+    })
+    : Promise.resolve([]);
+
+  reporterIds.then(userIds => publish({
+    type: 'incident.commented',
+    sector: incident.sector,
+    roles: INCIDENT_STAFF_ROLES,
+    userIds,
+    data: {
+      incident_id: incident.id,
+      comment_id: comment.id,
+      visibility: comment.visibility
+    }
+  }));
+
+  const mentioned = comment.mentions.filter(userId => userId !== comment.author_id);
+  if (mentioned.length === 0) return;
+
+  publish({
+    type: 'incident.mentioned',
+    sector: null,
+    userIds: mentioned,
+    data: {
+      incident_id: incident.id,
+      incident_title: incident.incident_title,
+      comment_id: comment.id,
+      author: authorName
+    }
+  });
+
+  // Email and push go out in the background so the API response is not held up by providers
+  loadRecipients(mentioned)
+    .then(users => dispatchIncidentMention(users, { incident, author: authorName, body: comment.body }))
+    .catch(error => {
+      console.error(`Mention notification for incident ${incident.id} failed:`, error);
+    });
+};
+
+/**
+ * An incident's timeline, oldest first: workflow events interleaved with
+ * top-level comments, each carrying its replies. Reporters only see public
+ * comments and status changes, without the handlers' notes.
+ */
+export const buildActivity = async (incidentId: string, staff: boolean): Promise<ActivityItem[]> => {
+  let commentQuery = supabaseAdmin
+    .from('incident_comments')
+    .select(`
+      *,
+      users!incident_comments_author_id_fkey (
+        id,
+        full_name,
+        role
+      )
+    `)
+    .eq('incident_id', incidentId)
+    .order('created_at', { ascending: true });
+
+  let transitionQuery = supabaseAdmin
+    .from('incident_transitions')
+    .select(`
+      *,
+      users!incident_transitions_performed_by_fkey (
+        id,
+        full_name,
+        role
+      )
+    `)
+    .eq('incident_id', incidentId)
+    .order('created_at', { ascending: true });
+
+  if (!staff) {
+    commentQuery = commentQuery.eq('visibility', 'public');
+    transitionQuery = transitionQuery.in('action', REPORTER_VISIBLE_ACTIONS);
+  }
+
+  const [{ data: comments, error: commentError }, { data: transitions, error: transitionError }] =
+    await Promise.all([commentQuery, transitionQuery]);
+
+  if (commentError) throw commentError;
+  if (transitionError) throw transitionError;
+
+  const events: ActivityItem[] = (transitions || []).map(transition => ({
+    type: 'event',
+    id: transition.id,
+    created_at: transition.created_at,
+    action: transition.action,
+    from_status: transition.from_status,
+    to_status: transition.to_status,
+    notes: staff ? transition.notes : null,
+    actor: transition.users || null
+  }));
+
+  // Replies hang off their thread's top-level comment; a reply whose parent is hidden is dropped with it
+  const all = (comments || []) as IncidentComment[];
+  const byId = new Map(all.map(comment => [comment.id, comment]));
+  const rootOf = (comment: IncidentComment): IncidentComment | undefined => {
+    let current: IncidentComment | undefined = comment;
+    while (current?.parent_id) current = byId.get(current.parent_id);
+    return current;
+  };
+
+  const threads = new Map<string, Extract<ActivityItem, { type: 'comment' }>>();
+  for (const comment of all) {
+    if (!comment.parent_id) {
+      threads.set(comment.id, { type: 'comment', id: comment.id, created_at: comment.created_at, comment, replies: [] });
+    }
+  }
+  for (const comment of all) {
+    if (!comment.parent_id) continue;
+    const root = rootOf(comment);
+    if (root) threads.get(root.id)?.replies.push(comment);
+  }
+
+  return [...events, ...threads.values()]
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+};
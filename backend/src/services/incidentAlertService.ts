@@ -0,0 +1,80 @@
+import { AlertCategory, AlertType, IncidentSeverity, supabaseAdmin } from '../config/supabase';
+import { ALLOWED_FROM as ALERT_ALLOWED_FROM, UNPUBLISHED_STATUSES } from './alertWorkflowService';
+
+// Alert category for each reported incident type; anything unlisted is "other"
+export const INCIDENT_ALERT_CATEGORIES: Record<string, AlertCategory> = {
+  'oil-spill': AlertCategory.POLLUTION,
+  'water-pollution': AlertCategory.POLLUTION,
+  'sewage-discharge': AlertCategory.POLLUTION,
+  'chemical-release': AlertCategory.POLLUTION,
+  'marine-debris': AlertCategory.POLLUTION,
+  'dead-marine-life': AlertCategory.MARINE_LIFE,
+  'algal-bloom': AlertCategory.ENVIRONMENTAL,
+  'coastal-erosion': AlertCategory.ENVIRONMENTAL,
+  'unusual-tides': AlertCategory.TIDAL
+};
+
+// Alert level for each incident severity; warnings and emergencies still need a second approver
+const ALERT_TYPES: Record<string, AlertType> = {
+  [IncidentSeverity.LOW]: AlertType.ADVISORY,
+  [IncidentSeverity.MEDIUM]: AlertType.ADVISORY,
+  [IncidentSeverity.HIGH]: AlertType.WARNING,
+  [IncidentSeverity.CRITICAL]: AlertType.EMERGENCY
+};
+
+// Linked alerts that are still out, or could still go out, and so may need cancelling
+export const OPEN_ALERT_STATUSES: string[] = ALERT_ALLOWED_FROM.cancel;
+
+const LINKED_ALERT_COLUMNS = 'id, type, title, category, severity, status, is_active, published_at, created_at';
+
+/**
+ * Alert fields pre-filled from an incident report, in the shape createAlert
+ * accepts. Authors review and edit the draft before it goes anywhere.
+ */
+export const draftAlertFromIncident = (incident: Record<string, any>) => {
+  const lines = [incident.description.trim()];
+  if (incident.nearest_landmark) lines.push(`Near ${incident.nearest_landmark}.`);
+  if (incident.public_health_risk) lines.push('This incident poses a risk to public health.');
+
+  return {
+    type: ALERT_TYPES[incident.severity] || AlertType.ADVISORY,
+    title: incident.incident_title,
+    message: lines.join('\n\n'),
+    category: INCIDENT_ALERT_CATEGORIES[incident.incident_type] || AlertCategory.OTHER,
+    severity: incident.severity,
+    location: incident.location,
+    sector: incident.sector || null,
+    coordinates: incident.coordinates || null
+  };
+};
+
+// Alerts promoted from an incident, newest first; drafts and alerts under review only for staff
+export const loadIncidentAlerts = async (incidentId: string, includeUnpublished: boolean) => {
+  let query = supabaseAdmin
+    .from('alerts')
+    .select(LINKED_ALERT_COLUMNS)
+    .eq('incident_id', incidentId)
+    .order('created_at', { ascending: false });
+
+  if (!includeUnpublished) {
+    query = query.not('status', 'in', `(${UNPUBLISHED_STATUSES.join(',')})`);
+  }
+
+  const { data: alerts, error } = await query;
+  if (error) throw error;
+  return alerts || [];
+};
+
+// Whether an incident's evidence may be shown with a published alert: the reporter agreed to share it
+export const backsPublishedAlert = async (incident: { id: string; consent_to_share?: boolean | null }) => {
+  if (!incident.consent_to_share) return false;
+
+  const { count, error } = await supabaseAdmin
+    .from('alerts')
+    .select('id', { count: 'exact', head: true })
+    .eq('incident_id', incident.id)
+    .not('status', 'in', `(${UNPUBLISHED_STATUSES.join(',')})`);
+
+  if (error) throw error;
+  return (count || 0) > 0;
+};
@@ -0,0 +1,308 @@
+import { UserRole, supabaseAdmin } from '../config/supabase';
+import { INCIDENT_STAFF_ROLES } from './realtimeService';
+
+export const ANALYTICS_INTERVALS = ['day', 'week', 'month'] as const;
+export type AnalyticsInterval = typeof ANALYTICS_INTERVALS[number];
+
+// Default look-back for each interval when no `from` is given
+const DEFAULT_BUCKETS: Record<AnalyticsInterval, number> = { day: 30, week: 12, month: 12 };
+const MAX_BUCKETS = 400;
+
+// Group rows are read in pages; PostgREST caps a single response at 1000 rows
+const PAGE_SIZE = 1000;
+
+// Hotspots are grid cells of this size holding at least HOTSPOT_MIN_COUNT reports
+const HOTSPOT_CELL_KM = Number(process.env.INCIDENT_HOTSPOT_CELL_KM) || 5;
+const HOTSPOT_MIN_COUNT = 2;
+const HOTSPOT_LIMIT = 10;
+
+// A row of get_incident_analytics_groups; `bucket` is null for the whole range
+interface AnalyticsGroupRow {
+  bucket: string | null;
+  dimension: 'total' | 'type' | 'severity' | 'status' | 'sector';
+  key: string | null;
+  incidents: number;
+  public_health_risk: number;
+  verified: number;
+  resolved: number;
+  median_hours_to_verify: number | null;
+  median_hours_to_resolve: number | null;
+}
+
+// A row of get_incident_hotspots
+interface HotspotRow {
+  lng: number;
+  lat: number;
+  incidents: number;
+  public_health_risk: number;
+  severity: string;
+  incident_types: string[];
+  sectors: string[];
+  locations: string[];
+  last_reported: string;
+}
+
+export class IncidentAnalyticsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IncidentAnalyticsError';
+  }
+}
+
+/**
+ * Which reports a user's analytics cover: incident staff see every report,
+ * contributors those filed by members of their organisation (by the
+ * reporters' `users.organization`, not the free-text field on the report),
+ * everyone else only their own.
+ */
+export type AnalyticsScope =
+  | { kind: 'all' }
+  | { kind: 'organization'; organization: string }
+  | { kind: 'own'; userId: string };
+
+export const analyticsScope = (user: { id: string; role: UserRole; organization: string | null }): AnalyticsScope => {
+  if (INCIDENT_STAFF_ROLES.includes(user.role)) return { kind: 'all' };
+  if (user.role === UserRole.CONTRIBUTOR && user.organization) {
+    return { kind: 'organization', organization: user.organization };
+  }
+  return { kind: 'own', userId: user.id };
+};
+
+export interface AnalyticsRange {
+  from: Date;
+  to: Date;
+  interval: AnalyticsInterval;
+}
+
+// Start of the bucket holding a date, in UTC; weeks start on Monday
+const bucketStart = (date: Date, interval: AnalyticsInterval) => {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (interval === 'week') start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  if (interval === 'month') start.setUTCDate(1);
+  return start;
+};
+
+const nextBucket = (start: Date, interval: AnalyticsInterval) => {
+  const next = new Date(start);
+  if (interval === 'day') next.setUTCDate(next.getUTCDate() + 1);
+  if (interval === 'week') next.setUTCDate(next.getUTCDate() + 7);
+  if (interval === 'month') next.setUTCMonth(next.getUTCMonth() + 1);
+  return next;
+};
+
+const bucketKey = (start: Date, interval: AnalyticsInterval) =>
+  interval === 'month' ? start.toISOString().slice(0, 7) : start.toISOString().slice(0, 10);
+
+const readDate = (value: unknown, field: string) => {
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new IncidentAnalyticsError(`${field} must be an ISO 8601 date`);
+  }
+  return date;
+};
+
+// Validate `from`, `to` and `interval`; by default the last 30 days, 12 weeks or 12 months up to now
+export const readAnalyticsRange = (query: Record<string, unknown>): AnalyticsRange => {
+  const interval = (query.interval || 'month') as AnalyticsInterval;
+  if (!ANALYTICS_INTERVALS.includes(interval)) {
+    throw new IncidentAnalyticsError(`interval must be one of: ${ANALYTICS_INTERVALS.join(', ')}`);
+  }
+
+  const to = query.to ? readDate(query.to, 'to') : new Date();
+  let from: Date;
+  if (query.from) {
+    from = readDate(query.from, 'from');
+  } else {
+    from = bucketStart(to, interval);
+    for (let i = 1; i < DEFAULT_BUCKETS[interval]; i++) {
+      if (interval === 'day') from.setUTCDate(from.getUTCDate() - 1);
+      if (interval === 'week') from.setUTCDate(from.getUTCDate() - 7);
+      if (interval === 'month') from.setUTCMonth(from.getUTCMonth() - 1);
+    }
+  }
+
+  if (from >= to) {
+    throw new IncidentAnalyticsError('from must be before to');
+  }
+
+  let buckets = 0;
+  for (let start = bucketStart(from, interval); start < to; start = nextBucket(start, interval)) {
+    if (++buckets > MAX_BUCKETS) {
+      throw new IncidentAnalyticsError(`The range spans more than ${MAX_BUCKETS} ${interval}s; use a longer interval`);
+    }
+  }
+
+  return { from, to, interval };
+};
+
+export interface AnalyticsFilters {
+  sector?: string;
+  incidentType?: string;
+  severity?: string;
+  // Merged reports duplicate their parent, so they are left out unless asked for
+  includeMerged?: boolean;
+}
+
+// Arguments shared by the analytics functions: the range, the caller's scope and the filters
+const analyticsArgs = (scope: AnalyticsScope, range: AnalyticsRange, filters: AnalyticsFilters) => ({
+  range_start: range.from.toISOString(),
+  range_end: range.to.toISOString(),
+  scope_organization: scope.kind === 'organization' ? scope.organization : null,
+  scope_reporter: scope.kind === 'own' ? scope.userId : null,
+  filter_sector: filters.sector || null,
+  filter_type: filters.incidentType || null,
+  filter_severity: filters.severity || null,
+  include_merged: Boolean(filters.includeMerged)
+});
+
+// Page through the tallies, so long day-by-day ranges are not cut off at the response cap
+const loadGroups = async (scope: AnalyticsScope, range: AnalyticsRange, filters: AnalyticsFilters) => {
+  const rows: AnalyticsGroupRow[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data: page, error } = await supabaseAdmin
+      .rpc('get_incident_analytics_groups', { bucket_interval: range.interval, ...analyticsArgs(scope, range, filters) })
+      .order('bucket', { ascending: true, nullsFirst: true })
+      .order('dimension', { ascending: true })
+      .order('key', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...((page || []) as AnalyticsGroupRow[]));
+    if (!page || page.length < PAGE_SIZE) return rows;
+  }
+};
+
+const hours = (value: number | null) => (value === null ? null : Number(Number(value).toFixed(2)));
+
+interface Tally {
+  incidents: number;
+  public_health_risk: number;
+  verified: number;
+  resolved: number;
+  median_hours_to_verify: number | null;
+  median_hours_to_resolve: number | null;
+  by_type: Record<string, number>;
+  by_severity: Record<string, number>;
+  by_status: Record<string, number>;
+  by_sector: Record<string, number>;
+}
+
+const emptyTally = (): Tally => ({
+  incidents: 0,
+  public_health_risk: 0,
+  verified: 0,
+  resolved: 0,
+  median_hours_to_verify: null,
+  median_hours_to_resolve: null,
+  by_type: {},
+  by_severity: {},
+  by_status: {},
+  by_sector: {}
+});
+
+const DIMENSION_FIELDS = {
+  type: 'by_type',
+  severity: 'by_severity',
+  status: 'by_status',
+  sector: 'by_sector'
+} as const;
+
+const addToTally = (tally: Tally, row: AnalyticsGroupRow) => {
+  if (row.dimension === 'total') {
+    tally.incidents = Number(row.incidents);
+    tally.public_health_risk = Number(row.public_health_risk);
+    tally.verified = Number(row.verified);
+    tally.resolved = Number(row.resolved);
+    tally.median_hours_to_verify = hours(row.median_hours_to_verify);
+    tally.median_hours_to_resolve = hours(row.median_hours_to_resolve);
+  } else if (row.key !== null) {
+    tally[DIMENSION_FIELDS[row.dimension]][row.key] = Number(row.incidents);
+  }
+};
+
+const share = (part: number, whole: number) => (whole ? Number((part / whole).toFixed(4)) : 0);
+
+// Grid cells of about HOTSPOT_CELL_KM holding the most reports, found in the database
+const findHotspots = async (scope: AnalyticsScope, range: AnalyticsRange, filters: AnalyticsFilters) => {
+  const { data, error } = await supabaseAdmin.rpc('get_incident_hotspots', {
+    cell_km: HOTSPOT_CELL_KM,
+    min_count: HOTSPOT_MIN_COUNT,
+    max_cells: HOTSPOT_LIMIT,
+    ...analyticsArgs(scope, range, filters)
+  });
+
+  if (error) throw error;
+
+  return ((data || []) as HotspotRow[]).map(cell => ({
+    center: [Number(Number(cell.lng).toFixed(6)), Number(Number(cell.lat).toFixed(6))] as [number, number],
+    cell_km: HOTSPOT_CELL_KM,
+    incidents: Number(cell.incidents),
+    public_health_risk: Number(cell.public_health_risk),
+    severity: cell.severity,
+    incident_types: cell.incident_types,
+    sectors: cell.sectors,
+    locations: cell.locations,
+    last_reported: cell.last_reported
+  }));
+};
+
+/**
+ * Aggregate incident reports created in the range: counts by type, severity,
+ * status and sector overall and per interval, the public health risk share,
+ * median hours from report to verification and to resolution, and hotspots.
+ * Durations are grouped by when the report arrived, so a bucket's medians
+ * describe how its reports were handled. The counting is done in the
+ * database, so every report in the range is included.
+ */
+export const computeIncidentAnalytics = async (scope: AnalyticsScope, range: AnalyticsRange, filters: AnalyticsFilters) => {
+  const rows = await loadGroups(scope, range, filters);
+
+  const overall = emptyTally();
+  const buckets = new Map<string, { start: Date; tally: Tally }>();
+  for (let start = bucketStart(range.from, range.interval); start < range.to; start = nextBucket(start, range.interval)) {
+    buckets.set(bucketKey(start, range.interval), { start, tally: emptyTally() });
+  }
+
+  for (const row of rows) {
+    if (row.bucket === null) {
+      addToTally(overall, row);
+      continue;
+    }
+    const bucket = buckets.get(bucketKey(new Date(row.bucket), range.interval));
+    if (bucket) addToTally(bucket.tally, row);
+  }
+
+  return {
+    range: { from: range.from.toISOString(), to: range.to.toISOString(), interval: range.interval },
+    scope: scope.kind,
+    ...(scope.kind === 'organization' && { organization: scope.organization }),
+    totals: {
+      incidents: overall.incidents,
+      public_health_risk: overall.public_health_risk,
+      public_health_risk_share: share(overall.public_health_risk, overall.incidents),
+      verified: overall.verified,
+      resolved: overall.resolved
+    },
+    by_type: overall.by_type,
+    by_severity: overall.by_severity,
+    by_status: overall.by_status,
+    by_sector: overall.by_sector,
+    time_to_verify: { median_hours: overall.median_hours_to_verify, count: overall.verified },
+    time_to_resolve: { median_hours: overall.median_hours_to_resolve, count: overall.resolved },
+    timeline: [...buckets.entries()].map(([period, { start, tally }]) => ({
+      period,
+      start: start.toISOString(),
+      incidents: tally.incidents,
+      public_health_risk: tally.public_health_risk,
+      public_health_risk_share: share(tally.public_health_risk, tally.incidents),
+      by_type: tally.by_type,
+      by_severity: tally.by_severity,
+      by_status: tally.by_status,
+      by_sector: tally.by_sector,
+      median_hours_to_verify: tally.median_hours_to_verify,
+      median_hours_to_resolve: tally.median_hours_to_resolve
+    })),
+    hotspots: await findHotspots(scope, range, filters)
+  };
+};
@@ -0,0 +1,551 @@
+import { IncidentSeverity, IncidentStatus, supabaseAdmin } from '../config/supabase';
+import { Position } from '../utils/geo';
+import { CLOSED_STATUSES, recordIncidentTransition } from './incidentWorkflowService';
+import { INCIDENT_STAFF_ROLES, publish } from './realtimeService';
+
+// How far apart in time and space two reports of the same event can plausibly be
+const DUPLICATE_WINDOW_HOURS = Number(process.env.INCIDENT_DUPLICATE_WINDOW_HOURS) || 48;
+const DUPLICATE_RADIUS_KM = Number(process.env.INCIDENT_DUPLICATE_RADIUS_KM) || 10;
+// Pairs scoring at least this are suggested to the triager
+export const DUPLICATE_THRESHOLD = Number(process.env.INCIDENT_DUPLICATE_THRESHOLD) || 0.6;
+const MAX_CANDIDATES = 500;
+const MAX_SUGGESTIONS = 10;
+export const MAX_MERGE = 50;
+// PostgREST returns at most 1000 rows per request
+const CLUSTER_PAGE_SIZE = 1000;
+// Parent ids per children query, so the `in` filter stays well inside URL limits
+const CLUSTER_PARENT_CHUNK = 200;
+
+const WEIGHTS = { type: 0.3, distance: 0.3, time: 0.2, text: 0.2 };
+
+// Reporters often pick a different type for the same event (an oil slick filed as water pollution)
+const RELATED_TYPES = [
+  ['oil-spill', 'chemical-release', 'water-pollution'],
+  ['sewage-discharge', 'water-pollution', 'algal-bloom'],
+  ['dead-marine-life', 'algal-bloom', 'water-pollution', 'oil-spill', 'chemical-release'],
+  ['unusual-tides', 'coastal-erosion']
+];
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'near', 'from', 'this', 'that', 'there', 'was', 'were', 'are', 'has', 'have',
+  'into', 'onto', 'our', 'your', 'some', 'about', 'very', 'seen', 'see', 'saw', 'today', 'just', 'been'
+]);
+
+export const CLUSTER_COLUMNS =
+  'id, incident_type, incident_title, description, severity, status, location, coordinates, sector, date_time, created_at, reporter_id, parent_id';
+
+export interface ClusterIncident {
+  id: string;
+  incident_type: string;
+  incident_title: string;
+  description: string;
+  severity: string;
+  status: string;
+  location: string;
+  coordinates: string | null;
+  sector: string | null;
+  date_time: string;
+  created_at: string;
+  reporter_id: string | null;
+  parent_id: string | null;
+}
+
+export interface DuplicateBreakdown {
+  type: number;
+  distance: number;
+  time: number;
+  text: number;
+  distance_km: number | null;
+}
+
+export class IncidentClusterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IncidentClusterError';
+  }
+}
+
+// The legacy coordinates column holds "lat,lng"
+const toPosition = (coordinates: string | null): Position | null => {
+  const [lat, lng] = String(coordinates || '').split(',').map(Number);
+  return Number.isFinite(lat) && Number.isFinite(lng) && coordinates ? [lng, lat] : null;
+};
+
+const distanceKm = ([lng1, lat1]: Position, [lng2, lat2]: Position) => {
+  const rad = Math.PI / 180;
+  const dLat = (lat2 - lat1) * rad;
+  const dLng = (lng2 - lng1) * rad;
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+const tokens = (text: string) => new Set(
+  text.toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length >= 3 && !STOPWORDS.has(token))
+);
+
+const jaccard = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const token of a) if (b.has(token)) shared++;
+  return shared / (a.size + b.size - shared);
+};
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * How likely two reports describe the same event, from 0 to 1: a weighted
+ * mix of matching type, distance apart (or the same sector or place name
+ * when either lacks coordinates), time apart, and shared words in the title
+ * and description.
+ */
+export const scoreDuplicate = (a: ClusterIncident, b: ClusterIncident) => {
+  const type = a.incident_type === b.incident_type
+    ? 1
+    : RELATED_TYPES.some(group => group.includes(a.incident_type) && group.includes(b.incident_type)) ? 0.5 : 0;
+
+  const positionA = toPosition(a.coordinates);
+  const positionB = toPosition(b.coordinates);
+  let distance = 0;
+  let km: number | null = null;
+  if (positionA && positionB) {
+    km = distanceKm(positionA, positionB);
+    distance = Math.max(0, 1 - km / DUPLICATE_RADIUS_KM);
+  } else if (a.sector && a.sector === b.sector) {
+    distance = 0.5;
+  } else if (a.location.trim().toLowerCase() === b.location.trim().toLowerCase()) {
+    distance = 0.5;
+  }
+
+  const hoursApart = Math.abs(new Date(a.date_time).getTime() - new Date(b.date_time).getTime()) / 3600000;
+  const time = Math.max(0, 1 - hoursApart / DUPLICATE_WINDOW_HOURS);
+
+  const text = jaccard(
+    tokens(`${a.incident_title} ${a.description}`),
+    tokens(`${b.incident_title} ${b.description}`)
+  );
+
+  const breakdown: DuplicateBreakdown = {
+    type,
+    distance: round(distance),
+    time: round(time),
+    text: round(text),
+    distance_km: km === null ? null : round(km)
+  };
+  const score = round(
+    WEIGHTS.type * type + WEIGHTS.distance * distance + WEIGHTS.time * time + WEIGHTS.text * text
+  );
+
+  return { score, breakdown };
+};
+
+// Each pair is stored once, smallest id first
+const orderPair = (x: string, y: string) => (x < y ? { incident_a: x, incident_b: y } : { incident_a: y, incident_b: x });
+
+/**
+ * Score an incident against open, unmerged reports observed around the same
+ * time and store the likely duplicates. A pair a triager already dismissed
+ * or merged keeps that status; only its score is refreshed.
+ */
+export const detectDuplicates = async (incident: ClusterIncident) => {
+  if (incident.parent_id || incident.status === IncidentStatus.MERGED) return [];
+
+  const observed = new Date(incident.date_time).getTime();
+  const windowMs = DUPLICATE_WINDOW_HOURS * 3600000;
+
+  const { data: candidates, error } = await supabaseAdmin
+    .from('incident_reports')
+    .select(CLUSTER_COLUMNS)
+    .neq('id', incident.id)
+    .is('parent_id', null)
+    .not('status', 'in', `(${IncidentStatus.REJECTED},${IncidentStatus.MERGED})`)
+    .gte('date_time', new Date(observed - windowMs).toISOString())
+    .lte('date_time', new Date(observed + windowMs).toISOString())
+    .order('date_time', { ascending: false })
+    .limit(MAX_CANDIDATES);
+
+  if (error) throw error;
+
+  const suggestions = ((candidates || []) as ClusterIncident[])
+    .map(candidate => ({ candidate, ...scoreDuplicate(incident, candidate) }))
+    .filter(match => match.score >= DUPLICATE_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SUGGESTIONS);
+
+  if (suggestions.length > 0) {
+    const detectedAt = new Date().toISOString();
+    const { error: upsertError } = await supabaseAdmin
+      .from('incident_duplicates')
+      .upsert(
+        suggestions.map(match => ({
+          ...orderPair(incident.id, match.candidate.id),
+          score: match.score,
+          breakdown: match.breakdown,
+          detected_at: detectedAt
+        })),
+        { onConflict: 'incident_a,incident_b' }
+      );
+
+    if (upsertError) throw upsertError;
+  }
+
+  return suggestions;
+};
+
+// Run after a report is filed; triagers hear about likely duplicates live
+export const announceDuplicates = (incident: ClusterIncident) => {
+  detectDuplicates(incident)
+    .then(suggestions => {
+      if (suggestions.length === 0) return;
+      publish({
+        type: 'incident.duplicates_found',
+        sector: incident.sector,
+        roles: INCIDENT_STAFF_ROLES,
+        data: {
+          incident_id: incident.id,
+          candidates: suggestions.length,
+          best_score: suggestions[0].score
+        }
+      });
+    })
+    .catch(error => {
+      console.error(`Duplicate detection for incident ${incident.id} failed:`, error);
+    });
+};
+
+// Likely duplicates of an incident, best match first, with the other report's summary
+export const listDuplicates = async (incidentId: string, includeReviewed: boolean) => {
+  let query = supabaseAdmin
+    .from('incident_duplicates')
+    .select('*')
+    .or(`incident_a.eq.${incidentId},incident_b.eq.${incidentId}`)
+    .order('score', { ascending: false });
+
+  if (!includeReviewed) query = query.eq('status', 'suggested');
+
+  const { data: pairs, error } = await query;
+  if (error) throw error;
+  if (!pairs || pairs.length === 0) return [];
+
+  const otherIds = pairs.map(pair => (pair.incident_a === incidentId ? pair.incident_b : pair.incident_a));
+  const { data: others, error: otherError } = await supabaseAdmin
+    .from('incident_reports')
+    .select(`
+      ${CLUSTER_COLUMNS},
+      users!incident_reports_reporter_id_fkey (
+        id,
+        full_name,
+        organization
+      )
+    `)
+    .in('id', otherIds);
+
+  if (otherError) throw otherError;
+  const byId = new Map((others || []).map((other: any) => [other.id, other]));
+
+  return pairs
+    .map((pair, index) => ({
+      incident: byId.get(otherIds[index]) || null,
+      score: Number(pair.score),
+      breakdown: pair.breakdown,
+      status: pair.status,
+      detected_at: pair.detected_at,
+      reviewed_at: pair.reviewed_at
+    }))
+    // A suggestion whose other report has since been merged elsewhere is only kept for the record
+    .filter(duplicate => duplicate.incident && (includeReviewed || !duplicate.incident.parent_id));
+};
+
+export const reviewDuplicate = async (incidentId: string, otherId: string, status: 'dismissed' | 'merged', userId: string) => {
+  const { incident_a, incident_b } = orderPair(incidentId, otherId);
+  const { data: pair, error } = await supabaseAdmin
+    .from('incident_duplicates')
+    .update({ status, reviewed_by: userId, reviewed_at: new Date().toISOString() })
+    .eq('incident_a', incident_a)
+    .eq('incident_b', incident_b)
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  return pair;
+};
+
+interface MergeParent {
+  id: string;
+  incident_title: string;
+  status: string;
+  sector: string | null;
+  reporter_id: string;
+  parent_id: string | null;
+}
+
+/**
+ * Fold duplicate reports into a parent incident. Each child moves to
+ * `merged` and keeps its own evidence, comments and reporter; reports that
+ * had been merged into a child move up to the parent. Each merge is one
+ * database transaction that locks both reports and re-checks them, so a
+ * child another handler just changed is skipped, and a parent that was
+ * merged elsewhere in the meantime (say, into one of these children) takes
+ * nothing. Returns the reports that were merged.
+ */
+export const mergeIncidents = async (
+  parent: MergeParent,
+  children: ClusterIncident[],
+  userId: string,
+  notes: string | null
+) => {
+  const mergedAt = new Date().toISOString();
+  const merged: Record<string, any>[] = [];
+
+  for (const child of children) {
+    const { data: updated, error } = await supabaseAdmin
+      .rpc('merge_incident_report', {
+        target_parent: parent.id,
+        target_child: child.id,
+        expected_status: child.status,
+        merged_by_user: userId,
+        merged_time: mergedAt
+      })
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!updated) continue;
+
+    await recordIncidentTransition({
+      incidentId: child.id,
+      action: 'merge',
+      from: child.status,
+      to: IncidentStatus.MERGED,
+      userId,
+      notes: notes || `Merged into "${parent.incident_title}"`
+    });
+
+    await reviewDuplicate(parent.id, child.id, 'merged', userId);
+    merged.push(updated);
+  }
+
+  if (merged.length > 0) {
+    await recordIncidentTransition({
+      incidentId: parent.id,
+      action: 'merge',
+      from: parent.status,
+      to: parent.status,
+      userId,
+      notes: notes || `Merged ${merged.length} duplicate report${merged.length === 1 ? '' : 's'}`
+    });
+
+    loadClusterReporterIds(parent)
+      .then(reporterIds => publish({
+        type: 'incident.merged',
+        sector: parent.sector,
+        roles: INCIDENT_STAFF_ROLES,
+        userIds: reporterIds,
+        data: {
+          incident_id: parent.id,
+          merged_ids: merged.map(child => child.id)
+        }
+      }))
+      .catch(error => {
+        console.error(`Merge announcement for incident ${parent.id} failed:`, error);
+      });
+  }
+
+  return merged;
+};
+
+// Reporters of every report in the cluster an incident belongs to: its parent (or itself) and all merged reports
+export const loadClusterReporterIds = async (incident: { id: string; reporter_id: string | null; parent_id?: string | null }) => {
+  const rootId = incident.parent_id || incident.id;
+  const { data: reports, error } = await supabaseAdmin
+    .from('incident_reports')
+    .select('reporter_id')
+    .or(`id.eq.${rootId},parent_id.eq.${rootId}`);
+
+  if (error) throw error;
+
+  const ids = new Set((reports || []).map(report => report.reporter_id as string | null));
+  if (incident.reporter_id) ids.add(incident.reporter_id);
+  ids.delete(null);
+  return [...ids] as string[];
+};
+
+// Whether a non-staff user may follow an incident: they reported it or a report merged with it
+export const canFollowIncident = async (
+  incident: { id: string; reporter_id: string | null; parent_id?: string | null },
+  userId: string
+) => incident.reporter_id === userId || (await loadClusterReporterIds(incident)).includes(userId);
+
+// ---------------------------------------------------------------------------
+// Clusters
+
+export interface ClusterExtent {
+  bbox: [number, number, number, number];
+  center: Position;
+  radius_km: number;
+  // Convex hull of the reported positions: a Point, LineString or Polygon
+  hull: { type: 'Point'; coordinates: Position } | { type: 'LineString'; coordinates: Position[] } | { type: 'Polygon'; coordinates: Position[][] };
+}
+
+const cross = (o: Position, a: Position, b: Position) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+
+// Andrew's monotone chain; fine for the handful of points in a cluster
+const convexHull = (points: Position[]) => {
+  const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  const build = (input: Position[]) => {
+    const chain: Position[] = [];
+    for (const point of input) {
+      while (chain.length >= 2 && cross(chain[chain.length - 2], chain[chain.length - 1], point) <= 0) chain.pop();
+      chain.push(point);
+    }
+    chain.pop();
+    return chain;
+  };
+  return [...build(sorted), ...build([...sorted].reverse())];
+};
+
+export const clusterExtent = (incidents: ClusterIncident[]): ClusterExtent | null => {
+  const points = incidents.map(incident => toPosition(incident.coordinates)).filter((p): p is Position => !!p);
+  if (points.length === 0) return null;
+
+  const lngs = points.map(p => p[0]);
+  const lats = points.map(p => p[1]);
+  const center: Position = [
+    Number((lngs.reduce((sum, v) => sum + v, 0) / points.length).toFixed(6)),
+    Number((lats.reduce((sum, v) => sum + v, 0) / points.length).toFixed(6))
+  ];
+
+  const distinct = [...new Map(points.map(p => [`${p[0]},${p[1]}`, p])).values()];
+  const hull = distinct.length === 1 ? [] : convexHull(distinct);
+
+  return {
+    bbox: [Math.min(...lngs), Math.min(...lats), Math.max(...lngs), Math.max(...lats)],
+    center,
+    radius_km: round(Math.max(...points.map(p => distanceKm(center, p)))),
+    hull: distinct.length === 1
+      ? { type: 'Point', coordinates: distinct[0] }
+      : hull.length < 3
+        ? { type: 'LineString', coordinates: hull }
+        : { type: 'Polygon', coordinates: [[...hull, hull[0]]] }
+  };
+};
+
+const SEVERITY_RANK: string[] = [IncidentSeverity.LOW, IncidentSeverity.MEDIUM, IncidentSeverity.HIGH, IncidentSeverity.CRITICAL];
+
+const summarizeCluster = (id: string, kind: 'merged' | 'suggested', parent: ClusterIncident | null, incidents: ClusterIncident[]) => {
+  const observed = incidents.map(incident => incident.date_time).sort();
+  return {
+    id,
+    kind,
+    parent,
+    incidents,
+    report_count: incidents.length,
+    reporter_count: new Set(incidents.map(incident => incident.reporter_id).filter(Boolean)).size,
+    incident_types: [...new Set(incidents.map(incident => incident.incident_type))],
+    severity: incidents
+      .map(incident => incident.severity)
+      .sort((a, b) => SEVERITY_RANK.indexOf(b) - SEVERITY_RANK.indexOf(a))[0],
+    first_observed: observed[0],
+    last_observed: observed[observed.length - 1],
+    extent: clusterExtent(incidents)
+  };
+};
+
+export type IncidentCluster = ReturnType<typeof summarizeCluster>;
+
+// Parents with the reports merged into them; open parents only unless includeClosed.
+// Parents are selected first, so closed clusters never count against what is loaded.
+export const listMergedClusters = async (includeClosed: boolean) => {
+  const parents: ClusterIncident[] = [];
+  for (let offset = 0; ; offset += CLUSTER_PAGE_SIZE) {
+    let parentQuery = supabaseAdmin.rpc('get_merged_cluster_parents');
+    if (!includeClosed) {
+      parentQuery = parentQuery.not('status', 'in', `(${CLOSED_STATUSES.join(',')})`);
+    }
+
+    const { data: page, error } = await parentQuery
+      .select(CLUSTER_COLUMNS)
+      .order('date_time', { ascending: false })
+      .order('id')
+      .range(offset, offset + CLUSTER_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    parents.push(...((page || []) as ClusterIncident[]));
+    if (!page || page.length < CLUSTER_PAGE_SIZE) break;
+  }
+  if (parents.length === 0) return [];
+
+  const children: ClusterIncident[] = [];
+  for (let start = 0; start < parents.length; start += CLUSTER_PARENT_CHUNK) {
+    const parentIds = parents.slice(start, start + CLUSTER_PARENT_CHUNK).map(parent => parent.id);
+    for (let offset = 0; ; offset += CLUSTER_PAGE_SIZE) {
+      const { data: page, error } = await supabaseAdmin
+        .from('incident_reports')
+        .select(CLUSTER_COLUMNS)
+        .in('parent_id', parentIds)
+        .order('date_time', { ascending: true })
+        .order('id')
+        .range(offset, offset + CLUSTER_PAGE_SIZE - 1);
+
+      if (error) throw error;
+      children.push(...((page || []) as ClusterIncident[]));
+      if (!page || page.length < CLUSTER_PAGE_SIZE) break;
+    }
+  }
+
+  return parents.map(parent => summarizeCluster(
+    parent.id,
+    'merged',
+    parent,
+    [parent, ...children.filter(child => child.parent_id === parent.id)]
+  ));
+};
+
+// Groups of reports linked by pending duplicate suggestions, not merged yet
+export const listSuggestedClusters = async () => {
+  const { data: pairs, error } = await supabaseAdmin
+    .from('incident_duplicates')
+    .select('incident_a, incident_b')
+    .eq('status', 'suggested')
+    .order('detected_at', { ascending: false })
+    .limit(200);
+
+  if (error) throw error;
+  if (!pairs || pairs.length === 0) return [];
+
+  // Union-find over the suggested pairs
+  const root = new Map<string, string>();
+  const find = (id: string): string => {
+    const parent = root.get(id) || id;
+    if (parent === id) return id;
+    const top = find(parent);
+    root.set(id, top);
+    return top;
+  };
+  for (const pair of pairs) {
+    root.set(find(pair.incident_a), find(pair.incident_b));
+  }
+
+  const ids = [...new Set(pairs.flatMap(pair => [pair.incident_a, pair.incident_b]))];
+  const { data: incidents, error: incidentError } = await supabaseAdmin
+    .from('incident_reports')
+    .select(CLUSTER_COLUMNS)
+    .in('id', ids)
+    .is('parent_id', null)
+    .not('status', 'in', `(${IncidentStatus.REJECTED},${IncidentStatus.MERGED})`);
+
+  if (incidentError) throw incidentError;
+
+  const groups = new Map<string, ClusterIncident[]>();
+  for (const incident of (incidents || []) as ClusterIncident[]) {
+    const key = find(incident.id);
+    groups.set(key, [...(groups.get(key) || []), incident]);
+  }
+
+  return [...groups.values()]
+    .filter(group => group.length > 1)
+    .map(group => {
+      const sorted = group.sort((a, b) => a.date_time.localeCompare(b.date_time));
+      return summarizeCluster(`suggested:${sorted[0].id}`, 'suggested', null, sorted);
+    });
+};
@@ -0,0 +1,460 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { supabaseAdmin } from '../config/supabase';
+import { MediaMetadata, readMediaFile, renderThumbnail, sniffContentType, stripMediaLocation } from '../utils/media';
+import { getMediaStorage } from './mediaStorage';
+
+export const MEDIA_TYPES: Record<string, { media_type: 'photo' | 'video'; extension: string }> = {
+  'image/jpeg': { media_type: 'photo', extension: 'jpg' },
+  'image/png': { media_type: 'photo', extension: 'png' },
+  'video/mp4': { media_type: 'video', extension: 'mp4' },
+  'video/quicktime': { media_type: 'video', extension: 'mov' }
+};
+
+const megabytes = (name: string, fallback: number) => (Number(process.env[name]) || fallback) * 1024 * 1024;
+
+export const MEDIA_SIZE_LIMITS = {
+  photo: megabytes('MEDIA_MAX_PHOTO_MB', 15),
+  video: megabytes('MEDIA_MAX_VIDEO_MB', 200)
+};
+export const MEDIA_CHUNK_BYTES = megabytes('MEDIA_CHUNK_MB', 5);
+export const MAX_THUMBNAIL_BYTES = 512 * 1024;
+const MAX_MEDIA_PER_INCIDENT = 20;
+// Uploads never attached to a report are discarded after a day
+const DRAFT_TTL_MS = 24 * 60 * 60 * 1000;
+
+export class MediaUploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MediaUploadError';
+  }
+}
+
+// The client's Upload-Offset does not match what the server holds; it should resume from receivedBytes
+export class MediaOffsetError extends Error {
+  constructor(public receivedBytes: number) {
+    super(`Upload offset mismatch; the server has ${receivedBytes} bytes`);
+    this.name = 'MediaOffsetError';
+  }
+}
+
+export interface IncidentMedia {
+  id: string;
+  incident_id: string | null;
+  uploaded_by: string | null;
+  media_type: 'photo' | 'video';
+  content_type: string;
+  filename: string;
+  size_bytes: number;
+  received_bytes: number;
+  status: 'uploading' | 'uploaded' | 'ready' | 'failed';
+  storage_provider: string | null;
+  storage_key: string | null;
+  thumbnail_key: string | null;
+  has_thumbnail: boolean;
+  metadata: Partial<MediaMetadata>;
+  location_stripped: boolean;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Completed uploads wait on the API server's disk until they are attached to a report
+const uploadDir = () => process.env.MEDIA_UPLOAD_DIR || path.join(os.tmpdir(), 'coastal-uploads');
+const stagedPath = (mediaId: string) => path.join(uploadDir(), mediaId);
+const stagedThumbnailPath = (mediaId: string) => path.join(uploadDir(), `${mediaId}.thumb.jpg`);
+
+const removeStaged = (mediaId: string) => Promise.all([
+  fs.rm(stagedPath(mediaId), { force: true }),
+  fs.rm(stagedThumbnailPath(mediaId), { force: true })
+]);
+
+// Validate the description of a new upload
+export const readUploadFields = (body: Record<string, any>) => {
+  const filename = typeof body.filename === 'string' ? path.basename(body.filename.trim()) : '';
+  if (!filename) {
+    throw new MediaUploadError('Missing required field: filename');
+  }
+  if (filename.length > 255) {
+    throw new MediaUploadError('filename must be at most 255 characters');
+  }
+
+  const contentType = String(body.content_type || '').toLowerCase();
+  const type = MEDIA_TYPES[contentType];
+  if (!type) {
+    throw new MediaUploadError(`content_type must be one of: ${Object.keys(MEDIA_TYPES).join(', ')}`);
+  }
+
+  const size = Number(body.size);
+  if (!Number.isInteger(size) || size <= 0) {
+    throw new MediaUploadError('size must be a positive number of bytes');
+  }
+  const limit = MEDIA_SIZE_LIMITS[type.media_type];
+  if (size > limit) {
+    throw new MediaUploadError(`${type.media_type === 'photo' ? 'Photos' : 'Videos'} can be at most ${limit / 1024 / 1024} MB`);
+  }
+
+  return { filename, content_type: contentType, media_type: type.media_type, size_bytes: size };
+};
+
+export const readMediaIds = (value: unknown): string[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some(id => typeof id !== 'string')) {
+    throw new MediaUploadError('media_ids must be an array of media ids');
+  }
+  if (value.length > MAX_MEDIA_PER_INCIDENT) {
+    throw new MediaUploadError(`An incident report can have at most ${MAX_MEDIA_PER_INCIDENT} photos and videos`);
+  }
+  return [...new Set(value as string[])];
+};
+
+const checkIncidentCapacity = async (incidentId: string, adding: number) => {
+  const { count } = await supabaseAdmin
+    .from('incident_media')
+    .select('id', { count: 'exact', head: true })
+    .eq('incident_id', incidentId);
+
+  if ((count || 0) + adding > MAX_MEDIA_PER_INCIDENT) {
+    throw new MediaUploadError(`An incident report can have at most ${MAX_MEDIA_PER_INCIDENT} photos and videos`);
+  }
+};
+
+// Drop the caller's abandoned drafts, staged files included
+const purgeStaleDrafts = async (userId: string) => {
+  const { data: stale } = await supabaseAdmin
+    .from('incident_media')
+    .select('id')
+    .eq('uploaded_by', userId)
+    .is('incident_id', null)
+    .lt('created_at', new Date(Date.now() - DRAFT_TTL_MS).toISOString());
+
+  for (const media of stale || []) {
+    await removeStaged(media.id);
+    await supabaseAdmin.from('incident_media').delete().eq('id', media.id);
+  }
+};
+
+export const createUpload = async (
+  fields: ReturnType<typeof readUploadFields>,
+  userId: string,
+  incidentId: string | null
+): Promise<IncidentMedia> => {
+  if (incidentId) await checkIncidentCapacity(incidentId, 1);
+
+  await purgeStaleDrafts(userId).catch(error => {
+    console.error('Purge stale media drafts failed:', error);
+  });
+
+  const { data: media, error } = await supabaseAdmin
+    .from('incident_media')
+    .insert({ ...fields, incident_id: incidentId, uploaded_by: userId })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  await fs.mkdir(uploadDir(), { recursive: true });
+  await fs.writeFile(stagedPath(media.id), Buffer.alloc(0));
+  return media as IncidentMedia;
+};
+
+const markFailed = async (mediaId: string, message: string) => {
+  await supabaseAdmin
+    .from('incident_media')
+    .update({ status: 'failed', error: message })
+    .eq('id', mediaId);
+};
+
+// Check the completed file really is what was declared, and read its capture metadata
+const completeUpload = async (media: IncidentMedia) => {
+  const file = stagedPath(media.id);
+  const handle = await fs.open(file, 'r');
+  const header = Buffer.alloc(16);
+  try {
+    await handle.read(header, 0, header.length, 0);
+  } finally {
+    await handle.close();
+  }
+
+  const contentType = sniffContentType(header);
+  if (!contentType || MEDIA_TYPES[contentType].media_type !== media.media_type) {
+    await removeStaged(media.id);
+    await markFailed(media.id, 'File content is not a supported photo or video');
+    throw new MediaUploadError('File content is not a supported photo or video (JPEG, PNG, MP4 or MOV)');
+  }
+
+  // Most cameras embed a preview JPEG; otherwise the client may supply a thumbnail
+  const { metadata, thumbnail: preview } = await readMediaFile(file, contentType);
+  const thumbnail = preview && renderThumbnail(preview);
+  if (thumbnail) {
+    await fs.writeFile(stagedThumbnailPath(media.id), thumbnail);
+  }
+
+  const { data: uploaded, error } = await supabaseAdmin
+    .from('incident_media')
+    .update({
+      status: 'uploaded',
+      content_type: contentType,
+      metadata,
+      has_thumbnail: !!thumbnail
+    })
+    .eq('id', media.id)
+    .eq('status', 'uploading')
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  if (uploaded.incident_id) {
+    return finalizeMedia(uploaded as IncidentMedia);
+  }
+  return uploaded as IncidentMedia;
+};
+
+/**
+ * Write one chunk at the given offset. The byte range is claimed in the
+ * database before the file is touched, so a retried or duplicated request
+ * can never append the same bytes twice; a mismatched offset tells the
+ * client where to resume.
+ */
+export const appendChunk = async (media: IncidentMedia, offset: number, chunk: Buffer) => {
+  if (media.status !== 'uploading') {
+    throw new MediaUploadError('This upload is already complete');
+  }
+  if (offset !== media.received_bytes) {
+    throw new MediaOffsetError(media.received_bytes);
+  }
+  if (chunk.length === 0) {
+    throw new MediaUploadError('Chunk is empty');
+  }
+  if (offset + chunk.length > media.size_bytes) {
+    throw new MediaUploadError('Chunk runs past the declared file size');
+  }
+
+  const received = offset + chunk.length;
+  const { data: claimed } = await supabaseAdmin
+    .from('incident_media')
+    .update({ received_bytes: received })
+    .eq('id', media.id)
+    .eq('status', 'uploading')
+    .eq('received_bytes', offset)
+    .select()
+    .maybeSingle();
+
+  if (!claimed) {
+    const { data: current } = await supabaseAdmin
+      .from('incident_media')
+      .select('received_bytes')
+      .eq('id', media.id)
+      .single();
+    throw new MediaOffsetError(current?.received_bytes ?? 0);
+  }
+
+  try {
+    const handle = await fs.open(stagedPath(media.id), 'r+');
+    try {
+      await handle.write(chunk, 0, chunk.length, offset);
+    } finally {
+      await handle.close();
+    }
+  } catch (error) {
+    // Give the range back so the client can resend it
+    await supabaseAdmin
+      .from('incident_media')
+      .update({ received_bytes: offset })
+      .eq('id', media.id)
+      .eq('received_bytes', received);
+    throw error;
+  }
+
+  if (received < media.size_bytes) return claimed as IncidentMedia;
+  return completeUpload(claimed as IncidentMedia);
+};
+
+const storageKey = (media: IncidentMedia, variant?: 'thumbnail') =>
+  variant
+    ? `incidents/${media.incident_id}/${media.id}.thumb.jpg`
+    : `incidents/${media.incident_id}/${media.id}.${MEDIA_TYPES[media.content_type].extension}`;
+
+/**
+ * Move a completed upload that belongs to a report into media storage. The
+ * embedded location is removed first unless the reporter consented to
+ * sharing it; what was read from the file stays in `metadata` for staff.
+ */
+export const finalizeMedia = async (media: IncidentMedia): Promise<IncidentMedia> => {
+  const { data: incident } = await supabaseAdmin
+    .from('incident_reports')
+    .select('consent_to_share')
+    .eq('id', media.incident_id)
+    .single();
+
+  const storage = getMediaStorage();
+  const file = stagedPath(media.id);
+
+  try {
+    const stripLocation = !incident?.consent_to_share;
+    if (stripLocation) await stripMediaLocation(file, media.content_type);
+
+    const key = storageKey(media);
+    await storage.putFile(key, file, media.content_type);
+
+    let thumbnailKey: string | null = null;
+    if (media.has_thumbnail) {
+      thumbnailKey = storageKey(media, 'thumbnail');
+      await storage.putFile(thumbnailKey, stagedThumbnailPath(media.id), 'image/jpeg');
+    }
+
+    const { data: ready, error } = await supabaseAdmin
+      .from('incident_media')
+      .update({
+        status: 'ready',
+        storage_provider: storage.name,
+        storage_key: key,
+        thumbnail_key: thumbnailKey,
+        location_stripped: stripLocation,
+        error: null
+      })
+      .eq('id', media.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await removeStaged(media.id);
+    return ready as IncidentMedia;
+  } catch (error) {
+    await markFailed(media.id, error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+};
+
+// The caller's own uploads that are not attached to a report yet
+export const loadDraftMedia = async (mediaIds: string[], userId: string) => {
+  if (mediaIds.length === 0) return [];
+
+  const { data: drafts, error } = await supabaseAdmin
+    .from('incident_media')
+    .select('*')
+    .in('id', mediaIds)
+    .eq('uploaded_by', userId)
+    .is('incident_id', null)
+    .neq('status', 'failed');
+
+  if (error) throw error;
+  if ((drafts || []).length !== mediaIds.length) {
+    throw new MediaUploadError('media_ids must be your own uploads that are not attached to a report yet');
+  }
+  return drafts as IncidentMedia[];
+};
+
+/**
+ * Attach draft uploads to a report. Completed uploads move to storage in the
+ * background; ones still uploading are finalized when their last chunk arrives.
+ */
+export const attachMedia = async (incidentId: string, drafts: IncidentMedia[]) => {
+  if (drafts.length === 0) return [];
+  await checkIncidentCapacity(incidentId, drafts.length);
+
+  const { data: attached, error } = await supabaseAdmin
+    .from('incident_media')
+    .update({ incident_id: incidentId })
+    .in('id', drafts.map(media => media.id))
+    .is('incident_id', null)
+    .select();
+
+  if (error) throw error;
+
+  for (const media of (attached || []) as IncidentMedia[]) {
+    if (media.status !== 'uploaded') continue;
+    finalizeMedia(media).catch(finalizeError => {
+      console.error(`Storing media ${media.id} failed:`, finalizeError);
+    });
+  }
+  return (attached || []) as IncidentMedia[];
+};
+
+// Replace the thumbnail with a client-generated JPEG (e.g. a video frame), decoded and re-rendered here
+export const setThumbnail = async (media: IncidentMedia, data: Buffer) => {
+  if (sniffContentType(data) !== 'image/jpeg') {
+    throw new MediaUploadError('Thumbnail must be a JPEG image');
+  }
+  if (data.length > MAX_THUMBNAIL_BYTES) {
+    throw new MediaUploadError(`Thumbnail can be at most ${MAX_THUMBNAIL_BYTES / 1024} KB`);
+  }
+
+  const thumbnail = renderThumbnail(data);
+  if (!thumbnail) {
+    throw new MediaUploadError('Thumbnail is not a readable JPEG image');
+  }
+  const changes: Record<string, unknown> = { has_thumbnail: true };
+
+  if (media.status === 'ready') {
+    const key = storageKey(media, 'thumbnail');
+    await getMediaStorage(media.storage_provider || undefined).put(key, thumbnail, 'image/jpeg');
+    changes.thumbnail_key = key;
+  } else {
+    await fs.mkdir(uploadDir(), { recursive: true });
+    await fs.writeFile(stagedThumbnailPath(media.id), thumbnail);
+  }
+
+  const { data: updated, error } = await supabaseAdmin
+    .from('incident_media')
+    .update(changes)
+    .eq('id', media.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return updated as IncidentMedia;
+};
+
+// Stored media (or its thumbnail) as a stream; null until the file has reached storage
+export const openMedia = async (media: IncidentMedia, variant?: 'thumbnail') => {
+  const key = variant === 'thumbnail' ? media.thumbnail_key : media.storage_key;
+  if (media.status !== 'ready' || !key) return null;
+  return getMediaStorage(media.storage_provider || undefined).open(key);
+};
+
+export const deleteMedia = async (media: IncidentMedia) => {
+  const keys = [media.storage_key, media.thumbnail_key].filter((key): key is string => !!key);
+  if (media.storage_provider && keys.length > 0) {
+    await getMediaStorage(media.storage_provider).remove(keys);
+  }
+  await removeStaged(media.id);
+
+  const { error } = await supabaseAdmin.from('incident_media').delete().eq('id', media.id);
+  if (error) throw error;
+};
+
+/**
+ * The reporter withdrew consent to share: remove the embedded location from
+ * media already in storage. Location that was already removed is not
+ * restored if consent is given again later.
+ */
+export const applyLocationConsent = async (incidentId: string) => {
+  const { data: media } = await supabaseAdmin
+    .from('incident_media')
+    .select('*')
+    .eq('incident_id', incidentId)
+    .eq('status', 'ready')
+    .eq('location_stripped', false);
+
+  for (const item of (media || []) as IncidentMedia[]) {
+    const storage = getMediaStorage(item.storage_provider || undefined);
+    const file = stagedPath(item.id);
+
+    await fs.mkdir(uploadDir(), { recursive: true });
+    await fs.writeFile(file, await storage.open(item.storage_key!));
+    try {
+      await stripMediaLocation(file, item.content_type);
+      await storage.putFile(item.storage_key!, file, item.content_type);
+      await supabaseAdmin
+        .from('incident_media')
+        .update({ location_stripped: true })
+        .eq('id', item.id);
+    } finally {
+      await fs.rm(file, { force: true });
+    }
+  }
+};
@@ -0,0 +1,163 @@
+import { IncidentSeverity, IncidentStatus, supabaseAdmin } from '../config/supabase';
+import { INCIDENT_WORKFLOW, recordWorkflowTransition, transitionRecord } from './workflowService';
+
+// Incident investigation workflow:
+//   pending → triaged → investigating → verified → resolved
+//   pending / triaged / investigating → rejected (false report)
+//   resolved / rejected → reopened → triaged or investigating
+//   any open report → merged (a duplicate folded into a parent incident) → reopened to split it out again
+// A verified incident can be promoted to an alert draft; its status does not change.
+// Assignment to a user and/or team is independent of status and allowed while the incident is open.
+
+export type IncidentAction = 'create' | 'triage' | 'assign' | 'investigate' | 'verify' | 'reject' | 'resolve' | 'reopen' | 'merge' | 'promote';
+
+// States each action may start from
+export const ALLOWED_FROM: Record<Exclude<IncidentAction, 'create' | 'assign' | 'merge'>, IncidentStatus[]> = {
+  triage: [IncidentStatus.PENDING, IncidentStatus.REOPENED],
+  investigate: [IncidentStatus.TRIAGED, IncidentStatus.REOPENED],
+  verify: [IncidentStatus.TRIAGED, IncidentStatus.INVESTIGATING],
+  reject: [IncidentStatus.PENDING, IncidentStatus.TRIAGED, IncidentStatus.INVESTIGATING, IncidentStatus.REOPENED],
+  resolve: [IncidentStatus.INVESTIGATING, IncidentStatus.VERIFIED],
+  reopen: [IncidentStatus.RESOLVED, IncidentStatus.REJECTED, IncidentStatus.MERGED],
+  promote: [IncidentStatus.VERIFIED]
+};
+
+export const CLOSED_STATUSES: string[] = [IncidentStatus.RESOLVED, IncidentStatus.REJECTED, IncidentStatus.MERGED];
+
+// Statuses still waiting for someone to look at the report
+const AWAITING_TRIAGE: string[] = [IncidentStatus.PENDING, IncidentStatus.REOPENED];
+
+export const RESOLUTION_OUTCOMES = ['resolved', 'mitigated', 'no_action_needed', 'referred'];
+
+// Columns only the workflow endpoints may write
+export const WORKFLOW_FIELDS = [
+  'status',
+  'assigned_to',
+  'assigned_team',
+  'assigned_by',
+  'assigned_at',
+  'due_at',
+  'triaged_by',
+  'triaged_at',
+  'verified_by',
+  'verified_at',
+  'rejected_by',
+  'rejected_at',
+  'resolved_by',
+  'resolved_at',
+  'reopened_by',
+  'reopened_at',
+  'parent_id',
+  'merged_by',
+  'merged_at'
+];
+
+export interface IncidentSla {
+  severity: string;
+  triage_minutes: number;
+  resolve_minutes: number;
+}
+
+// Used when the incident_slas row for a severity is missing
+const DEFAULT_SLAS: Record<string, IncidentSla> = {
+  [IncidentSeverity.CRITICAL]: { severity: IncidentSeverity.CRITICAL, triage_minutes: 15, resolve_minutes: 240 },
+  [IncidentSeverity.HIGH]: { severity: IncidentSeverity.HIGH, triage_minutes: 60, resolve_minutes: 1440 },
+  [IncidentSeverity.MEDIUM]: { severity: IncidentSeverity.MEDIUM, triage_minutes: 240, resolve_minutes: 4320 },
+  [IncidentSeverity.LOW]: { severity: IncidentSeverity.LOW, triage_minutes: 1440, resolve_minutes: 10080 }
+};
+
+export class IncidentWorkflowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IncidentWorkflowError';
+  }
+}
+
+export const loadSla = async (severity: string): Promise<IncidentSla> => {
+  const { data: sla, error } = await supabaseAdmin
+    .from('incident_slas')
+    .select('severity, triage_minutes, resolve_minutes')
+    .eq('severity', severity)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Load incident SLA error:', error);
+  }
+  return sla || DEFAULT_SLAS[severity] || DEFAULT_SLAS[IncidentSeverity.MEDIUM];
+};
+
+interface SlaClock {
+  status: string;
+  created_at: string;
+  triaged_at?: string | null;
+  reopened_at?: string | null;
+}
+
+const latest = (...times: (string | null | undefined)[]) =>
+  times.filter(Boolean).sort((a, b) => new Date(b!).getTime() - new Date(a!).getTime())[0];
+
+/**
+ * The deadline an incident is currently working towards: triage while it is
+ * waiting for someone to pick it up, resolution once it has been triaged.
+ * Both clocks start when the current stage began; closed incidents have none.
+ */
+export const computeDueAt = (incident: SlaClock, sla: IncidentSla) => {
+  if (CLOSED_STATUSES.includes(incident.status)) return null;
+
+  const waitingForTriage = AWAITING_TRIAGE.includes(incident.status);
+  const started = waitingForTriage
+    ? latest(incident.reopened_at, incident.created_at)
+    : latest(incident.triaged_at, incident.reopened_at, incident.created_at);
+  const minutes = waitingForTriage ? sla.triage_minutes : sla.resolve_minutes;
+
+  return new Date(new Date(started!).getTime() + minutes * 60000).toISOString();
+};
+
+// Validate SLA minutes from an admin update
+export const readSlaFields = (body: Record<string, any>) => {
+  const fields: Record<string, number> = {};
+
+  for (const key of ['triage_minutes', 'resolve_minutes']) {
+    if (body[key] === undefined) continue;
+    const minutes = Number(body[key]);
+    if (!Number.isInteger(minutes) || minutes <= 0) {
+      throw new IncidentWorkflowError(`${key} must be a positive integer`);
+    }
+    fields[key] = minutes;
+  }
+
+  if (fields.triage_minutes && fields.resolve_minutes && fields.resolve_minutes < fields.triage_minutes) {
+    throw new IncidentWorkflowError('resolve_minutes cannot be shorter than triage_minutes');
+  }
+
+  return fields;
+};
+
+interface TransitionRecord {
+  incidentId: string;
+  action: IncidentAction;
+  from: string | null;
+  to: string;
+  userId: string | null;
+  notes?: string | null;
+}
+
+export const recordIncidentTransition = ({ incidentId, ...transition }: TransitionRecord) =>
+  recordWorkflowTransition(INCIDENT_WORKFLOW, { subjectId: incidentId, ...transition });
+
+/**
+ * Move an incident from its loaded status to `to`, applying `changes` and
+ * recomputing the SLA deadline for the new stage. Returns the updated
+ * incident, or null if another handler moved it first.
+ */
+export const transitionIncident = async (
+  incident: SlaClock & { id: string; severity: string },
+  to: string,
+  changes: Record<string, unknown> = {}
+) => {
+  // Triage may re-grade severity, which changes the clock
+  const sla = await loadSla(String(changes.severity ?? incident.severity));
+  const dueAt = computeDueAt({ ...incident, ...changes, status: to } as SlaClock, sla);
+
+  return transitionRecord(INCIDENT_WORKFLOW, incident.id, incident.status, { ...changes, status: to, due_at: dueAt });
+};
@@ -0,0 +1,85 @@
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { supabaseAdmin } from '../config/supabase';
+
+export interface MediaStorage {
+  name: string;
+  // Store a file from local disk under key, replacing any existing object
+  putFile(key: string, filePath: string, contentType: string): Promise<void>;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  open(key: string): Promise<Readable>;
+  remove(keys: string[]): Promise<void>;
+}
+
+// Keys are generated by the API ("incidents/<id>/<media id>.jpg"); refuse anything that could leave the root
+const resolveLocalPath = (root: string, key: string) => {
+  const resolved = path.resolve(root, key);
+  if (!resolved.startsWith(path.resolve(root) + path.sep)) {
+    throw new Error(`Invalid media storage key: ${key}`);
+  }
+  return resolved;
+};
+
+const localRoot = () => process.env.MEDIA_LOCAL_DIR || path.join(process.cwd(), 'media');
+
+// Files on the API server's disk; the default for development
+export const localDiskStorage: MediaStorage = {
+  name: 'local',
+  async putFile(key, filePath) {
+    const target = resolveLocalPath(localRoot(), key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.copyFile(filePath, target);
+  },
+  async put(key, data) {
+    const target = resolveLocalPath(localRoot(), key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, data);
+  },
+  async open(key) {
+    const target = resolveLocalPath(localRoot(), key);
+    await fs.access(target);
+    return createReadStream(target);
+  },
+  async remove(keys) {
+    await Promise.all(keys.map(key => fs.rm(resolveLocalPath(localRoot(), key), { force: true })));
+  }
+};
+
+const bucket = () => supabaseAdmin.storage.from(process.env.MEDIA_STORAGE_BUCKET || 'incident-media');
+
+// Supabase Storage (S3-compatible object storage) for production; the bucket should be private
+export const supabaseStorage: MediaStorage = {
+  name: 'supabase',
+  async putFile(key, filePath, contentType) {
+    await this.put(key, await fs.readFile(filePath), contentType);
+  },
+  async put(key, data, contentType) {
+    const { error } = await bucket().upload(key, data, { contentType, upsert: true });
+    if (error) throw error;
+  },
+  async open(key) {
+    const { data, error } = await bucket().download(key);
+    if (error || !data) throw error || new Error(`Media object ${key} not found`);
+    return Readable.from(Buffer.from(await data.arrayBuffer()));
+  },
+  async remove(keys) {
+    if (keys.length === 0) return;
+    const { error } = await bucket().remove(keys);
+    if (error) throw error;
+  }
+};
+
+const PROVIDERS: Record<string, MediaStorage> = {
+  local: localDiskStorage,
+  supabase: supabaseStorage
+};
+
+export const getMediaStorage = (name = process.env.MEDIA_STORAGE_PROVIDER || 'local'): MediaStorage => {
+  const provider = PROVIDERS[name.toLowerCase()];
+  if (!provider) {
+    console.warn(`Unknown media storage provider "${name}", falling back to local`);
+    return localDiskStorage;
+  }
+  return provider;
+};
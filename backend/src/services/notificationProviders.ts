@@ -0,0 +1,187 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+
+export type NotificationChannel = 'sms' | 'email' | 'push';
+
+export interface OutgoingNotification {
+  channel: NotificationChannel;
+  // Phone number, email address or device token depending on the channel
+  to: string;
+  title: string;
+  message: string;
+  data?: Record<string, string>;
+}
+
+export interface NotificationProvider {
+  name: string;
+  send(notification: OutgoingNotification): Promise<void>;
+}
+
+// Logs to stdout; the default for every channel in development
+export const consoleProvider: NotificationProvider = {
+  name: 'console',
+  async send(notification) {
+    console.log(`📣 [${notification.channel}] to ${notification.to}: ${notification.title} - ${notification.message}`);
+  }
+};
+
+// Appends one JSON line per notification so dev setups can inspect what was sent
+export const fileProvider: NotificationProvider = {
+  name: 'file',
+  async send(notification) {
+    const dir = process.env.NOTIFICATION_OUTBOX_DIR || path.join(os.tmpdir(), 'coastal-notifications');
+    await fs.mkdir(dir, { recursive: true });
+    await fs.appendFile(
+      path.join(dir, `${notification.channel}.jsonl`),
+      JSON.stringify({ ...notification, sent_at: new Date().toISOString() }) + '\n'
+    );
+  }
+};
+
+const requireEnv = (name: string): string => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not configured`);
+  }
+  return value;
+};
+
+const ensureOk = async (response: Response, provider: string) => {
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`${provider} responded ${response.status}: ${body.slice(0, 500)}`);
+  }
+};
+
+export const twilioProvider: NotificationProvider = {
+  name: 'twilio',
+  async send(notification) {
+    const accountSid = requireEnv('TWILIO_ACCOUNT_SID');
+    const authToken = requireEnv('TWILIO_AUTH_TOKEN');
+    const from = requireEnv('TWILIO_FROM_NUMBER');
+
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({ To: notification.to, From: from, Body: notification.message }).toString()
+    });
+    await ensureOk(response, 'Twilio');
+  }
+};
+
+export const sendgridProvider: NotificationProvider = {
+  name: 'sendgrid',
+  async send(notification) {
+    const apiKey = requireEnv('SENDGRID_API_KEY');
+    const from = requireEnv('SENDGRID_FROM_EMAIL');
+
+    const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        personalizations: [{ to: [{ email: notification.to }] }],
+        from: { email: from },
+        subject: notification.title,
+        content: [{ type: 'text/plain', value: notification.message }]
+      })
+    });
+    await ensureOk(response, 'SendGrid');
+  }
+};
+
+// Cached OAuth token for the FCM HTTP v1 API
+let firebaseToken: { value: string; expiresAt: number } | null = null;
+
+const getFirebaseAccessToken = async () => {
+  if (firebaseToken && firebaseToken.expiresAt > Date.now() + 60000) {
+    return firebaseToken.value;
+  }
+
+  const clientEmail = requireEnv('FIREBASE_CLIENT_EMAIL');
+  const privateKey = requireEnv('FIREBASE_PRIVATE_KEY').replace(/\\n/g, '\n');
+
+  // Service-account JWT grant
+  const assertion = jwt.sign(
+    { scope: 'https://www.googleapis.com/auth/firebase.messaging' },
+    privateKey,
+    {
+      algorithm: 'RS256',
+      issuer: clientEmail,
+      audience: 'https://oauth2.googleapis.com/token',
+      expiresIn: '1h'
+    }
+  );
+
+  const response = await fetch('https://oauth2.googleapis.com/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion
+    }).toString()
+  });
+  await ensureOk(response, 'Google OAuth');
+
+  const { access_token, expires_in } = await response.json() as { access_token: string; expires_in: number };
+  firebaseToken = { value: access_token, expiresAt: Date.now() + expires_in * 1000 };
+  return access_token;
+};
+
+export const firebaseProvider: NotificationProvider = {
+  name: 'firebase',
+  async send(notification) {
+    const projectId = requireEnv('FIREBASE_PROJECT_ID');
+    const accessToken = await getFirebaseAccessToken();
+
+    const response = await fetch(`https://fcm.googleapis.com/v1/projects/${projectId}/messages:send`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        message: {
+          token: notification.to,
+          notification: { title: notification.title, body: notification.message },
+          data: notification.data
+        }
+      })
+    });
+    await ensureOk(response, 'Firebase');
+  }
+};
+
+const PROVIDERS: Record<string, NotificationProvider> = {
+  console: consoleProvider,
+  file: fileProvider,
+  twilio: twilioProvider,
+  sendgrid: sendgridProvider,
+  firebase: firebaseProvider
+};
+
+const CHANNEL_ENV: Record<NotificationChannel, string> = {
+  sms: 'NOTIFICATION_SMS_PROVIDER',
+  email: 'NOTIFICATION_EMAIL_PROVIDER',
+  push: 'NOTIFICATION_PUSH_PROVIDER'
+};
+
+// Resolve the provider configured for a channel; `none` disables the channel
+export const getProvider = (channel: NotificationChannel): NotificationProvider | null => {
+  const name = (process.env[CHANNEL_ENV[channel]] || 'console').toLowerCase();
+  if (name === 'none') return null;
+
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    console.warn(`Unknown ${channel} notification provider "${name}", falling back to console`);
+    return consoleProvider;
+  }
+  return provider;
+};
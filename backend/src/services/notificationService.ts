@@ -0,0 +1,404 @@
+import { supabaseAdmin } from '../config/supabase';
+import { getAlertTargets } from './geofenceService';
+import { NotificationChannel, OutgoingNotification, getProvider } from './notificationProviders';
+
+export type DispatchReason = 'created' | 'escalated' | 'reminder' | 'lifted';
+
+export interface NotificationPreferences {
+  sms?: boolean;
+  email?: boolean;
+  push?: boolean;
+  [category: string]: boolean | undefined;
+}
+
+export interface DispatchableAlert {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  category: string;
+  location: string;
+  sector: string | null;
+  severity: string;
+}
+
+export interface Recipient {
+  id: string;
+  email: string;
+  full_name: string;
+  organization: string | null;
+  phone: string | null;
+  role: string;
+  location: string | null;
+  coordinates: string | null;
+  user_profiles: {
+    notification_preferences: NotificationPreferences | null;
+    push_tokens: string[] | null;
+  }[] | null;
+}
+
+export interface DispatchSummary {
+  recipients: number;
+  sent: number;
+  failed: number;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  sms: true,
+  email: true,
+  push: true,
+  tsunami: true,
+  cyclone: true,
+  pollution: false,
+  tidal: true
+};
+
+const MAX_DELIVERY_ATTEMPTS = Number(process.env.NOTIFICATION_MAX_ATTEMPTS || 3);
+const RETRY_DELAY_MS = 1000;
+
+// Deliveries in flight at once, so one slow provider or retry does not hold up the rest
+const DELIVERY_CONCURRENCY = Number(process.env.NOTIFICATION_CONCURRENCY) || 10;
+
+// Users are read in pages; PostgREST caps a single response at 1000 rows
+const USER_PAGE_SIZE = 1000;
+
+// Same wording as the SMS template in the frontend notification config
+const SMS_TEMPLATE = 'Coastal Alert: {type} at {location}. Risk: {severity}. {description}';
+
+// Authorities follow every warning and emergency, wherever they are based
+const ALWAYS_NOTIFIED_ROLES = ['super_admin', 'admin', 'authority'];
+const ALWAYS_NOTIFIED_TYPES = ['warning', 'emergency'];
+
+const RECIPIENT_COLUMNS = `
+  id,
+  email,
+  full_name,
+  organization,
+  phone,
+  role,
+  location,
+  coordinates,
+  user_profiles (
+    notification_preferences,
+    push_tokens
+  )
+`;
+
+// A replacer function, so `$&` and similar patterns in the alert's own text are left alone
+const renderTemplate = (template: string, alert: DispatchableAlert) => {
+  const values: Record<string, string> = {
+    type: alert.type.toUpperCase(),
+    location: alert.location,
+    severity: alert.severity,
+    description: alert.message
+  };
+  return template.replace(/\{(type|location|severity|description)\}/g, (_, key: string) => values[key]);
+};
+
+const matchesArea = (user: Recipient, alert: DispatchableAlert) => {
+  if (!user.location) return false;
+  const userLocation = user.location.toLowerCase();
+  const alertLocation = alert.location.toLowerCase();
+  return (
+    userLocation.includes(alertLocation) ||
+    alertLocation.includes(userLocation) ||
+    (!!alert.sector && userLocation === alert.sector.toLowerCase())
+  );
+};
+
+// Category opt-outs are honoured except for emergencies
+const wantsCategory = (preferences: NotificationPreferences, alert: DispatchableAlert) => {
+  if (alert.type === 'emergency') return true;
+  return preferences[alert.category] !== false;
+};
+
+const TITLES: Record<DispatchReason, (alert: DispatchableAlert) => string> = {
+  created: alert => alert.title,
+  escalated: alert => `Alert escalated to ${alert.type}: ${alert.title}`,
+  reminder: alert => `Reminder - still in effect: ${alert.title}`,
+  lifted: alert => `Alert lifted: ${alert.title}`
+};
+
+interface MessageContent {
+  title: string;
+  sms: string;
+  email: string;
+  push: string;
+  data: Record<string, string>;
+}
+
+// One message per channel the user opted into and can be reached on
+const addressMessages = (user: Recipient, preferences: NotificationPreferences, content: MessageContent) => {
+  const messages: OutgoingNotification[] = [];
+
+  if (preferences.sms && user.phone) {
+    messages.push({ channel: 'sms', to: user.phone, title: content.title, message: content.sms, data: content.data });
+  }
+  if (preferences.email && user.email) {
+    messages.push({ channel: 'email', to: user.email, title: content.title, message: content.email, data: content.data });
+  }
+  if (preferences.push) {
+    for (const token of user.user_profiles?.[0]?.push_tokens || []) {
+      messages.push({ channel: 'push', to: token, title: content.title, message: content.push, data: content.data });
+    }
+  }
+
+  return messages;
+};
+
+const buildMessages = (user: Recipient, preferences: NotificationPreferences, alert: DispatchableAlert, reason: DispatchReason) => {
+  // A lifted alert's original instructions no longer apply
+  const body = reason === 'lifted'
+    ? `The ${alert.type} for ${alert.location} is no longer in effect.`
+    : alert.message;
+
+  return addressMessages(user, preferences, {
+    title: TITLES[reason](alert),
+    sms: reason === 'lifted' ? `Coastal Alert lifted: ${body}` : renderTemplate(SMS_TEMPLATE, alert),
+    email: `${body}\n\nLocation: ${alert.location}${alert.sector ? ` (sector ${alert.sector})` : ''}\nSeverity: ${alert.severity}`,
+    push: body,
+    data: { alert_id: alert.id, type: alert.type, category: alert.category, reason }
+  });
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Send with retries; returns the attempt count and the last error, if any
+const deliver = async (notification: OutgoingNotification) => {
+  const provider = getProvider(notification.channel);
+  if (!provider) {
+    return { attempts: 0, error: `${notification.channel} channel is disabled` };
+  }
+
+  let lastError = '';
+  for (let attempt = 1; attempt <= MAX_DELIVERY_ATTEMPTS; attempt++) {
+    try {
+      await provider.send(notification);
+      return { attempts: attempt, error: null };
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+      if (attempt < MAX_DELIVERY_ATTEMPTS) {
+        await sleep(RETRY_DELAY_MS * attempt);
+      }
+    }
+  }
+
+  return { attempts: MAX_DELIVERY_ATTEMPTS, error: `${provider.name}: ${lastError}` };
+};
+
+// What a logged notification was about
+type NotificationSubject = { alert_id: string } | { incident_id: string };
+
+// Deliver one notification and record the outcome in notification_logs
+const deliverAndLog = async (
+  userId: string,
+  subject: NotificationSubject,
+  notification: OutgoingNotification,
+  escalation?: { policyId: string; step: number }
+) => {
+  const result = await deliver(notification);
+
+  const { error: logError } = await supabaseAdmin
+    .from('notification_logs')
+    .insert({
+      user_id: userId,
+      ...subject,
+      type: notification.channel,
+      title: notification.title,
+      message: notification.message,
+      status: result.error ? 'failed' : 'sent',
+      delivery_attempts: result.attempts,
+      error_message: result.error,
+      escalation_policy_id: escalation?.policyId || null,
+      escalation_step: escalation ? escalation.step : null
+    });
+
+  if (logError) {
+    console.error('Notification log error:', logError);
+  }
+
+  return result;
+};
+
+interface PendingDelivery {
+  userId: string;
+  notification: OutgoingNotification;
+}
+
+// Deliver and log with at most DELIVERY_CONCURRENCY sends in flight
+const deliverAll = async (
+  deliveries: PendingDelivery[],
+  subject: NotificationSubject,
+  summary: DispatchSummary,
+  escalation?: { policyId: string; step: number }
+) => {
+  let next = 0;
+  const worker = async () => {
+    while (next < deliveries.length) {
+      const { userId, notification } = deliveries[next++];
+      const { error } = await deliverAndLog(userId, subject, notification, escalation);
+
+      if (error) summary.failed++;
+      else summary.sent++;
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(DELIVERY_CONCURRENCY, deliveries.length) }, worker));
+  return summary;
+};
+
+const loadApprovedUsers = async (): Promise<Recipient[]> => {
+  const users: Recipient[] = [];
+
+  for (let offset = 0; ; offset += USER_PAGE_SIZE) {
+    const { data: page, error } = await supabaseAdmin
+      .from('users')
+      .select(RECIPIENT_COLUMNS)
+      .eq('status', 'approved')
+      .order('id', { ascending: true })
+      .range(offset, offset + USER_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load recipients: ${error.message}`);
+    }
+
+    users.push(...((page || []) as Recipient[]));
+    if (!page || page.length < USER_PAGE_SIZE) return users;
+  }
+};
+
+export const findRecipients = async (alert: DispatchableAlert): Promise<Recipient[]> => {
+  const users = await loadApprovedUsers();
+
+  // Geofenced alerts reach users whose home position is inside an affected area;
+  // users without a position fall back to matching their location text
+  const targets = await getAlertTargets(alert.id);
+  const insideGeofence = new Set(targets.users.map(target => target.target_id));
+  const inArea = (user: Recipient) => targets.has_areas && user.coordinates
+    ? insideGeofence.has(user.id)
+    : matchesArea(user, alert);
+
+  return users.filter(user => {
+    const preferences = {
+      ...DEFAULT_NOTIFICATION_PREFERENCES,
+      ...(user.user_profiles?.[0]?.notification_preferences || {})
+    };
+    const inScope = inArea(user) ||
+      (ALWAYS_NOTIFIED_ROLES.includes(user.role) && ALWAYS_NOTIFIED_TYPES.includes(alert.type));
+    return inScope && wantsCategory(preferences, alert);
+  });
+};
+
+// Users by id, with the contact details needed to notify them
+export const loadRecipients = async (userIds: string[]): Promise<Recipient[]> => {
+  if (userIds.length === 0) return [];
+
+  const { data: users, error } = await supabaseAdmin
+    .from('users')
+    .select(RECIPIENT_COLUMNS)
+    .in('id', userIds)
+    .eq('status', 'approved');
+
+  if (error) {
+    throw new Error(`Failed to load recipients: ${error.message}`);
+  }
+  return (users || []) as Recipient[];
+};
+
+// Fan an alert out to every matching user on each channel they opted into
+export const dispatchAlertNotifications = async (alert: DispatchableAlert, reason: DispatchReason): Promise<DispatchSummary> => {
+  const recipients = await findRecipients(alert);
+  const summary: DispatchSummary = { recipients: recipients.length, sent: 0, failed: 0 };
+
+  const deliveries = recipients.flatMap(user => {
+    const preferences = {
+      ...DEFAULT_NOTIFICATION_PREFERENCES,
+      ...(user.user_profiles?.[0]?.notification_preferences || {})
+    };
+    return buildMessages(user, preferences, alert, reason).map(notification => ({ userId: user.id, notification }));
+  });
+  await deliverAll(deliveries, { alert_id: alert.id }, summary);
+
+  console.log(`Alert ${alert.id} ${reason}: notified ${summary.recipients} users (${summary.sent} sent, ${summary.failed} failed)`);
+  return summary;
+};
+
+export interface EscalationNotice {
+  policyId: string;
+  step: number;
+  channels: NotificationChannel[];
+  title: string;
+  message: string;
+}
+
+// Escalations go out on the step's channels, whatever the user's channel preferences
+export const dispatchEscalation = async (
+  alert: DispatchableAlert,
+  users: Recipient[],
+  notice: EscalationNotice
+): Promise<DispatchSummary> => {
+  const summary: DispatchSummary = { recipients: users.length, sent: 0, failed: 0 };
+  const preferences = {
+    sms: notice.channels.includes('sms'),
+    email: notice.channels.includes('email'),
+    push: notice.channels.includes('push')
+  };
+
+  const deliveries = users.flatMap(user => addressMessages(user, preferences, {
+    title: notice.title,
+    sms: `${notice.title}. ${notice.message}`,
+    email: `${notice.message}\n\nLocation: ${alert.location}${alert.sector ? ` (sector ${alert.sector})` : ''}\nSeverity: ${alert.severity}`,
+    push: notice.message,
+    data: { alert_id: alert.id, type: alert.type, category: alert.category, reason: 'escalation', step: String(notice.step) }
+  }).map(notification => ({ userId: user.id, notification })));
+
+  return deliverAll(deliveries, { alert_id: alert.id }, summary, notice);
+};
+
+export interface IncidentMention {
+  incident: { id: string; incident_title: string; location: string; severity: string };
+  author: string;
+  body: string;
+}
+
+// Tell users they were @mentioned on an incident; by email and push only, as their preferences allow
+export const dispatchIncidentMention = async (users: Recipient[], mention: IncidentMention): Promise<DispatchSummary> => {
+  const summary: DispatchSummary = { recipients: users.length, sent: 0, failed: 0 };
+  const { incident } = mention;
+  const title = `${mention.author} mentioned you on: ${incident.incident_title}`;
+
+  const deliveries = users.flatMap(user => {
+    const preferences = {
+      ...DEFAULT_NOTIFICATION_PREFERENCES,
+      ...(user.user_profiles?.[0]?.notification_preferences || {}),
+      sms: false
+    };
+
+    return addressMessages(user, preferences, {
+      title,
+      sms: '',
+      email: `${mention.body}\n\nIncident: ${incident.incident_title}\nLocation: ${incident.location}\nSeverity: ${incident.severity}`,
+      push: mention.body,
+      data: { incident_id: incident.id, reason: 'mention' }
+    }).map(notification => ({ userId: user.id, notification }));
+  });
+
+  return deliverAll(deliveries, { incident_id: incident.id }, summary);
+};
+
+const ALERT_TYPE_RANK: Record<string, number> = {
+  safe: 0,
+  advisory: 1,
+  warning: 2,
+  emergency: 3
+};
+
+export const isEscalation = (previousType: string, nextType: string) =>
+  (ALERT_TYPE_RANK[nextType] ?? 0) > (ALERT_TYPE_RANK[previousType] ?? 0);
+
+// Dispatch in the background so the API response is not held up by providers
+export const queueAlertNotifications = (alert: DispatchableAlert, reason: DispatchReason) => {
+  dispatchAlertNotifications(alert, reason).catch(error => {
+    console.error(`Notification dispatch for alert ${alert.id} failed:`, error);
+  });
+};
@@ -0,0 +1,435 @@
+import crypto from 'crypto';
+import { IncidentSeverity, IncidentStatus, supabaseAdmin } from '../config/supabase';
+import { parseGeometry } from '../utils/geo';
+import { announceDuplicates } from './incidentClusterService';
+import { computeDueAt, loadSla, recordIncidentTransition } from './incidentWorkflowService';
+import { INCIDENT_STAFF_ROLES, publish } from './realtimeService';
+
+// Work a client does for each report: find a nonce whose SHA-256 has this many leading zero bits
+export const PROOF_BITS = Number(process.env.PUBLIC_REPORT_PROOF_BITS) || 18;
+// The proof needs no server round trip, so a report written offline can be sent this long after it was made
+export const PROOF_MAX_AGE_HOURS = Number(process.env.PUBLIC_REPORT_MAX_AGE_HOURS) || 72;
+export const PROOF_PREFIX = 'coastal-report:v1';
+const CLOCK_SKEW_MS = 5 * 60000;
+
+// Accepted reports per hour; checked against stored reports so they survive restarts
+const IP_HOURLY_LIMIT = Number(process.env.PUBLIC_REPORT_IP_LIMIT) || 10;
+const DEVICE_HOURLY_LIMIT = Number(process.env.PUBLIC_REPORT_DEVICE_LIMIT) || 3;
+
+// Key for the address and device hashes. It must stay secret and stable, so there is no fallback: a guessable
+// key makes the hashes reversible, and a changed one resets every hourly count
+const HASH_SECRET = process.env.PUBLIC_REPORT_HASH_SECRET;
+if (!HASH_SECRET) {
+  throw new Error('Missing PUBLIC_REPORT_HASH_SECRET environment variable');
+}
+
+export const MODERATION_STATUSES = ['pending', 'approved', 'rejected', 'spam'];
+// Largest page of the moderation queue
+export const MAX_QUEUE_LIMIT = 100;
+
+// Mirrors the incident_type enum
+const INCIDENT_TYPES = [
+  'oil-spill', 'water-pollution', 'dead-marine-life', 'unusual-tides', 'coastal-erosion', 'algal-bloom',
+  'marine-debris', 'vessel-incident', 'sewage-discharge', 'chemical-release', 'other'
+];
+
+// Free-text fields a public report may carry, with their maximum length
+const TEXT_FIELDS: Record<string, number> = {
+  incident_title: 200,
+  description: 5000,
+  location: 300,
+  sector: 50,
+  nearest_landmark: 300,
+  marine_life_impact: 2000,
+  water_quality_impact: 2000,
+  additional_notes: 2000
+};
+const REQUIRED_FIELDS = ['incident_type', 'incident_title', 'description', 'severity', 'location', 'date_time'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export class PublicReportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PublicReportError';
+  }
+}
+
+// The same client_report_id was used for a different report
+export class PublicReportConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PublicReportConflictError';
+  }
+}
+
+export class PublicReportLimitError extends Error {
+  constructor(message: string, public retryAfterSeconds: number) {
+    super(message);
+    this.name = 'PublicReportLimitError';
+  }
+}
+
+export interface PublicReportInput {
+  clientReportId: string;
+  deviceId: string;
+  proof: { issued_at: string; nonce: string };
+  report: Record<string, unknown>;
+  contact: { name: string | null; phone: string | null; email: string | null; consent_to_contact: boolean };
+}
+
+const optionalText = (value: unknown, field: string, max: number) => {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string') throw new PublicReportError(`${field} must be a string`);
+  const trimmed = value.trim();
+  if (trimmed.length > max) throw new PublicReportError(`${field} can be at most ${max} characters`);
+  return trimmed || null;
+};
+
+export const readPublicReport = (body: Record<string, any>): PublicReportInput => {
+  const missing = REQUIRED_FIELDS.filter(field => !body[field]);
+  if (missing.length > 0) {
+    throw new PublicReportError(`Missing required fields: ${missing.join(', ')}`);
+  }
+
+  if (typeof body.client_report_id !== 'string' || !UUID_PATTERN.test(body.client_report_id)) {
+    throw new PublicReportError('client_report_id must be a UUID generated by the client');
+  }
+  if (typeof body.device_id !== 'string' || body.device_id.length < 8 || body.device_id.length > 128) {
+    throw new PublicReportError('device_id must be a string of 8 to 128 characters');
+  }
+  if (!body.proof || typeof body.proof.issued_at !== 'string' || typeof body.proof.nonce !== 'string' || body.proof.nonce.length > 64) {
+    throw new PublicReportError('proof must have issued_at and nonce; see GET /api/public/incidents/challenge');
+  }
+
+  if (!INCIDENT_TYPES.includes(body.incident_type)) {
+    throw new PublicReportError('Invalid incident_type');
+  }
+  if (!Object.values(IncidentSeverity).includes(body.severity)) {
+    throw new PublicReportError('Invalid severity');
+  }
+
+  const observed = new Date(body.date_time);
+  if (Number.isNaN(observed.getTime()) || observed.getTime() > Date.now() + CLOCK_SKEW_MS) {
+    throw new PublicReportError('date_time must be an ISO 8601 date that is not in the future');
+  }
+
+  const report: Record<string, unknown> = {
+    incident_type: body.incident_type,
+    severity: body.severity,
+    date_time: observed.toISOString(),
+    public_health_risk: body.public_health_risk === true,
+    consent_to_share: body.consent_to_share === true
+  };
+  for (const [field, max] of Object.entries(TEXT_FIELDS)) {
+    report[field] = optionalText(body[field], field, max);
+  }
+
+  // Stored as "lat,lng" like other reports; invalid coordinates fail here rather than at approval
+  report.coordinates = parseGeometry(body.coordinates)?.coordinates || null;
+
+  const email = optionalText(body.contact_email, 'contact_email', 320);
+  if (email && !EMAIL_PATTERN.test(email)) {
+    throw new PublicReportError('contact_email must be an email address');
+  }
+
+  return {
+    clientReportId: body.client_report_id.toLowerCase(),
+    deviceId: body.device_id,
+    proof: { issued_at: body.proof.issued_at, nonce: body.proof.nonce },
+    report,
+    contact: {
+      name: optionalText(body.contact_name, 'contact_name', 200),
+      phone: optionalText(body.contact_phone, 'contact_phone', 50),
+      email,
+      consent_to_contact: body.consent_to_contact === true
+    }
+  };
+};
+
+const leadingZeroBits = (hash: Buffer) => {
+  let bits = 0;
+  for (const byte of hash) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+};
+
+/**
+ * Check the client's proof of work: SHA-256 of
+ * `coastal-report:v1:<client_report_id>:<issued_at>:<nonce>` must start with
+ * PROOF_BITS zero bits. It is bound to the report id, which can only be used
+ * once, so every report costs fresh work; issued_at bounds how long a proof
+ * made offline stays usable.
+ */
+export const verifyProof = (clientReportId: string, proof: PublicReportInput['proof']) => {
+  const issuedAt = new Date(proof.issued_at).getTime();
+  if (Number.isNaN(issuedAt)) {
+    throw new PublicReportError('proof.issued_at must be an ISO 8601 date');
+  }
+  if (issuedAt > Date.now() + CLOCK_SKEW_MS) {
+    throw new PublicReportError('proof.issued_at is in the future; check the device clock');
+  }
+  if (issuedAt < Date.now() - PROOF_MAX_AGE_HOURS * 3600000) {
+    throw new PublicReportError(`The proof is older than ${PROOF_MAX_AGE_HOURS} hours; solve a new one`);
+  }
+
+  const hash = crypto
+    .createHash('sha256')
+    .update(`${PROOF_PREFIX}:${clientReportId}:${proof.issued_at}:${proof.nonce}`)
+    .digest();
+  const bits = leadingZeroBits(hash);
+  if (bits < PROOF_BITS) {
+    throw new PublicReportError(`The proof of work needs ${PROOF_BITS} leading zero bits`);
+  }
+  return bits;
+};
+
+// Addresses and device ids are only kept as keyed hashes, enough to count reports per source
+const keyedHash = (value: string) =>
+  crypto
+    .createHmac('sha256', HASH_SECRET)
+    .update(value)
+    .digest('hex');
+
+// Reject a source that has reached its hourly allowance, saying when the oldest counted report ages out
+const checkHourlyLimit = async (column: 'ip_hash' | 'device_hash', hash: string, limit: number, label: string) => {
+  const { data: recent, error } = await supabaseAdmin
+    .from('public_incident_reports')
+    .select('created_at')
+    .eq(column, hash)
+    .gte('created_at', new Date(Date.now() - 3600000).toISOString())
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) throw error;
+  if ((recent || []).length >= limit) {
+    const retryAfter = Math.ceil((new Date(recent![0].created_at).getTime() + 3600000 - Date.now()) / 1000);
+    throw new PublicReportLimitError(`Too many reports from this ${label}; try again later`, Math.max(1, retryAfter));
+  }
+};
+
+// What the sender gets back: enough to show the report was received, nothing about moderation internals
+const receipt = (row: Record<string, any>) => ({
+  id: row.id,
+  client_report_id: row.client_report_id,
+  status: row.status === 'spam' ? 'rejected' : row.status,
+  created_at: row.created_at
+});
+
+/**
+ * Queue a report sent without an account for moderation. Resending the same
+ * client_report_id from the same device returns the stored report, so an
+ * offline client can retry safely.
+ */
+export const submitPublicReport = async (input: PublicReportInput, ip: string) => {
+  const ipHash = keyedHash(`ip:${ip}`);
+  const deviceHash = keyedHash(`device:${input.deviceId}`);
+
+  const { data: existing } = await supabaseAdmin
+    .from('public_incident_reports')
+    .select('*')
+    .eq('client_report_id', input.clientReportId)
+    .maybeSingle();
+
+  if (existing) {
+    if (existing.device_hash !== deviceHash) {
+      throw new PublicReportConflictError('client_report_id has already been used');
+    }
+    return { report: receipt(existing), created: false };
+  }
+
+  const proofBits = verifyProof(input.clientReportId, input.proof);
+  await checkHourlyLimit('device_hash', deviceHash, DEVICE_HOURLY_LIMIT, 'device');
+  await checkHourlyLimit('ip_hash', ipHash, IP_HOURLY_LIMIT, 'network');
+
+  const { data: row, error } = await supabaseAdmin
+    .from('public_incident_reports')
+    .insert({
+      client_report_id: input.clientReportId,
+      report: input.report,
+      contact_name: input.contact.name,
+      contact_phone: input.contact.phone,
+      contact_email: input.contact.email,
+      consent_to_contact: input.contact.consent_to_contact,
+      ip_hash: ipHash,
+      device_hash: deviceHash,
+      proof_bits: proofBits
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Two retries of the same report racing each other
+    if (error.code === '23505') {
+      throw new PublicReportConflictError('client_report_id has already been used');
+    }
+    throw error;
+  }
+
+  publish({
+    type: 'incident.public_report_queued',
+    sector: (input.report.sector as string | null) || null,
+    roles: INCIDENT_STAFF_ROLES,
+    data: {
+      public_report_id: row.id,
+      incident_type: input.report.incident_type,
+      severity: input.report.severity
+    }
+  });
+
+  return { report: receipt(row), created: true };
+};
+
+/**
+ * The moderation queue, oldest first. Source hashes are replaced by how many
+ * reports came from the same device, and how many of those were spam.
+ */
+export const listPublicReports = async (status: string, page: number, limit: number) => {
+  const offset = (page - 1) * limit;
+  const { data: rows, error, count } = await supabaseAdmin
+    .from('public_incident_reports')
+    .select('*', { count: 'exact' })
+    .eq('status', status)
+    .order('created_at', { ascending: status === 'pending' })
+    .range(offset, offset + limit - 1);
+
+  if (error) throw error;
+
+  const deviceHashes = [...new Set((rows || []).map(row => row.device_hash))];
+  const { data: history, error: historyError } = deviceHashes.length > 0
+    ? await supabaseAdmin.from('public_incident_reports').select('device_hash, status').in('device_hash', deviceHashes)
+    : { data: [], error: null };
+
+  if (historyError) throw historyError;
+
+  const reports = (rows || []).map(({ ip_hash, device_hash, ...row }) => {
+    const fromDevice = (history || []).filter(entry => entry.device_hash === device_hash);
+    return {
+      ...row,
+      device_report_count: fromDevice.length,
+      device_spam_count: fromDevice.filter(entry => entry.status === 'spam').length
+    };
+  });
+
+  return { reports, total: count || 0 };
+};
+
+// Claim a pending report for a moderation decision; null if someone else decided first
+const claimPending = async (id: string, status: string, userId: string, notes: string | null) => {
+  const { data: claimed, error } = await supabaseAdmin
+    .from('public_incident_reports')
+    .update({
+      status,
+      moderated_by: userId,
+      moderated_at: new Date().toISOString(),
+      moderation_notes: notes
+    })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  return claimed;
+};
+
+export const dismissPublicReport = (id: string, status: 'rejected' | 'spam', userId: string, notes: string | null) =>
+  claimPending(id, status, userId, notes);
+
+/**
+ * Accept a queued report into the normal incident workflow as a pending
+ * incident with no reporter account. Moderators may correct the type,
+ * severity and sector as they approve it.
+ */
+export const approvePublicReport = async (
+  id: string,
+  userId: string,
+  corrections: { incident_type?: string; severity?: string; sector?: string | null },
+  notes: string | null
+) => {
+  if (corrections.incident_type !== undefined && !INCIDENT_TYPES.includes(corrections.incident_type)) {
+    throw new PublicReportError('Invalid incident_type');
+  }
+  if (corrections.severity !== undefined && !Object.values(IncidentSeverity).includes(corrections.severity as IncidentSeverity)) {
+    throw new PublicReportError('Invalid severity');
+  }
+
+  const claimed = await claimPending(id, 'approved', userId, notes);
+  if (!claimed) return null;
+
+  const report = { ...claimed.report, ...corrections };
+  const position = parseGeometry(report.coordinates);
+  const createdAt = new Date().toISOString();
+  const sla = await loadSla(report.severity);
+
+  const { data: incident, error } = await supabaseAdmin
+    .from('incident_reports')
+    .insert({
+      reporter_id: null,
+      incident_type: report.incident_type,
+      incident_title: report.incident_title,
+      description: report.description,
+      severity: report.severity,
+      location: report.location,
+      coordinates: position?.coordinates || null,
+      geom: position?.ewkt || null,
+      sector: report.sector || null,
+      nearest_landmark: report.nearest_landmark || null,
+      date_time: report.date_time,
+      marine_life_impact: report.marine_life_impact || null,
+      water_quality_impact: report.water_quality_impact || null,
+      public_health_risk: report.public_health_risk || false,
+      additional_notes: report.additional_notes || null,
+      reporter_name: claimed.contact_name,
+      reporter_phone: claimed.contact_phone,
+      reporter_email: claimed.contact_email,
+      relationship_to_incident: 'public report',
+      consent_to_contact: claimed.consent_to_contact || false,
+      consent_to_share: report.consent_to_share || false,
+      photos: [],
+      videos: [],
+      status: IncidentStatus.PENDING,
+      due_at: computeDueAt({ status: IncidentStatus.PENDING, created_at: createdAt }, sla),
+      created_at: createdAt
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Put the report back in the queue so it is not lost
+    await supabaseAdmin
+      .from('public_incident_reports')
+      .update({ status: 'pending', moderated_by: null, moderated_at: null, moderation_notes: null })
+      .eq('id', id);
+    throw error;
+  }
+
+  const { data: approved, error: linkError } = await supabaseAdmin
+    .from('public_incident_reports')
+    .update({ incident_id: incident.id })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (linkError) {
+    console.error(`Link public report ${id} to incident ${incident.id} error:`, linkError);
+  }
+
+  await recordIncidentTransition({
+    incidentId: incident.id,
+    action: 'create',
+    from: null,
+    to: incident.status,
+    userId,
+    notes: notes || 'Approved from the public report queue'
+  });
+  announceDuplicates(incident);
+
+  return { report: approved || claimed, incident };
+};
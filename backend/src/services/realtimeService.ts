@@ -0,0 +1,148 @@
+import { Response } from 'express';
+import { randomUUID } from 'crypto';
+import { UserRole } from '../config/supabase';
+import { findActiveSessionIds } from './sessionService';
+
+export type RealtimeEventType =
+  | 'alert.created'
+  | 'alert.updated'
+  | 'alert.deactivated'
+  | 'alert.acknowledged'
+  | 'reading.created'
+  | 'incident.status_changed'
+  | 'incident.assigned'
+  | 'incident.commented'
+  | 'incident.mentioned'
+  | 'incident.duplicates_found'
+  | 'incident.merged'
+  | 'incident.public_report_queued';
+
+export interface RealtimeEvent {
+  type: RealtimeEventType;
+  // Events without a sector go to every subscriber
+  sector: string | null;
+  // Restrict delivery to these roles and/or users; unrestricted when both are omitted
+  roles?: UserRole[];
+  userIds?: string[];
+  data: Record<string, unknown>;
+}
+
+interface Subscriber {
+  id: string;
+  userId: string;
+  role: UserRole;
+  sessionId?: string;
+  sectors: Set<string> | null;
+  topics: Set<string> | null;
+  res: Response;
+}
+
+const HEARTBEAT_INTERVAL_MS = Number(process.env.REALTIME_HEARTBEAT_MS || 30000);
+
+// Roles that follow incident handling across the whole system
+export const INCIDENT_STAFF_ROLES = [
+  UserRole.SUPER_ADMIN,
+  UserRole.ADMIN,
+  UserRole.AUTHORITY,
+  UserRole.OPERATIONAL
+];
+
+// Acknowledgement progress is followed by the same staff
+export const ALERT_STAFF_ROLES = INCIDENT_STAFF_ROLES;
+
+const subscribers = new Map<string, Subscriber>();
+let heartbeat: NodeJS.Timeout | null = null;
+
+const shouldDeliver = (subscriber: Subscriber, event: RealtimeEvent) => {
+  if (subscriber.topics && !subscriber.topics.has(event.type.split('.')[0])) {
+    return false;
+  }
+  if (subscriber.sectors && event.sector && !subscriber.sectors.has(event.sector)) {
+    return false;
+  }
+  if (event.roles || event.userIds) {
+    return (event.roles?.includes(subscriber.role) ?? false) ||
+      (event.userIds?.includes(subscriber.userId) ?? false);
+  }
+  return true;
+};
+
+const write = (subscriber: Subscriber, chunk: string) => {
+  try {
+    subscriber.res.write(chunk);
+  } catch (error) {
+    console.error(`Realtime write to ${subscriber.id} failed:`, error);
+    unsubscribe(subscriber.id);
+  }
+};
+
+// Keeps proxies from closing idle streams and drops subscribers whose session was revoked.
+// All sessions are checked in one batch per tick rather than one query per subscriber.
+const sendHeartbeat = async () => {
+  const current = [...subscribers.values()];
+  const withSession = current.filter(subscriber => subscriber.sessionId);
+
+  let active: Set<string> | null = null;
+  try {
+    active = await findActiveSessionIds(withSession.map(subscriber => ({
+      sessionId: subscriber.sessionId!,
+      userId: subscriber.userId
+    })));
+  } catch (error) {
+    // Keep everyone connected this tick; the next one checks again
+    console.error('Realtime session check error:', error);
+  }
+
+  for (const subscriber of current) {
+    // Disconnected while the sessions were being checked
+    if (!subscribers.has(subscriber.id)) continue;
+
+    if (active && subscriber.sessionId && !active.has(subscriber.sessionId)) {
+      write(subscriber, `event: session_revoked\ndata: {}\n\n`);
+      subscriber.res.end();
+      unsubscribe(subscriber.id);
+      continue;
+    }
+    write(subscriber, `: heartbeat ${Date.now()}\n\n`);
+  }
+};
+
+export const subscribe = (subscriber: Omit<Subscriber, 'id'>) => {
+  const id = randomUUID();
+  subscribers.set(id, { ...subscriber, id });
+
+  if (!heartbeat) {
+    heartbeat = setInterval(() => {
+      sendHeartbeat().catch(error => console.error('Realtime heartbeat error:', error));
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  return id;
+};
+
+export const unsubscribe = (id: string) => {
+  subscribers.delete(id);
+
+  if (subscribers.size === 0 && heartbeat) {
+    clearInterval(heartbeat);
+    heartbeat = null;
+  }
+};
+
+// Push an event to every subscriber in scope; delivery is best effort
+export const publish = (event: RealtimeEvent) => {
+  const chunk = `id: ${randomUUID()}\nevent: ${event.type}\ndata: ${JSON.stringify({
+    type: event.type,
+    sector: event.sector,
+    data: event.data,
+    emitted_at: new Date().toISOString()
+  })}\n\n`;
+
+  for (const subscriber of subscribers.values()) {
+    if (shouldDeliver(subscriber, event)) {
+      write(subscriber, chunk);
+    }
+  }
+};
+
+export const getSubscriberCount = () => subscribers.size;
@@ -0,0 +1,274 @@
+import { supabase, supabaseAdmin } from '../config/supabase';
+import { ParsedGeometry, parseGeometry } from '../utils/geo';
+
+export type RiskFactor =
+  | 'alert_emergency'
+  | 'alert_warning'
+  | 'alert_advisory'
+  | 'sensor_out_of_range'
+  | 'sensor_fault'
+  | 'prediction_exceedance';
+
+export type RiskWeights = Record<RiskFactor, number>;
+
+// Used when the risk_weights table is empty or missing a factor. Weights are
+// impact points per occurrence; 100 points saturate the 0-10 impact scale.
+export const DEFAULT_RISK_WEIGHTS: RiskWeights = {
+  alert_emergency: 40,
+  alert_warning: 25,
+  alert_advisory: 10,
+  sensor_out_of_range: 15,
+  sensor_fault: 5,
+  prediction_exceedance: 20
+};
+
+// Likelihood that each kind of evidence reflects a real threat
+const FACTOR_PROBABILITY: Record<RiskFactor, number> = {
+  alert_emergency: 0.9,
+  alert_warning: 0.7,
+  alert_advisory: 0.4,
+  sensor_out_of_range: 0.6,
+  sensor_fault: 0.2,
+  prediction_exceedance: 0.5
+};
+
+// Forecast values above these thresholds count as exceedances
+const PREDICTION_THRESHOLDS: Record<string, number> = {
+  sst: 30,
+  seaLevel: 0.3,
+  chlorophyll: 1.5,
+  wind: 20,
+  tide: 3,
+  current: 2
+};
+
+const READING_LOOKBACK_HOURS = 6;
+const PREDICTION_LOOKAHEAD_HOURS = 24;
+const ASSESSMENT_VALIDITY_HOURS = 1;
+
+export interface FactorContribution {
+  factor: RiskFactor;
+  count: number;
+  weight: number;
+  points: number;
+  probability: number;
+  explanation: string;
+}
+
+export interface SectorRiskResult {
+  sector: string;
+  probability: number;
+  impact_score: number;
+  risk_score: number;
+  risk_level: 'low' | 'medium' | 'high' | 'critical';
+  contributions: FactorContribution[];
+  // Centre of the sector's sensors, when they have coordinates
+  position: ParsedGeometry | null;
+}
+
+export const getRiskWeights = async (): Promise<RiskWeights> => {
+  const { data, error } = await supabase
+    .from('risk_weights')
+    .select('factor, weight');
+
+  if (error) {
+    console.error('Load risk weights error:', error);
+    return { ...DEFAULT_RISK_WEIGHTS };
+  }
+
+  const weights = { ...DEFAULT_RISK_WEIGHTS };
+  for (const row of data || []) {
+    if (row.factor in weights) {
+      weights[row.factor as RiskFactor] = Number(row.weight);
+    }
+  }
+  return weights;
+};
+
+const riskLevelForScore = (score: number): SectorRiskResult['risk_level'] => {
+  if (score >= 7.5) return 'critical';
+  if (score >= 5) return 'high';
+  if (score >= 2.5) return 'medium';
+  return 'low';
+};
+
+const RECOMMENDATIONS: Record<SectorRiskResult['risk_level'], string> = {
+  low: 'Continue routine monitoring.',
+  medium: 'Review active alerts and sensor anomalies; brief field teams.',
+  high: 'Prepare emergency response protocols and notify coastal communities.',
+  critical: 'Activate emergency response and consider evacuation of low-lying areas.'
+};
+
+// Every sector that has a sensor or an active alert
+export const listKnownSectors = async (): Promise<string[]> => {
+  const [{ data: sensors }, { data: alerts }] = await Promise.all([
+    supabase.from('sensors').select('sector').not('sector', 'is', null).is('retired_at', null),
+    supabase.from('alerts').select('sector').not('sector', 'is', null).eq('is_active', true)
+  ]);
+
+  const sectors = new Set<string>();
+  for (const row of [...(sensors || []), ...(alerts || [])]) {
+    if (row.sector) sectors.add(row.sector);
+  }
+  return [...sectors].sort();
+};
+
+// Gather the evidence for one sector and weigh it
+export const computeSectorRisk = async (sector: string, weights: RiskWeights): Promise<SectorRiskResult> => {
+  const now = new Date();
+  const lookback = new Date(now.getTime() - READING_LOOKBACK_HOURS * 3600000).toISOString();
+  const lookahead = new Date(now.getTime() + PREDICTION_LOOKAHEAD_HOURS * 3600000).toISOString();
+
+  const [{ data: alerts }, { data: sensors }, { data: predictions }] = await Promise.all([
+    supabase
+      .from('alerts')
+      .select('id, type')
+      .eq('sector', sector)
+      .eq('is_active', true)
+      .or(`expires_at.is.null,expires_at.gt.${now.toISOString()}`),
+    supabase
+      .from('sensors')
+      .select('id, name, status, coordinates')
+      .eq('sector', sector)
+      .is('retired_at', null),
+    supabase
+      .from('predictions')
+      .select('id, parameter, value, confidence')
+      .eq('sector', sector)
+      .lt('valid_from', lookahead)
+      .or(`valid_until.is.null,valid_until.gt.${now.toISOString()}`)
+  ]);
+
+  const sensorIds = (sensors || []).map(s => s.id);
+  let outOfRangeSensors = 0;
+  if (sensorIds.length > 0) {
+    const { data: flaggedReadings } = await supabase
+      .from('sensor_readings')
+      .select('sensor_id')
+      .in('sensor_id', sensorIds)
+      .gte('timestamp', lookback)
+      .contains('flags', ['out_of_range']);
+    outOfRangeSensors = new Set((flaggedReadings || []).map(r => r.sensor_id)).size;
+  }
+
+  const counts: Record<RiskFactor, number> = {
+    alert_emergency: (alerts || []).filter(a => a.type === 'emergency').length,
+    alert_warning: (alerts || []).filter(a => a.type === 'warning').length,
+    alert_advisory: (alerts || []).filter(a => a.type === 'advisory').length,
+    sensor_out_of_range: outOfRangeSensors,
+    sensor_fault: (sensors || []).filter(s => s.status === 'error' || s.status === 'offline').length,
+    prediction_exceedance: 0
+  };
+
+  // Predictions contribute with their own confidence rather than a fixed likelihood
+  const exceedances = (predictions || []).filter(p =>
+    PREDICTION_THRESHOLDS[p.parameter] !== undefined && Number(p.value) > PREDICTION_THRESHOLDS[p.parameter]
+  );
+  counts.prediction_exceedance = exceedances.length;
+  const predictionProbability = exceedances.length
+    ? Math.max(...exceedances.map(p => (p.confidence ?? 50) / 100))
+    : 0;
+
+  const explanations: Record<RiskFactor, (count: number) => string> = {
+    alert_emergency: n => `${n} active emergency alert(s)`,
+    alert_warning: n => `${n} active warning alert(s)`,
+    alert_advisory: n => `${n} active advisory alert(s)`,
+    sensor_out_of_range: n => `${n} sensor(s) reported out-of-range values in the last ${READING_LOOKBACK_HOURS}h`,
+    sensor_fault: n => `${n} sensor(s) in error or offline state`,
+    prediction_exceedance: n => `${n} forecast(s) exceed safe thresholds in the next ${PREDICTION_LOOKAHEAD_HOURS}h`
+  };
+
+  const contributions: FactorContribution[] = (Object.keys(counts) as RiskFactor[])
+    .filter(factor => counts[factor] > 0)
+    .map(factor => ({
+      factor,
+      count: counts[factor],
+      weight: weights[factor],
+      points: counts[factor] * weights[factor],
+      probability: factor === 'prediction_exceedance' ? predictionProbability : FACTOR_PROBABILITY[factor],
+      explanation: explanations[factor](counts[factor])
+    }));
+
+  const impactScore = Math.min(10, contributions.reduce((sum, c) => sum + c.points, 0) / 10);
+  // Independent pieces of evidence combine as a noisy-OR
+  const probability = 1 - contributions.reduce((remaining, c) => remaining * (1 - c.probability), 1);
+
+  const { data: riskScore, error } = await supabase.rpc('calculate_risk_score', {
+    probability,
+    impact_score: impactScore
+  });
+
+  if (error) {
+    throw new Error(`calculate_risk_score failed: ${error.message}`);
+  }
+
+  const score = Number(riskScore);
+
+  const located = (sensors || [])
+    .map(sensor => {
+      // Older rows may hold free-text coordinates; those simply don't count
+      try {
+        return parseGeometry(sensor.coordinates);
+      } catch {
+        return null;
+      }
+    })
+    .filter((position): position is ParsedGeometry => position?.geometry.type === 'Point');
+  const position = located.length
+    ? parseGeometry({
+      lat: located.reduce((sum, p) => sum + (p.geometry.coordinates[1] as number), 0) / located.length,
+      lng: located.reduce((sum, p) => sum + (p.geometry.coordinates[0] as number), 0) / located.length
+    })
+    : null;
+
+  return {
+    sector,
+    probability: Math.round(probability * 1000) / 1000,
+    impact_score: Math.round(impactScore * 100) / 100,
+    risk_score: Math.round(score * 100) / 100,
+    risk_level: riskLevelForScore(score),
+    contributions,
+    position
+  };
+};
+
+// Compute and store a composite assessment for each sector
+export const runRiskAssessment = async (sectors: string[], createdBy: string | null) => {
+  const weights = await getRiskWeights();
+  const validUntil = new Date(Date.now() + ASSESSMENT_VALIDITY_HOURS * 3600000).toISOString();
+  const assessments = [];
+
+  for (const sector of sectors) {
+    const result = await computeSectorRisk(sector, weights);
+
+    const { data: assessment, error } = await supabaseAdmin
+      .from('risk_assessments')
+      .insert({
+        location: sector,
+        sector,
+        coordinates: result.position?.coordinates || null,
+        geom: result.position?.ewkt || null,
+        risk_type: 'composite',
+        risk_level: result.risk_level,
+        probability: result.probability,
+        impact_score: result.impact_score,
+        risk_score: result.risk_score,
+        factors: result.contributions.map(c => c.explanation),
+        factor_breakdown: result.contributions,
+        weights,
+        recommendations: RECOMMENDATIONS[result.risk_level],
+        valid_until: validUntil,
+        created_by: createdBy
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to store risk assessment for ${sector}: ${error.message}`);
+    }
+
+    assessments.push(assessment);
+  }
+
+  return assessments;
+};
@@ -0,0 +1,270 @@
+import crypto from 'crypto';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { supabaseAdmin, UserRole, UserStatus } from '../config/supabase';
+
+const REFRESH_TOKEN_BYTES = 48;
+const DEFAULT_ACCESS_TOKEN_TTL = '15m';
+const DEFAULT_REFRESH_TOKEN_DAYS = 30;
+
+// Session ids per lookup, keeping the `in` filter well inside URL length limits
+const SESSION_LOOKUP_CHUNK = 200;
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  role: UserRole;
+  status: UserStatus;
+}
+
+export interface DeviceInfo {
+  device_id?: string | null;
+  user_agent?: string | null;
+  ip_address?: string | null;
+}
+
+export interface IssuedTokens {
+  token: string;
+  refresh_token: string;
+  session_id: string;
+  refresh_expires_at: string;
+}
+
+export type RefreshResult =
+  | { ok: true; user: SessionUser; tokens: IssuedTokens }
+  | { ok: false; status: number; error: string };
+
+const hashToken = (token: string) =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+const generateRefreshToken = () =>
+  crypto.randomBytes(REFRESH_TOKEN_BYTES).toString('base64url');
+
+const refreshExpiry = () => {
+  const days = Number(process.env.REFRESH_TOKEN_EXPIRES_DAYS) || DEFAULT_REFRESH_TOKEN_DAYS;
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+};
+
+export const signAccessToken = (user: SessionUser, sessionId: string) => {
+  const jwtOptions: SignOptions = {
+    expiresIn: (process.env.JWT_EXPIRES_IN || DEFAULT_ACCESS_TOKEN_TTL) as SignOptions['expiresIn']
+  };
+
+  return jwt.sign(
+    {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      status: user.status,
+      sid: sessionId
+    },
+    process.env.JWT_SECRET!,
+    jwtOptions
+  );
+};
+
+// Start a new session for a device and return its first token pair
+export const createSession = async (user: SessionUser, device: DeviceInfo): Promise<IssuedTokens> => {
+  const refreshToken = generateRefreshToken();
+  const expiresAt = refreshExpiry();
+
+  const { data: session, error } = await supabaseAdmin
+    .from('user_sessions')
+    .insert({
+      user_id: user.id,
+      refresh_token_hash: hashToken(refreshToken),
+      device_id: device.device_id || null,
+      user_agent: device.user_agent || null,
+      ip_address: device.ip_address || null,
+      expires_at: expiresAt
+    })
+    .select('id')
+    .single();
+
+  if (error || !session) {
+    throw new Error(`Failed to create session: ${error?.message}`);
+  }
+
+  return {
+    token: signAccessToken(user, session.id),
+    refresh_token: refreshToken,
+    session_id: session.id,
+    refresh_expires_at: expiresAt
+  };
+};
+
+// Exchange a refresh token for a new pair. The presented token is rotated out;
+// presenting an already-rotated token revokes the session, since it means the
+// token was copied.
+export const rotateSession = async (refreshToken: string, device: DeviceInfo): Promise<RefreshResult> => {
+  const tokenHash = hashToken(refreshToken);
+
+  const { data: session } = await supabaseAdmin
+    .from('user_sessions')
+    .select('*')
+    .or(`refresh_token_hash.eq.${tokenHash},previous_token_hash.eq.${tokenHash}`)
+    .maybeSingle();
+
+  if (!session) {
+    return { ok: false, status: 401, error: 'Invalid refresh token' };
+  }
+
+  if (session.revoked_at) {
+    return { ok: false, status: 401, error: 'Session has been revoked' };
+  }
+
+  if (session.refresh_token_hash !== tokenHash) {
+    await revokeSession(session.id, 'refresh_token_reuse');
+    return { ok: false, status: 401, error: 'Refresh token reuse detected, session revoked' };
+  }
+
+  if (new Date(session.expires_at).getTime() <= Date.now()) {
+    await revokeSession(session.id, 'expired');
+    return { ok: false, status: 401, error: 'Refresh token expired' };
+  }
+
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select('id, email, role, status')
+    .eq('id', session.user_id)
+    .single();
+
+  if (!user || user.status !== UserStatus.APPROVED) {
+    await revokeSession(session.id, 'account_not_approved');
+    return { ok: false, status: 403, error: 'Account not approved' };
+  }
+
+  const nextRefreshToken = generateRefreshToken();
+  const expiresAt = refreshExpiry();
+
+  const { data: rotated, error } = await supabaseAdmin
+    .from('user_sessions')
+    .update({
+      refresh_token_hash: hashToken(nextRefreshToken),
+      previous_token_hash: tokenHash,
+      expires_at: expiresAt,
+      last_used_at: new Date().toISOString(),
+      user_agent: device.user_agent || session.user_agent,
+      ip_address: device.ip_address || session.ip_address
+    })
+    .eq('id', session.id)
+    .eq('refresh_token_hash', tokenHash)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to rotate session: ${error.message}`);
+  }
+
+  // Another request rotated or revoked the session first, so the same token was used twice
+  if (!rotated || rotated.length === 0) {
+    await revokeSession(session.id, 'refresh_token_reuse');
+    return { ok: false, status: 401, error: 'Refresh token reuse detected, session revoked' };
+  }
+
+  return {
+    ok: true,
+    user,
+    tokens: {
+      token: signAccessToken(user, session.id),
+      refresh_token: nextRefreshToken,
+      session_id: session.id,
+      refresh_expires_at: expiresAt
+    }
+  };
+};
+
+export const findSessionByRefreshToken = async (refreshToken: string) => {
+  const { data: session } = await supabaseAdmin
+    .from('user_sessions')
+    .select('id, user_id, revoked_at')
+    .eq('refresh_token_hash', hashToken(refreshToken))
+    .maybeSingle();
+
+  return session;
+};
+
+export const isSessionActive = async (sessionId: string, userId: string) => {
+  const { data: session } = await supabaseAdmin
+    .from('user_sessions')
+    .select('id, revoked_at, expires_at')
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return !!session && !session.revoked_at && new Date(session.expires_at).getTime() > Date.now();
+};
+
+// Of these sessions, the ids still active for their user; one query per chunk of ids
+export const findActiveSessionIds = async (sessions: { sessionId: string; userId: string }[]) => {
+  const active = new Set<string>();
+  const owners = new Map(sessions.map(session => [session.sessionId, session.userId]));
+  const ids = [...owners.keys()];
+
+  for (let start = 0; start < ids.length; start += SESSION_LOOKUP_CHUNK) {
+    const { data, error } = await supabaseAdmin
+      .from('user_sessions')
+      .select('id, user_id, revoked_at, expires_at')
+      .in('id', ids.slice(start, start + SESSION_LOOKUP_CHUNK));
+
+    if (error) {
+      throw new Error(`Failed to check sessions: ${error.message}`);
+    }
+
+    for (const session of data || []) {
+      if (owners.get(session.id) === session.user_id && !session.revoked_at &&
+        new Date(session.expires_at).getTime() > Date.now()) {
+        active.add(session.id);
+      }
+    }
+  }
+
+  return active;
+};
+
+export const revokeSession = async (sessionId: string, reason: string) => {
+  const { error } = await supabaseAdmin
+    .from('user_sessions')
+    .update({
+      revoked_at: new Date().toISOString(),
+      revoked_reason: reason
+    })
+    .eq('id', sessionId)
+    .is('revoked_at', null);
+
+  if (error) {
+    throw new Error(`Failed to revoke session: ${error.message}`);
+  }
+};
+
+// Revoke every live session of a user; returns how many were revoked
+export const revokeAllUserSessions = async (userId: string, reason: string) => {
+  const { data, error } = await supabaseAdmin
+    .from('user_sessions')
+    .update({
+      revoked_at: new Date().toISOString(),
+      revoked_reason: reason
+    })
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to revoke sessions: ${error.message}`);
+  }
+
+  return data?.length || 0;
+};
+
+export const listUserSessions = async (userId: string) => {
+  const { data, error } = await supabaseAdmin
+    .from('user_sessions')
+    .select('id, device_id, user_agent, ip_address, created_at, last_used_at, expires_at, revoked_at, revoked_reason')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to list sessions: ${error.message}`);
+  }
+
+  return data || [];
+};
@@ -0,0 +1,142 @@
+import { Response } from 'express';
+import { supabaseAdmin } from '../config/supabase';
+
+// What the alert and incident workflows have in common: loading a record for an
+// action, moving it between statuses without losing a race, and the audit row
+// every move leaves behind.
+
+export interface WorkflowSubject {
+  table: 'alerts' | 'incident_reports';
+  auditTable: 'alert_transitions' | 'incident_transitions';
+  auditKey: 'alert_id' | 'incident_id';
+  // As used in messages: "Cannot approve an alert that is draft"
+  label: string;
+  notFound: string;
+}
+
+export const ALERT_WORKFLOW: WorkflowSubject = {
+  table: 'alerts',
+  auditTable: 'alert_transitions',
+  auditKey: 'alert_id',
+  label: 'alert',
+  notFound: 'Alert not found'
+};
+
+export const INCIDENT_WORKFLOW: WorkflowSubject = {
+  table: 'incident_reports',
+  auditTable: 'incident_transitions',
+  auditKey: 'incident_id',
+  label: 'incident',
+  notFound: 'Incident report not found'
+};
+
+export interface WorkflowTransition {
+  subjectId: string;
+  action: string;
+  from: string | null;
+  to: string;
+  userId: string | null;
+  notes?: string | null;
+}
+
+export class WorkflowAuditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkflowAuditError';
+  }
+}
+
+const AUDIT_ATTEMPTS = 2;
+
+/**
+ * Append a transition to the subject's audit table. A failed write is tried
+ * once more; if it still fails, WorkflowAuditError is thrown so the caller
+ * does not report success for a change with no audit trail.
+ */
+export const recordWorkflowTransition = async (subject: WorkflowSubject, transition: WorkflowTransition) => {
+  let lastError = '';
+  for (let attempt = 1; attempt <= AUDIT_ATTEMPTS; attempt++) {
+    const { error } = await supabaseAdmin
+      .from(subject.auditTable)
+      .insert({
+        [subject.auditKey]: transition.subjectId,
+        action: transition.action,
+        from_status: transition.from,
+        to_status: transition.to,
+        performed_by: transition.userId,
+        notes: transition.notes || null
+      });
+
+    if (!error) return;
+    lastError = error.message;
+  }
+
+  console.error(`Record ${subject.label} ${transition.action} transition error:`, lastError);
+  throw new WorkflowAuditError(
+    `The ${subject.label} was changed, but its ${transition.action} transition could not be recorded: ${lastError}`
+  );
+};
+
+/**
+ * Move a record from status `from`, applying `changes` (which carry the new
+ * status). The update only matches while the record is still in `from`, so two
+ * people acting at once cannot both succeed. Returns the updated record, or
+ * null if it moved on.
+ */
+export const transitionRecord = async (
+  subject: WorkflowSubject,
+  id: string,
+  from: string,
+  changes: Record<string, unknown>
+) => {
+  const { data: record, error } = await supabaseAdmin
+    .from(subject.table)
+    .update({
+      ...changes,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id)
+    .eq('status', from)
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  return record;
+};
+
+// Load a record for a workflow action and check it is in a state the action starts from;
+// responds 404 or 409 and returns null otherwise
+export const loadForAction = async (
+  subject: WorkflowSubject,
+  id: string,
+  action: string,
+  allowedFrom: string[],
+  res: Response
+) => {
+  const { data: record } = await supabaseAdmin
+    .from(subject.table)
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (!record) {
+    res.status(404).json({ error: subject.notFound });
+    return null;
+  }
+
+  if (!allowedFrom.includes(record.status)) {
+    res.status(409).json({
+      error: `Cannot ${action} an ${subject.label} that is ${record.status}`,
+      status: record.status
+    });
+    return null;
+  }
+
+  return record;
+};
+
+// The record moved on between loading it and updating it
+export const respondConflict = (res: Response, subject: WorkflowSubject, doing: string) => {
+  const label = subject.label[0].toUpperCase() + subject.label.slice(1);
+  return res.status(409).json({ error: `${label} changed while you were ${doing} it; reload and try again` });
+};
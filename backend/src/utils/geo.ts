@@ -0,0 +1,326 @@
+// Geometry parsing for the PostGIS `geom` columns.
+// Positions follow GeoJSON order: [longitude, latitude].
+
+export type Position = [number, number];
+
+export type GeoJSONGeometry =
+  | { type: 'Point'; coordinates: Position }
+  | { type: 'Polygon'; coordinates: Position[][] }
+  | { type: 'MultiPolygon'; coordinates: Position[][][] };
+
+export interface ParsedGeometry {
+  geometry: GeoJSONGeometry;
+  // EWKT accepted by PostGIS on insert, e.g. SRID=4326;POINT(73.3 16.99)
+  ewkt: string;
+  // Human-readable "lat,lng" kept in the legacy coordinates column
+  coordinates: string;
+}
+
+// Query parameters for the *_in_area SQL functions
+export interface GeoFilterParams {
+  lat: number | null;
+  lng: number | null;
+  radius_km: number | null;
+  min_lng: number | null;
+  min_lat: number | null;
+  max_lng: number | null;
+  max_lat: number | null;
+  polygon: GeoJSONGeometry | null;
+}
+
+export class GeoValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeoValidationError';
+  }
+}
+
+const MAX_RADIUS_KM = 2000;
+
+const isValidLat = (value: number) => Number.isFinite(value) && value >= -90 && value <= 90;
+const isValidLng = (value: number) => Number.isFinite(value) && value >= -180 && value <= 180;
+
+const toPosition = (value: unknown): Position => {
+  if (!Array.isArray(value) || value.length < 2) {
+    throw new GeoValidationError('Each position must be [longitude, latitude]');
+  }
+  const lng = Number(value[0]);
+  const lat = Number(value[1]);
+  if (!isValidLng(lng) || !isValidLat(lat)) {
+    throw new GeoValidationError(`Position [${value[0]}, ${value[1]}] is out of range`);
+  }
+  return [lng, lat];
+};
+
+const toRing = (value: unknown): Position[] => {
+  if (!Array.isArray(value) || value.length < 4) {
+    throw new GeoValidationError('Polygon rings need at least 4 positions');
+  }
+  const ring = value.map(toPosition);
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  if (first[0] !== last[0] || first[1] !== last[1]) {
+    throw new GeoValidationError('Polygon rings must be closed (first and last positions equal)');
+  }
+  return ring;
+};
+
+const toPolygon = (value: unknown): Position[][] => {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new GeoValidationError('Polygon needs at least one ring');
+  }
+  return value.map(toRing);
+};
+
+const ringToWkt = (ring: Position[]) => `(${ring.map(([lng, lat]) => `${lng} ${lat}`).join(', ')})`;
+
+const toEwkt = (geometry: GeoJSONGeometry) => {
+  switch (geometry.type) {
+    case 'Point':
+      return `SRID=4326;POINT(${geometry.coordinates[0]} ${geometry.coordinates[1]})`;
+    case 'Polygon':
+      return `SRID=4326;POLYGON(${geometry.coordinates.map(ringToWkt).join(', ')})`;
+    case 'MultiPolygon':
+      return `SRID=4326;MULTIPOLYGON(${geometry.coordinates
+        .map(polygon => `(${polygon.map(ringToWkt).join(', ')})`)
+        .join(', ')})`;
+  }
+};
+
+// Representative "lat,lng" for the legacy text column: the point itself, or the outer ring's centre
+const toCoordinateText = (geometry: GeoJSONGeometry) => {
+  let lng: number;
+  let lat: number;
+  if (geometry.type === 'Point') {
+    [lng, lat] = geometry.coordinates;
+  } else {
+    const ring = geometry.type === 'Polygon' ? geometry.coordinates[0] : geometry.coordinates[0][0];
+    const points = ring.slice(0, -1);
+    lng = points.reduce((sum, p) => sum + p[0], 0) / points.length;
+    lat = points.reduce((sum, p) => sum + p[1], 0) / points.length;
+  }
+  return `${Number(lat.toFixed(6))},${Number(lng.toFixed(6))}`;
+};
+
+const parseGeoJSON = (value: { type?: unknown; coordinates?: unknown }): GeoJSONGeometry => {
+  switch (value.type) {
+    case 'Point':
+      return { type: 'Point', coordinates: toPosition(value.coordinates) };
+    case 'Polygon':
+      return { type: 'Polygon', coordinates: toPolygon(value.coordinates) };
+    case 'MultiPolygon':
+      if (!Array.isArray(value.coordinates) || value.coordinates.length === 0) {
+        throw new GeoValidationError('MultiPolygon needs at least one polygon');
+      }
+      return { type: 'MultiPolygon', coordinates: value.coordinates.map(toPolygon) };
+    default:
+      throw new GeoValidationError('Geometry type must be Point, Polygon or MultiPolygon');
+  }
+};
+
+/**
+ * Parse a location supplied by a client. Accepts "lat,lng" text,
+ * { lat, lng } / { latitude, longitude } objects, GeoJSON Point/Polygon/MultiPolygon
+ * geometries or Features, or a JSON string of any of those.
+ * Returns null for empty input and throws GeoValidationError for anything malformed.
+ */
+export const parseGeometry = (value: unknown): ParsedGeometry | null => {
+  if (value === undefined || value === null || value === '') return null;
+
+  let geometry: GeoJSONGeometry;
+
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (trimmed.startsWith('{')) {
+      try {
+        return parseGeometry(JSON.parse(trimmed));
+      } catch (error) {
+        if (error instanceof GeoValidationError) throw error;
+        throw new GeoValidationError('Location is not valid JSON');
+      }
+    }
+
+    const parts = trimmed.split(',').map(part => Number(part.trim()));
+    if (parts.length !== 2 || !isValidLat(parts[0]) || !isValidLng(parts[1])) {
+      throw new GeoValidationError('Coordinates must be "latitude,longitude" within valid ranges');
+    }
+    geometry = { type: 'Point', coordinates: [parts[1], parts[0]] };
+  } else if (typeof value === 'object') {
+    const input = value as Record<string, any>;
+    if (input.type === 'Feature') {
+      return parseGeometry(input.geometry);
+    }
+    if (input.type) {
+      geometry = parseGeoJSON(input);
+    } else {
+      const lat = Number(input.lat ?? input.latitude);
+      const lng = Number(input.lng ?? input.lon ?? input.longitude);
+      if (!isValidLat(lat) || !isValidLng(lng)) {
+        throw new GeoValidationError('Coordinates need lat/lng within valid ranges');
+      }
+      geometry = { type: 'Point', coordinates: [lng, lat] };
+    }
+  } else {
+    throw new GeoValidationError('Unsupported location format');
+  }
+
+  return {
+    geometry,
+    ewkt: toEwkt(geometry),
+    coordinates: toCoordinateText(geometry)
+  };
+};
+
+/**
+ * Read the spatial filters shared by list endpoints:
+ *   near=lat,lng&radius_km=10    within N km of a point
+ *   bbox=minLng,minLat,maxLng,maxLat
+ *   polygon=<GeoJSON Polygon>    intersects the polygon
+ * Returns null when no spatial filter was requested.
+ */
+export const parseGeoFilter = (query: Record<string, unknown>): GeoFilterParams | null => {
+  const { near, radius_km, bbox, polygon } = query;
+  if (!near && !bbox && !polygon) return null;
+
+  const params: GeoFilterParams = {
+    lat: null,
+    lng: null,
+    radius_km: null,
+    min_lng: null,
+    min_lat: null,
+    max_lng: null,
+    max_lat: null,
+    polygon: null
+  };
+
+  if (near) {
+    const point = parseGeometry(String(near));
+    if (!point || point.geometry.type !== 'Point') {
+      throw new GeoValidationError('near must be "latitude,longitude"');
+    }
+    const radius = radius_km === undefined ? 0 : Number(radius_km);
+    if (!Number.isFinite(radius) || radius < 0 || radius > MAX_RADIUS_KM) {
+      throw new GeoValidationError(`radius_km must be between 0 and ${MAX_RADIUS_KM}`);
+    }
+    [params.lng, params.lat] = point.geometry.coordinates;
+    params.radius_km = radius;
+  }
+
+  if (bbox) {
+    const values = String(bbox).split(',').map(Number);
+    if (
+      values.length !== 4 ||
+      !isValidLng(values[0]) || !isValidLat(values[1]) ||
+      !isValidLng(values[2]) || !isValidLat(values[3]) ||
+      values[0] >= values[2] || values[1] >= values[3]
+    ) {
+      throw new GeoValidationError('bbox must be "minLng,minLat,maxLng,maxLat"');
+    }
+    [params.min_lng, params.min_lat, params.max_lng, params.max_lat] = values;
+  }
+
+  if (polygon) {
+    const area = parseGeometry(String(polygon));
+    if (!area || area.geometry.type === 'Point') {
+      throw new GeoValidationError('polygon must be a GeoJSON Polygon or MultiPolygon');
+    }
+    params.polygon = area.geometry;
+  }
+
+  return params;
+};
+
+type QueryClient = {
+  from: (table: string) => { select: (columns: string, options?: { count?: 'exact' }) => any };
+  rpc: (fn: string, args: object, options?: { count?: 'exact' }) => { select: (columns: string) => any };
+};
+
+/**
+ * Start a select on `table`, going through the matching `<table>_in_area` SQL
+ * function when a spatial filter is present. The returned builder accepts the
+ * usual filters, ordering and ranges either way.
+ */
+export const selectInArea = (
+  client: QueryClient,
+  table: 'alerts' | 'incident_reports' | 'sensors',
+  columns: string,
+  filter: GeoFilterParams | null,
+  count?: 'exact'
+) => filter
+  ? client.rpc(`${table}_in_area`, filter, { count }).select(columns)
+  : client.from(table).select(columns, { count });
+
+// An affected area of an alert: a polygon, or a circle kept as centre + radius
+// (PostGIS buffers circles into polygons on insert)
+export interface AlertAreaInput {
+  name: string | null;
+  area_type: 'polygon' | 'circle';
+  geometry: GeoJSONGeometry;
+  radius_m: number | null;
+  properties: Record<string, unknown> | null;
+}
+
+const MAX_ALERT_AREAS = 20;
+const MAX_CIRCLE_RADIUS_M = 500000;
+
+const parseAlertArea = (value: unknown): AlertAreaInput => {
+  if (!value || typeof value !== 'object') {
+    throw new GeoValidationError('Each area must be a GeoJSON geometry, Feature or circle');
+  }
+
+  const input = value as Record<string, any>;
+  const feature = input.type === 'Feature';
+  const properties: Record<string, any> = input.properties || {};
+  const shape: Record<string, any> = feature ? input.geometry || {} : input;
+  const name = typeof (input.name ?? properties.name) === 'string' ? input.name ?? properties.name : null;
+
+  // { type: 'Circle', center, radius_m } or a Point carrying a radius_m property
+  const isCircle = shape.type === 'Circle' || (shape.type === 'Point' && properties.radius_m !== undefined);
+  if (isCircle) {
+    const center = parseGeometry(shape.type === 'Circle' ? shape.center : shape);
+    const radius = Number(shape.radius_m ?? properties.radius_m);
+    if (!center || center.geometry.type !== 'Point') {
+      throw new GeoValidationError('Circle areas need a point centre');
+    }
+    if (!Number.isFinite(radius) || radius <= 0 || radius > MAX_CIRCLE_RADIUS_M) {
+      throw new GeoValidationError(`Circle radius_m must be between 0 and ${MAX_CIRCLE_RADIUS_M}`);
+    }
+    return { name, area_type: 'circle', geometry: center.geometry, radius_m: radius, properties: feature ? properties : null };
+  }
+
+  const area = parseGeometry(shape);
+  if (!area || area.geometry.type === 'Point') {
+    throw new GeoValidationError('Areas must be polygons, or points with a radius_m');
+  }
+  return { name, area_type: 'polygon', geometry: area.geometry, radius_m: null, properties: feature ? properties : null };
+};
+
+/**
+ * Parse the affected areas of an alert. Accepts a GeoJSON FeatureCollection, a
+ * single geometry/Feature, or an array of either. Circles are given as
+ * { type: 'Circle', center, radius_m } or a Point Feature with a radius_m property.
+ */
+export const parseAlertAreas = (value: unknown): AlertAreaInput[] => {
+  let input = value;
+  if (typeof input === 'string') {
+    try {
+      input = JSON.parse(input);
+    } catch {
+      throw new GeoValidationError('Areas are not valid JSON');
+    }
+  }
+
+  const items: unknown[] = Array.isArray(input)
+    ? input
+    : input && typeof input === 'object' && (input as any).type === 'FeatureCollection'
+      ? (input as any).features || []
+      : [input];
+
+  if (items.length > MAX_ALERT_AREAS) {
+    throw new GeoValidationError(`An alert can have at most ${MAX_ALERT_AREAS} areas`);
+  }
+
+  return items.map(parseAlertArea);
+};
+
+// EWKT for a parsed geometry, for writes outside parseGeometry
+export const geometryToEwkt = (geometry: GeoJSONGeometry) => toEwkt(geometry);
@@ -0,0 +1,492 @@
+// Minimal readers for the capture time and location that cameras embed in
+// photos (EXIF in JPEG/PNG, XMP) and videos (ISO 6709 strings in MP4/QuickTime),
+// and scrubbers that remove that location without re-encoding the file.
+// Thumbnails are the exception: they are decoded and re-encoded at a fixed size.
+
+import { promises as fs } from 'fs';
+import { decode as decodeJpeg, encode as encodeJpeg } from 'jpeg-js';
+
+export interface MediaMetadata {
+  // GeoJSON order: [longitude, latitude]
+  coordinates: [number, number] | null;
+  // As recorded; without a UTC offset when the camera did not store one
+  captured_at: string | null;
+}
+
+const EMPTY_METADATA: MediaMetadata = { coordinates: null, captured_at: null };
+
+// Recognise the container from its first bytes; the declared content type is not trusted
+export const sniffContentType = (header: Buffer): string | null => {
+  if (header.length >= 3 && header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) return 'image/jpeg';
+  if (header.length >= 8 && header.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  if (header.length >= 12 && header.toString('latin1', 4, 8) === 'ftyp') {
+    return header.toString('latin1', 8, 10) === 'qt' ? 'video/quicktime' : 'video/mp4';
+  }
+  // Older QuickTime files start straight with a movie or free box
+  if (header.length >= 8 && ['moov', 'mdat', 'wide', 'free'].includes(header.toString('latin1', 4, 8))) return 'video/quicktime';
+  return null;
+};
+
+// ---------------------------------------------------------------------------
+// TIFF / EXIF
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_THUMBNAIL_OFFSET = 0x0201;
+const TAG_THUMBNAIL_LENGTH = 0x0202;
+
+interface Tiff {
+  buf: Buffer;
+  // Offset of the TIFF header in buf; every offset inside the TIFF is relative to it
+  start: number;
+  little: boolean;
+}
+
+interface IfdEntry {
+  // Position in the IFD's entry table; entries whose values fall outside the buffer are skipped, so not the array index
+  index: number;
+  tag: number;
+  type: number;
+  count: number;
+  // Absolute offset of the value bytes in buf (inline values live inside the entry)
+  valueAt: number;
+  size: number;
+}
+
+interface Ifd {
+  at: number;
+  entries: IfdEntry[];
+}
+
+const u16 = (tiff: Tiff, at: number) => tiff.little ? tiff.buf.readUInt16LE(at) : tiff.buf.readUInt16BE(at);
+const u32 = (tiff: Tiff, at: number) => tiff.little ? tiff.buf.readUInt32LE(at) : tiff.buf.readUInt32BE(at);
+
+const openTiff = (buf: Buffer, start: number): Tiff | null => {
+  if (start + 8 > buf.length) return null;
+  const order = buf.toString('latin1', start, start + 2);
+  if (order !== 'II' && order !== 'MM') return null;
+  return { buf, start, little: order === 'II' };
+};
+
+const readIfd = (tiff: Tiff, offset: number): Ifd | null => {
+  const at = tiff.start + offset;
+  if (offset === 0 || at + 2 > tiff.buf.length) return null;
+
+  const count = u16(tiff, at);
+  const entries: IfdEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    const entryAt = at + 2 + i * 12;
+    if (entryAt + 12 > tiff.buf.length) break;
+    const type = u16(tiff, entryAt + 2);
+    const valueCount = u32(tiff, entryAt + 4);
+    const size = (TYPE_SIZES[type] || 1) * valueCount;
+    const valueAt = size <= 4 ? entryAt + 8 : tiff.start + u32(tiff, entryAt + 8);
+    if (valueAt + size > tiff.buf.length) continue;
+    entries.push({ index: i, tag: u16(tiff, entryAt), type, count: valueCount, valueAt, size });
+  }
+  return { at, entries };
+};
+
+const nextIfdOffset = (tiff: Tiff, ifd: Ifd) => {
+  const at = ifd.at + 2 + u16(tiff, ifd.at) * 12;
+  return at + 4 <= tiff.buf.length ? u32(tiff, at) : 0;
+};
+
+const findEntry = (ifd: Ifd | null, tag: number) => ifd?.entries.find(entry => entry.tag === tag);
+
+const readAscii = (tiff: Tiff, entry: IfdEntry | undefined) =>
+  entry ? tiff.buf.toString('latin1', entry.valueAt, entry.valueAt + entry.size).replace(/\0.*$/s, '').trim() : null;
+
+const readLong = (tiff: Tiff, entry: IfdEntry | undefined) =>
+  !entry ? null : entry.type === 3 ? u16(tiff, entry.valueAt) : u32(tiff, entry.valueAt);
+
+const readRationals = (tiff: Tiff, entry: IfdEntry | undefined) => {
+  if (!entry || entry.type !== 5) return null;
+  const values: number[] = [];
+  for (let i = 0; i < entry.count; i++) {
+    const denominator = u32(tiff, entry.valueAt + i * 8 + 4);
+    values.push(denominator ? u32(tiff, entry.valueAt + i * 8) / denominator : 0);
+  }
+  return values;
+};
+
+const toDegrees = (dms: number[] | null, ref: string | null, negative: string) => {
+  if (!dms || dms.length < 3 || !ref) return null;
+  const value = dms[0] + dms[1] / 60 + dms[2] / 3600;
+  return ref.toUpperCase().startsWith(negative) ? -value : value;
+};
+
+// EXIF dates are "YYYY:MM:DD HH:MM:SS", local to the camera unless an offset was recorded
+const toIsoDate = (value: string | null, offset: string | null) => {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === '0000') return null;
+  const local = `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}`;
+  return offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? `${local}${offset}` : local;
+};
+
+const validCoordinates = (latitude: number | null, longitude: number | null): [number, number] | null =>
+  latitude !== null && longitude !== null && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180 &&
+  !(latitude === 0 && longitude === 0)
+    ? [longitude, latitude]
+    : null;
+
+const readTiffMetadata = (tiff: Tiff) => {
+  const ifd0 = readIfd(tiff, u32(tiff, tiff.start + 4));
+  const exifIfd = readIfd(tiff, readLong(tiff, findEntry(ifd0, TAG_EXIF_IFD)) || 0);
+  const gpsIfd = readIfd(tiff, readLong(tiff, findEntry(ifd0, TAG_GPS_IFD)) || 0);
+
+  const coordinates = gpsIfd ? validCoordinates(
+    toDegrees(readRationals(tiff, findEntry(gpsIfd, 0x0002)), readAscii(tiff, findEntry(gpsIfd, 0x0001)), 'S'),
+    toDegrees(readRationals(tiff, findEntry(gpsIfd, 0x0004)), readAscii(tiff, findEntry(gpsIfd, 0x0003)), 'W')
+  ) : null;
+
+  const capturedAt = toIsoDate(
+    readAscii(tiff, findEntry(exifIfd, TAG_DATE_TIME_ORIGINAL)),
+    readAscii(tiff, findEntry(exifIfd, TAG_OFFSET_TIME_ORIGINAL))
+  );
+
+  // IFD1 describes the preview JPEG most cameras embed
+  let thumbnail: Buffer | null = null;
+  const ifd1 = ifd0 ? readIfd(tiff, nextIfdOffset(tiff, ifd0)) : null;
+  const thumbOffset = readLong(tiff, findEntry(ifd1, TAG_THUMBNAIL_OFFSET));
+  const thumbLength = readLong(tiff, findEntry(ifd1, TAG_THUMBNAIL_LENGTH));
+  if (thumbOffset && thumbLength && tiff.start + thumbOffset + thumbLength <= tiff.buf.length) {
+    const candidate = tiff.buf.subarray(tiff.start + thumbOffset, tiff.start + thumbOffset + thumbLength);
+    if (sniffContentType(candidate) === 'image/jpeg') thumbnail = Buffer.from(candidate);
+  }
+
+  return { metadata: { coordinates, captured_at: capturedAt }, thumbnail };
+};
+
+// Blank the GPS IFD and unlink it from IFD0, in place so no offsets move
+const scrubTiffGps = (tiff: Tiff) => {
+  const ifd0 = readIfd(tiff, u32(tiff, tiff.start + 4));
+  const pointer = findEntry(ifd0, TAG_GPS_IFD);
+  if (!ifd0 || !pointer) return false;
+
+  const gpsIfd = readIfd(tiff, readLong(tiff, pointer) || 0);
+  if (gpsIfd) {
+    for (const entry of gpsIfd.entries) {
+      tiff.buf.fill(0, entry.valueAt, entry.valueAt + entry.size);
+    }
+    tiff.buf.fill(0, gpsIfd.at + 2, gpsIfd.at + 2 + u16(tiff, gpsIfd.at) * 12);
+  }
+
+  // Remove the pointer entry by shifting the later entries and the next-IFD offset up
+  const count = u16(tiff, ifd0.at);
+  const entryAt = ifd0.at + 2 + pointer.index * 12;
+  const tableEnd = ifd0.at + 2 + count * 12 + 4;
+  tiff.buf.copy(tiff.buf, entryAt, entryAt + 12, tableEnd);
+  tiff.buf.fill(0, tableEnd - 12, tableEnd);
+  if (tiff.little) tiff.buf.writeUInt16LE(count - 1, ifd0.at);
+  else tiff.buf.writeUInt16BE(count - 1, ifd0.at);
+  return true;
+};
+
+// ---------------------------------------------------------------------------
+// JPEG
+
+const EXIF_HEADER = Buffer.from('Exif\0\0', 'latin1');
+const XMP_HEADERS = ['http://ns.adobe.com/xap/1.0/\0', 'http://ns.adobe.com/xmp/extension/\0'].map(h => Buffer.from(h, 'latin1'));
+
+interface JpegSegment {
+  marker: number;
+  start: number;
+  dataStart: number;
+  end: number;
+}
+
+// Marker segments before the image data; the compressed scan itself is never parsed
+const jpegSegments = (buf: Buffer) => {
+  const segments: JpegSegment[] = [];
+  let at = 2;
+  while (at + 4 <= buf.length && buf[at] === 0xff) {
+    const marker = buf[at + 1];
+    if (marker === 0xff) { at += 1; continue; }
+    if (marker === 0xda || marker === 0xd9) break;
+    const end = at + 2 + buf.readUInt16BE(at + 2);
+    if (end > buf.length) break;
+    segments.push({ marker, start: at, dataStart: at + 4, end });
+    at = end;
+  }
+  return segments;
+};
+
+const startsWith = (buf: Buffer, at: number, prefix: Buffer) =>
+  buf.length >= at + prefix.length && buf.subarray(at, at + prefix.length).equals(prefix);
+
+const isExifSegment = (buf: Buffer, segment: JpegSegment) =>
+  segment.marker === 0xe1 && startsWith(buf, segment.dataStart, EXIF_HEADER);
+
+const isXmpSegment = (buf: Buffer, segment: JpegSegment) =>
+  segment.marker === 0xe1 && XMP_HEADERS.some(header => startsWith(buf, segment.dataStart, header));
+
+const jpegTiff = (buf: Buffer) => {
+  const segment = jpegSegments(buf).find(candidate => isExifSegment(buf, candidate));
+  return segment ? openTiff(buf, segment.dataStart + EXIF_HEADER.length) : null;
+};
+
+// XMP can repeat the location (exif:GPSLatitude), so it is read as a fallback and always removed with it
+const XMP_LAT = /exif:GPSLatitude(?:="|>)(\d+),(\d+(?:\.\d+)?)([NS])/;
+const XMP_LON = /exif:GPSLongitude(?:="|>)(\d+),(\d+(?:\.\d+)?)([EW])/;
+
+const xmpCoordinates = (xmp: string) => {
+  const lat = xmp.match(XMP_LAT);
+  const lon = xmp.match(XMP_LON);
+  if (!lat || !lon) return null;
+  const value = (match: RegExpMatchArray, negative: string) =>
+    (Number(match[1]) + Number(match[2]) / 60) * (match[3] === negative ? -1 : 1);
+  return validCoordinates(value(lat, 'S'), value(lon, 'W'));
+};
+
+const readJpeg = (buf: Buffer) => {
+  const tiff = jpegTiff(buf);
+  const result = tiff ? readTiffMetadata(tiff) : { metadata: { ...EMPTY_METADATA }, thumbnail: null };
+
+  if (!result.metadata.coordinates) {
+    for (const segment of jpegSegments(buf).filter(candidate => isXmpSegment(buf, candidate))) {
+      const coordinates = xmpCoordinates(buf.toString('utf8', segment.dataStart, segment.end));
+      if (coordinates) {
+        result.metadata.coordinates = coordinates;
+        break;
+      }
+    }
+  }
+  return result;
+};
+
+const stripJpegLocation = (buf: Buffer) => {
+  const copy = Buffer.from(buf);
+  const tiff = jpegTiff(copy);
+  if (tiff) scrubTiffGps(tiff);
+
+  const pieces: Buffer[] = [];
+  let at = 0;
+  for (const segment of jpegSegments(copy).filter(candidate => isXmpSegment(copy, candidate))) {
+    pieces.push(copy.subarray(at, segment.start));
+    at = segment.end;
+  }
+  pieces.push(copy.subarray(at));
+  return Buffer.concat(pieces);
+};
+
+// ---------------------------------------------------------------------------
+// PNG
+
+interface PngChunk {
+  type: string;
+  start: number;
+  dataStart: number;
+  end: number;
+}
+
+const pngChunks = (buf: Buffer) => {
+  const chunks: PngChunk[] = [];
+  let at = 8;
+  while (at + 12 <= buf.length) {
+    const length = buf.readUInt32BE(at);
+    const end = at + 12 + length;
+    if (end > buf.length) break;
+    chunks.push({ type: buf.toString('latin1', at + 4, at + 8), start: at, dataStart: at + 8, end });
+    at = end;
+  }
+  return chunks;
+};
+
+const isPngXmp = (buf: Buffer, chunk: PngChunk) =>
+  chunk.type === 'iTXt' && buf.toString('latin1', chunk.dataStart, chunk.dataStart + 17) === 'XML:com.adobe.xmp';
+
+const readPng = (buf: Buffer) => {
+  const chunks = pngChunks(buf);
+  const exif = chunks.find(chunk => chunk.type === 'eXIf');
+  const tiff = exif ? openTiff(buf, exif.dataStart) : null;
+  const { metadata } = tiff ? readTiffMetadata(tiff) : { metadata: { ...EMPTY_METADATA } };
+
+  if (!metadata.coordinates) {
+    const xmp = chunks.find(chunk => isPngXmp(buf, chunk));
+    if (xmp) metadata.coordinates = xmpCoordinates(buf.toString('utf8', xmp.dataStart, xmp.end - 4));
+  }
+  // PNG has no embedded preview
+  return { metadata, thumbnail: null };
+};
+
+// eXIf and XMP chunks are dropped whole, so no CRC has to be recomputed
+const stripPngLocation = (buf: Buffer) => {
+  const pieces: Buffer[] = [buf.subarray(0, 8)];
+  for (const chunk of pngChunks(buf)) {
+    if (chunk.type === 'eXIf' || isPngXmp(buf, chunk)) continue;
+    pieces.push(buf.subarray(chunk.start, chunk.end));
+  }
+  return Buffer.concat(pieces);
+};
+
+// ---------------------------------------------------------------------------
+// MP4 / QuickTime
+
+// "+37.3318-122.0312+012.345/" (latitude, longitude, optional altitude)
+const ISO6709 = /([+-]\d{2}\.\d{2,})([+-]\d{3}\.\d{2,})(?:[+-]\d+(?:\.\d+)?)?\//g;
+const QT_LOCATION_ATOM = Buffer.from([0xa9, 0x78, 0x79, 0x7a]); // ©xyz
+const MAC_EPOCH_OFFSET = 2082844800; // seconds between 1904-01-01 and 1970-01-01
+
+// Find a top-level box by reading only box headers, so large videos are never loaded whole
+const findTopLevelBox = async (handle: fs.FileHandle, type: string) => {
+  const { size: fileSize } = await handle.stat();
+  const header = Buffer.alloc(16);
+  let at = 0;
+
+  while (at + 8 <= fileSize) {
+    await handle.read(header, 0, 16, at);
+    let size = header.readUInt32BE(0);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(header.readBigUInt64BE(8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = fileSize - at;
+    }
+    if (size < headerSize) return null;
+    if (header.toString('latin1', 4, 8) === type) return { at, size };
+    at += size;
+  }
+  return null;
+};
+
+const readMovieHeaderTime = (moov: Buffer) => {
+  const at = moov.indexOf('mvhd', 0, 'latin1');
+  if (at < 0 || at + 16 > moov.length) return null;
+  const version = moov[at + 4];
+  const seconds = version === 1 ? Number(moov.readBigUInt64BE(at + 8)) : moov.readUInt32BE(at + 8);
+  return seconds > MAC_EPOCH_OFFSET ? new Date((seconds - MAC_EPOCH_OFFSET) * 1000).toISOString() : null;
+};
+
+const readMovie = (moov: Buffer): MediaMetadata => {
+  ISO6709.lastIndex = 0;
+  const match = ISO6709.exec(moov.toString('latin1'));
+  return {
+    coordinates: match ? validCoordinates(Number(match[1]), Number(match[2])) : null,
+    captured_at: readMovieHeaderTime(moov)
+  };
+};
+
+// Turn ©xyz atoms into free space and blank any other ISO 6709 string (e.g. Apple's location key)
+const scrubMovie = (moov: Buffer) => {
+  let changed = false;
+  for (let at = moov.indexOf(QT_LOCATION_ATOM); at >= 0; at = moov.indexOf(QT_LOCATION_ATOM, at + 4)) {
+    moov.write('free', at, 'latin1');
+    changed = true;
+  }
+  const text = moov.toString('latin1');
+  ISO6709.lastIndex = 0;
+  for (let match = ISO6709.exec(text); match; match = ISO6709.exec(text)) {
+    moov.fill(0x20, match.index, match.index + match[0].length);
+    changed = true;
+  }
+  return changed;
+};
+
+const withMovieBox = async <T>(path: string, write: boolean, use: (moov: Buffer) => T) => {
+  const handle = await fs.open(path, write ? 'r+' : 'r');
+  try {
+    const box = await findTopLevelBox(handle, 'moov');
+    if (!box) return null;
+    const moov = Buffer.alloc(box.size);
+    await handle.read(moov, 0, box.size, box.at);
+    const result = use(moov);
+    if (write) await handle.write(moov, 0, box.size, box.at);
+    return result;
+  } finally {
+    await handle.close();
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Thumbnails
+
+const THUMBNAIL_EDGE = 320;
+const THUMBNAIL_QUALITY = 80;
+// Bounds what a hostile JPEG can make the decoder allocate
+const THUMBNAIL_SOURCE_MP = 16;
+
+/**
+ * Decode a JPEG and re-encode it with its longest edge at most 320 px, each
+ * output pixel the average of the source pixels it covers. Only pixels
+ * survive, so no metadata or trailing data in the source reaches the
+ * thumbnail. Null when the data does not decode as a JPEG.
+ */
+export const renderThumbnail = (jpeg: Buffer) => {
+  let source: { width: number; height: number; data: Buffer };
+  try {
+    source = decodeJpeg(jpeg, { maxResolutionInMP: THUMBNAIL_SOURCE_MP, maxMemoryUsageInMB: 128 });
+  } catch {
+    return null;
+  }
+  if (!source.width || !source.height) return null;
+
+  const scale = Math.min(1, THUMBNAIL_EDGE / Math.max(source.width, source.height));
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+  const data = Buffer.alloc(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.floor(y * source.height / height);
+    const bottom = Math.max(top + 1, Math.floor((y + 1) * source.height / height));
+    for (let x = 0; x < width; x++) {
+      const left = Math.floor(x * source.width / width);
+      const right = Math.max(left + 1, Math.floor((x + 1) * source.width / width));
+      const sums = [0, 0, 0];
+      for (let sy = top; sy < bottom; sy++) {
+        for (let sx = left; sx < right; sx++) {
+          const at = (sy * source.width + sx) * 4;
+          sums[0] += source.data[at];
+          sums[1] += source.data[at + 1];
+          sums[2] += source.data[at + 2];
+        }
+      }
+      const pixels = (bottom - top) * (right - left);
+      const at = (y * width + x) * 4;
+      data[at] = Math.round(sums[0] / pixels);
+      data[at + 1] = Math.round(sums[1] / pixels);
+      data[at + 2] = Math.round(sums[2] / pixels);
+      data[at + 3] = 255;
+    }
+  }
+
+  return encodeJpeg({ width, height, data }, THUMBNAIL_QUALITY).data;
+};
+
+// ---------------------------------------------------------------------------
+
+const isVideo = (contentType: string) => contentType.startsWith('video/');
+
+/**
+ * Capture metadata of a stored upload, plus the preview JPEG the camera
+ * embedded (JPEG only). Unreadable or truncated metadata yields empty values
+ * rather than an error; the file itself is still valid evidence.
+ */
+export const readMediaFile = async (path: string, contentType: string): Promise<{ metadata: MediaMetadata; thumbnail: Buffer | null }> => {
+  try {
+    if (isVideo(contentType)) {
+      const metadata = await withMovieBox(path, false, readMovie);
+      return { metadata: metadata || { ...EMPTY_METADATA }, thumbnail: null };
+    }
+    const buf = await fs.readFile(path);
+    return contentType === 'image/png' ? readPng(buf) : readJpeg(buf);
+  } catch (error) {
+    if (error instanceof RangeError) return { metadata: { ...EMPTY_METADATA }, thumbnail: null };
+    throw error;
+  }
+};
+
+// Remove embedded location from a stored upload, rewriting the file in place
+export const stripMediaLocation = async (path: string, contentType: string) => {
+  if (isVideo(contentType)) {
+    await withMovieBox(path, true, scrubMovie);
+    return;
+  }
+  const buf = await fs.readFile(path);
+  await fs.writeFile(path, contentType === 'image/png' ? stripPngLocation(buf) : stripJpegLocation(buf));
+};
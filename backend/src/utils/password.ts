@@ -0,0 +1,42 @@
+import bcrypt from 'bcryptjs';
+
+const SALT_ROUNDS = 12;
+
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_LENGTH = 72; // bcrypt ignores anything past 72 bytes
+
+// Returns a list of policy violations; an empty list means the password is acceptable
+export const validatePassword = (password: unknown, email?: string): string[] => {
+  if (typeof password !== 'string') {
+    return ['Password must be a string'];
+  }
+
+  const errors: string[] = [];
+
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    errors.push(`Password must be at least ${PASSWORD_MIN_LENGTH} characters`);
+  }
+  if (Buffer.byteLength(password, 'utf8') > PASSWORD_MAX_LENGTH) {
+    errors.push(`Password must be at most ${PASSWORD_MAX_LENGTH} bytes`);
+  }
+  if (!/[a-zA-Z]/.test(password)) {
+    errors.push('Password must contain at least one letter');
+  }
+  if (!/[0-9]/.test(password)) {
+    errors.push('Password must contain at least one number');
+  }
+  const emailName = email?.split('@')[0].toLowerCase();
+  if (emailName && emailName.length >= 3 && password.toLowerCase().includes(emailName)) {
+    errors.push('Password must not contain your email name');
+  }
+
+  return errors;
+};
+
+export const hashPassword = (password: string): Promise<string> => {
+  return bcrypt.hash(password, SALT_ROUNDS);
+};
+
+export const verifyPassword = (password: string, passwordHash: string): Promise<boolean> => {
+  return bcrypt.compare(password, passwordHash);
+};
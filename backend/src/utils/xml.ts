@@ -0,0 +1,135 @@
+// Minimal XML reader for the small, attribute-light documents we ingest (CAP 1.2).
+// Namespace prefixes are dropped, so <cap:alert> and <alert> read the same.
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+export class XmlParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XmlParseError';
+  }
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+// The Char production of XML 1.0: no surrogates, no code points past U+10FFFF
+const isXmlChar = (code: number) =>
+  code === 0x9 || code === 0xa || code === 0xd ||
+  (code >= 0x20 && code <= 0xd7ff) ||
+  (code >= 0xe000 && code <= 0xfffd) ||
+  (code >= 0x10000 && code <= 0x10ffff);
+
+const decodeEntities = (value: string) =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      if (!isXmlChar(code)) {
+        throw new XmlParseError(`Character reference ${match} is not a valid XML character`);
+      }
+      return String.fromCodePoint(code);
+    }
+    return ENTITIES[entity] ?? match;
+  });
+
+const localName = (name: string) => name.slice(name.indexOf(':') + 1);
+
+const parseAttributes = (source: string) => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    attributes[localName(match[1])] = decodeEntities(match[3] ?? match[4]);
+  }
+  return attributes;
+};
+
+/**
+ * Parse an XML document into a tree of elements. Comments, processing
+ * instructions and DOCTYPEs are skipped; CDATA is kept as text.
+ * Throws XmlParseError for unbalanced or truncated markup.
+ */
+export const parseXml = (source: string): XmlElement => {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  let position = 0;
+
+  while (position < source.length) {
+    const open = source.indexOf('<', position);
+    const current = stack[stack.length - 1];
+
+    if (open === -1) {
+      current.text += decodeEntities(source.slice(position));
+      break;
+    }
+    if (open > position) {
+      current.text += decodeEntities(source.slice(position, open));
+    }
+
+    if (source.startsWith('<!--', open)) {
+      const end = source.indexOf('-->', open);
+      if (end === -1) throw new XmlParseError('Unterminated comment');
+      position = end + 3;
+    } else if (source.startsWith('<![CDATA[', open)) {
+      const end = source.indexOf(']]>', open);
+      if (end === -1) throw new XmlParseError('Unterminated CDATA section');
+      current.text += source.slice(open + 9, end);
+      position = end + 3;
+    } else if (source.startsWith('<?', open) || source.startsWith('<!', open)) {
+      const end = source.indexOf('>', open);
+      if (end === -1) throw new XmlParseError('Unterminated declaration');
+      position = end + 1;
+    } else if (source.startsWith('</', open)) {
+      const end = source.indexOf('>', open);
+      if (end === -1) throw new XmlParseError('Unterminated closing tag');
+      const name = localName(source.slice(open + 2, end).trim());
+      if (stack.length < 2 || current.name !== name) {
+        throw new XmlParseError(`Unexpected closing tag </${name}>`);
+      }
+      stack.pop();
+      position = end + 1;
+    } else {
+      const end = source.indexOf('>', open);
+      if (end === -1) throw new XmlParseError('Unterminated tag');
+      const selfClosing = source[end - 1] === '/';
+      const body = source.slice(open + 1, selfClosing ? end - 1 : end).trim();
+      const nameEnd = body.search(/\s/);
+      const element: XmlElement = {
+        name: localName(nameEnd === -1 ? body : body.slice(0, nameEnd)),
+        attributes: nameEnd === -1 ? {} : parseAttributes(body.slice(nameEnd)),
+        children: [],
+        text: ''
+      };
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+      position = end + 1;
+    }
+  }
+
+  if (stack.length !== 1) {
+    throw new XmlParseError(`Unclosed element <${stack[stack.length - 1].name}>`);
+  }
+  if (root.children.length !== 1) {
+    throw new XmlParseError('Document must have exactly one root element');
+  }
+
+  return root.children[0];
+};
+
+// First child element with the given (prefix-free) name
+export const child = (element: XmlElement | undefined, name: string) =>
+  element?.children.find(node => node.name === name);
+
+// All child elements with the given name
+export const children = (element: XmlElement | undefined, name: string) =>
+  element?.children.filter(node => node.name === name) || [];
+
+// Trimmed text of the first child with the given name, or null
+export const childText = (element: XmlElement | undefined, name: string) => {
+  const text = child(element, name)?.text.trim();
+  return text ? text : null;
+};
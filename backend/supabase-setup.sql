@@ -4,6 +4,9 @@
 -- Enable Row Level Security (RLS)
 ALTER TABLE auth.users ENABLE ROW LEVEL SECURITY;
 
+-- PostGIS for location geometry (lat/lng points and affected-area polygons)
+CREATE EXTENSION IF NOT EXISTS postgis;
+
 -- Create custom types for enums
 CREATE TYPE user_role AS ENUM (
   'super_admin',
@@ -44,9 +47,13 @@ CREATE TYPE incident_severity AS ENUM (
 
 CREATE TYPE incident_status AS ENUM (
   'pending',
-  'verified',
+  'triaged',
   'investigating',
-  'resolved'
+  'verified',
+  'rejected',
+  'resolved',
+  'reopened',
+  'merged'
 );
 
 CREATE TYPE alert_type AS ENUM (
@@ -56,6 +63,15 @@ CREATE TYPE alert_type AS ENUM (
   'emergency'
 );
 
+CREATE TYPE alert_status AS ENUM (
+  'draft',
+  'submitted',
+  'approved',
+  'published',
+  'cancelled',
+  'expired'
+);
+
 CREATE TYPE alert_category AS ENUM (
   'tsunami',
   'cyclone',
@@ -107,6 +123,11 @@ CREATE TABLE public.users (
   status user_status NOT NULL DEFAULT 'pending',
   phone TEXT,
   location TEXT,
+  -- Home position, used to deliver geofenced alerts
+  coordinates TEXT,
+  geom geometry(Point, 4326),
+  -- Who is told when this user does not acknowledge an alert (escalation policies)
+  supervisor_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   approved_by UUID REFERENCES public.users(id),
@@ -123,10 +144,56 @@ CREATE TABLE public.user_profiles (
   certifications TEXT[],
   emergency_contact TEXT,
   notification_preferences JSONB DEFAULT '{"sms": true, "email": true, "push": true, "tsunami": true, "cyclone": true, "pollution": false, "tidal": true}',
+  push_tokens TEXT[] DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create user_credentials table
+-- Password hashes live in their own table so they are never returned by
+-- `select('*')` on users; only the service role can read it.
+CREATE TABLE public.user_credentials (
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE PRIMARY KEY,
+  password_hash TEXT NOT NULL,
+  password_changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create user_sessions table
+-- One row per signed-in device. Refresh tokens are stored as SHA-256 hashes
+-- and rotated on every use; the previous hash is kept to detect replay.
+CREATE TABLE public.user_sessions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  refresh_token_hash TEXT UNIQUE NOT NULL,
+  previous_token_hash TEXT,
+  device_id TEXT,
+  user_agent TEXT,
+  ip_address TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_used_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_reason TEXT
+);
+
+-- Create teams table (groups incidents can be assigned to, e.g. a field response unit)
+CREATE TABLE public.teams (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT UNIQUE NOT NULL,
+  description TEXT,
+  organization TEXT,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+CREATE TABLE public.team_members (
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (team_id, user_id)
+);
+
 -- Create incident_reports table
 CREATE TABLE public.incident_reports (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
@@ -142,6 +209,7 @@ CREATE TABLE public.incident_reports (
   -- Location Details
   location TEXT NOT NULL,
   coordinates TEXT,
+  geom geometry(Geometry, 4326),
   sector TEXT,
   nearest_landmark TEXT,
   
@@ -178,13 +246,156 @@ CREATE TABLE public.incident_reports (
   consent_to_contact BOOLEAN DEFAULT FALSE,
   consent_to_share BOOLEAN DEFAULT FALSE,
   
+  -- Investigation (see incident_transitions for the full history)
+  assigned_to UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  assigned_team UUID REFERENCES public.teams(id) ON DELETE SET NULL,
+  assigned_by UUID REFERENCES public.users(id),
+  assigned_at TIMESTAMP WITH TIME ZONE,
+  -- Next SLA deadline: triage while pending, resolution once triaged; NULL when closed
+  due_at TIMESTAMP WITH TIME ZONE,
+  
   -- Metadata
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  triaged_by UUID REFERENCES public.users(id),
+  triaged_at TIMESTAMP WITH TIME ZONE,
   verified_by UUID REFERENCES public.users(id),
   verified_at TIMESTAMP WITH TIME ZONE,
+  rejected_by UUID REFERENCES public.users(id),
+  rejected_at TIMESTAMP WITH TIME ZONE,
   resolved_by UUID REFERENCES public.users(id),
-  resolved_at TIMESTAMP WITH TIME ZONE
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  reopened_by UUID REFERENCES public.users(id),
+  reopened_at TIMESTAMP WITH TIME ZONE,
+
+  -- Duplicate reports are merged into a parent incident that carries the investigation
+  parent_id UUID REFERENCES public.incident_reports(id) ON DELETE SET NULL,
+  merged_by UUID REFERENCES public.users(id),
+  merged_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create incident_slas table (how quickly incidents of each severity must be triaged and resolved)
+CREATE TABLE public.incident_slas (
+  severity incident_severity PRIMARY KEY,
+  triage_minutes INTEGER NOT NULL CHECK (triage_minutes > 0),
+  resolve_minutes INTEGER NOT NULL CHECK (resolve_minutes > 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_by UUID REFERENCES public.users(id)
+);
+
+INSERT INTO public.incident_slas (severity, triage_minutes, resolve_minutes) VALUES
+  ('critical', 15, 240),
+  ('high', 60, 1440),
+  ('medium', 240, 4320),
+  ('low', 1440, 10080);
+
+-- Create incident_transitions table (audit trail of the investigation workflow)
+CREATE TABLE public.incident_transitions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  incident_id UUID REFERENCES public.incident_reports(id) ON DELETE CASCADE NOT NULL,
+  action TEXT NOT NULL, -- 'triage', 'assign', 'investigate', 'verify', 'reject', 'resolve', 'reopen', 'merge', 'promote'
+  from_status incident_status,
+  to_status incident_status NOT NULL,
+  performed_by UUID REFERENCES public.users(id),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create incident_resolutions table (one per time the incident was resolved; reporter notes stay untouched)
+CREATE TABLE public.incident_resolutions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  incident_id UUID REFERENCES public.incident_reports(id) ON DELETE CASCADE NOT NULL,
+  outcome TEXT NOT NULL CHECK (outcome IN ('resolved', 'mitigated', 'no_action_needed', 'referred')),
+  summary TEXT NOT NULL,
+  actions_taken TEXT,
+  resolved_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create incident_comments table (threaded updates and field notes on an incident's activity timeline)
+CREATE TABLE public.incident_comments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  incident_id UUID REFERENCES public.incident_reports(id) ON DELETE CASCADE NOT NULL,
+  parent_id UUID REFERENCES public.incident_comments(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  kind TEXT NOT NULL DEFAULT 'comment' CHECK (kind IN ('comment', 'field_note')),
+  -- internal: incident handling staff only; public: also the reporter
+  visibility TEXT NOT NULL DEFAULT 'internal' CHECK (visibility IN ('internal', 'public')),
+  body TEXT NOT NULL CHECK (length(body) > 0),
+  -- Users @mentioned in the body, resolved when the comment was posted
+  mentions UUID[] DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create incident_duplicates table (likely duplicate pairs found when reports come in; each pair stored once)
+CREATE TABLE public.incident_duplicates (
+  incident_a UUID REFERENCES public.incident_reports(id) ON DELETE CASCADE NOT NULL,
+  incident_b UUID REFERENCES public.incident_reports(id) ON DELETE CASCADE NOT NULL,
+  score NUMERIC(4,3) NOT NULL CHECK (score >= 0 AND score <= 1),
+  -- Per-signal scores: type, distance, time, text (0-1) and distance_km
+  breakdown JSONB NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'suggested' CHECK (status IN ('suggested', 'dismissed', 'merged')),
+  detected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  reviewed_by UUID REFERENCES public.users(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (incident_a, incident_b),
+  CHECK (incident_a < incident_b)
+);
+
+-- Create public_incident_reports table (reports sent without an account; moderated before they become incident reports)
+CREATE TABLE public.public_incident_reports (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Chosen by the client, so a report queued offline and sent twice is only stored once
+  client_report_id UUID UNIQUE NOT NULL,
+  
+  -- The report as submitted: incident_type, incident_title, description, severity, location, coordinates, date_time, ...
+  report JSONB NOT NULL,
+  
+  -- Optional contact details
+  contact_name TEXT,
+  contact_phone TEXT,
+  contact_email TEXT,
+  consent_to_contact BOOLEAN DEFAULT FALSE,
+  
+  -- Abuse protection (keyed hashes, never the raw address or device id)
+  ip_hash TEXT NOT NULL,
+  device_hash TEXT NOT NULL,
+  proof_bits INTEGER NOT NULL,
+  
+  -- Moderation
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'spam')),
+  moderated_by UUID REFERENCES public.users(id),
+  moderated_at TIMESTAMP WITH TIME ZONE,
+  moderation_notes TEXT,
+  incident_id UUID REFERENCES public.incident_reports(id) ON DELETE SET NULL,
+  
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create incident_media table (photo and video evidence; uploaded in chunks, then attached to a report)
+CREATE TABLE public.incident_media (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- NULL while the upload is a draft not yet attached to a submitted report
+  incident_id UUID REFERENCES public.incident_reports(id) ON DELETE CASCADE,
+  uploaded_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  media_type TEXT NOT NULL CHECK (media_type IN ('photo', 'video')),
+  content_type TEXT NOT NULL,
+  filename TEXT NOT NULL,
+  size_bytes BIGINT NOT NULL CHECK (size_bytes > 0),
+  received_bytes BIGINT NOT NULL DEFAULT 0,
+  -- uploading: chunks arriving; uploaded: complete, staged on the API server; ready: in media storage
+  status TEXT NOT NULL DEFAULT 'uploading' CHECK (status IN ('uploading', 'uploaded', 'ready', 'failed')),
+  storage_provider TEXT,
+  storage_key TEXT,
+  thumbnail_key TEXT,
+  has_thumbnail BOOLEAN DEFAULT FALSE,
+  -- Capture metadata read from the file ({ coordinates: [lon, lat], captured_at }), offered to prefill the report
+  metadata JSONB DEFAULT '{}',
+  -- Embedded location removed from the stored file because the reporter did not consent to share it
+  location_stripped BOOLEAN DEFAULT FALSE,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
 -- Create alerts table
@@ -197,18 +408,40 @@ CREATE TABLE public.alerts (
   location TEXT NOT NULL,
   sector TEXT,
   coordinates TEXT,
+  geom geometry(Geometry, 4326),
   
   -- Alert Details
   severity incident_severity NOT NULL,
   is_active BOOLEAN DEFAULT TRUE,
   expires_at TIMESTAMP WITH TIME ZONE,
   
+  -- Authoring workflow (only published alerts are live; warnings and emergencies need a second approver)
+  status alert_status NOT NULL DEFAULT 'draft',
+  submitted_by UUID REFERENCES public.users(id),
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  approved_by UUID REFERENCES public.users(id),
+  approved_at TIMESTAMP WITH TIME ZONE,
+  deactivated_by UUID REFERENCES public.users(id),
+  
+  -- Lifecycle (alerts with a future publish_at stay inactive until the scheduler publishes them)
+  publish_at TIMESTAMP WITH TIME ZONE,
+  published_at TIMESTAMP WITH TIME ZONE,
+  deactivated_at TIMESTAMP WITH TIME ZONE,
+  deactivation_reason TEXT, -- 'expired', 'manual', 'cancelled' (upstream CAP Cancel)
+  reminder_interval_hours INTEGER CHECK (reminder_interval_hours > 0),
+  last_reminded_at TIMESTAMP WITH TIME ZONE,
+  
+  -- Origin (NULL for alerts issued here; otherwise the upstream CAP sender and message identifier)
+  source TEXT,
+  source_identifier TEXT,
+  
+  -- Set when the alert was promoted from a verified incident report (the incident lists its alerts through this)
+  incident_id UUID REFERENCES public.incident_reports(id) ON DELETE SET NULL,
+  
   -- Metadata
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  created_by UUID REFERENCES public.users(id),
-  acknowledged_by UUID REFERENCES public.users(id),
-  acknowledged_at TIMESTAMP WITH TIME ZONE
+  created_by UUID REFERENCES public.users(id)
 );
 
 -- Create sensors table
@@ -218,6 +451,7 @@ CREATE TABLE public.sensors (
   type sensor_type NOT NULL,
   location TEXT NOT NULL,
   coordinates TEXT,
+  geom geometry(Geometry, 4326),
   sector TEXT,
   status sensor_status DEFAULT 'active',
   
@@ -237,7 +471,9 @@ CREATE TABLE public.sensors (
   -- Metadata
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  created_by UUID REFERENCES public.users(id)
+  created_by UUID REFERENCES public.users(id),
+  retired_at TIMESTAMP WITH TIME ZONE,
+  retired_by UUID REFERENCES public.users(id)
 );
 
 -- Create sensor_readings table
@@ -271,6 +507,7 @@ CREATE TABLE public.predictions (
   -- Location
   location TEXT,
   coordinates TEXT,
+  geom geometry(Geometry, 4326),
   sector TEXT,
   
   -- Metadata
@@ -301,24 +538,38 @@ CREATE TABLE public.prediction_models (
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   created_by UUID REFERENCES public.users(id),
-  is_active BOOLEAN DEFAULT TRUE
+  is_active BOOLEAN DEFAULT TRUE,
+  activated_at TIMESTAMP WITH TIME ZONE,
+  activated_by UUID REFERENCES public.users(id),
+  deactivated_at TIMESTAMP WITH TIME ZONE,
+  deactivated_by UUID REFERENCES public.users(id),
+
+  UNIQUE (name, version)
 );
 
+-- Link each forecast to the model version that produced it
+ALTER TABLE public.predictions
+  ADD COLUMN model_id UUID REFERENCES public.prediction_models(id) ON DELETE SET NULL;
+
 -- Create risk_assessments table
 CREATE TABLE public.risk_assessments (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
   location TEXT NOT NULL,
   sector TEXT,
   coordinates TEXT,
+  geom geometry(Geometry, 4326),
   
   -- Risk Details
   risk_type TEXT NOT NULL,
   risk_level incident_severity NOT NULL,
   probability NUMERIC CHECK (probability >= 0 AND probability <= 1),
   impact_score NUMERIC CHECK (impact_score >= 0 AND impact_score <= 10),
+  risk_score NUMERIC,
   
   -- Assessment Details
   factors TEXT[],
+  factor_breakdown JSONB,
+  weights JSONB,
   mitigation_strategies TEXT[],
   recommendations TEXT,
   
@@ -328,9 +579,117 @@ CREATE TABLE public.risk_assessments (
   valid_until TIMESTAMP WITH TIME ZONE,
   created_by UUID REFERENCES public.users(id),
   reviewed_by UUID REFERENCES public.users(id),
-  reviewed_at TIMESTAMP WITH TIME ZONE
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_notes TEXT
+);
+
+-- Create risk_weights table (impact points per occurrence of each risk factor)
+CREATE TABLE public.risk_weights (
+  factor TEXT PRIMARY KEY,
+  weight NUMERIC NOT NULL CHECK (weight >= 0),
+  description TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_by UUID REFERENCES public.users(id)
+);
+
+INSERT INTO public.risk_weights (factor, weight, description) VALUES
+  ('alert_emergency', 40, 'Active emergency alert in the sector'),
+  ('alert_warning', 25, 'Active warning alert in the sector'),
+  ('alert_advisory', 10, 'Active advisory alert in the sector'),
+  ('sensor_out_of_range', 15, 'Sensor with out-of-range readings in the last 6 hours'),
+  ('sensor_fault', 5, 'Sensor in error or offline state'),
+  ('prediction_exceedance', 20, 'Forecast above safe threshold in the next 24 hours');
+
+-- Create sectors table (administrative monitoring sectors such as 'A-1')
+CREATE TABLE public.sectors (
+  code TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  geom geometry(MultiPolygon, 4326),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create sector_officers table (users designated to confirm alerts for a sector)
+CREATE TABLE public.sector_officers (
+  sector TEXT REFERENCES public.sectors(code) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (sector, user_id)
+);
+
+-- Create shelters table
+CREATE TABLE public.shelters (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  address TEXT,
+  sector TEXT,
+  coordinates TEXT,
+  geom geometry(Point, 4326),
+  capacity INTEGER CHECK (capacity >= 0),
+  contact_phone TEXT,
+  facilities TEXT[],
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_by UUID REFERENCES public.users(id)
+);
+
+-- Create alert_areas table (geofences an alert targets; circles are stored as buffered polygons)
+CREATE TABLE public.alert_areas (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  alert_id UUID REFERENCES public.alerts(id) ON DELETE CASCADE NOT NULL,
+  name TEXT,
+  area_type TEXT NOT NULL CHECK (area_type IN ('polygon', 'circle')),
+  center geometry(Point, 4326),
+  radius_m NUMERIC CHECK (radius_m > 0),
+  geom geometry(Geometry, 4326) NOT NULL,
+  properties JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (area_type = 'polygon' OR (center IS NOT NULL AND radius_m IS NOT NULL))
+);
+
+-- Create escalation_policies table (what happens while an alert stays unacknowledged).
+-- NULL alert_type / category match any; the most specific active policy applies.
+CREATE TABLE public.escalation_policies (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  alert_type alert_type,
+  category alert_category,
+  -- Whose acknowledgement is awaited: the sectors' designated officers, or every recipient
+  watch TEXT NOT NULL DEFAULT 'sector_officers' CHECK (watch IN ('sector_officers', 'recipients')),
+  -- [{ "after_minutes": 5, "targets": ["sector_officers"], "channels": ["sms"] }, ...]
+  steps JSONB NOT NULL,
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_by UUID REFERENCES public.users(id),
+  updated_by UUID REFERENCES public.users(id),
+  UNIQUE NULLS NOT DISTINCT (alert_type, category)
+);
+
+INSERT INTO public.escalation_policies (name, alert_type, steps) VALUES
+  ('Emergency: sector officers must confirm', 'emergency', '[
+    {"after_minutes": 5, "targets": ["sector_officers"], "channels": ["sms", "push"]},
+    {"after_minutes": 15, "targets": ["supervisors", "organization_admins"], "channels": ["sms", "email"]}
+  ]');
+
+-- Create alert_escalations table (each policy step executed for an alert; the unique key stops repeats)
+CREATE TABLE public.alert_escalations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  alert_id UUID REFERENCES public.alerts(id) ON DELETE CASCADE NOT NULL,
+  policy_id UUID REFERENCES public.escalation_policies(id) ON DELETE CASCADE NOT NULL,
+  step_index INTEGER NOT NULL,
+  -- pending: claimed and sending; skipped: everyone watched had acknowledged
+  status TEXT NOT NULL CHECK (status IN ('pending', 'sent', 'failed', 'skipped')),
+  pending_users UUID[], -- watched users still unacknowledged when the step ran
+  notified INTEGER DEFAULT 0,
+  error_message TEXT, -- why a failed step could not notify anyone
+  executed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(alert_id, policy_id, step_index)
 );
 
+CREATE INDEX idx_alert_escalations_alert_id ON public.alert_escalations(alert_id);
+
 -- Create notification_logs table
 CREATE TABLE public.notification_logs (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
@@ -346,55 +705,210 @@ CREATE TABLE public.notification_logs (
   -- Status
   status TEXT DEFAULT 'sent', -- 'sent', 'delivered', 'failed'
   delivery_attempts INTEGER DEFAULT 1,
-  error_message TEXT
+  error_message TEXT,
+  
+  -- Set when the notification was sent by an escalation policy step
+  escalation_policy_id UUID REFERENCES public.escalation_policies(id) ON DELETE SET NULL,
+  escalation_step INTEGER,
+  
+  -- Set for notifications about an incident (e.g. an @mention) rather than an alert
+  incident_id UUID REFERENCES public.incident_reports(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_notification_logs_alert_id ON public.notification_logs(alert_id);
+CREATE INDEX idx_notification_logs_user_id ON public.notification_logs(user_id);
+CREATE INDEX idx_notification_logs_incident_id ON public.notification_logs(incident_id);
+
+-- Create cap_messages table (every CAP 1.2 message issued for an alert, with the content it carried)
+CREATE TABLE public.cap_messages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  alert_id UUID REFERENCES public.alerts(id) ON DELETE CASCADE NOT NULL,
+  identifier TEXT UNIQUE NOT NULL,
+  msg_type TEXT NOT NULL CHECK (msg_type IN ('Alert', 'Update', 'Cancel')),
+  sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  cap_references TEXT, -- space-separated "sender,identifier,sent" of earlier messages
+  alert_snapshot JSONB NOT NULL,
+  areas JSONB
+);
+
+CREATE INDEX idx_cap_messages_alert_id ON public.cap_messages(alert_id, sent_at DESC);
+
+-- Create alert_transitions table (audit trail of the authoring workflow)
+CREATE TABLE public.alert_transitions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  alert_id UUID REFERENCES public.alerts(id) ON DELETE CASCADE NOT NULL,
+  action TEXT NOT NULL, -- 'create', 'update', 'submit', 'approve', 'reject', 'publish', 'cancel', 'expire'
+  from_status alert_status,
+  to_status alert_status NOT NULL,
+  performed_by UUID REFERENCES public.users(id), -- NULL for the scheduler and imports
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_alert_transitions_alert_id ON public.alert_transitions(alert_id, created_at);
+
+-- Create alert_acknowledgements table (one row per recipient who confirmed receipt)
+CREATE TABLE public.alert_acknowledgements (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  alert_id UUID REFERENCES public.alerts(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  channel TEXT NOT NULL DEFAULT 'app' CHECK (channel IN ('app', 'web', 'sms', 'email', 'push')),
+  acknowledged_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- Optional welfare response; may be changed later (e.g. safe → need help)
+  response TEXT CHECK (response IN ('safe', 'need_help')),
+  response_notes TEXT,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE(alert_id, user_id)
+);
+
+CREATE INDEX idx_alert_acknowledgements_alert_id ON public.alert_acknowledgements(alert_id);
+CREATE INDEX idx_alert_acknowledgements_user_id ON public.alert_acknowledgements(user_id);
+
+-- Create alert_revisions table (immutable snapshot of the alert content after every edit)
+CREATE TABLE public.alert_revisions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  alert_id UUID REFERENCES public.alerts(id) ON DELETE CASCADE NOT NULL,
+  revision_number INTEGER NOT NULL CHECK (revision_number > 0),
+  status alert_status NOT NULL, -- workflow state when the revision was made
+  content JSONB NOT NULL, -- title, message, type, severity, expiry, areas, ...
+  changed_fields TEXT[], -- NULL for the first revision
+  created_by UUID REFERENCES public.users(id), -- NULL for imports
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(alert_id, revision_number)
 );
 
+-- Create alert_ingest_messages table (every external CAP/JSON message received, for deduplication and references)
+CREATE TABLE public.alert_ingest_messages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  alert_id UUID REFERENCES public.alerts(id) ON DELETE SET NULL,
+  source TEXT NOT NULL, -- ingest channel: API key name or 'directory'
+  sender TEXT NOT NULL,
+  identifier TEXT NOT NULL,
+  msg_type TEXT NOT NULL CHECK (msg_type IN ('Alert', 'Update', 'Cancel')),
+  sent_at TIMESTAMP WITH TIME ZONE,
+  cap_references TEXT,
+  status TEXT NOT NULL, -- 'created', 'updated', 'cancelled', 'ignored'
+  payload TEXT,
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(sender, identifier)
+);
+
+CREATE INDEX idx_alert_ingest_messages_alert_id ON public.alert_ingest_messages(alert_id);
+
 -- Create indexes for better performance
 CREATE INDEX idx_users_email ON public.users(email);
 CREATE INDEX idx_users_role ON public.users(role);
 CREATE INDEX idx_users_status ON public.users(status);
 CREATE INDEX idx_users_organization ON public.users(organization);
 CREATE INDEX idx_user_profiles_user_id ON public.user_profiles(user_id);
+CREATE INDEX idx_user_sessions_user_id ON public.user_sessions(user_id);
+CREATE INDEX idx_user_sessions_previous_token_hash ON public.user_sessions(previous_token_hash);
 
 CREATE INDEX idx_incident_reports_reporter_id ON public.incident_reports(reporter_id);
 CREATE INDEX idx_incident_reports_type ON public.incident_reports(incident_type);
 CREATE INDEX idx_incident_reports_severity ON public.incident_reports(severity);
 CREATE INDEX idx_incident_reports_status ON public.incident_reports(status);
 CREATE INDEX idx_incident_reports_location ON public.incident_reports(location);
+CREATE INDEX idx_incident_reports_geom ON public.incident_reports USING GIST (geom);
 CREATE INDEX idx_incident_reports_date_time ON public.incident_reports(date_time);
+CREATE INDEX idx_incident_reports_created_at ON public.incident_reports(created_at);
+CREATE INDEX idx_incident_reports_organization ON public.incident_reports(organization);
+CREATE INDEX idx_incident_reports_assigned_to ON public.incident_reports(assigned_to);
+CREATE INDEX idx_incident_reports_assigned_team ON public.incident_reports(assigned_team);
+CREATE INDEX idx_incident_reports_due_at ON public.incident_reports(due_at) WHERE due_at IS NOT NULL;
+CREATE INDEX idx_incident_reports_parent_id ON public.incident_reports(parent_id) WHERE parent_id IS NOT NULL;
+CREATE INDEX idx_incident_duplicates_incident_b ON public.incident_duplicates(incident_b);
+CREATE INDEX idx_incident_duplicates_suggested ON public.incident_duplicates(detected_at) WHERE status = 'suggested';
+CREATE INDEX idx_incident_transitions_incident_id ON public.incident_transitions(incident_id, created_at);
+CREATE INDEX idx_incident_resolutions_incident_id ON public.incident_resolutions(incident_id);
+CREATE INDEX idx_incident_comments_incident_id ON public.incident_comments(incident_id, created_at);
+CREATE INDEX idx_incident_comments_parent_id ON public.incident_comments(parent_id);
+CREATE INDEX idx_incident_comments_mentions ON public.incident_comments USING GIN(mentions);
+CREATE INDEX idx_public_incident_reports_pending ON public.public_incident_reports(created_at) WHERE status = 'pending';
+CREATE INDEX idx_public_incident_reports_ip_hash ON public.public_incident_reports(ip_hash, created_at);
+CREATE INDEX idx_public_incident_reports_device_hash ON public.public_incident_reports(device_hash, created_at);
+CREATE INDEX idx_incident_media_incident_id ON public.incident_media(incident_id);
+CREATE INDEX idx_incident_media_drafts ON public.incident_media(uploaded_by, created_at) WHERE incident_id IS NULL;
+CREATE INDEX idx_team_members_user_id ON public.team_members(user_id);
 
 CREATE INDEX idx_alerts_type ON public.alerts(type);
 CREATE INDEX idx_alerts_category ON public.alerts(category);
 CREATE INDEX idx_alerts_location ON public.alerts(location);
 CREATE INDEX idx_alerts_is_active ON public.alerts(is_active);
 CREATE INDEX idx_alerts_created_at ON public.alerts(created_at);
+CREATE INDEX idx_alerts_expires_at ON public.alerts(expires_at) WHERE is_active = true;
+CREATE INDEX idx_alerts_publish_at ON public.alerts(publish_at) WHERE published_at IS NULL;
+CREATE INDEX idx_alerts_geom ON public.alerts USING GIST (geom);
+CREATE INDEX idx_alerts_source ON public.alerts(source) WHERE source IS NOT NULL;
+CREATE INDEX idx_alerts_status ON public.alerts(status);
+CREATE INDEX idx_alerts_incident_id ON public.alerts(incident_id) WHERE incident_id IS NOT NULL;
+-- One open alert per incident; a cancelled or expired one can be followed by a new draft
+CREATE UNIQUE INDEX idx_alerts_open_incident ON public.alerts(incident_id)
+  WHERE incident_id IS NOT NULL AND status IN ('draft', 'submitted', 'approved', 'published');
 
 CREATE INDEX idx_sensors_type ON public.sensors(type);
 CREATE INDEX idx_sensors_location ON public.sensors(location);
 CREATE INDEX idx_sensors_status ON public.sensors(status);
+CREATE INDEX idx_sensors_sector ON public.sensors(sector);
+CREATE INDEX idx_sensors_geom ON public.sensors USING GIST (geom);
 
 CREATE INDEX idx_sensor_readings_sensor_id ON public.sensor_readings(sensor_id);
 CREATE INDEX idx_sensor_readings_timestamp ON public.sensor_readings(timestamp);
+-- One reading per sensor and instant, so gateways can safely resend buffered batches
+CREATE UNIQUE INDEX idx_sensor_readings_sensor_timestamp ON public.sensor_readings(sensor_id, timestamp);
 
 CREATE INDEX idx_predictions_parameter ON public.predictions(parameter);
 CREATE INDEX idx_predictions_location ON public.predictions(location);
 CREATE INDEX idx_predictions_valid_from ON public.predictions(valid_from);
+CREATE INDEX idx_predictions_model_id ON public.predictions(model_id);
+CREATE INDEX idx_predictions_geom ON public.predictions USING GIST (geom);
+CREATE INDEX idx_prediction_models_name ON public.prediction_models(name, parameter);
 
 CREATE INDEX idx_risk_assessments_location ON public.risk_assessments(location);
 CREATE INDEX idx_risk_assessments_risk_type ON public.risk_assessments(risk_type);
 CREATE INDEX idx_risk_assessments_risk_level ON public.risk_assessments(risk_level);
+CREATE INDEX idx_risk_assessments_sector_created ON public.risk_assessments(sector, created_at DESC);
+CREATE INDEX idx_risk_assessments_geom ON public.risk_assessments USING GIST (geom);
+CREATE INDEX idx_users_geom ON public.users USING GIST (geom);
+CREATE INDEX idx_sectors_geom ON public.sectors USING GIST (geom);
+CREATE INDEX idx_shelters_geom ON public.shelters USING GIST (geom);
+CREATE INDEX idx_alert_areas_alert_id ON public.alert_areas(alert_id);
+CREATE INDEX idx_alert_areas_geom ON public.alert_areas USING GIST (geom);
 
 -- Enable RLS on tables
 ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.user_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_credentials ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_sessions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.incident_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.incident_slas ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.incident_transitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.incident_resolutions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.incident_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.incident_duplicates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.public_incident_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.incident_media ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.team_members ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.alerts ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.sensors ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.sensor_readings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.predictions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.prediction_models ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.risk_assessments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.risk_weights ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sectors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sector_officers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shelters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.alert_areas ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.escalation_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.alert_escalations ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.notification_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cap_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.alert_transitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.alert_acknowledgements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.alert_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.alert_ingest_messages ENABLE ROW LEVEL SECURITY;
 
 -- Create RLS policies for users table
 -- Users can read their own profile
@@ -484,11 +998,157 @@ CREATE POLICY "Admins can update all incident reports" ON public.incident_report
     )
   );
 
+-- Create RLS policies for incident workflow tables
+CREATE POLICY "Users can view incident SLAs" ON public.incident_slas
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage incident SLAs" ON public.incident_slas
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "Staff can view incident transitions" ON public.incident_transitions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin', 'authority', 'operational')
+    )
+  );
+
+-- Reporters see how their report was closed
+CREATE POLICY "Reporters can view resolutions of own reports" ON public.incident_resolutions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.incident_reports ir
+      WHERE ir.id = incident_id
+      AND ir.reporter_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Staff can view incident resolutions" ON public.incident_resolutions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin', 'authority', 'operational')
+    )
+  );
+
+CREATE POLICY "Reporters can view public comments on own reports" ON public.incident_comments
+  FOR SELECT USING (
+    visibility = 'public'
+    AND EXISTS (
+      SELECT 1 FROM public.incident_reports ir
+      WHERE ir.id = incident_id
+      AND ir.reporter_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Staff can view incident comments" ON public.incident_comments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin', 'authority', 'operational')
+    )
+  );
+
+CREATE POLICY "Staff can view incident duplicates" ON public.incident_duplicates
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin', 'authority', 'operational')
+    )
+  );
+
+-- Public reports are only submitted through the backend (service role); moderators read the queue
+CREATE POLICY "Staff can view public incident reports" ON public.public_incident_reports
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin', 'authority', 'operational')
+    )
+  );
+
+CREATE POLICY "Users can view own media uploads" ON public.incident_media
+  FOR SELECT USING (auth.uid() = uploaded_by);
+
+CREATE POLICY "Reporters can view media on own reports" ON public.incident_media
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.incident_reports ir
+      WHERE ir.id = incident_id
+      AND ir.reporter_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Staff can view incident media" ON public.incident_media
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin', 'authority', 'operational')
+    )
+  );
+
+CREATE POLICY "Staff can view teams" ON public.teams
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin', 'authority', 'operational')
+    )
+  );
+
+CREATE POLICY "Admins can manage teams" ON public.teams
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "Staff can view team members" ON public.team_members
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin', 'authority', 'operational')
+    )
+  );
+
+CREATE POLICY "Admins can manage team members" ON public.team_members
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
 -- Create RLS policies for alerts table
 -- All authenticated users can view active alerts
 CREATE POLICY "Users can view active alerts" ON public.alerts
   FOR SELECT USING (is_active = true);
 
+-- Staff also see drafts, alerts under review and past alerts
+CREATE POLICY "Staff can view all alerts" ON public.alerts
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin', 'authority', 'operational')
+    )
+  );
+
 -- Admins and authorities can create alerts
 CREATE POLICY "Admins can create alerts" ON public.alerts
   FOR INSERT WITH CHECK (
@@ -554,6 +1214,21 @@ CREATE POLICY "Admins can create predictions" ON public.predictions
     )
   );
 
+-- Create RLS policies for prediction_models table
+-- All authenticated users can view prediction models
+CREATE POLICY "Users can view prediction models" ON public.prediction_models
+  FOR SELECT USING (true);
+
+-- Admins and authorities can register and activate prediction models
+CREATE POLICY "Admins can manage prediction models" ON public.prediction_models
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin', 'authority', 'operational')
+    )
+  );
+
 -- Create RLS policies for risk_assessments table
 -- All authenticated users can view risk assessments
 CREATE POLICY "Users can view risk assessments" ON public.risk_assessments
@@ -569,6 +1244,174 @@ CREATE POLICY "Admins can create risk assessments" ON public.risk_assessments
     )
   );
 
+-- Authorities sign off on risk assessments
+CREATE POLICY "Authorities can review risk assessments" ON public.risk_assessments
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin', 'authority')
+    )
+  );
+
+-- Create RLS policies for risk_weights table
+CREATE POLICY "Users can view risk weights" ON public.risk_weights
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage risk weights" ON public.risk_weights
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+-- Create RLS policies for sectors, shelters and alert_areas tables
+CREATE POLICY "Users can view sectors" ON public.sectors
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage sectors" ON public.sectors
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "Staff can view sector officers" ON public.sector_officers
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin', 'authority', 'operational')
+    )
+  );
+
+CREATE POLICY "Admins can manage sector officers" ON public.sector_officers
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "Users can view shelters" ON public.shelters
+  FOR SELECT USING (true);
+
+CREATE POLICY "Authorities can manage shelters" ON public.shelters
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin', 'authority', 'operational')
+    )
+  );
+
+CREATE POLICY "Users can view alert areas" ON public.alert_areas
+  FOR SELECT USING (true);
+
+CREATE POLICY "Authorities can manage alert areas" ON public.alert_areas
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin', 'authority', 'operational')
+    )
+  );
+
+-- Create RLS policies for cap_messages table (CAP messages are public once issued)
+CREATE POLICY "Anyone can view CAP messages" ON public.cap_messages
+  FOR SELECT USING (true);
+
+-- Create RLS policies for alert_ingest_messages table (written by the service role only)
+CREATE POLICY "Authorities can view ingested messages" ON public.alert_ingest_messages
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin', 'authority')
+    )
+  );
+
+-- Create RLS policies for alert_transitions table
+CREATE POLICY "Staff can view alert transitions" ON public.alert_transitions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin', 'authority', 'operational')
+    )
+  );
+
+-- Create RLS policies for escalation_policies and alert_escalations tables
+CREATE POLICY "Staff can view escalation policies" ON public.escalation_policies
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin', 'authority', 'operational')
+    )
+  );
+
+CREATE POLICY "Admins can manage escalation policies" ON public.escalation_policies
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "Staff can view alert escalations" ON public.alert_escalations
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin', 'authority', 'operational')
+    )
+  );
+
+-- Create RLS policies for alert_acknowledgements table
+CREATE POLICY "Users can view own acknowledgements" ON public.alert_acknowledgements
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can acknowledge alerts" ON public.alert_acknowledgements
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own acknowledgements" ON public.alert_acknowledgements
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Staff can view all acknowledgements" ON public.alert_acknowledgements
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin', 'authority', 'operational')
+    )
+  );
+
+-- Create RLS policies for alert_revisions table (no UPDATE policy: revisions are never changed)
+CREATE POLICY "Users can view revisions of published alerts" ON public.alert_revisions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.alerts a
+      WHERE a.id = alert_id
+      AND a.published_at IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Staff can view all alert revisions" ON public.alert_revisions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() 
+      AND role IN ('super_admin', 'admin', 'authority', 'operational')
+    )
+  );
+
 -- Create RLS policies for notification_logs table
 -- Users can view their own notification logs
 CREATE POLICY "Users can view own notification logs" ON public.notification_logs
@@ -596,6 +1439,14 @@ CREATE TRIGGER update_incident_reports_updated_at
   BEFORE UPDATE ON public.incident_reports 
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_teams_updated_at 
+  BEFORE UPDATE ON public.teams 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_incident_media_updated_at 
+  BEFORE UPDATE ON public.incident_media 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_alerts_updated_at 
   BEFORE UPDATE ON public.alerts 
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -616,6 +1467,45 @@ CREATE TRIGGER update_risk_assessments_updated_at
   BEFORE UPDATE ON public.risk_assessments 
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_sectors_updated_at 
+  BEFORE UPDATE ON public.sectors 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_shelters_updated_at 
+  BEFORE UPDATE ON public.shelters 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_escalation_policies_updated_at 
+  BEFORE UPDATE ON public.escalation_policies 
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Alert revisions are an audit record; even the service role cannot rewrite them
+CREATE OR REPLACE FUNCTION prevent_alert_revision_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Alert revisions are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER alert_revisions_immutable
+  BEFORE UPDATE ON public.alert_revisions
+  FOR EACH ROW EXECUTE FUNCTION prevent_alert_revision_update();
+
+-- Circles are buffered on the spheroid so radius_m is true metres
+CREATE OR REPLACE FUNCTION buffer_alert_area_circle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.area_type = 'circle' THEN
+    NEW.geom = ST_Buffer(NEW.center::geography, NEW.radius_m)::geometry;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER buffer_alert_area_circle
+  BEFORE INSERT OR UPDATE ON public.alert_areas
+  FOR EACH ROW EXECUTE FUNCTION buffer_alert_area_circle();
+
 -- Create function to handle new user registration
 CREATE OR REPLACE FUNCTION handle_new_user()
 RETURNS TRIGGER AS $$
@@ -690,18 +1580,620 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql STABLE;
 
+-- Create function to aggregate sensor readings into fixed time buckets
+CREATE OR REPLACE FUNCTION get_sensor_reading_aggregates(
+  target_sensor_id UUID,
+  bucket_seconds INTEGER,
+  range_start TIMESTAMP WITH TIME ZONE,
+  range_end TIMESTAMP WITH TIME ZONE,
+  include_flagged BOOLEAN DEFAULT FALSE
+) RETURNS TABLE (
+  bucket TIMESTAMP WITH TIME ZONE,
+  min NUMERIC,
+  max NUMERIC,
+  mean NUMERIC,
+  p05 NUMERIC,
+  p50 NUMERIC,
+  p95 NUMERIC,
+  count BIGINT
+) AS $$
+  SELECT
+    date_bin(make_interval(secs => bucket_seconds), r.timestamp, TIMESTAMPTZ '2000-01-01') AS bucket,
+    MIN(r.value),
+    MAX(r.value),
+    AVG(r.value),
+    percentile_cont(0.05) WITHIN GROUP (ORDER BY r.value)::NUMERIC,
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY r.value)::NUMERIC,
+    percentile_cont(0.95) WITHIN GROUP (ORDER BY r.value)::NUMERIC,
+    COUNT(*)
+  FROM public.sensor_readings r
+  WHERE r.sensor_id = target_sensor_id
+    AND r.timestamp >= range_start
+    AND r.timestamp < range_end
+    AND (include_flagged OR NOT ('out_of_range' = ANY(COALESCE(r.flags, '{}'))))
+  GROUP BY 1
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE;
+
+-- Create function to compute summary and linear trend statistics for a sensor
+CREATE OR REPLACE FUNCTION get_sensor_reading_trend(
+  target_sensor_id UUID,
+  range_start TIMESTAMP WITH TIME ZONE,
+  range_end TIMESTAMP WITH TIME ZONE,
+  include_flagged BOOLEAN DEFAULT FALSE
+) RETURNS TABLE (
+  count BIGINT,
+  min NUMERIC,
+  max NUMERIC,
+  mean NUMERIC,
+  stddev NUMERIC,
+  first_timestamp TIMESTAMP WITH TIME ZONE,
+  last_timestamp TIMESTAMP WITH TIME ZONE,
+  slope_per_second DOUBLE PRECISION,
+  intercept DOUBLE PRECISION,
+  r_squared DOUBLE PRECISION
+) AS $$
+  SELECT
+    COUNT(*),
+    MIN(r.value),
+    MAX(r.value),
+    AVG(r.value),
+    STDDEV_SAMP(r.value),
+    MIN(r.timestamp),
+    MAX(r.timestamp),
+    regr_slope(r.value::DOUBLE PRECISION, EXTRACT(EPOCH FROM r.timestamp)::DOUBLE PRECISION),
+    regr_intercept(r.value::DOUBLE PRECISION, EXTRACT(EPOCH FROM r.timestamp)::DOUBLE PRECISION),
+    regr_r2(r.value::DOUBLE PRECISION, EXTRACT(EPOCH FROM r.timestamp)::DOUBLE PRECISION)
+  FROM public.sensor_readings r
+  WHERE r.sensor_id = target_sensor_id
+    AND r.timestamp >= range_start
+    AND r.timestamp < range_end
+    AND (include_flagged OR NOT ('out_of_range' = ANY(COALESCE(r.flags, '{}'))));
+$$ LANGUAGE sql STABLE;
+
+-- Spatial filter shared by the *_in_area functions; every supplied filter must match.
+-- Distances are measured on the spheroid, so radius_km is true kilometres.
+CREATE OR REPLACE FUNCTION geo_matches(
+  g geometry,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  radius_km DOUBLE PRECISION,
+  min_lng DOUBLE PRECISION,
+  min_lat DOUBLE PRECISION,
+  max_lng DOUBLE PRECISION,
+  max_lat DOUBLE PRECISION,
+  polygon JSONB
+) RETURNS BOOLEAN AS $$
+  SELECT g IS NOT NULL
+    AND (lat IS NULL OR ST_DWithin(
+      g::geography,
+      ST_SetSRID(ST_MakePoint(lng, lat), 4326)::geography,
+      COALESCE(radius_km, 0) * 1000
+    ))
+    AND (min_lng IS NULL OR ST_Intersects(g, ST_MakeEnvelope(min_lng, min_lat, max_lng, max_lat, 4326)))
+    AND (polygon IS NULL OR ST_Intersects(g, ST_SetSRID(ST_GeomFromGeoJSON(polygon::text), 4326)));
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION alerts_in_area(
+  lat DOUBLE PRECISION DEFAULT NULL,
+  lng DOUBLE PRECISION DEFAULT NULL,
+  radius_km DOUBLE PRECISION DEFAULT NULL,
+  min_lng DOUBLE PRECISION DEFAULT NULL,
+  min_lat DOUBLE PRECISION DEFAULT NULL,
+  max_lng DOUBLE PRECISION DEFAULT NULL,
+  max_lat DOUBLE PRECISION DEFAULT NULL,
+  polygon JSONB DEFAULT NULL
+) RETURNS SETOF public.alerts AS $$
+  SELECT t.*
+  FROM public.alerts t
+  WHERE geo_matches(t.geom, lat, lng, radius_km, min_lng, min_lat, max_lng, max_lat, polygon)
+    OR EXISTS (
+      SELECT 1 FROM public.alert_areas aa
+      WHERE aa.alert_id = t.id
+        AND geo_matches(aa.geom, lat, lng, radius_km, min_lng, min_lat, max_lng, max_lat, polygon)
+    );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION incident_reports_in_area(
+  lat DOUBLE PRECISION DEFAULT NULL,
+  lng DOUBLE PRECISION DEFAULT NULL,
+  radius_km DOUBLE PRECISION DEFAULT NULL,
+  min_lng DOUBLE PRECISION DEFAULT NULL,
+  min_lat DOUBLE PRECISION DEFAULT NULL,
+  max_lng DOUBLE PRECISION DEFAULT NULL,
+  max_lat DOUBLE PRECISION DEFAULT NULL,
+  polygon JSONB DEFAULT NULL
+) RETURNS SETOF public.incident_reports AS $$
+  SELECT t.*
+  FROM public.incident_reports t
+  WHERE geo_matches(t.geom, lat, lng, radius_km, min_lng, min_lat, max_lng, max_lat, polygon);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION sensors_in_area(
+  lat DOUBLE PRECISION DEFAULT NULL,
+  lng DOUBLE PRECISION DEFAULT NULL,
+  radius_km DOUBLE PRECISION DEFAULT NULL,
+  min_lng DOUBLE PRECISION DEFAULT NULL,
+  min_lat DOUBLE PRECISION DEFAULT NULL,
+  max_lng DOUBLE PRECISION DEFAULT NULL,
+  max_lat DOUBLE PRECISION DEFAULT NULL,
+  polygon JSONB DEFAULT NULL
+) RETURNS SETOF public.sensors AS $$
+  SELECT t.*
+  FROM public.sensors t
+  WHERE geo_matches(t.geom, lat, lng, radius_km, min_lng, min_lat, max_lng, max_lat, polygon);
+$$ LANGUAGE sql STABLE;
+
+-- Affected areas of an alert as GeoJSON, with their size
+CREATE OR REPLACE FUNCTION get_alert_areas(target_alert UUID)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  area_type TEXT,
+  radius_m NUMERIC,
+  properties JSONB,
+  center JSONB,
+  geometry JSONB,
+  area_km2 DOUBLE PRECISION
+) AS $$
+  SELECT
+    aa.id,
+    aa.name,
+    aa.area_type,
+    aa.radius_m,
+    aa.properties,
+    ST_AsGeoJSON(aa.center)::jsonb,
+    ST_AsGeoJSON(aa.geom)::jsonb,
+    ST_Area(aa.geom::geography) / 1e6
+  FROM public.alert_areas aa
+  WHERE aa.alert_id = target_alert
+  ORDER BY aa.created_at;
+$$ LANGUAGE sql STABLE;
+
+-- Replace all affected areas of an alert in one transaction. `areas` is a JSON array of
+-- { name, area_type, radius_m, center, geom, properties } with center and geom as EWKT.
+CREATE OR REPLACE FUNCTION replace_alert_areas(target_alert UUID, areas JSONB)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM public.alert_areas WHERE alert_id = target_alert;
+
+  INSERT INTO public.alert_areas (alert_id, name, area_type, radius_m, center, geom, properties)
+  SELECT
+    target_alert,
+    a.name,
+    a.area_type,
+    a.radius_m,
+    ST_GeomFromEWKT(a.center),
+    ST_GeomFromEWKT(a.geom),
+    a.properties
+  FROM jsonb_to_recordset(COALESCE(areas, '[]'::jsonb)) AS a(
+    name TEXT,
+    area_type TEXT,
+    radius_m NUMERIC,
+    center TEXT,
+    geom TEXT,
+    properties JSONB
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Everything inside an alert's affected areas: approved users (by home position),
+-- active sensors and shelters, and intersecting sectors
+CREATE OR REPLACE FUNCTION get_alert_targets(target_alert UUID)
+RETURNS TABLE (
+  target_type TEXT,
+  target_id TEXT,
+  name TEXT,
+  sector TEXT
+) AS $$
+  WITH area AS (
+    SELECT ST_Union(aa.geom) AS g
+    FROM public.alert_areas aa
+    WHERE aa.alert_id = target_alert
+    HAVING COUNT(*) > 0
+  )
+  SELECT 'user', u.id::text, u.full_name, NULL
+  FROM public.users u, area
+  WHERE u.status = 'approved' AND ST_Intersects(u.geom, area.g)
+  UNION ALL
+  SELECT 'sensor', s.id::text, s.name, s.sector
+  FROM public.sensors s, area
+  WHERE s.retired_at IS NULL AND ST_Intersects(s.geom, area.g)
+  UNION ALL
+  SELECT 'shelter', sh.id::text, sh.name, sh.sector
+  FROM public.shelters sh, area
+  WHERE sh.is_active AND ST_Intersects(sh.geom, area.g)
+  UNION ALL
+  SELECT 'sector', se.code, se.name, se.code
+  FROM public.sectors se, area
+  WHERE ST_Intersects(se.geom, area.g);
+$$ LANGUAGE sql STABLE;
+
+-- Who each alert reached: users with a sent or delivered notification for it, plus
+-- anyone who acknowledged it. A user's sector is the one containing their home position.
+CREATE OR REPLACE FUNCTION get_alert_coverage_members(alert_ids UUID[])
+RETURNS TABLE (
+  alert_id UUID,
+  user_id UUID,
+  full_name TEXT,
+  organization TEXT,
+  role TEXT,
+  phone TEXT,
+  sector TEXT,
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  channel TEXT,
+  response TEXT,
+  response_notes TEXT
+) AS $$
+  WITH reached AS (
+    SELECT nl.alert_id, nl.user_id
+    FROM public.notification_logs nl
+    WHERE nl.alert_id = ANY(alert_ids) AND nl.status IN ('sent', 'delivered')
+    UNION
+    SELECT ack.alert_id, ack.user_id
+    FROM public.alert_acknowledgements ack
+    WHERE ack.alert_id = ANY(alert_ids)
+  )
+  SELECT
+    r.alert_id,
+    u.id,
+    u.full_name,
+    u.organization,
+    u.role::text,
+    u.phone,
+    (SELECT se.code FROM public.sectors se WHERE ST_Intersects(se.geom, u.geom) ORDER BY se.code LIMIT 1),
+    ack.acknowledged_at,
+    ack.channel,
+    ack.response,
+    ack.response_notes
+  FROM reached r
+  JOIN public.users u ON u.id = r.user_id
+  LEFT JOIN public.alert_acknowledgements ack ON ack.alert_id = r.alert_id AND ack.user_id = r.user_id;
+$$ LANGUAGE sql STABLE;
+
+-- Coverage tallies per alert: the total (dimension 'total') and one row per
+-- organization, sector and role, counted in the database rather than per member
+CREATE OR REPLACE FUNCTION get_alert_coverage_groups(alert_ids UUID[])
+RETURNS TABLE (
+  alert_id UUID,
+  dimension TEXT,
+  key TEXT,
+  recipients BIGINT,
+  acknowledged BIGINT,
+  safe BIGINT,
+  need_help BIGINT
+) AS $$
+  SELECT
+    m.alert_id,
+    CASE
+      WHEN GROUPING(m.organization) = 0 THEN 'organization'
+      WHEN GROUPING(m.sector) = 0 THEN 'sector'
+      WHEN GROUPING(m.role) = 0 THEN 'role'
+      ELSE 'total'
+    END,
+    CASE
+      WHEN GROUPING(m.organization) = 0 THEN m.organization
+      WHEN GROUPING(m.sector) = 0 THEN m.sector
+      WHEN GROUPING(m.role) = 0 THEN m.role
+    END,
+    COUNT(*),
+    COUNT(m.acknowledged_at),
+    COUNT(*) FILTER (WHERE m.response = 'safe'),
+    COUNT(*) FILTER (WHERE m.response = 'need_help')
+  FROM get_alert_coverage_members(alert_ids) m
+  GROUP BY GROUPING SETS (
+    (m.alert_id),
+    (m.alert_id, m.organization),
+    (m.alert_id, m.sector),
+    (m.alert_id, m.role)
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Merge one report into a parent in a single transaction. Both rows are locked in id order,
+-- so opposite merges of the same pair queue instead of deadlocking, and the parent is checked
+-- under the lock: if it has been merged itself meanwhile, or the child is no longer in
+-- expected_status, nothing changes and no row is returned. Reports merged into the child
+-- move up to the parent.
+CREATE OR REPLACE FUNCTION merge_incident_report(
+  target_parent UUID,
+  target_child UUID,
+  expected_status TEXT,
+  merged_by_user UUID,
+  merged_time TIMESTAMP WITH TIME ZONE
+) RETURNS SETOF public.incident_reports AS $$
+DECLARE
+  merged_report public.incident_reports%ROWTYPE;
+BEGIN
+  PERFORM 1 FROM public.incident_reports
+  WHERE id IN (target_parent, target_child)
+  ORDER BY id
+  FOR UPDATE;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.incident_reports
+    WHERE id = target_parent AND parent_id IS NULL AND status <> 'merged'
+  ) THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.incident_reports
+  SET status = 'merged',
+      parent_id = target_parent,
+      merged_by = merged_by_user,
+      merged_at = merged_time,
+      due_at = NULL,
+      updated_at = merged_time
+  WHERE id = target_child
+    AND id <> target_parent
+    AND parent_id IS NULL
+    AND status::TEXT = expected_status
+  RETURNING * INTO merged_report;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.incident_reports
+  SET parent_id = target_parent, updated_at = merged_time
+  WHERE parent_id = target_child;
+
+  RETURN NEXT merged_report;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Incidents that have reports merged into them
+CREATE OR REPLACE FUNCTION get_merged_cluster_parents()
+RETURNS SETOF public.incident_reports AS $$
+  SELECT parent.*
+  FROM public.incident_reports parent
+  WHERE parent.parent_id IS NULL
+    AND EXISTS (
+      SELECT 1 FROM public.incident_reports child WHERE child.parent_id = parent.id
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Incident reports an analytics request covers: created in [range_start, range_end), filed by
+-- a member of scope_organization and/or by scope_reporter when those are given, and matching
+-- the optional filters. Merged reports duplicate their parent, so they are left out unless
+-- include_merged.
+CREATE OR REPLACE FUNCTION get_analytics_incidents(
+  range_start TIMESTAMP WITH TIME ZONE,
+  range_end TIMESTAMP WITH TIME ZONE,
+  scope_organization TEXT DEFAULT NULL,
+  scope_reporter UUID DEFAULT NULL,
+  filter_sector TEXT DEFAULT NULL,
+  filter_type TEXT DEFAULT NULL,
+  filter_severity TEXT DEFAULT NULL,
+  include_merged BOOLEAN DEFAULT FALSE
+) RETURNS SETOF public.incident_reports AS $$
+  SELECT i.*
+  FROM public.incident_reports i
+  WHERE i.created_at >= range_start
+    AND i.created_at < range_end
+    AND (scope_organization IS NULL OR EXISTS (
+      SELECT 1 FROM public.users u WHERE u.id = i.reporter_id AND u.organization = scope_organization
+    ))
+    AND (scope_reporter IS NULL OR i.reporter_id = scope_reporter)
+    AND (filter_sector IS NULL OR i.sector = filter_sector)
+    AND (filter_type IS NULL OR i.incident_type::TEXT = filter_type)
+    AND (filter_severity IS NULL OR i.severity::TEXT = filter_severity)
+    AND (include_merged OR i.status <> 'merged');
+$$ LANGUAGE sql STABLE;
+
+-- Incident analytics tallies, one row per dimension ('total', 'type', 'severity', 'status',
+-- 'sector') and key, over the whole range (bucket NULL) and per bucket_interval ('day', 'week'
+-- or 'month', truncated in UTC so weeks start on Monday). Reports count towards the bucket they
+-- arrived in; hours to verification and resolution before the report arrived are ignored.
+CREATE OR REPLACE FUNCTION get_incident_analytics_groups(
+  bucket_interval TEXT,
+  range_start TIMESTAMP WITH TIME ZONE,
+  range_end TIMESTAMP WITH TIME ZONE,
+  scope_organization TEXT DEFAULT NULL,
+  scope_reporter UUID DEFAULT NULL,
+  filter_sector TEXT DEFAULT NULL,
+  filter_type TEXT DEFAULT NULL,
+  filter_severity TEXT DEFAULT NULL,
+  include_merged BOOLEAN DEFAULT FALSE
+) RETURNS TABLE (
+  bucket TIMESTAMP WITH TIME ZONE,
+  dimension TEXT,
+  key TEXT,
+  incidents BIGINT,
+  public_health_risk BIGINT,
+  verified BIGINT,
+  resolved BIGINT,
+  median_hours_to_verify NUMERIC,
+  median_hours_to_resolve NUMERIC
+) AS $$
+  WITH scoped AS (
+    SELECT
+      date_trunc(bucket_interval, i.created_at, 'UTC') AS bucket,
+      i.incident_type::TEXT AS incident_type,
+      i.severity::TEXT AS severity,
+      i.status::TEXT AS status,
+      COALESCE(i.sector, 'none') AS sector,
+      COALESCE(i.public_health_risk, FALSE) AS public_health_risk,
+      CASE WHEN i.verified_at >= i.created_at
+        THEN EXTRACT(EPOCH FROM i.verified_at - i.created_at) / 3600 END AS verify_hours,
+      CASE WHEN i.resolved_at >= i.created_at
+        THEN EXTRACT(EPOCH FROM i.resolved_at - i.created_at) / 3600 END AS resolve_hours
+    FROM get_analytics_incidents(
+      range_start, range_end, scope_organization, scope_reporter,
+      filter_sector, filter_type, filter_severity, include_merged
+    ) i
+  )
+  SELECT
+    s.bucket,
+    CASE
+      WHEN GROUPING(s.incident_type) = 0 THEN 'type'
+      WHEN GROUPING(s.severity) = 0 THEN 'severity'
+      WHEN GROUPING(s.status) = 0 THEN 'status'
+      WHEN GROUPING(s.sector) = 0 THEN 'sector'
+      ELSE 'total'
+    END,
+    CASE
+      WHEN GROUPING(s.incident_type) = 0 THEN s.incident_type
+      WHEN GROUPING(s.severity) = 0 THEN s.severity
+      WHEN GROUPING(s.status) = 0 THEN s.status
+      WHEN GROUPING(s.sector) = 0 THEN s.sector
+    END,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE s.public_health_risk),
+    COUNT(s.verify_hours),
+    COUNT(s.resolve_hours),
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY s.verify_hours)::NUMERIC,
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY s.resolve_hours)::NUMERIC
+  FROM scoped s
+  -- Every dimension, both overall and per bucket
+  GROUP BY
+    GROUPING SETS ((), (s.bucket)),
+    GROUPING SETS ((), (s.incident_type), (s.severity), (s.status), (s.sector));
+$$ LANGUAGE sql STABLE;
+
+-- Grid cells of about cell_km holding at least min_count of the reports an analytics request
+-- covers, busiest first. Cells narrow in longitude away from the equator so they stay roughly
+-- square; the centre is the mean position of the reports in the cell. Incident types are listed
+-- most frequent first and locations in the order they were first reported.
+CREATE OR REPLACE FUNCTION get_incident_hotspots(
+  cell_km NUMERIC,
+  min_count INTEGER,
+  max_cells INTEGER,
+  range_start TIMESTAMP WITH TIME ZONE,
+  range_end TIMESTAMP WITH TIME ZONE,
+  scope_organization TEXT DEFAULT NULL,
+  scope_reporter UUID DEFAULT NULL,
+  filter_sector TEXT DEFAULT NULL,
+  filter_type TEXT DEFAULT NULL,
+  filter_severity TEXT DEFAULT NULL,
+  include_merged BOOLEAN DEFAULT FALSE
+) RETURNS TABLE (
+  lng DOUBLE PRECISION,
+  lat DOUBLE PRECISION,
+  incidents BIGINT,
+  public_health_risk BIGINT,
+  severity TEXT,
+  incident_types TEXT[],
+  sectors TEXT[],
+  locations TEXT[],
+  last_reported TIMESTAMP WITH TIME ZONE
+) AS $$
+  WITH positioned AS (
+    SELECT
+      i.*,
+      ST_Y(ST_PointOnSurface(i.geom)) AS point_lat,
+      ST_X(ST_PointOnSurface(i.geom)) AS point_lng,
+      cell_km / 111.32 AS lat_step
+    FROM get_analytics_incidents(
+      range_start, range_end, scope_organization, scope_reporter,
+      filter_sector, filter_type, filter_severity, include_merged
+    ) i
+    WHERE i.geom IS NOT NULL
+  ),
+  cells AS (
+    SELECT
+      p.*,
+      floor(p.point_lat / p.lat_step) AS cell_row,
+      floor(p.point_lng / (cell_km / (111.32 * GREATEST(
+        cos(radians((floor(p.point_lat / p.lat_step) + 0.5) * p.lat_step)), 0.01
+      )))) AS cell_col
+    FROM positioned p
+  )
+  SELECT
+    AVG(c.point_lng),
+    AVG(c.point_lat),
+    COUNT(*),
+    COUNT(*) FILTER (WHERE c.public_health_risk),
+    MAX(c.severity)::TEXT,
+    ARRAY(
+      SELECT t.incident_type
+      FROM unnest(array_agg(c.incident_type::TEXT)) AS t(incident_type)
+      GROUP BY t.incident_type
+      ORDER BY COUNT(*) DESC, t.incident_type
+    ),
+    COALESCE(array_agg(DISTINCT c.sector) FILTER (WHERE c.sector IS NOT NULL), '{}'),
+    ARRAY(
+      SELECT l.location
+      FROM unnest(array_agg(c.location ORDER BY c.created_at)) WITH ORDINALITY AS l(location, position)
+      GROUP BY l.location
+      ORDER BY MIN(l.position)
+      LIMIT 5
+    ),
+    MAX(c.created_at)
+  FROM cells c
+  GROUP BY c.cell_row, c.cell_col
+  HAVING COUNT(*) >= min_count
+  ORDER BY COUNT(*) DESC, MAX(c.created_at) DESC
+  LIMIT max_cells;
+$$ LANGUAGE sql STABLE;
+
+-- Backfill geom from the legacy "lat,lng" coordinates text. Rows written before the
+-- geom columns existed have only the text, and every spatial filter reads geom.
+-- Safe to re-run: only rows without a geom are touched, and text that is not a valid
+-- "lat,lng" pair is left for the application to rewrite.
+CREATE OR REPLACE FUNCTION legacy_coordinates_point(coordinates TEXT)
+RETURNS geometry AS $$
+  SELECT ST_SetSRID(ST_MakePoint(m[2]::double precision, m[1]::double precision), 4326)
+  FROM regexp_match(
+    coordinates,
+    '^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$'
+  ) AS m
+  WHERE m[1]::double precision BETWEEN -90 AND 90
+    AND m[2]::double precision BETWEEN -180 AND 180;
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS geom geometry(Point, 4326);
+ALTER TABLE public.incident_reports ADD COLUMN IF NOT EXISTS geom geometry(Geometry, 4326);
+ALTER TABLE public.alerts ADD COLUMN IF NOT EXISTS geom geometry(Geometry, 4326);
+ALTER TABLE public.sensors ADD COLUMN IF NOT EXISTS geom geometry(Geometry, 4326);
+ALTER TABLE public.predictions ADD COLUMN IF NOT EXISTS geom geometry(Geometry, 4326);
+ALTER TABLE public.risk_assessments ADD COLUMN IF NOT EXISTS geom geometry(Geometry, 4326);
+
+UPDATE public.users SET geom = legacy_coordinates_point(coordinates)
+  WHERE geom IS NULL AND coordinates IS NOT NULL;
+UPDATE public.incident_reports SET geom = legacy_coordinates_point(coordinates)
+  WHERE geom IS NULL AND coordinates IS NOT NULL;
+UPDATE public.alerts SET geom = legacy_coordinates_point(coordinates)
+  WHERE geom IS NULL AND coordinates IS NOT NULL;
+UPDATE public.sensors SET geom = legacy_coordinates_point(coordinates)
+  WHERE geom IS NULL AND coordinates IS NOT NULL;
+UPDATE public.predictions SET geom = legacy_coordinates_point(coordinates)
+  WHERE geom IS NULL AND coordinates IS NOT NULL;
+UPDATE public.risk_assessments SET geom = legacy_coordinates_point(coordinates)
+  WHERE geom IS NULL AND coordinates IS NOT NULL;
+
 -- Grant necessary permissions
 GRANT USAGE ON SCHEMA public TO anon, authenticated;
 GRANT ALL ON public.users TO anon, authenticated;
 GRANT ALL ON public.user_profiles TO anon, authenticated;
 GRANT ALL ON public.incident_reports TO anon, authenticated;
+GRANT ALL ON public.incident_slas TO anon, authenticated;
+GRANT ALL ON public.incident_transitions TO anon, authenticated;
+GRANT ALL ON public.incident_resolutions TO anon, authenticated;
+GRANT ALL ON public.incident_comments TO anon, authenticated;
+GRANT ALL ON public.incident_duplicates TO anon, authenticated;
+GRANT ALL ON public.public_incident_reports TO anon, authenticated;
+GRANT ALL ON public.incident_media TO anon, authenticated;
+GRANT ALL ON public.teams TO anon, authenticated;
+GRANT ALL ON public.team_members TO anon, authenticated;
 GRANT ALL ON public.alerts TO anon, authenticated;
 GRANT ALL ON public.sensors TO anon, authenticated;
 GRANT ALL ON public.sensor_readings TO anon, authenticated;
 GRANT ALL ON public.predictions TO anon, authenticated;
 GRANT ALL ON public.prediction_models TO anon, authenticated;
 GRANT ALL ON public.risk_assessments TO anon, authenticated;
+GRANT ALL ON public.risk_weights TO anon, authenticated;
+GRANT ALL ON public.sectors TO anon, authenticated;
+GRANT ALL ON public.sector_officers TO anon, authenticated;
+GRANT ALL ON public.shelters TO anon, authenticated;
+GRANT ALL ON public.alert_areas TO anon, authenticated;
+GRANT ALL ON public.escalation_policies TO anon, authenticated;
+GRANT ALL ON public.alert_escalations TO anon, authenticated;
 GRANT ALL ON public.notification_logs TO anon, authenticated;
+GRANT ALL ON public.cap_messages TO anon, authenticated;
+GRANT ALL ON public.alert_transitions TO anon, authenticated;
+GRANT ALL ON public.alert_acknowledgements TO anon, authenticated;
+GRANT ALL ON public.alert_revisions TO anon, authenticated;
+GRANT ALL ON public.alert_ingest_messages TO anon, authenticated;
 GRANT USAGE ON ALL SEQUENCES IN SCHEMA public TO anon, authenticated;
 
 -- Insert sample data for testing (optional)
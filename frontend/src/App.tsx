@@ -14,6 +14,10 @@ import Dashboard from "./pages/Dashboard";
 import Alerts from "./pages/Alerts";
 import Predictions from "./pages/Predictions";
 import Reports from "./pages/Reports";
+import Analytics from "./pages/Analytics";
+import IncidentDetail from "./pages/IncidentDetail";
+import IncidentReport from "./pages/IncidentReport";
+import PublicReport from "./pages/PublicReport";
 import Resources from "./pages/Resources";
 import Education from "./pages/Education";
 import EarthdataExplorer from "./pages/EarthdataExplorer";
@@ -35,6 +39,7 @@ const App = () => (
               <Route path="/login" element={<Login />} />
               <Route path="/register" element={<Register />} />
               <Route path="/" element={<Landing />} />
+              <Route path="/report" element={<PublicReport />} />
               
               {/* Protected routes */}
               <Route path="/dashboard" element={
@@ -57,6 +62,21 @@ const App = () => (
                   <Reports />
                 </ProtectedRoute>
               } />
+              <Route path="/analytics" element={
+                <ProtectedRoute requiredPermissions={['canAccessReports']}>
+                  <Analytics />
+                </ProtectedRoute>
+              } />
+              <Route path="/reports/new" element={
+                <ProtectedRoute>
+                  <IncidentReport />
+                </ProtectedRoute>
+              } />
+              <Route path="/reports/:id" element={
+                <ProtectedRoute>
+                  <IncidentDetail />
+                </ProtectedRoute>
+              } />
               <Route path="/resources" element={
                 <ProtectedRoute requiredPermissions={['canViewAllData']}>
                   <Resources />
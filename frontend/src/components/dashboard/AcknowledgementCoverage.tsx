@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { UserCheck, LifeBuoy } from 'lucide-react';
+import { useAlertCoverage, usePendingAcknowledgements } from '@/hooks/use-coastal-data';
+import type { AlertCoverageSummary } from '@/lib/api';
+
+type Grouping = 'by_organization' | 'by_sector' | 'by_role';
+
+const groupings: { key: Grouping; label: string }[] = [
+  { key: 'by_organization', label: 'Organisation' },
+  { key: 'by_sector', label: 'Sector' },
+  { key: 'by_role', label: 'Role' }
+];
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const PendingList: React.FC<{ alertId: string }> = ({ alertId }) => {
+  const { data: pending, isLoading } = usePendingAcknowledgements(alertId);
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Loading recipients...</p>;
+  }
+  if (!pending || pending.length === 0) {
+    return <p className="text-xs text-muted-foreground">Everyone has confirmed.</p>;
+  }
+
+  return (
+    <div className="space-y-1 max-h-48 overflow-y-auto">
+      {pending.map(member => (
+        <div key={member.user_id} className="flex items-center justify-between text-xs">
+          <span className="text-foreground">{member.full_name}</span>
+          <span className="text-muted-foreground">
+            {[member.role, member.organization, member.sector].filter(Boolean).join(' · ')}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const AlertCoverageRow: React.FC<{ summary: AlertCoverageSummary; grouping: Grouping }> = ({ summary, grouping }) => {
+  const [showPending, setShowPending] = useState(false);
+  const { totals } = summary;
+
+  return (
+    <div className="p-3 rounded-lg border border-border/50 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-foreground truncate">{summary.alert.title}</h4>
+        <Badge variant="outline" className="text-xs">{summary.alert.type}</Badge>
+      </div>
+
+      <div className="space-y-1">
+        <Progress value={totals.coverage * 100} />
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>{totals.acknowledged} of {totals.recipients} confirmed ({percent(totals.coverage)})</span>
+          <span>{totals.safe} safe · {totals.need_help} need help</span>
+        </div>
+      </div>
+
+      {summary.need_help.length > 0 && (
+        <div className="p-2 rounded-sm bg-red-50 border border-red-200 space-y-1">
+          {summary.need_help.map(member => (
+            <div key={member.user_id} className="flex items-center space-x-2 text-xs text-red-800">
+              <LifeBuoy className="h-3 w-3" />
+              <span className="font-medium">{member.full_name}</span>
+              {member.phone && <span>{member.phone}</span>}
+              {member.response_notes && <span className="truncate">— {member.response_notes}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {summary[grouping].map(group => (
+          <div key={group.key ?? 'none'} className="flex items-center justify-between text-xs">
+            <span className="text-foreground">{group.key || 'Unassigned'}</span>
+            <span className={group.coverage < 1 ? 'text-warning' : 'text-muted-foreground'}>
+              {group.acknowledged}/{group.recipients} ({percent(group.coverage)})
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {totals.acknowledged < totals.recipients && (
+        <div className="space-y-2">
+          <Button variant="outline" size="sm" className="w-full" onClick={() => setShowPending(!showPending)}>
+            {showPending ? 'Hide' : 'Show'} unconfirmed recipients
+          </Button>
+          {showPending && <PendingList alertId={summary.alert.id} />}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Acknowledgement coverage for live alerts; only staff receive data, so nothing renders for others
+export const AcknowledgementCoverage = () => {
+  const { data: coverage } = useAlertCoverage();
+  const [grouping, setGrouping] = useState<Grouping>('by_organization');
+
+  if (!coverage) return null;
+
+  return (
+    <Card className="shadow-card border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <UserCheck className="h-5 w-5 text-primary" />
+          <span>Acknowledgement Coverage</span>
+        </CardTitle>
+        <div className="flex space-x-1">
+          {groupings.map(option => (
+            <Button
+              key={option.key}
+              size="sm"
+              variant={grouping === option.key ? 'default' : 'ghost'}
+              onClick={() => setGrouping(option.key)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {coverage.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No live alerts.</p>
+        ) : (
+          coverage.map(summary => (
+            <AlertCoverageRow key={summary.alert.id} summary={summary} grouping={grouping} />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
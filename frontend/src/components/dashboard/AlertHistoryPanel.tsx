@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { History } from 'lucide-react';
+import { useAlertRevisionDiff, useAlertRevisions } from '@/hooks/use-coastal-data';
+
+interface AlertHistoryPanelProps {
+  alertId: string;
+}
+
+const fieldLabel = (field: string) =>
+  field.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const formatValue = (field: string, value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (field === 'areas' && Array.isArray(value)) {
+    if (value.length === 0) return 'No areas';
+    return value.map((area: { name?: string | null; area_type?: string }) => area.name || area.area_type).join(', ');
+  }
+  if (field.endsWith('_at') && typeof value === 'string') return new Date(value).toLocaleString();
+  if (typeof value === 'string' || typeof value === 'number') return String(value);
+  return JSON.stringify(value);
+};
+
+export const AlertHistoryPanel: React.FC<AlertHistoryPanelProps> = ({ alertId }) => {
+  const { data: revisions, isLoading } = useAlertRevisions(alertId);
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const latest = revisions && revisions.length > 0 ? revisions[revisions.length - 1].revision_number : null;
+  const shown = selected ?? latest;
+  const { data: diff, isLoading: diffLoading } = useAlertRevisionDiff(alertId, shown);
+
+  return (
+    <Card className="shadow-card border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="h-5 w-5 text-primary" />
+          <span>Revision History</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading revisions…</p>
+        ) : !revisions ? (
+          <p className="text-sm text-muted-foreground">Sign in to see how this alert changed over time.</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No revisions recorded for this alert.</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              {[...revisions].reverse().map(revision => (
+                <button
+                  key={revision.id}
+                  type="button"
+                  onClick={() => setSelected(revision.revision_number)}
+                  className={`w-full text-left p-3 rounded-lg border transition-smooth ${
+                    revision.revision_number === shown ? 'border-primary bg-primary/5' : 'border-border/50 hover:bg-muted/50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-sm font-medium text-foreground">Revision {revision.revision_number}</span>
+                    <Badge variant="outline" className="text-xs">{revision.status}</Badge>
+                  </div>
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>{new Date(revision.created_at).toLocaleString()}</span>
+                    <span>{revision.users?.full_name || 'External source'}</span>
+                  </div>
+                  {revision.changed_fields && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Changed: {revision.changed_fields.map(fieldLabel).join(', ')}
+                    </p>
+                  )}
+                </button>
+              ))}
+            </div>
+
+            {shown && (
+              <div className="border-t border-border/50 pt-4">
+                <h4 className="text-sm font-medium text-foreground mb-3">
+                  {diff?.from
+                    ? `Changes from revision ${diff.from.revision_number} to ${shown}`
+                    : `Revision ${shown} as first issued`}
+                </h4>
+                {diffLoading ? (
+                  <p className="text-sm text-muted-foreground">Loading changes…</p>
+                ) : !diff || diff.changes.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No content changes.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {diff.changes.map(change => (
+                      <div key={change.field} className="text-sm">
+                        <div className="text-xs font-medium text-muted-foreground mb-1">{fieldLabel(change.field)}</div>
+                        {diff.from && (
+                          <div className="px-2 py-1 rounded-sm bg-red-50 text-red-800 line-through break-words">
+                            {formatValue(change.field, change.from)}
+                          </div>
+                        )}
+                        <div className="px-2 py-1 rounded-sm bg-green-50 text-green-800 break-words">
+                          {formatValue(change.field, change.to)}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -15,7 +15,8 @@ import {
   CheckCircle,
   Clock
 } from 'lucide-react';
-import { useOceanographicSummary, useCoastalThreatAssessment } from '@/hooks/use-earthdata';
+import { useOceanographicSummary } from '@/hooks/use-earthdata';
+import { useRiskAssessment } from '@/hooks/use-coastal-data';
 
 interface EarthdataPanelProps {
   boundingBox?: [number, number, number, number];
@@ -27,7 +28,7 @@ export const EarthdataPanel: React.FC<EarthdataPanelProps> = ({
   className = '' 
 }) => {
   const { data: oceanSummary, isLoading } = useOceanographicSummary(boundingBox);
-  const { data: threatAssessment } = useCoastalThreatAssessment(boundingBox);
+  const { data: riskAssessment } = useRiskAssessment();
 
   if (isLoading) {
     return (
@@ -112,8 +113,8 @@ export const EarthdataPanel: React.FC<EarthdataPanelProps> = ({
         <CardTitle className="flex items-center space-x-2">
           <Thermometer className="h-5 w-5 text-primary" />
           <span>NASA Earthdata Ocean Monitoring</span>
-          <Badge variant={threatAssessment?.threatLevel === 'high' ? 'destructive' : 'outline'}>
-            {threatAssessment?.threatLevel || 'low'} Risk
+          <Badge variant={riskAssessment?.riskLevel === 'high' || riskAssessment?.riskLevel === 'critical' ? 'destructive' : 'outline'}>
+            {riskAssessment?.riskLevel || 'low'} Risk
           </Badge>
         </CardTitle>
         <p className="text-sm text-muted-foreground">
@@ -122,21 +123,21 @@ export const EarthdataPanel: React.FC<EarthdataPanelProps> = ({
       </CardHeader>
       <CardContent className="space-y-6">
         {/* Threat Assessment Banner */}
-        {threatAssessment && threatAssessment.threatLevel !== 'low' && (
+        {riskAssessment && riskAssessment.riskLevel !== 'low' && (
           <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
             <div className="flex items-center space-x-3">
               <AlertTriangle className="h-5 w-5 text-red-600" />
               <div className="flex-1">
                 <h4 className="font-semibold text-red-800">
-                  Coastal Threat Alert - Risk Level: {threatAssessment.threatLevel.toUpperCase()}
+                  Coastal Threat Alert - Risk Level: {riskAssessment.riskLevel.toUpperCase()}
                 </h4>
                 <p className="text-sm text-red-700 mt-1">
-                  Threat Score: {threatAssessment.threatScore}/100
+                  Risk Score: {riskAssessment.riskScore}/100
                 </p>
                 <div className="mt-2">
                   <p className="text-sm text-red-700 font-medium">Risk Factors:</p>
                   <ul className="text-sm text-red-600 mt-1 space-y-1">
-                    {threatAssessment.threatFactors.map((factor, index) => (
+                    {riskAssessment.riskFactors.map((factor, index) => (
                       <li key={index}>• {factor}</li>
                     ))}
                   </ul>
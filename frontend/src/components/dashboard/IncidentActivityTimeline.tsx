@@ -0,0 +1,253 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Activity, ClipboardList, Lock, MessageSquare, Reply } from 'lucide-react';
+import { useIncidentActivity, usePostIncidentComment } from '@/hooks/use-coastal-data';
+import { useToast } from '@/hooks/use-toast';
+import type { IncidentActivityItem, IncidentCommentRecord, IncidentCommentVisibility } from '@/lib/api';
+
+interface IncidentActivityTimelineProps {
+  incidentId: string;
+  // Staff may post internal comments; reporters only see and join the public thread
+  canPostInternal: boolean;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  create: 'Reported',
+  triage: 'Triaged',
+  assign: 'Assignment changed',
+  investigate: 'Investigation started',
+  verify: 'Verified',
+  reject: 'Rejected as a false report',
+  resolve: 'Resolved',
+  reopen: 'Reopened',
+  merge: 'Merged',
+  promote: 'Promoted to an alert'
+};
+
+// Highlight @handles so mentions stand out in the thread
+const renderBody = (body: string) =>
+  body.split(/(@[\w.%+-]+(?:@[\w.-]+\.[a-z]{2,})?)/gi).map((part, index) =>
+    part.startsWith('@')
+      ? <span key={index} className="font-medium text-primary">{part}</span>
+      : <React.Fragment key={index}>{part}</React.Fragment>
+  );
+
+interface ComposerProps {
+  incidentId: string;
+  canPostInternal: boolean;
+  parent?: IncidentCommentRecord;
+  onDone?: () => void;
+}
+
+const CommentComposer: React.FC<ComposerProps> = ({ incidentId, canPostInternal, parent, onDone }) => {
+  const postComment = usePostIncidentComment();
+  const { toast } = useToast();
+  const [body, setBody] = useState('');
+  const [fieldNote, setFieldNote] = useState(false);
+  // Internal by default for staff; a reply to an internal thread has to stay internal
+  const [visibility, setVisibility] = useState<IncidentCommentVisibility>(
+    canPostInternal ? 'internal' : 'public'
+  );
+  const visibilityLocked = !canPostInternal || parent?.visibility === 'internal';
+
+  const handleSubmit = () => {
+    if (!body.trim()) return;
+
+    postComment.mutate({
+      incidentId,
+      comment: {
+        body,
+        kind: fieldNote ? 'field_note' : 'comment',
+        visibility: parent?.visibility === 'internal' ? 'internal' : visibility,
+        ...(parent ? { parent_id: parent.id } : {})
+      }
+    }, {
+      onSuccess: () => {
+        setBody('');
+        setFieldNote(false);
+        onDone?.();
+      },
+      onError: (error) => toast({
+        title: 'Could not post comment',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive'
+      })
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(event) => setBody(event.target.value)}
+        placeholder={parent ? 'Write a reply… Use @name to mention a colleague' : 'Post an update… Use @name to mention a colleague'}
+        rows={parent ? 2 : 3}
+      />
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          {canPostInternal && !visibilityLocked && (
+            <div className="flex items-center space-x-2">
+              <Switch
+                id={`visibility-${parent?.id || 'root'}`}
+                checked={visibility === 'public'}
+                onCheckedChange={(checked) => setVisibility(checked ? 'public' : 'internal')}
+              />
+              <Label htmlFor={`visibility-${parent?.id || 'root'}`} className="text-xs">Visible to reporter</Label>
+            </div>
+          )}
+          {canPostInternal && (
+            <div className="flex items-center space-x-2">
+              <Switch
+                id={`field-note-${parent?.id || 'root'}`}
+                checked={fieldNote}
+                onCheckedChange={setFieldNote}
+              />
+              <Label htmlFor={`field-note-${parent?.id || 'root'}`} className="text-xs">Field note</Label>
+            </div>
+          )}
+        </div>
+        <Button size="sm" onClick={handleSubmit} disabled={!body.trim() || postComment.isPending}>
+          {parent ? 'Reply' : 'Post'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const CommentBody: React.FC<{ comment: IncidentCommentRecord }> = ({ comment }) => (
+  <div className="space-y-1">
+    <div className="flex items-center justify-between text-xs text-muted-foreground">
+      <span className="font-medium text-foreground">{comment.users?.full_name || 'Former user'}</span>
+      <div className="flex items-center space-x-2">
+        {comment.kind === 'field_note' && (
+          <Badge variant="outline" className="text-xs">
+            <ClipboardList className="h-3 w-3 mr-1" />
+            Field note
+          </Badge>
+        )}
+        {comment.visibility === 'internal' && (
+          <Badge variant="outline" className="text-xs">
+            <Lock className="h-3 w-3 mr-1" />
+            Internal
+          </Badge>
+        )}
+        <span>{new Date(comment.created_at).toLocaleString()}</span>
+      </div>
+    </div>
+    <p className="text-sm text-foreground whitespace-pre-wrap">{renderBody(comment.body)}</p>
+  </div>
+);
+
+const TimelineEntry: React.FC<{
+  item: IncidentActivityItem;
+  incidentId: string;
+  canPostInternal: boolean;
+}> = ({ item, incidentId, canPostInternal }) => {
+  const [replying, setReplying] = useState(false);
+
+  if (item.type === 'event') {
+    return (
+      <div className="flex items-start space-x-3 text-xs">
+        <Activity className="h-4 w-4 text-muted-foreground mt-0.5" />
+        <div className="flex-1 space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-foreground">
+              <span className="font-medium">{ACTION_LABELS[item.action] || item.action}</span>
+              {item.actor && <span className="text-muted-foreground"> by {item.actor.full_name}</span>}
+            </span>
+            <span className="text-muted-foreground">{new Date(item.created_at).toLocaleString()}</span>
+          </div>
+          {item.from_status !== item.to_status && (
+            <div className="flex items-center space-x-1">
+              {item.from_status && <Badge variant="outline" className="text-xs">{item.from_status}</Badge>}
+              {item.from_status && <span className="text-muted-foreground">→</span>}
+              <Badge variant="outline" className="text-xs">{item.to_status}</Badge>
+            </div>
+          )}
+          {item.notes && <p className="text-muted-foreground">{item.notes}</p>}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`p-3 rounded-lg border space-y-3 ${
+      item.comment.kind === 'field_note' ? 'border-primary/30 bg-primary/5' : 'border-border/50'
+    }`}>
+      <div className="flex items-start space-x-3">
+        <MessageSquare className="h-4 w-4 text-primary mt-0.5" />
+        <div className="flex-1">
+          <CommentBody comment={item.comment} />
+        </div>
+      </div>
+
+      {item.replies.length > 0 && (
+        <div className="ml-7 pl-3 border-l border-border/50 space-y-3">
+          {item.replies.map(reply => <CommentBody key={reply.id} comment={reply} />)}
+        </div>
+      )}
+
+      <div className="ml-7">
+        {replying ? (
+          <CommentComposer
+            incidentId={incidentId}
+            canPostInternal={canPostInternal}
+            parent={item.comment}
+            onDone={() => setReplying(false)}
+          />
+        ) : (
+          <Button variant="ghost" size="sm" onClick={() => setReplying(true)}>
+            <Reply className="h-3 w-3 mr-1" />
+            Reply
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const IncidentActivityTimeline: React.FC<IncidentActivityTimelineProps> = ({ incidentId, canPostInternal }) => {
+  const { data: activity, isLoading } = useIncidentActivity(incidentId);
+
+  return (
+    <Card className="shadow-card border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Activity className="h-5 w-5 text-primary" />
+          <span>Activity</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading activity…</p>
+        ) : !activity ? (
+          <p className="text-sm text-muted-foreground">Sign in to follow this incident.</p>
+        ) : (
+          <>
+            {activity.length === 0 && (
+              <p className="text-sm text-muted-foreground">No activity yet.</p>
+            )}
+            <div className="space-y-4">
+              {activity.map(item => (
+                <TimelineEntry
+                  key={`${item.type}-${item.id}`}
+                  item={item}
+                  incidentId={incidentId}
+                  canPostInternal={canPostInternal}
+                />
+              ))}
+            </div>
+            <div className="border-t border-border/50 pt-4">
+              <CommentComposer incidentId={incidentId} canPostInternal={canPostInternal} />
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
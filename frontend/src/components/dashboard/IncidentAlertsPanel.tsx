@@ -0,0 +1,103 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AlertBadge } from '@/components/ui/alert-badge';
+import { Megaphone } from 'lucide-react';
+import { useDeactivateAlert, usePromoteIncidentToAlert } from '@/hooks/use-coastal-data';
+import { useToast } from '@/hooks/use-toast';
+import type { IncidentAlertSummary, IncidentStatus } from '@/lib/api';
+
+interface IncidentAlertsPanelProps {
+  incidentId: string;
+  incidentStatus: IncidentStatus;
+  alerts: IncidentAlertSummary[];
+  // The alerts that are live or could still go out, as the server counts them
+  openAlerts: IncidentAlertSummary[];
+  // Staff can promote the incident and deactivate its alerts
+  canManage: boolean;
+}
+
+export const IncidentAlertsPanel: React.FC<IncidentAlertsPanelProps> = ({ incidentId, incidentStatus, alerts, openAlerts, canManage }) => {
+  const promote = usePromoteIncidentToAlert();
+  const deactivate = useDeactivateAlert();
+  const { toast } = useToast();
+
+  const canPromote = canManage && incidentStatus === 'verified' && openAlerts.length === 0;
+  // Once the incident is resolved, anything still out about it probably should not be
+  const staleAlerts = canManage && incidentStatus === 'resolved' ? openAlerts : [];
+
+  const handlePromote = () => {
+    promote.mutate(incidentId, {
+      onSuccess: (alert) => toast({
+        title: 'Alert draft created',
+        description: `"${alert.title}" is waiting for review in the Alert Center.`
+      }),
+      onError: (error) => toast({
+        title: 'Could not create alert',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive'
+      })
+    });
+  };
+
+  const handleDeactivate = (alert: IncidentAlertSummary) => {
+    deactivate.mutate({ alertId: alert.id, notes: 'Incident resolved' }, {
+      onSuccess: () => toast({ title: 'Alert deactivated', description: `"${alert.title}" is no longer active.` }),
+      onError: (error) => toast({
+        title: 'Could not deactivate alert',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive'
+      })
+    });
+  };
+
+  if (alerts.length === 0 && !canPromote) return null;
+
+  return (
+    <Card className="shadow-card border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Megaphone className="h-5 w-5 text-primary" />
+          <span>Alerts</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {staleAlerts.length > 0 && (
+          <div className="p-3 rounded-lg bg-warning/10 border border-warning/30 text-sm text-foreground">
+            This incident is resolved, but {staleAlerts.length === 1 ? 'an alert about it is' : 'alerts about it are'} still open.
+            Deactivate {staleAlerts.length === 1 ? 'it' : 'them'} if the public no longer needs to act.
+          </div>
+        )}
+
+        {alerts.map(alert => (
+          <div key={alert.id} className="p-3 rounded-lg border border-border/50 space-y-2">
+            <div className="flex items-start justify-between gap-2">
+              <Link to="/alerts" className="text-sm font-medium text-foreground hover:underline">{alert.title}</Link>
+              <AlertBadge variant={alert.type} size="sm" />
+            </div>
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <Badge variant="outline" className="text-xs">{alert.status}</Badge>
+              <span>{new Date(alert.published_at || alert.created_at).toLocaleString()}</span>
+            </div>
+            {staleAlerts.includes(alert) && (
+              <div className="flex justify-end">
+                <Button size="sm" variant="destructive" disabled={deactivate.isPending} onClick={() => handleDeactivate(alert)}>
+                  Deactivate
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {canPromote && (
+          <Button className="w-full" variant="outline" disabled={promote.isPending} onClick={handlePromote}>
+            <Megaphone className="h-4 w-4 mr-2" />
+            Promote to alert
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
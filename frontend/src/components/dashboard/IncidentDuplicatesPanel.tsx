@@ -0,0 +1,105 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Copy, GitMerge, X } from 'lucide-react';
+import { useDismissIncidentDuplicate, useIncidentDuplicates, useMergeIncidents } from '@/hooks/use-coastal-data';
+import { useToast } from '@/hooks/use-toast';
+import type { IncidentDuplicate } from '@/lib/api';
+
+interface IncidentDuplicatesPanelProps {
+  incidentId: string;
+}
+
+// Which signals made two reports look alike, strongest first
+const describeMatch = ({ breakdown }: IncidentDuplicate) => [
+  breakdown.type === 1 ? 'same type' : breakdown.type > 0 ? 'related type' : null,
+  breakdown.distance_km !== null ? `${breakdown.distance_km.toFixed(1)} km apart` : breakdown.distance > 0 ? 'same area' : null,
+  breakdown.time >= 0.5 ? 'close in time' : null,
+  breakdown.text >= 0.3 ? 'similar description' : null
+].filter(Boolean).join(' · ');
+
+export const IncidentDuplicatesPanel: React.FC<IncidentDuplicatesPanelProps> = ({ incidentId }) => {
+  const { data: duplicates, isLoading } = useIncidentDuplicates(incidentId);
+  const mergeIncidents = useMergeIncidents();
+  const dismissDuplicate = useDismissIncidentDuplicate();
+  const { toast } = useToast();
+
+  const onError = (title: string) => (error: unknown) => toast({
+    title,
+    description: error instanceof Error ? error.message : 'Please try again.',
+    variant: 'destructive'
+  });
+
+  const merge = (duplicate: IncidentDuplicate) => {
+    mergeIncidents.mutate(
+      { parentId: incidentId, incidentIds: [duplicate.incident.id] },
+      {
+        onSuccess: () => toast({
+          title: 'Reports merged',
+          description: `"${duplicate.incident.incident_title}" now follows this incident.`
+        }),
+        onError: onError('Could not merge reports')
+      }
+    );
+  };
+
+  const dismiss = (duplicate: IncidentDuplicate) => {
+    dismissDuplicate.mutate(
+      { incidentId, otherId: duplicate.incident.id },
+      { onError: onError('Could not dismiss suggestion') }
+    );
+  };
+
+  if (isLoading || !duplicates || duplicates.length === 0) return null;
+
+  return (
+    <Card className="shadow-card border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Copy className="h-5 w-5 text-primary" />
+          <span>Possible duplicates</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {duplicates.map(duplicate => (
+          <div key={duplicate.incident.id} className="p-3 rounded-lg border border-border/50 space-y-2">
+            <div className="flex items-start justify-between gap-2">
+              <Link to={`/reports/${duplicate.incident.id}`} className="text-sm font-medium text-foreground hover:underline">
+                {duplicate.incident.incident_title}
+              </Link>
+              <Badge variant="outline" className="text-xs shrink-0">{Math.round(duplicate.score * 100)}% match</Badge>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {duplicate.incident.location} · {new Date(duplicate.incident.date_time).toLocaleString()}
+              {duplicate.incident.users ? ` · ${duplicate.incident.users.full_name}` : ''}
+            </p>
+            <p className="text-xs text-muted-foreground">{describeMatch(duplicate)}</p>
+            <div className="flex justify-end space-x-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => dismiss(duplicate)}
+                disabled={dismissDuplicate.isPending}
+              >
+                <X className="h-3 w-3 mr-1" />
+                Not a duplicate
+              </Button>
+              {/* Merging is limited to authorities; the server says so if the caller is not one */}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => merge(duplicate)}
+                disabled={mergeIncidents.isPending}
+              >
+                <GitMerge className="h-3 w-3 mr-1" />
+                Merge here
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
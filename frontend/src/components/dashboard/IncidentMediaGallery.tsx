@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Camera, Film, Image as ImageIcon, MapPinOff } from 'lucide-react';
+import { useIncidentMedia } from '@/hooks/use-coastal-data';
+import { coastalAPI, type IncidentMediaRecord } from '@/lib/api';
+
+interface IncidentMediaGalleryProps {
+  incidentId: string;
+  title?: string;
+}
+
+// Media needs the access token, so thumbnails are fetched as blobs rather than linked directly
+const MediaTile: React.FC<{ media: IncidentMediaRecord }> = ({ media }) => {
+  const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (media.status !== 'ready' || !media.has_thumbnail) return;
+
+    let url: string | null = null;
+    let cancelled = false;
+    coastalAPI.getIncidentMediaFile(media.id, 'thumbnail')
+      .then(blob => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setThumbnailUrl(url);
+      })
+      .catch(error => console.warn('Thumbnail unavailable:', error));
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [media.id, media.status, media.has_thumbnail]);
+
+  const openFile = async () => {
+    const blob = await coastalAPI.getIncidentMediaFile(media.id);
+    const url = URL.createObjectURL(blob);
+    window.open(url, '_blank', 'noopener');
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  };
+
+  const ready = media.status === 'ready';
+  const Icon = media.media_type === 'video' ? Film : ImageIcon;
+
+  return (
+    <button
+      type="button"
+      onClick={() => openFile().catch(error => console.warn('Media unavailable:', error))}
+      disabled={!ready}
+      className="text-left space-y-1 disabled:cursor-default"
+    >
+      <div className="relative h-24 rounded-lg bg-muted/40 border border-border/50 overflow-hidden flex items-center justify-center">
+        {thumbnailUrl ? (
+          <img src={thumbnailUrl} alt={media.filename} className="w-full h-full object-cover" />
+        ) : (
+          <Icon className="h-6 w-6 text-muted-foreground" />
+        )}
+        {media.media_type === 'video' && thumbnailUrl && (
+          <Film className="absolute bottom-1 left-1 h-4 w-4 text-white drop-shadow" />
+        )}
+      </div>
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span className="truncate">{media.filename}</span>
+        {media.location_stripped && <MapPinOff className="h-3 w-3 shrink-0" aria-label="Location removed" />}
+      </div>
+      {!ready && (
+        <Badge variant="outline" className="text-xs">
+          {media.status === 'failed' ? 'Failed' : 'Processing'}
+        </Badge>
+      )}
+    </button>
+  );
+};
+
+export const IncidentMediaGallery: React.FC<IncidentMediaGalleryProps> = ({ incidentId, title = 'Evidence' }) => {
+  const { data: media, isLoading } = useIncidentMedia(incidentId);
+
+  return (
+    <Card className="shadow-card border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Camera className="h-5 w-5 text-primary" />
+          <span>{title}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading media…</p>
+        ) : !media || media.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No photos or videos were attached.</p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {media.map(item => <MediaTile key={item.id} media={item} />)}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,92 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Check, Inbox, Ban, X } from 'lucide-react';
+import { useApprovePublicReport, usePublicReportQueue, useRejectPublicReport } from '@/hooks/use-coastal-data';
+import { useToast } from '@/hooks/use-toast';
+import type { PublicReportRecord } from '@/lib/api';
+
+// Reports sent without an account, waiting for staff to let them into the incident workflow
+export const PublicReportQueue: React.FC = () => {
+  const { data: reports, isLoading } = usePublicReportQueue();
+  const approve = useApprovePublicReport();
+  const reject = useRejectPublicReport();
+  const { toast } = useToast();
+
+  const onError = (title: string) => (error: unknown) => toast({
+    title,
+    description: error instanceof Error ? error.message : 'Please try again.',
+    variant: 'destructive'
+  });
+
+  const handleApprove = (report: PublicReportRecord) => {
+    approve.mutate({ reportId: report.id }, {
+      onSuccess: (incident) => toast({
+        title: 'Report approved',
+        description: `"${incident.incident_title}" is now a pending incident.`
+      }),
+      onError: onError('Could not approve report')
+    });
+  };
+
+  const handleReject = (report: PublicReportRecord, spam: boolean) => {
+    reject.mutate({ reportId: report.id, spam }, {
+      onSuccess: () => toast({ title: spam ? 'Marked as spam' : 'Report rejected' }),
+      onError: onError('Could not reject report')
+    });
+  };
+
+  // Only staff get a queue back
+  if (isLoading || !reports) return null;
+
+  return (
+    <Card className="shadow-card border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Inbox className="h-5 w-5 text-primary" />
+          <span>Public Reports</span>
+          {reports.length > 0 && <Badge variant="secondary" className="text-xs">{reports.length}</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {reports.length === 0 && (
+          <p className="text-sm text-muted-foreground">Nothing waiting for review.</p>
+        )}
+        {reports.map(report => (
+          <div key={report.id} className="p-3 rounded-lg border border-border/50 space-y-2">
+            <div className="flex items-start justify-between gap-2">
+              <span className="text-sm font-medium text-foreground">{report.report.incident_title}</span>
+              <Badge variant="outline" className="text-xs shrink-0">{report.report.severity}</Badge>
+            </div>
+            <p className="text-xs text-muted-foreground line-clamp-3">{report.report.description}</p>
+            <p className="text-xs text-muted-foreground">
+              {report.report.incident_type} · {report.report.location} · {new Date(report.report.date_time).toLocaleString()}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {report.contact_name || report.contact_email || report.contact_phone
+                ? `From ${[report.contact_name, report.contact_email, report.contact_phone].filter(Boolean).join(', ')}`
+                : 'Anonymous'}
+              {report.device_report_count > 1 && ` · ${report.device_report_count} reports from this device`}
+              {report.device_spam_count > 0 && ` (${report.device_spam_count} spam)`}
+            </p>
+            <div className="flex justify-end space-x-2">
+              <Button variant="ghost" size="sm" onClick={() => handleReject(report, true)} disabled={reject.isPending}>
+                <Ban className="h-3 w-3 mr-1" />
+                Spam
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => handleReject(report, false)} disabled={reject.isPending}>
+                <X className="h-3 w-3 mr-1" />
+                Reject
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleApprove(report)} disabled={approve.isPending}>
+                <Check className="h-3 w-3 mr-1" />
+                Approve
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
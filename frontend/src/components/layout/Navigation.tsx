@@ -15,7 +15,8 @@ import {
   Leaf,
   Fish,
   Users,
-  Satellite
+  Satellite,
+  PieChart
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
@@ -47,6 +48,7 @@ const getNavigationItems = (userRole?: string) => {
     { name: 'Alerts', href: '/alerts', icon: AlertTriangle, requiredPermission: 'canCreateAlerts' },
     { name: 'AI Predictions', href: '/predictions', icon: Brain, requiredPermission: 'canViewPredictions' },
     { name: 'Report Incident', href: '/reports', icon: FileText, requiredPermission: 'canCreateAlerts' },
+    { name: 'Analytics', href: '/analytics', icon: PieChart, requiredPermission: 'canAccessReports' },
     { name: 'Earthdata', href: '/earthdata', icon: Satellite, requiredPermission: 'canViewAllData' },
     { name: 'Resources', href: '/resources', icon: MapPin, requiredPermission: 'canViewAllData' },
     { name: 'Education', href: '/education', icon: GraduationCap, requiredPermission: 'canViewAllData' },
@@ -2,7 +2,8 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { useOceanographicSummary, useCoastalThreatAssessment } from '@/hooks/use-earthdata';
+import { useOceanographicSummary } from '@/hooks/use-earthdata';
+import { useRiskAssessment } from '@/hooks/use-coastal-data';
 import { AlertTriangle } from 'lucide-react';
 
 interface DynamicPredictionCardProps {
@@ -19,7 +20,7 @@ export const DynamicPredictionCard: React.FC<DynamicPredictionCardProps> = ({
   className = ''
 }) => {
   const { data: oceanSummary, isLoading } = useOceanographicSummary();
-  const { data: threatAssessment } = useCoastalThreatAssessment();
+  const { data: riskAssessment } = useRiskAssessment();
 
   const getParameterData = () => {
     if (!oceanSummary) return null;
@@ -207,15 +208,15 @@ export const DynamicPredictionCard: React.FC<DynamicPredictionCardProps> = ({
 
         <p className="text-sm text-muted-foreground">{predictionData.details}</p>
         
-        {/* Additional threat assessment info */}
-        {threatAssessment && threatAssessment.overallRisk !== 'low' && (
+        {/* Backend risk assessment info */}
+        {riskAssessment && riskAssessment.riskLevel !== 'low' && riskAssessment.recommendations.length > 0 && (
           <div className="mt-3 p-2 bg-warning/10 border border-warning/20 rounded-lg">
             <div className="flex items-center space-x-2 text-warning-600">
               <AlertTriangle className="h-4 w-4" />
               <span className="text-xs font-medium">Threat Assessment Active</span>
             </div>
             <p className="text-xs text-warning-600 mt-1">
-              {threatAssessment.recommendations[0]}
+              {riskAssessment.recommendations[0]}
             </p>
           </div>
         )}
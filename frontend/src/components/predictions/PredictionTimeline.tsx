@@ -14,6 +14,11 @@ import {
   Activity
 } from 'lucide-react';
 import { useOceanographicSummary, useHistoricalTrends } from '@/hooks/use-earthdata';
+import { usePersistedPredictions } from '@/hooks/use-coastal-data';
+import type { PersistedPrediction } from '@/lib/api';
+
+// Parameters the backend stores forecasts for (see `prediction_parameter` enum)
+const PERSISTED_PARAMETERS = ['sst', 'seaLevel', 'chlorophyll', 'wind'];
 
 interface TimelineDataPoint {
   date: string;
@@ -24,6 +29,7 @@ interface TimelineDataPoint {
   trend: 'increasing' | 'decreasing' | 'stable';
   anomaly?: number;
   prediction: string;
+  model?: string;
 }
 
 interface PredictionTimelineProps {
@@ -37,6 +43,54 @@ export const PredictionTimeline: React.FC<PredictionTimelineProps> = ({ classNam
   
   const { data: oceanSummary } = useOceanographicSummary();
   const { data: historicalData } = useHistoricalTrends(selectedParameter, 30);
+  const timeframeDays = selectedTimeframe === '7d' ? 7 : selectedTimeframe === '14d' ? 14 : 30;
+  const { data: persistedPredictions } = usePersistedPredictions(
+    PERSISTED_PARAMETERS.includes(selectedParameter) ? selectedParameter : '',
+    timeframeDays
+  );
+
+  // Build one row per day from stored forecasts, preferring the shortest horizon
+  const buildPersistedTimeline = (predictions: PersistedPrediction[]): TimelineDataPoint[] => {
+    const byDay = new Map<string, PersistedPrediction>();
+    for (const prediction of predictions) {
+      const day = prediction.valid_from.split('T')[0];
+      const current = byDay.get(day);
+      if (!current || prediction.prediction_horizon_hours < current.prediction_horizon_hours) {
+        byDay.set(day, prediction);
+      }
+    }
+
+    const days = [...byDay.keys()].sort();
+    return days.map((day, index) => {
+      const prediction = byDay.get(day)!;
+      const value = Number(prediction.value);
+      const previous = index > 0 ? Number(byDay.get(days[index - 1])!.value) : value;
+      const change = previous !== 0 ? (value - previous) / Math.abs(previous) : 0;
+      const trend: TimelineDataPoint['trend'] =
+        Math.abs(change) < 0.01 ? 'stable' : change > 0 ? 'increasing' : 'decreasing';
+      const model = prediction.prediction_models
+        ? `${prediction.prediction_models.name} v${prediction.prediction_models.version}`
+        : prediction.model_version || undefined;
+
+      return {
+        date: day,
+        value: Math.round(value * 100) / 100,
+        unit: prediction.unit || '',
+        confidence: Math.round(prediction.confidence ?? 0),
+        risk: getValueRisk(selectedParameter, value),
+        trend,
+        prediction: generatePrediction(selectedParameter, value, trend, index),
+        model
+      };
+    });
+  };
+
+  const getValueRisk = (param: string, value: number): TimelineDataPoint['risk'] => {
+    if (param === 'sst' && value > 30) return 'medium';
+    if (param === 'wind' && value > 20) return 'medium';
+    if (param === 'chlorophyll' && value > 1.5) return 'medium';
+    return 'low';
+  };
 
   // Generate dynamic timeline data based on selected parameter
   const generateTimelineData = (): TimelineDataPoint[] => {
@@ -171,7 +225,11 @@ export const PredictionTimeline: React.FC<PredictionTimelineProps> = ({ classNam
     }
   };
 
-  const timelineData = generateTimelineData();
+  const persistedTimeline = persistedPredictions?.length
+    ? buildPersistedTimeline(persistedPredictions)
+    : [];
+  const timelineData = persistedTimeline.length > 0 ? persistedTimeline : generateTimelineData();
+  const timelineModels = [...new Set(persistedTimeline.map(point => point.model).filter(Boolean))];
 
   if (isLoading) {
     return (
@@ -233,6 +291,11 @@ export const PredictionTimeline: React.FC<PredictionTimelineProps> = ({ classNam
             </Select>
           </div>
         </div>
+        <div className="text-xs text-muted-foreground mt-2">
+          {timelineModels.length > 0
+            ? `Stored forecasts from ${timelineModels.join(', ')}`
+            : 'No stored forecasts for this parameter; showing trend-based estimates'}
+        </div>
       </CardHeader>
       <CardContent>
         {timelineData.length > 0 ? (
@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User, AuthState, authService, LoginCredentials, RegistrationData } from '@/lib/auth';
+import { onSessionEnded } from '@/lib/backend-api';
 
 interface AuthContextType extends AuthState {
   login: (credentials: LoginCredentials) => Promise<void>;
@@ -52,6 +53,17 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     };
 
     initializeAuth();
+
+    // The backend refused the refresh token (expired, revoked or reused): sign out here too
+    return onSessionEnded(() => {
+      authService.clearCurrentUser();
+      setState({
+        user: null,
+        isAuthenticated: false,
+        isLoading: false,
+        error: 'Your session has ended. Please sign in again.'
+      });
+    });
   }, []);
 
   const login = async (credentials: LoginCredentials) => {
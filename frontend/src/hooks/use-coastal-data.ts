@@ -1,5 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { coastalAPI, type SensorData, type Alert, type Prediction, type HistoricalData } from '@/lib/api';
+import { coastalAPI, type SensorData, type Alert, type Prediction, type HistoricalData, type AcknowledgementResponse, type NewIncidentComment, type PublicReportStatus, type IncidentRecord, type IncidentAnalyticsQuery } from '@/lib/api';
+import { getAccessToken } from '@/lib/backend-api';
+import { connectRealtime, type RealtimeStatus } from '@/lib/realtime';
 import React from 'react'; // Added missing import for React.useEffect
 
 // Query keys for React Query
@@ -8,6 +10,23 @@ export const queryKeys = {
   sensor: (id: string) => ['sensor', id] as const,
   alerts: ['alerts'] as const,
   predictions: ['predictions'] as const,
+  persistedPredictions: (parameter: string, days: number) =>
+    ['persistedPredictions', parameter, days] as const,
+  riskAssessments: ['riskAssessments'] as const,
+  alertRecords: ['alertRecords'] as const,
+  alertRevisions: (alertId: string) => ['alertRevisions', alertId] as const,
+  alertRevisionDiff: (alertId: string, to: number, from?: number) =>
+    ['alertRevisionDiff', alertId, to, from] as const,
+  alertCoverage: ['alertCoverage'] as const,
+  pendingAcknowledgements: (alertId: string) => ['pendingAcknowledgements', alertId] as const,
+  incidents: ['incidents'] as const,
+  incident: (incidentId: string) => ['incident', incidentId] as const,
+  incidentActivity: (incidentId: string) => ['incidentActivity', incidentId] as const,
+  incidentMedia: (incidentId: string) => ['incidentMedia', incidentId] as const,
+  incidentDuplicates: (incidentId: string) => ['incidentDuplicates', incidentId] as const,
+  incidentClusters: ['incidentClusters'] as const,
+  publicReports: (status: PublicReportStatus) => ['publicReports', status] as const,
+  incidentAnalytics: (query: IncidentAnalyticsQuery) => ['incidentAnalytics', query] as const,
   historicalData: (sensorId: string, parameter: string, days: number) => 
     ['historicalData', sensorId, parameter, days] as const,
 };
@@ -42,6 +61,241 @@ export const useAlerts = () => {
   });
 };
 
+// Hook for fetching authored alerts from the backend (null when signed out)
+export const useAlertRecords = () => {
+  return useQuery({
+    queryKey: queryKeys.alertRecords,
+    queryFn: () => coastalAPI.getAlertRecords(),
+    staleTime: 15000,
+    refetchInterval: 30000,
+  });
+};
+
+// Hook for an alert's revision history
+export const useAlertRevisions = (alertId: string | null) => {
+  return useQuery({
+    queryKey: queryKeys.alertRevisions(alertId || ''),
+    queryFn: () => coastalAPI.getAlertRevisions(alertId!),
+    enabled: !!alertId,
+    staleTime: 30000,
+  });
+};
+
+// Hook for the changes made in one revision (revisions never change, so no refetch)
+export const useAlertRevisionDiff = (alertId: string | null, to: number | null, from?: number) => {
+  return useQuery({
+    queryKey: queryKeys.alertRevisionDiff(alertId || '', to || 0, from),
+    queryFn: () => coastalAPI.getAlertRevisionDiff(alertId!, to!, from),
+    enabled: !!alertId && !!to,
+    staleTime: Infinity,
+  });
+};
+
+// Hook for acknowledging an alert from this browser
+export const useAcknowledgeAlert = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ alertId, response }: { alertId: string; response?: AcknowledgementResponse }) =>
+      coastalAPI.acknowledgeAlert(alertId, response),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.alertCoverage });
+    },
+  });
+};
+
+export const usePromoteIncidentToAlert = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (incidentId: string) => coastalAPI.promoteIncidentToAlert(incidentId),
+    onSuccess: (_, incidentId) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.incident(incidentId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.incidentActivity(incidentId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.alertRecords });
+    },
+  });
+};
+
+export const useDeactivateAlert = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ alertId, notes }: { alertId: string; notes?: string }) => coastalAPI.deactivateAlert(alertId, notes),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.alertRecords });
+      queryClient.invalidateQueries({ queryKey: ['incident'] });
+    },
+  });
+};
+
+// Hook for acknowledgement coverage of live alerts (null for non-staff or signed out)
+export const useAlertCoverage = () => {
+  return useQuery({
+    queryKey: queryKeys.alertCoverage,
+    queryFn: () => coastalAPI.getAlertCoverage(),
+    staleTime: 15000,
+    refetchInterval: 30000,
+  });
+};
+
+// Hook for the recipients of an alert who have not confirmed it
+export const usePendingAcknowledgements = (alertId: string | null) => {
+  return useQuery({
+    queryKey: queryKeys.pendingAcknowledgements(alertId || ''),
+    queryFn: () => coastalAPI.getPendingAcknowledgements(alertId!),
+    enabled: !!alertId,
+    staleTime: 15000,
+  });
+};
+
+// Hook for incident reports stored by the backend (null when signed out)
+export const useIncidentRecords = () => {
+  return useQuery({
+    queryKey: queryKeys.incidents,
+    queryFn: () => coastalAPI.getIncidentRecords(),
+    staleTime: 15000,
+    refetchInterval: 60000,
+  });
+};
+
+export const useIncidentRecord = (incidentId: string | null) => {
+  return useQuery({
+    queryKey: queryKeys.incident(incidentId || ''),
+    queryFn: () => coastalAPI.getIncidentRecord(incidentId!),
+    enabled: !!incidentId,
+    staleTime: 15000,
+  });
+};
+
+// Hook for an incident's activity timeline
+export const useIncidentActivity = (incidentId: string | null) => {
+  return useQuery({
+    queryKey: queryKeys.incidentActivity(incidentId || ''),
+    queryFn: () => coastalAPI.getIncidentActivity(incidentId!),
+    enabled: !!incidentId,
+    staleTime: 15000,
+  });
+};
+
+// Hook for the photos and videos attached to an incident; polls while files are still being stored
+export const useIncidentMedia = (incidentId: string | null) => {
+  return useQuery({
+    queryKey: queryKeys.incidentMedia(incidentId || ''),
+    queryFn: () => coastalAPI.getIncidentMedia(incidentId!),
+    enabled: !!incidentId,
+    staleTime: 15000,
+    refetchInterval: (query) =>
+      query.state.data?.some(media => media.status === 'uploading' || media.status === 'uploaded') ? 5000 : false,
+  });
+};
+
+// Hook for likely duplicates of an incident (staff only)
+export const useIncidentDuplicates = (incidentId: string | null, enabled = true) => {
+  return useQuery({
+    queryKey: queryKeys.incidentDuplicates(incidentId || ''),
+    queryFn: () => coastalAPI.getIncidentDuplicates(incidentId!),
+    enabled: !!incidentId && enabled,
+    staleTime: 15000,
+  });
+};
+
+// Hook for incident clusters with their combined extent (staff only)
+export const useIncidentClusters = (includeSuggested = false) => {
+  return useQuery({
+    queryKey: [...queryKeys.incidentClusters, includeSuggested],
+    queryFn: () => coastalAPI.getIncidentClusters(includeSuggested),
+    staleTime: 30000,
+  });
+};
+
+// Hook for aggregate incident figures, scoped by the backend to what the caller may see
+export const useIncidentAnalytics = (query: IncidentAnalyticsQuery) => {
+  return useQuery({
+    queryKey: queryKeys.incidentAnalytics(query),
+    queryFn: () => coastalAPI.getIncidentAnalytics(query),
+    staleTime: 60000,
+  });
+};
+
+export const useMergeIncidents = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ parentId, incidentIds, notes }: { parentId: string; incidentIds: string[]; notes?: string }) =>
+      coastalAPI.mergeIncidents(parentId, incidentIds, notes),
+    onSuccess: (_, { parentId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.incidents });
+      queryClient.invalidateQueries({ queryKey: ['incident'] });
+      queryClient.invalidateQueries({ queryKey: ['incidentDuplicates'] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.incidentClusters });
+      queryClient.invalidateQueries({ queryKey: queryKeys.incidentMedia(parentId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.incidentActivity(parentId) });
+    },
+  });
+};
+
+export const useDismissIncidentDuplicate = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ incidentId, otherId }: { incidentId: string; otherId: string }) =>
+      coastalAPI.dismissIncidentDuplicate(incidentId, otherId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['incidentDuplicates'] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.incidentClusters });
+    },
+  });
+};
+
+// Hook for the queue of reports sent without an account (staff only)
+export const usePublicReportQueue = (status: PublicReportStatus = 'pending') => {
+  return useQuery({
+    queryKey: queryKeys.publicReports(status),
+    queryFn: () => coastalAPI.getPublicReportQueue(status),
+    staleTime: 15000,
+  });
+};
+
+export const useApprovePublicReport = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ reportId, corrections }: {
+      reportId: string;
+      corrections?: { incident_type?: string; severity?: IncidentRecord['severity']; sector?: string | null; notes?: string };
+    }) => coastalAPI.approvePublicReport(reportId, corrections),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['publicReports'] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.incidents });
+    },
+  });
+};
+
+export const useRejectPublicReport = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ reportId, spam, notes }: { reportId: string; spam: boolean; notes?: string }) =>
+      coastalAPI.rejectPublicReport(reportId, spam, notes),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['publicReports'] });
+    },
+  });
+};
+
+export const usePostIncidentComment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ incidentId, comment }: { incidentId: string; comment: NewIncidentComment }) =>
+      coastalAPI.postIncidentComment(incidentId, comment),
+    onSuccess: (_, { incidentId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.incidentActivity(incidentId) });
+    },
+  });
+};
+
 // Hook for fetching predictions
 export const usePredictions = () => {
   return useQuery({
@@ -52,6 +306,17 @@ export const usePredictions = () => {
   });
 };
 
+// Hook for fetching stored forecasts from the backend
+export const usePersistedPredictions = (parameter: string, days: number) => {
+  return useQuery({
+    queryKey: queryKeys.persistedPredictions(parameter, days),
+    queryFn: () => coastalAPI.getPersistedPredictions(parameter, days),
+    enabled: !!parameter,
+    staleTime: 60000, // 1 minute
+    refetchInterval: 300000, // Refetch every 5 minutes
+  });
+};
+
 // Hook for fetching historical data
 export const useHistoricalData = (sensorId: string, parameter: string, days: number = 30) => {
   return useQuery({
@@ -96,13 +361,72 @@ export const useUpdateSensorReading = () => {
   });
 };
 
+const COVERAGE_REFRESH_INTERVAL_MS = 10000;
+
 // Hook for real-time data updates (WebSocket simulation)
 export const useRealTimeUpdates = () => {
   const queryClient = useQueryClient();
+  const [status, setStatus] = React.useState<RealtimeStatus>('closed');
   
-  // This would typically use WebSocket or Server-Sent Events
-  // For now, we'll simulate real-time updates with setInterval
+  // Signed-in users get pushed changes from the backend stream
   React.useEffect(() => {
+    if (!getAccessToken()) return;
+
+    // Acknowledgements arrive in bursts once an alert goes out; refetch coverage at most
+    // once per interval, with a trailing refetch for the last of a burst
+    let coverageTimer: ReturnType<typeof setTimeout> | undefined;
+    let lastCoverageRefresh = 0;
+    const refreshCoverage = () => {
+      lastCoverageRefresh = Date.now();
+      coverageTimer = undefined;
+      queryClient.invalidateQueries({ queryKey: queryKeys.alertCoverage });
+      queryClient.invalidateQueries({ queryKey: ['pendingAcknowledgements'] });
+    };
+    const scheduleCoverageRefresh = () => {
+      if (coverageTimer) return;
+      const wait = Math.max(0, lastCoverageRefresh + COVERAGE_REFRESH_INTERVAL_MS - Date.now());
+      coverageTimer = setTimeout(refreshCoverage, wait);
+    };
+
+    const disconnect = connectRealtime({
+      onStatusChange: setStatus,
+      onEvent: (event) => {
+        if (event.type === 'alert.acknowledged') {
+          scheduleCoverageRefresh();
+        } else if (event.type.startsWith('alert.')) {
+          queryClient.invalidateQueries({ queryKey: queryKeys.alerts });
+          queryClient.invalidateQueries({ queryKey: queryKeys.alertRecords });
+          queryClient.invalidateQueries({ queryKey: ['alertRevisions'] });
+          queryClient.invalidateQueries({ queryKey: queryKeys.alertCoverage });
+          queryClient.invalidateQueries({ queryKey: ['pendingAcknowledgements'] });
+          queryClient.invalidateQueries({ queryKey: queryKeys.riskAssessments });
+        } else if (event.type === 'reading.created') {
+          const sensorId = String(event.data.sensor_id);
+          queryClient.invalidateQueries({ queryKey: queryKeys.sensors });
+          queryClient.invalidateQueries({ queryKey: queryKeys.sensor(sensorId) });
+          queryClient.invalidateQueries({ queryKey: ['historicalData', sensorId] });
+        } else if (event.type.startsWith('incident.')) {
+          queryClient.invalidateQueries({ queryKey: queryKeys.incidents });
+          queryClient.invalidateQueries({ queryKey: ['incident'] });
+          queryClient.invalidateQueries({ queryKey: ['incidentActivity'] });
+          queryClient.invalidateQueries({ queryKey: ['incidentDuplicates'] });
+          queryClient.invalidateQueries({ queryKey: queryKeys.incidentClusters });
+          queryClient.invalidateQueries({ queryKey: ['publicReports'] });
+          queryClient.invalidateQueries({ queryKey: ['incidentAnalytics'] });
+        }
+      }
+    });
+
+    return () => {
+      clearTimeout(coverageTimer);
+      disconnect();
+    };
+  }, [queryClient]);
+
+  // Fall back to polling while the stream is not open
+  React.useEffect(() => {
+    if (status === 'open') return;
+
     const interval = setInterval(() => {
       // Invalidate queries to trigger refetches
       queryClient.invalidateQueries({ queryKey: queryKeys.sensors });
@@ -110,9 +434,9 @@ export const useRealTimeUpdates = () => {
     }, 30000); // Every 30 seconds
 
     return () => clearInterval(interval);
-  }, [queryClient]);
+  }, [queryClient, status]);
 
-  return null;
+  return status;
 };
 
 // Hook for getting sensor statistics
@@ -191,70 +515,38 @@ export const useAlertStatistics = () => {
   };
 };
 
-// Hook for getting coastal threat risk assessment
+// Hook for fetching the backend's per-sector risk assessments
+export const useSectorRiskAssessments = () => {
+  return useQuery({
+    queryKey: queryKeys.riskAssessments,
+    queryFn: () => coastalAPI.getRiskAssessments(),
+    staleTime: 60000, // 1 minute
+    refetchInterval: 300000, // Refetch every 5 minutes
+  });
+};
+
+// Hook for getting coastal threat risk assessment, as scored by the backend
+// so every role and every panel sees the same result
 export const useRiskAssessment = () => {
-  const { data: sensors, isLoading: sensorsLoading } = useSensors();
-  const { data: alerts, isLoading: alertsLoading } = useAlerts();
-  const { data: predictions, isLoading: predictionsLoading } = usePredictions();
+  const { data: sectorAssessments, isLoading } = useSectorRiskAssessments();
   
   const riskAssessment = React.useMemo(() => {
-    if (!sensors || !alerts || !predictions) return null;
-    
-    // Calculate overall risk based on multiple factors
-    let riskScore = 0;
-    let riskFactors: string[] = [];
-    
-    // Factor 1: Active alerts
-    const activeAlerts = alerts.filter(a => a.status === 'active');
-    if (activeAlerts.length > 0) {
-      const highSeverityAlerts = activeAlerts.filter(a => 
-        a.severity === 'high' || a.severity === 'critical'
-      );
-      riskScore += highSeverityAlerts.length * 25;
-      riskFactors.push(`${highSeverityAlerts.length} high-severity alerts active`);
-    }
-    
-    // Factor 2: Sensor warnings
-    const warningSensors = sensors.filter(s => {
-      const latestReading = s.readings[s.readings.length - 1];
-      return latestReading && latestReading.status === 'warning';
-    });
-    if (warningSensors.length > 0) {
-      riskScore += warningSensors.length * 15;
-      riskFactors.push(`${warningSensors.length} sensors showing warnings`);
-    }
-    
-    // Factor 3: High-risk predictions
-    const highRiskPredictions = predictions.filter(p => 
-      p.forecast.some(f => f.risk_level === 'high')
-    );
-    if (highRiskPredictions.length > 0) {
-      riskScore += highRiskPredictions.length * 20;
-      riskFactors.push(`${highRiskPredictions.length} high-risk predictions`);
-    }
-    
-    // Determine overall risk level
-    let riskLevel: 'low' | 'medium' | 'high' | 'critical' = 'low';
-    if (riskScore >= 80) riskLevel = 'critical';
-    else if (riskScore >= 60) riskLevel = 'high';
-    else if (riskScore >= 30) riskLevel = 'medium';
-    
+    if (!sectorAssessments || sectorAssessments.length === 0) return null;
+
+    const highest = sectorAssessments[0];
     return {
-      riskScore,
-      riskLevel,
-      riskFactors,
-      recommendations: [
-        'Monitor all active alerts closely',
-        'Review sensor readings for anomalies',
-        'Prepare emergency response protocols',
-        'Communicate with affected communities'
-      ]
+      riskScore: Math.round(Number(highest.risk_score) * 10),
+      riskLevel: highest.risk_level,
+      riskFactors: sectorAssessments
+        .filter(a => a.risk_level !== 'low')
+        .flatMap(a => (a.factors || []).map(factor => `${a.sector || a.location}: ${factor}`)),
+      recommendations: highest.recommendations ? [highest.recommendations] : [],
+      sectors: sectorAssessments
     };
-  }, [sensors, alerts, predictions]);
+  }, [sectorAssessments]);
   
-  // Return object with data and isLoading properties
   return {
     data: riskAssessment,
-    isLoading: sensorsLoading || alertsLoading || predictionsLoading
+    isLoading
   };
 };
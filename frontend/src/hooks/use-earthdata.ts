@@ -269,75 +269,6 @@ export const useOceanographicSummary = (boundingBox?: [number, number, number, n
   };
 };
 
-// Hook for getting coastal threat assessment based on Earthdata
-export const useCoastalThreatAssessment = (boundingBox?: [number, number, number, number]) => {
-  const { data: oceanSummary, isLoading } = useOceanographicSummary(boundingBox);
-  
-  const threatAssessment = React.useMemo(() => {
-    if (!oceanSummary) return null;
-
-    let threatScore = 0;
-    let threatFactors: string[] = [];
-    let recommendations: string[] = [];
-
-    // Assess SST threats
-    if (oceanSummary.parameters.seaSurfaceTemperature.risk === 'high') {
-      threatScore += 25;
-      threatFactors.push('Elevated sea surface temperature');
-      recommendations.push('Monitor for coral bleaching and marine heat waves');
-    }
-
-    // Assess sea level threats
-    if (oceanSummary.parameters.seaLevel.risk === 'high') {
-      threatScore += 30;
-      threatFactors.push('Abnormal sea level variations');
-      recommendations.push('Prepare for potential coastal flooding');
-    }
-
-    // Assess chlorophyll threats
-    if (oceanSummary.parameters.chlorophyll.risk === 'high') {
-      threatScore += 20;
-      threatFactors.push('High chlorophyll concentration');
-      recommendations.push('Monitor for harmful algal blooms');
-    }
-
-    // Assess wind threats
-    if (oceanSummary.parameters.wind.risk === 'high') {
-      threatScore += 15;
-      threatFactors.push('High wind speeds');
-      recommendations.push('Prepare for storm conditions');
-    }
-
-    // Assess rainfall threats
-    if (oceanSummary.parameters.rainfall.risk === 'high') {
-      threatScore += 20;
-      threatFactors.push('Heavy rainfall');
-      recommendations.push('Monitor for runoff and water quality issues');
-    }
-
-    // Determine overall threat level
-    let threatLevel: 'low' | 'medium' | 'high' | 'critical' = 'low';
-    if (threatScore >= 80) threatLevel = 'critical';
-    else if (threatScore >= 60) threatLevel = 'high';
-    else if (threatScore >= 30) threatLevel = 'medium';
-
-    return {
-      threatScore,
-      threatLevel,
-      threatFactors,
-      recommendations,
-      timestamp: oceanSummary.timestamp,
-      location: oceanSummary.location,
-      parameters: oceanSummary.parameters
-    };
-  }, [oceanSummary]);
-
-  return {
-    data: threatAssessment,
-    isLoading
-  };
-};
-
 // Hook for getting historical trends
 export const useHistoricalTrends = (parameter: 'sst' | 'seaLevel' | 'chlorophyll' | 'wind' | 'rainfall', days: number = 30) => {
   const now = new Date();
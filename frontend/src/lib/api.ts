@@ -6,6 +6,7 @@ import {
   getStationById,
   DATA_REFRESH_INTERVALS 
 } from './marine-data-config';
+import { BackendAPIError, backendBlob, backendRequest, getAccessToken } from './backend-api';
 
 export interface SensorData {
   id: string;
@@ -75,6 +76,522 @@ export interface HistoricalData {
   };
 }
 
+// Forecast row as stored by the backend (`/api/predictions`)
+export interface PersistedPrediction {
+  id: string;
+  parameter: string;
+  value: number;
+  unit: string | null;
+  confidence: number | null;
+  prediction_horizon_hours: number;
+  location: string | null;
+  sector: string | null;
+  valid_from: string;
+  valid_until: string | null;
+  model_version: string | null;
+  prediction_models: {
+    id: string;
+    name: string;
+    version: string;
+    accuracy: number | null;
+  } | null;
+}
+
+// Authored alert as stored by the backend (`/api/alerts`)
+export interface AlertRecord {
+  id: string;
+  type: 'safe' | 'advisory' | 'warning' | 'emergency';
+  title: string;
+  message: string;
+  category: string;
+  severity: string;
+  location: string;
+  sector: string | null;
+  status: string;
+  is_active: boolean;
+  published_at: string | null;
+  // The incident report this alert was promoted from
+  incident_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Immutable snapshot of an alert's content (`/api/alerts/:id/revisions`)
+export interface AlertRevisionRecord {
+  id: string;
+  alert_id: string;
+  revision_number: number;
+  status: string;
+  content: Record<string, unknown>;
+  changed_fields: string[] | null;
+  created_by: string | null;
+  created_at: string;
+  users: {
+    id: string;
+    full_name: string;
+    role: string;
+    organization: string | null;
+  } | null;
+}
+
+export interface AlertRevisionDiff {
+  from: { revision_number: number; status: string; created_by: string | null; created_at: string } | null;
+  to: { revision_number: number; status: string; created_by: string | null; created_at: string };
+  changes: { field: string; from: unknown; to: unknown }[];
+}
+
+export type AcknowledgementResponse = 'safe' | 'need_help';
+
+export interface AlertAcknowledgementRecord {
+  id: string;
+  alert_id: string;
+  user_id: string;
+  channel: string;
+  acknowledged_at: string;
+  response: AcknowledgementResponse | null;
+  response_notes: string | null;
+  responded_at: string | null;
+}
+
+export interface CoverageGroup {
+  key: string | null;
+  recipients: number;
+  acknowledged: number;
+  safe: number;
+  need_help: number;
+  coverage: number;
+}
+
+export interface CoverageMember {
+  user_id: string;
+  full_name: string;
+  organization: string | null;
+  role: string;
+  sector: string | null;
+  phone: string | null;
+  acknowledged_at: string | null;
+  channel: string | null;
+  response: AcknowledgementResponse | null;
+  response_notes: string | null;
+}
+
+// Acknowledgement coverage of one live alert (`/api/alerts/coverage`)
+export interface AlertCoverageSummary {
+  alert: Pick<AlertRecord, 'id' | 'type' | 'title' | 'location' | 'sector' | 'published_at'>;
+  alert_id: string;
+  totals: Omit<CoverageGroup, 'key'>;
+  by_organization: CoverageGroup[];
+  by_sector: CoverageGroup[];
+  by_role: CoverageGroup[];
+  need_help: CoverageMember[];
+}
+
+export type IncidentStatus =
+  | 'pending'
+  | 'triaged'
+  | 'investigating'
+  | 'verified'
+  | 'rejected'
+  | 'resolved'
+  | 'reopened'
+  | 'merged';
+
+// Incident report as stored by the backend (`/api/incidents`)
+export interface IncidentRecord {
+  id: string;
+  reporter_id: string;
+  incident_type: string;
+  incident_title: string;
+  description: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  status: IncidentStatus;
+  location: string;
+  sector: string | null;
+  date_time: string;
+  public_health_risk: boolean;
+  additional_notes: string | null;
+  assigned_to: string | null;
+  assigned_team: string | null;
+  due_at: string | null;
+  // Set when this report was merged into another one
+  parent_id: string | null;
+  merged_at: string | null;
+  created_at: string;
+  updated_at: string;
+  users?: {
+    id: string;
+    full_name: string;
+    organization: string | null;
+    role: string;
+  } | null;
+  // Staff only
+  assignee?: { id: string; full_name: string; role: string; organization: string | null } | null;
+  team?: { id: string; name: string; organization: string | null } | null;
+}
+
+export interface IncidentResolutionRecord {
+  id: string;
+  outcome: string;
+  summary: string;
+  actions_taken: string | null;
+  created_at: string;
+  users: { id: string; full_name: string; organization: string | null } | null;
+}
+
+// A report merged into another; its location and reporter details are only returned to staff
+export interface MergedIncidentSummary {
+  id: string;
+  incident_title: string;
+  incident_type: string;
+  severity: IncidentRecord['severity'];
+  location?: string;
+  date_time: string;
+  created_at: string;
+  merged_at: string | null;
+  users?: { id: string; full_name: string; organization: string | null } | null;
+}
+
+// An alert promoted from an incident report
+export type IncidentAlertSummary = Pick<
+  AlertRecord,
+  'id' | 'type' | 'title' | 'category' | 'severity' | 'status' | 'is_active' | 'published_at' | 'created_at'
+>;
+
+export interface IncidentDetail {
+  incident: IncidentRecord;
+  resolutions: IncidentResolutionRecord[];
+  // Drafts and alerts under review are only returned to staff
+  alerts: IncidentAlertSummary[];
+  // The alerts above that are live or could still go out
+  open_alerts: IncidentAlertSummary[];
+  merged_reports: MergedIncidentSummary[];
+  parent: { id: string; incident_title: string; status: IncidentStatus } | null;
+  // Only returned to incident handling staff
+  transitions?: { id: string; action: string; created_at: string }[];
+}
+
+// Another reporter's report in the caller's cluster: status and merge details only
+export interface RedactedIncidentDetail {
+  redacted: true;
+  incident: Pick<IncidentRecord, 'id' | 'incident_title' | 'incident_type' | 'severity' | 'status' | 'parent_id' | 'merged_at' | 'created_at'>;
+  parent: IncidentDetail['parent'];
+}
+
+// A likely duplicate of an incident (`/api/incidents/:id/duplicates`), scored 0-1
+export interface IncidentDuplicate {
+  incident: Pick<IncidentRecord, 'id' | 'incident_type' | 'incident_title' | 'description' | 'severity' | 'status' | 'location' | 'sector' | 'date_time' | 'created_at' | 'users'>;
+  score: number;
+  breakdown: { type: number; distance: number; time: number; text: number; distance_km: number | null };
+  status: 'suggested' | 'dismissed' | 'merged';
+  detected_at: string;
+}
+
+// Reports grouped by a merge, or linked only by duplicate suggestions (`/api/incidents/clusters`)
+export interface IncidentCluster {
+  id: string;
+  kind: 'merged' | 'suggested';
+  parent: Pick<IncidentRecord, 'id' | 'incident_title' | 'status'> | null;
+  incidents: Pick<IncidentRecord, 'id' | 'incident_type' | 'incident_title' | 'severity' | 'status' | 'location' | 'date_time'>[];
+  report_count: number;
+  reporter_count: number;
+  incident_types: string[];
+  severity: IncidentRecord['severity'];
+  first_observed: string;
+  last_observed: string;
+  extent: {
+    bbox: [number, number, number, number];
+    center: [number, number];
+    radius_km: number;
+    hull: { type: 'Point' | 'LineString' | 'Polygon'; coordinates: unknown };
+  } | null;
+}
+
+export type IncidentAnalyticsInterval = 'day' | 'week' | 'month';
+
+export interface IncidentAnalyticsQuery {
+  interval?: IncidentAnalyticsInterval;
+  from?: string;
+  to?: string;
+  sector?: string;
+  type?: string;
+  severity?: IncidentRecord['severity'];
+}
+
+interface IncidentAnalyticsCounts {
+  incidents: number;
+  public_health_risk: number;
+  public_health_risk_share: number;
+  by_type: Record<string, number>;
+  by_severity: Record<string, number>;
+  by_status: Record<string, number>;
+  // Reports without a sector are counted under "none"
+  by_sector: Record<string, number>;
+}
+
+// Aggregate incident figures (`/api/incidents/analytics`), limited to the reports the caller may see
+export interface IncidentAnalytics extends Omit<IncidentAnalyticsCounts, 'incidents' | 'public_health_risk' | 'public_health_risk_share'> {
+  range: { from: string; to: string; interval: IncidentAnalyticsInterval };
+  scope: 'all' | 'organization' | 'own';
+  organization?: string;
+  totals: { incidents: number; public_health_risk: number; public_health_risk_share: number; verified: number; resolved: number };
+  time_to_verify: { median_hours: number | null; count: number };
+  time_to_resolve: { median_hours: number | null; count: number };
+  timeline: (IncidentAnalyticsCounts & {
+    period: string;
+    start: string;
+    median_hours_to_verify: number | null;
+    median_hours_to_resolve: number | null;
+  })[];
+  hotspots: {
+    center: [number, number];
+    cell_km: number;
+    incidents: number;
+    public_health_risk: number;
+    severity: IncidentRecord['severity'];
+    incident_types: string[];
+    sectors: string[];
+    locations: string[];
+    last_reported: string;
+  }[];
+}
+
+export interface IncidentActivityUser {
+  id: string;
+  full_name: string;
+  role: string;
+}
+
+export type IncidentCommentVisibility = 'internal' | 'public';
+
+export interface IncidentCommentRecord {
+  id: string;
+  incident_id: string;
+  parent_id: string | null;
+  author_id: string | null;
+  kind: 'comment' | 'field_note';
+  visibility: IncidentCommentVisibility;
+  body: string;
+  mentions: string[];
+  created_at: string;
+  users: IncidentActivityUser | null;
+}
+
+// One entry on an incident's timeline (`/api/incidents/:id/activity`)
+export type IncidentActivityItem =
+  | {
+      type: 'event';
+      id: string;
+      created_at: string;
+      action: string;
+      from_status: IncidentStatus | null;
+      to_status: IncidentStatus;
+      notes: string | null;
+      actor: IncidentActivityUser | null;
+    }
+  | {
+      type: 'comment';
+      id: string;
+      created_at: string;
+      comment: IncidentCommentRecord;
+      replies: IncidentCommentRecord[];
+    };
+
+export interface NewIncidentComment {
+  body: string;
+  kind?: IncidentCommentRecord['kind'];
+  visibility?: IncidentCommentVisibility;
+  parent_id?: string;
+}
+
+// Photo or video evidence (`/api/incidents/media`)
+export interface IncidentMediaRecord {
+  id: string;
+  incident_id: string | null;
+  media_type: 'photo' | 'video';
+  content_type: string;
+  filename: string;
+  size_bytes: number;
+  received_bytes: number;
+  status: 'uploading' | 'uploaded' | 'ready' | 'failed';
+  has_thumbnail: boolean;
+  // Read from the file when the upload completes; captured_at has no offset when the camera recorded none
+  metadata: { coordinates?: [number, number] | null; captured_at?: string | null };
+  location_stripped: boolean;
+  error: string | null;
+  created_at: string;
+}
+
+export interface NewIncidentReport {
+  incident_type: string;
+  incident_title: string;
+  description: string;
+  severity: IncidentRecord['severity'];
+  location: string;
+  date_time: string;
+  coordinates?: string;
+  sector?: string;
+  nearest_landmark?: string;
+  weather_conditions?: string;
+  tide_level?: string;
+  wind_speed?: string;
+  affected_area?: string;
+  marine_life_impact?: string;
+  water_quality_impact?: string;
+  public_health_risk?: boolean;
+  immediate_actions?: string;
+  authorities_notified?: boolean;
+  emergency_services_called?: boolean;
+  reporter_name?: string;
+  reporter_phone?: string;
+  reporter_email?: string;
+  organization?: string;
+  relationship_to_incident?: string;
+  additional_notes?: string;
+  consent_to_contact?: boolean;
+  consent_to_share?: boolean;
+  // Uploads started while the report was being written
+  media_ids?: string[];
+}
+
+// Proof-of-work parameters for reports sent without an account (`/api/public/incidents/challenge`)
+export interface PublicReportChallenge {
+  algorithm: 'sha256';
+  prefix: string;
+  bits: number;
+  max_age_hours: number;
+  format: string;
+}
+
+export interface NewPublicReport {
+  incident_type: string;
+  incident_title: string;
+  description: string;
+  severity: IncidentRecord['severity'];
+  location: string;
+  date_time: string;
+  coordinates?: string;
+  sector?: string;
+  nearest_landmark?: string;
+  marine_life_impact?: string;
+  water_quality_impact?: string;
+  public_health_risk?: boolean;
+  additional_notes?: string;
+  consent_to_share?: boolean;
+  // Optional; only used to follow up on the report
+  contact_name?: string;
+  contact_phone?: string;
+  contact_email?: string;
+  consent_to_contact?: boolean;
+}
+
+// What the sender of a public report gets back
+export interface PublicReportReceipt {
+  id: string;
+  client_report_id: string;
+  status: 'pending' | 'approved' | 'rejected';
+  created_at: string;
+}
+
+export type PublicReportStatus = 'pending' | 'approved' | 'rejected' | 'spam';
+
+// A public report in the moderation queue (`/api/incidents/moderation`), staff only
+export interface PublicReportRecord {
+  id: string;
+  client_report_id: string;
+  report: Omit<NewPublicReport, 'contact_name' | 'contact_phone' | 'contact_email' | 'consent_to_contact'>;
+  contact_name: string | null;
+  contact_phone: string | null;
+  contact_email: string | null;
+  consent_to_contact: boolean;
+  proof_bits: number;
+  status: PublicReportStatus;
+  moderated_by: string | null;
+  moderated_at: string | null;
+  moderation_notes: string | null;
+  incident_id: string | null;
+  created_at: string;
+  // Reports from the same device so far, and how many of them were spam
+  device_report_count: number;
+  device_spam_count: number;
+}
+
+const MEDIA_UPLOAD_RETRIES = 5;
+
+// Composite sector assessment from `/api/risk/assessments`
+export interface RiskAssessmentRecord {
+  id: string;
+  location: string;
+  sector: string | null;
+  risk_type: string;
+  risk_level: 'low' | 'medium' | 'high' | 'critical';
+  probability: number;
+  impact_score: number;
+  risk_score: number;
+  factors: string[] | null;
+  factor_breakdown: {
+    factor: string;
+    count: number;
+    weight: number;
+    points: number;
+    probability: number;
+    explanation: string;
+  }[] | null;
+  recommendations: string | null;
+  created_at: string;
+  valid_until: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+}
+
+// Bucketed readings from `/api/sensors/:id/readings/aggregate`
+interface ReadingAggregateResponse {
+  unit: string | null;
+  interval: string;
+  buckets: {
+    bucket: string;
+    min: number;
+    max: number;
+    mean: number;
+    p05: number;
+    p50: number;
+    p95: number;
+    count: number;
+  }[];
+}
+
+// Trend statistics from `/api/sensors/:id/readings/trend`
+interface ReadingTrendResponse {
+  statistics: {
+    count: number;
+    min: number;
+    max: number;
+    mean: number;
+    slope_per_day: number;
+    direction: 'increasing' | 'decreasing' | 'stable';
+  } | null;
+}
+
+// Sensor row as returned by the backend registry (`/api/sensors`)
+export interface RegisteredSensor {
+  id: string;
+  name: string;
+  type: string;
+  location: string;
+  coordinates: string | null;
+  sector: string | null;
+  status: 'active' | 'inactive' | 'maintenance' | 'error' | 'offline';
+  unit: string | null;
+  range_min: number | null;
+  range_max: number | null;
+  updated_at: string;
+  latest_readings?: {
+    value: number;
+    unit: string | null;
+    timestamp: string;
+    status: RegisteredSensor['status'];
+  }[];
+}
+
 // Mock data for development
 const mockSensorData: SensorData[] = [
   {
@@ -188,6 +705,12 @@ export class CoastalAPI {
   // Get all sensor data
   async getSensorData(): Promise<SensorData[]> {
     try {
+      // Prefer the backend sensor registry when signed in to it
+      const registeredSensors = await this.getRegisteredSensors();
+      if (registeredSensors.length > 0) {
+        return registeredSensors;
+      }
+
       // For development/testing, you can force mock data by uncommenting this line:
       return mockSensorData;
       
@@ -263,6 +786,19 @@ export class CoastalAPI {
     }
   }
 
+  // Get the sensor network from the backend registry
+  async getRegisteredSensors(): Promise<SensorData[]> {
+    if (!getAccessToken()) return [];
+
+    try {
+      const { sensors } = await backendRequest<{ sensors: RegisteredSensor[] }>('/sensors?readings=2');
+      return sensors.map(sensor => this.convertRegisteredToSensorData(sensor));
+    } catch (error) {
+      console.warn('Sensor registry unavailable:', error);
+      return [];
+    }
+  }
+
   // Get mock sensor data for testing (shows different units)
   async getMockSensorData(): Promise<SensorData[]> {
     return Promise.resolve(mockSensorData);
@@ -305,9 +841,393 @@ export class CoastalAPI {
     }
   }
 
+  // Get stored forecasts for a parameter over the next `days` days
+  async getPersistedPredictions(parameter: string, days: number): Promise<PersistedPrediction[]> {
+    if (!getAccessToken()) return [];
+
+    try {
+      const from = new Date();
+      const to = new Date(from.getTime() + days * 24 * 3600000);
+      const { predictions } = await backendRequest<{ predictions: PersistedPrediction[] }>(
+        `/predictions?parameter=${encodeURIComponent(parameter)}` +
+        `&from=${encodeURIComponent(from.toISOString())}&to=${encodeURIComponent(to.toISOString())}&limit=500`
+      );
+      return predictions;
+    } catch (error) {
+      console.warn('Stored predictions unavailable:', error);
+      return [];
+    }
+  }
+
+  // Get the current server-computed assessment for every sector, highest risk first
+  async getRiskAssessments(): Promise<RiskAssessmentRecord[] | null> {
+    if (!getAccessToken()) return null;
+
+    try {
+      const { assessments } = await backendRequest<{ assessments: RiskAssessmentRecord[] }>(
+        '/risk/assessments?latest=true'
+      );
+      return assessments;
+    } catch (error) {
+      console.warn('Risk assessments unavailable:', error);
+      return null;
+    }
+  }
+
+  // Get live alerts from the backend, newest first
+  async getAlertRecords(): Promise<AlertRecord[] | null> {
+    if (!getAccessToken()) return null;
+
+    try {
+      const { alerts } = await backendRequest<{ alerts: AlertRecord[] }>('/alerts?limit=50');
+      return alerts;
+    } catch (error) {
+      console.warn('Alerts unavailable:', error);
+      return null;
+    }
+  }
+
+  // Get every visible revision of an alert, oldest first
+  async getAlertRevisions(alertId: string): Promise<AlertRevisionRecord[] | null> {
+    if (!getAccessToken()) return null;
+
+    try {
+      const { revisions } = await backendRequest<{ revisions: AlertRevisionRecord[] }>(
+        `/alerts/${alertId}/revisions`
+      );
+      return revisions;
+    } catch (error) {
+      console.warn('Alert revisions unavailable:', error);
+      return null;
+    }
+  }
+
+  // Compare two revisions; without `from` the backend diffs against the previous one
+  async getAlertRevisionDiff(alertId: string, to: number, from?: number): Promise<AlertRevisionDiff | null> {
+    if (!getAccessToken()) return null;
+
+    try {
+      const params = new URLSearchParams({ to: String(to) });
+      if (from !== undefined) params.set('from', String(from));
+      return await backendRequest<AlertRevisionDiff>(`/alerts/${alertId}/revisions/diff?${params}`);
+    } catch (error) {
+      console.warn('Alert revision diff unavailable:', error);
+      return null;
+    }
+  }
+
+  // Start an alert draft pre-filled from a verified incident (staff only)
+  async promoteIncidentToAlert(incidentId: string): Promise<AlertRecord> {
+    const { alert } = await backendRequest<{ alert: AlertRecord }>(`/incidents/${incidentId}/promote`, {
+      method: 'POST',
+      body: JSON.stringify({})
+    });
+    return alert;
+  }
+
+  // Cancel an alert, taking it down if it is live (staff only)
+  async deactivateAlert(alertId: string, notes?: string): Promise<AlertRecord> {
+    const { alert } = await backendRequest<{ alert: AlertRecord }>(`/alerts/${alertId}/deactivate`, {
+      method: 'POST',
+      body: JSON.stringify({ notes })
+    });
+    return alert;
+  }
+
+  // Confirm receipt of an alert, optionally reporting whether the user is safe
+  async acknowledgeAlert(alertId: string, response?: AcknowledgementResponse): Promise<AlertAcknowledgementRecord> {
+    const { acknowledgement } = await backendRequest<{ acknowledgement: AlertAcknowledgementRecord }>(
+      `/alerts/${alertId}/acknowledge`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ channel: 'web', ...(response ? { response } : {}) })
+      }
+    );
+    return acknowledgement;
+  }
+
+  // Acknowledgement coverage for every live alert (staff only)
+  async getAlertCoverage(): Promise<AlertCoverageSummary[] | null> {
+    if (!getAccessToken()) return null;
+
+    try {
+      const { alerts } = await backendRequest<{ alerts: AlertCoverageSummary[] }>('/alerts/coverage');
+      return alerts;
+    } catch (error) {
+      console.warn('Alert coverage unavailable:', error);
+      return null;
+    }
+  }
+
+  // Recipients of an alert who have not acknowledged it yet (staff only)
+  async getPendingAcknowledgements(alertId: string): Promise<CoverageMember[] | null> {
+    if (!getAccessToken()) return null;
+
+    try {
+      const { coverage } = await backendRequest<{ coverage: { members: CoverageMember[] } }>(
+        `/alerts/${alertId}/coverage?status=pending`
+      );
+      return coverage.members;
+    } catch (error) {
+      console.warn('Pending acknowledgements unavailable:', error);
+      return null;
+    }
+  }
+
+  // Incident reports the caller can see (their own, or all of them for staff)
+  async getIncidentRecords(): Promise<IncidentRecord[] | null> {
+    if (!getAccessToken()) return null;
+
+    try {
+      const { incidents } = await backendRequest<{ incidents: IncidentRecord[] }>('/incidents?limit=50');
+      return incidents;
+    } catch (error) {
+      console.warn('Incidents unavailable:', error);
+      return null;
+    }
+  }
+
+  async getIncidentRecord(incidentId: string): Promise<IncidentDetail | RedactedIncidentDetail | null> {
+    if (!getAccessToken()) return null;
+
+    try {
+      return await backendRequest<IncidentDetail | RedactedIncidentDetail>(`/incidents/${incidentId}`);
+    } catch (error) {
+      console.warn('Incident unavailable:', error);
+      return null;
+    }
+  }
+
+  // Workflow events and comment threads for an incident, oldest first
+  async getIncidentActivity(incidentId: string): Promise<IncidentActivityItem[] | null> {
+    if (!getAccessToken()) return null;
+
+    try {
+      const { activity } = await backendRequest<{ activity: IncidentActivityItem[] }>(
+        `/incidents/${incidentId}/activity`
+      );
+      return activity;
+    } catch (error) {
+      console.warn('Incident activity unavailable:', error);
+      return null;
+    }
+  }
+
+  // Staff only
+  async getIncidentDuplicates(incidentId: string, refresh = false): Promise<IncidentDuplicate[] | null> {
+    if (!getAccessToken()) return null;
+
+    try {
+      const { duplicates } = await backendRequest<{ duplicates: IncidentDuplicate[] }>(
+        `/incidents/${incidentId}/duplicates${refresh ? '?refresh=true' : ''}`
+      );
+      return duplicates;
+    } catch (error) {
+      console.warn('Incident duplicates unavailable:', error);
+      return null;
+    }
+  }
+
+  async dismissIncidentDuplicate(incidentId: string, otherId: string): Promise<void> {
+    await backendRequest(`/incidents/${incidentId}/duplicates/${otherId}/dismiss`, { method: 'POST' });
+  }
+
+  // Fold duplicate reports into a parent incident (authorities only)
+  async mergeIncidents(parentId: string, incidentIds: string[], notes?: string): Promise<IncidentRecord[]> {
+    const { merged } = await backendRequest<{ merged: IncidentRecord[] }>(`/incidents/${parentId}/merge`, {
+      method: 'POST',
+      body: JSON.stringify({ incident_ids: incidentIds, notes })
+    });
+    return merged;
+  }
+
+  async getIncidentClusters(includeSuggested = false): Promise<IncidentCluster[] | null> {
+    if (!getAccessToken()) return null;
+
+    try {
+      const { clusters } = await backendRequest<{ clusters: IncidentCluster[] }>(
+        `/incidents/clusters${includeSuggested ? '?include=suggested' : ''}`
+      );
+      return clusters;
+    } catch (error) {
+      console.warn('Incident clusters unavailable:', error);
+      return null;
+    }
+  }
+
+  async getIncidentAnalytics(query: IncidentAnalyticsQuery = {}): Promise<IncidentAnalytics | null> {
+    if (!getAccessToken()) return null;
+
+    const params = new URLSearchParams(
+      Object.entries(query).filter((entry): entry is [string, string] => !!entry[1])
+    );
+
+    try {
+      const { analytics } = await backendRequest<{ analytics: IncidentAnalytics }>(`/incidents/analytics?${params}`);
+      return analytics;
+    } catch (error) {
+      console.warn('Incident analytics unavailable:', error);
+      return null;
+    }
+  }
+
+  async postIncidentComment(incidentId: string, comment: NewIncidentComment): Promise<IncidentCommentRecord> {
+    const { comment: created } = await backendRequest<{ comment: IncidentCommentRecord }>(
+      `/incidents/${incidentId}/comments`,
+      {
+        method: 'POST',
+        body: JSON.stringify(comment)
+      }
+    );
+    return created;
+  }
+
+  async createIncidentReport(report: NewIncidentReport): Promise<IncidentRecord> {
+    const { incident } = await backendRequest<{ incident: IncidentRecord }>('/incidents', {
+      method: 'POST',
+      body: JSON.stringify(report)
+    });
+    return incident;
+  }
+
+  async getPublicReportChallenge(): Promise<PublicReportChallenge> {
+    const { challenge } = await backendRequest<{ challenge: PublicReportChallenge }>('/public/incidents/challenge');
+    return challenge;
+  }
+
+  // No account needed; the report carries a device id and a solved proof of work
+  async submitPublicReport(
+    report: NewPublicReport & { client_report_id: string; device_id: string; proof: { issued_at: string; nonce: string } }
+  ): Promise<PublicReportReceipt> {
+    const { report: receipt } = await backendRequest<{ report: PublicReportReceipt }>('/public/incidents', {
+      method: 'POST',
+      body: JSON.stringify(report)
+    });
+    return receipt;
+  }
+
+  // Staff only
+  async getPublicReportQueue(status: PublicReportStatus = 'pending'): Promise<PublicReportRecord[] | null> {
+    if (!getAccessToken()) return null;
+
+    try {
+      const { reports } = await backendRequest<{ reports: PublicReportRecord[] }>(
+        `/incidents/moderation?status=${status}&limit=50`
+      );
+      return reports;
+    } catch (error) {
+      console.warn('Public report queue unavailable:', error);
+      return null;
+    }
+  }
+
+  // Accept a public report into the incident workflow, optionally correcting how it was classified
+  async approvePublicReport(
+    reportId: string,
+    corrections: { incident_type?: string; severity?: IncidentRecord['severity']; sector?: string | null; notes?: string } = {}
+  ): Promise<IncidentRecord> {
+    const { incident } = await backendRequest<{ incident: IncidentRecord }>(`/incidents/moderation/${reportId}/approve`, {
+      method: 'POST',
+      body: JSON.stringify(corrections)
+    });
+    return incident;
+  }
+
+  async rejectPublicReport(reportId: string, spam: boolean, notes?: string): Promise<PublicReportRecord> {
+    const { report } = await backendRequest<{ report: PublicReportRecord }>(`/incidents/moderation/${reportId}/reject`, {
+      method: 'POST',
+      body: JSON.stringify({ spam, notes })
+    });
+    return report;
+  }
+
+  /**
+   * Upload a photo or video in chunks. After a dropped connection or server
+   * error the upload asks the server how much it holds and resumes from
+   * there, backing off between attempts.
+   */
+  async uploadIncidentMedia(
+    file: File,
+    options: { incidentId?: string; onProgress?: (fraction: number) => void } = {}
+  ): Promise<IncidentMediaRecord> {
+    const { media, chunk_size } = await backendRequest<{ media: IncidentMediaRecord; chunk_size: number }>(
+      '/incidents/media',
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          filename: file.name,
+          content_type: file.type,
+          size: file.size,
+          ...(options.incidentId ? { incident_id: options.incidentId } : {})
+        })
+      }
+    );
+
+    let current = media;
+    let failures = 0;
+    while (current.status === 'uploading') {
+      const offset = current.received_bytes;
+      try {
+        ({ media: current } = await backendRequest<{ media: IncidentMediaRecord }>(
+          `/incidents/media/${media.id}/content`,
+          {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/octet-stream', 'Upload-Offset': String(offset) },
+            body: file.slice(offset, offset + chunk_size)
+          }
+        ));
+        failures = 0;
+        options.onProgress?.(current.received_bytes / current.size_bytes);
+      } catch (error) {
+        // Rejected content will not succeed on retry; offset mismatches and outages will
+        const retryable = !(error instanceof BackendAPIError) || error.status === 409 || error.status >= 500;
+        if (!retryable || ++failures > MEDIA_UPLOAD_RETRIES) throw error;
+        await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** (failures - 1)));
+        ({ media: current } = await backendRequest<{ media: IncidentMediaRecord }>(`/incidents/media/${media.id}`));
+      }
+    }
+    return current;
+  }
+
+  async uploadIncidentMediaThumbnail(mediaId: string, thumbnail: Blob): Promise<IncidentMediaRecord> {
+    const { media } = await backendRequest<{ media: IncidentMediaRecord }>(`/incidents/media/${mediaId}/thumbnail`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'image/jpeg' },
+      body: thumbnail
+    });
+    return media;
+  }
+
+  async deleteIncidentMedia(mediaId: string): Promise<void> {
+    await backendRequest(`/incidents/media/${mediaId}`, { method: 'DELETE' });
+  }
+
+  async getIncidentMedia(incidentId: string): Promise<IncidentMediaRecord[] | null> {
+    if (!getAccessToken()) return null;
+
+    try {
+      const { media } = await backendRequest<{ media: IncidentMediaRecord[] }>(`/incidents/${incidentId}/media`);
+      return media;
+    } catch (error) {
+      console.warn('Incident media unavailable:', error);
+      return null;
+    }
+  }
+
+  // The stored file, or its thumbnail, as a blob for an object URL
+  async getIncidentMediaFile(mediaId: string, variant?: 'thumbnail'): Promise<Blob> {
+    return backendBlob(`/incidents/media/${mediaId}/file${variant ? `?variant=${variant}` : ''}`);
+  }
+
   // Get historical data for a sensor
   async getHistoricalData(sensorId: string, parameter: string, days: number = 30): Promise<HistoricalData | null> {
     try {
+      // Registry sensors are aggregated server-side so long ranges stay small
+      const registryData = await this.getRegistryHistoricalData(sensorId, parameter, days);
+      if (registryData) {
+        return registryData;
+      }
+
       // Generate mock historical data
       const data = Array.from({ length: days * 24 }, (_, i) => ({
         timestamp: new Date(Date.now() - (days * 24 - i) * 3600000).toISOString(),
@@ -337,6 +1257,43 @@ export class CoastalAPI {
     }
   }
 
+  // Get downsampled history and trend statistics from the backend registry
+  async getRegistryHistoricalData(sensorId: string, parameter: string, days: number): Promise<HistoricalData | null> {
+    if (!getAccessToken()) return null;
+
+    try {
+      const to = new Date();
+      const from = new Date(to.getTime() - days * 24 * 3600000);
+      const range = `from=${encodeURIComponent(from.toISOString())}&to=${encodeURIComponent(to.toISOString())}`;
+
+      const [aggregate, trend] = await Promise.all([
+        backendRequest<ReadingAggregateResponse>(`/sensors/${sensorId}/readings/aggregate?interval=auto&${range}`),
+        backendRequest<ReadingTrendResponse>(`/sensors/${sensorId}/readings/trend?${range}`)
+      ]);
+
+      if (!trend.statistics) return null;
+
+      return {
+        sensorId,
+        parameter,
+        data: aggregate.buckets.map(bucket => ({
+          timestamp: bucket.bucket,
+          value: Number(bucket.mean),
+          unit: aggregate.unit || ''
+        })),
+        statistics: {
+          min: trend.statistics.min,
+          max: trend.statistics.max,
+          average: trend.statistics.mean,
+          trend: trend.statistics.direction
+        }
+      };
+    } catch (error) {
+      console.warn('Sensor history unavailable from registry:', error);
+      return null;
+    }
+  }
+
   // Create new alert
   async createAlert(alert: Omit<Alert, 'id' | 'timestamp'>): Promise<Alert | null> {
     try {
@@ -367,17 +1324,14 @@ export class CoastalAPI {
   // Update sensor reading
   async updateSensorReading(sensorId: string, reading: Omit<SensorData['readings'][0], 'timestamp'>): Promise<boolean> {
     try {
-      // In production, this would PUT to the API
-      // const response = await fetch(`${this.baseUrl}/sensors/${sensorId}/readings`, {
-      //   method: 'PUT',
-      //   headers: { 
-      //     'Content-Type': 'application/json',
-      //     'Authorization': `Bearer ${this.apiKey}` 
-      //   },
-      //   body: JSON.stringify(reading)
-      // });
-      // return response.ok;
-      
+      await backendRequest(`/sensors/${sensorId}/readings`, {
+        method: 'POST',
+        body: JSON.stringify({
+          value: reading.value,
+          unit: reading.unit,
+          timestamp: new Date().toISOString()
+        })
+      });
       return true;
     } catch (error) {
       console.error('Error updating sensor reading:', error);
@@ -453,6 +1407,49 @@ export class CoastalAPI {
     return sensors;
   }
 
+  // Helper to convert a registry sensor to SensorData
+  private convertRegisteredToSensorData(sensor: RegisteredSensor): SensorData {
+    const [lat, lng] = (sensor.coordinates || '').split(',').map(part => Number(part.trim()));
+    const typeMap: Record<string, SensorData['type']> = {
+      tide_gauge: 'tide_gauge',
+      weather_station: 'weather_station',
+      wave_buoy: 'wave_buoy',
+      current_meter: 'wave_buoy',
+      water_quality: 'water_quality',
+      ph_sensor: 'water_quality',
+      oxygen_sensor: 'water_quality',
+      turbidity_sensor: 'water_quality'
+    };
+    const statusMap: Record<RegisteredSensor['status'], SensorData['readings'][0]['status']> = {
+      active: 'normal',
+      inactive: 'warning',
+      maintenance: 'warning',
+      offline: 'warning',
+      error: 'critical'
+    };
+
+    // The registry returns newest first; SensorData keeps readings oldest first
+    const readings = [...(sensor.latest_readings || [])].reverse().map(r => ({
+      timestamp: r.timestamp,
+      value: Number(r.value),
+      unit: r.unit || sensor.unit || 'unknown',
+      status: statusMap[r.status] || 'normal'
+    }));
+
+    return {
+      id: sensor.id,
+      name: sensor.name,
+      location: {
+        lat: Number.isFinite(lat) ? lat : 0,
+        lng: Number.isFinite(lng) ? lng : 0,
+        name: sensor.location
+      },
+      type: typeMap[sensor.type] || 'water_quality',
+      readings,
+      lastUpdated: readings[readings.length - 1]?.timestamp || sensor.updated_at
+    };
+  }
+
   // Helper to convert RealTimeSensorData to SensorData
   private convertRealTimeToSensorData(realTimeData: RealTimeSensorData): SensorData {
     const sensor: SensorData = {
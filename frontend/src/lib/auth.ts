@@ -1,5 +1,6 @@
 // Authentication service for Coastal Threat Alert System
 import { z } from 'zod';
+import { backendRequest, getRefreshToken, setSessionTokens, type SessionTokens } from './backend-api';
 
 // User role definitions
 export const USER_ROLES = {
@@ -115,108 +116,121 @@ export const registrationSchema = z.object({
 
 export type RegistrationData = z.infer<typeof registrationSchema>;
 
-// Mock user database for development
-const mockUsers: User[] = [
-  {
-    id: '1',
-    email: 'admin@disaster.gov',
-    name: 'Admin User',
-    organization: 'National Disaster Management Authority',
-    role: USER_ROLES.DISASTER_MANAGEMENT,
-    phone: '+91-9876543210',
-    location: { city: 'New Delhi', state: 'Delhi', country: 'India' },
-    createdAt: '2024-01-01T00:00:00Z',
-    lastLogin: new Date().toISOString(),
-    isActive: true,
-    permissions: ROLE_PERMISSIONS[USER_ROLES.DISASTER_MANAGEMENT]
-  },
-  {
-    id: '2',
-    email: 'mayor@mumbai.gov',
-    name: 'Mumbai Mayor',
-    organization: 'Mumbai Municipal Corporation',
-    role: USER_ROLES.COASTAL_CITY_GOVERNMENT,
-    phone: '+91-9876543211',
-    location: { city: 'Mumbai', state: 'Maharashtra', country: 'India' },
-    createdAt: '2024-01-01T00:00:00Z',
+// Roles as the backend stores them
+type AccountRole = 'super_admin' | 'admin' | 'authority' | 'contributor' | 'operational' | 'fisherfolk';
+
+// Which dashboard role, and so which permissions, each backend role gets
+const ACCOUNT_ROLE_MAP: Record<AccountRole, UserRole> = {
+  super_admin: USER_ROLES.DISASTER_MANAGEMENT,
+  admin: USER_ROLES.DISASTER_MANAGEMENT,
+  authority: USER_ROLES.COASTAL_CITY_GOVERNMENT,
+  operational: USER_ROLES.CIVIL_DEFENCE_TEAM,
+  contributor: USER_ROLES.ENVIRONMENTAL_NGO,
+  fisherfolk: USER_ROLES.FISHERFOLK
+};
+
+interface AccountProfile {
+  id: string;
+  email: string;
+  full_name: string;
+  organization: string | null;
+  role: AccountRole;
+  status: string;
+  phone?: string | null;
+  location?: string | null;
+  created_at?: string;
+}
+
+interface LoginResponse extends SessionTokens {
+  user: AccountProfile;
+}
+
+interface RegisterResponse {
+  user: AccountProfile;
+  requiresApproval: boolean;
+}
+
+const CURRENT_USER_KEY = 'currentUser';
+
+// The backend keeps the location as "city, state, country" text
+const toUser = (profile: AccountProfile): User => {
+  const role = ACCOUNT_ROLE_MAP[profile.role] || USER_ROLES.FISHERFOLK;
+  const [city = '', state = '', country = ''] = (profile.location || '').split(',').map(part => part.trim());
+
+  return {
+    id: profile.id,
+    email: profile.email,
+    name: profile.full_name,
+    organization: profile.organization || '',
+    role,
+    phone: profile.phone || undefined,
+    location: profile.location ? { city, state, country } : undefined,
+    createdAt: profile.created_at || new Date().toISOString(),
     lastLogin: new Date().toISOString(),
-    isActive: true,
-    permissions: ROLE_PERMISSIONS[USER_ROLES.COASTAL_CITY_GOVERNMENT]
-  }
-];
+    isActive: profile.status === 'approved',
+    permissions: ROLE_PERMISSIONS[role]
+  };
+};
 
-// Mock authentication service
+// Authentication against the backend; the tokens live in backend-api, the profile is cached here
 export class AuthService {
-  private users = mockUsers;
   private currentUser: User | null = null;
 
   // Login user
   async login(credentials: LoginCredentials): Promise<User> {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-
-    const user = this.users.find(u => u.email === credentials.email);
-    
-    if (!user) {
-      throw new Error('Invalid email or password');
-    }
-
-    // In a real app, you'd verify the password hash here
-    if (credentials.password !== 'password123') {
-      throw new Error('Invalid email or password');
-    }
+    const session = await backendRequest<LoginResponse>('/auth/login', {
+      method: 'POST',
+      body: JSON.stringify(credentials)
+    });
+    setSessionTokens(session);
 
-    // Update last login
-    user.lastLogin = new Date().toISOString();
-    this.currentUser = user;
-
-    // Store in localStorage for persistence
-    localStorage.setItem('currentUser', JSON.stringify(user));
-    
-    return user;
+    const { user: profile } = await backendRequest<{ user: AccountProfile }>('/auth/profile');
+    return this.setCurrentUser(toUser(profile));
   }
 
   // Register new user
   async register(data: RegistrationData): Promise<User> {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-
-    // Check if user already exists
-    if (this.users.find(u => u.email === data.email)) {
-      throw new Error('User with this email already exists');
-    }
+    // Only fisherfolk and contributors may sign themselves up; an admin grants other roles on approval
+    const role: AccountRole = data.role === USER_ROLES.FISHERFOLK ? 'fisherfolk' : 'contributor';
 
-    const newUser: User = {
-      id: Date.now().toString(),
-      email: data.email,
-      name: data.name,
-      organization: data.organization,
-      role: data.role,
-      phone: data.phone,
-      location: {
-        city: data.city,
-        state: data.state,
-        country: data.country
-      },
-      createdAt: new Date().toISOString(),
-      lastLogin: new Date().toISOString(),
-      isActive: true,
-      permissions: ROLE_PERMISSIONS[data.role]
-    };
+    const result = await backendRequest<RegisterResponse>('/auth/register', {
+      method: 'POST',
+      body: JSON.stringify({
+        email: data.email,
+        password: data.password,
+        full_name: data.name,
+        organization: data.organization,
+        role,
+        phone: data.phone || undefined,
+        location: [data.city, data.state, data.country].join(', ')
+      })
+    });
 
-    this.users.push(newUser);
-    this.currentUser = newUser;
+    if (result.requiresApproval) {
+      throw new Error('Registration received. Your account is pending approval from an administrator.');
+    }
 
-    // Store in localStorage for persistence
-    localStorage.setItem('currentUser', JSON.stringify(newUser));
-    
-    return newUser;
+    return this.login({ email: data.email, password: data.password });
   }
 
   // Logout user
   async logout(): Promise<void> {
+    const refreshToken = getRefreshToken();
+    this.clearCurrentUser();
+
+    if (refreshToken) {
+      await backendRequest('/auth/logout', {
+        method: 'POST',
+        body: JSON.stringify({ refresh_token: refreshToken })
+      }).catch(error => console.error('Error revoking session:', error));
+    }
+  }
+
+  // Forget the user locally, e.g. once the backend has ended the session
+  clearCurrentUser(): void {
     this.currentUser = null;
-    localStorage.removeItem('currentUser');
+    localStorage.removeItem(CURRENT_USER_KEY);
+    setSessionTokens(null);
   }
 
   // Get current user
@@ -225,20 +239,33 @@ export class AuthService {
       return this.currentUser;
     }
 
+    // Without a refresh token the cached profile belongs to an ended session
+    if (!getRefreshToken()) {
+      localStorage.removeItem(CURRENT_USER_KEY);
+      return null;
+    }
+
     // Try to restore from localStorage
-    const stored = localStorage.getItem('currentUser');
+    const stored = localStorage.getItem(CURRENT_USER_KEY);
     if (stored) {
       try {
         this.currentUser = JSON.parse(stored);
         return this.currentUser;
       } catch {
-        localStorage.removeItem('currentUser');
+        localStorage.removeItem(CURRENT_USER_KEY);
       }
     }
 
     return null;
   }
 
+  private setCurrentUser(user: User): User {
+    this.currentUser = user;
+    // Store in localStorage for persistence
+    localStorage.setItem(CURRENT_USER_KEY, JSON.stringify(user));
+    return user;
+  }
+
   // Check if user has permission
   hasPermission(user: User, permission: keyof typeof ROLE_PERMISSIONS[UserRole]): boolean {
     return user.permissions[permission] || false;
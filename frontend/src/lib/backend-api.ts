@@ -0,0 +1,131 @@
+// Client for the Coastal Monitoring backend (Express + Supabase)
+import { config } from './config';
+
+const ACCESS_TOKEN_KEY = 'accessToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
+export class BackendAPIError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'BackendAPIError';
+  }
+}
+
+export interface SessionTokens {
+  token: string;
+  refresh_token: string;
+}
+
+export const getAccessToken = (): string | null => localStorage.getItem(ACCESS_TOKEN_KEY);
+
+export const getRefreshToken = (): string | null => localStorage.getItem(REFRESH_TOKEN_KEY);
+
+export const setSessionTokens = (tokens: SessionTokens | null) => {
+  if (tokens) {
+    localStorage.setItem(ACCESS_TOKEN_KEY, tokens.token);
+    localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refresh_token);
+  } else {
+    localStorage.removeItem(ACCESS_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+  }
+};
+
+// Notified when the backend refuses the refresh token, so the app can sign the user out
+const sessionEndedListeners = new Set<() => void>();
+
+export const onSessionEnded = (listener: () => void) => {
+  sessionEndedListeners.add(listener);
+  return () => {
+    sessionEndedListeners.delete(listener);
+  };
+};
+
+let pendingRefresh: Promise<boolean> | null = null;
+
+const requestTokenRefresh = async (): Promise<boolean> => {
+  const refreshToken = getRefreshToken();
+  if (!refreshToken) return false;
+
+  let response: Response;
+  try {
+    response = await fetch(`${config.backend.baseUrl}/auth/refresh`, {
+      method: 'POST',
+      headers: { 'Accept': 'application/json', 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refresh_token: refreshToken })
+    });
+  } catch {
+    // Offline: keep the tokens and let the next request try again
+    return false;
+  }
+
+  if (response.ok) {
+    setSessionTokens(await response.json());
+    return true;
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    setSessionTokens(null);
+    sessionEndedListeners.forEach(listener => listener());
+  }
+  return false;
+};
+
+// Trade the refresh token for a new pair. Every refresh rotates the token and replaying
+// an old one revokes the session, so concurrent callers share a single request.
+export const refreshAccessToken = (): Promise<boolean> => {
+  if (!pendingRefresh) {
+    pendingRefresh = requestTokenRefresh().finally(() => {
+      pendingRefresh = null;
+    });
+  }
+  return pendingRefresh;
+};
+
+// Send a request with the access token, refreshing it once if the backend says it expired
+const fetchWithSession = async (path: string, init: RequestInit = {}): Promise<Response> => {
+  const send = (token: string | null) => {
+    const headers = new Headers(init.headers);
+    if (token) {
+      headers.set('Authorization', `Bearer ${token}`);
+    }
+    return fetch(`${config.backend.baseUrl}${path}`, { ...init, headers });
+  };
+
+  const token = getAccessToken();
+  const response = await send(token);
+
+  if (response.status === 401 && token && await refreshAccessToken()) {
+    return send(getAccessToken());
+  }
+  return response;
+};
+
+// Perform a JSON request against the backend, attaching the access token when present
+export async function backendRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const headers = new Headers(init.headers);
+  headers.set('Accept', 'application/json');
+  if (init.body && !headers.has('Content-Type')) {
+    headers.set('Content-Type', 'application/json');
+  }
+
+  const response = await fetchWithSession(path, { ...init, headers });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new BackendAPIError(response.status, body?.error || `Backend API error: ${response.status}`);
+  }
+
+  return body as T;
+}
+
+// Fetch a binary resource (e.g. incident media) with the access token; <img> tags cannot send it themselves
+export async function backendBlob(path: string): Promise<Blob> {
+  const response = await fetchWithSession(path);
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new BackendAPIError(response.status, body?.error || `Backend API error: ${response.status}`);
+  }
+
+  return response.blob();
+}
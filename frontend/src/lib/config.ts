@@ -15,9 +15,16 @@ export const config = {
     }
   },
 
+  // Coastal Monitoring backend (sensor registry, alerts, incidents)
+  backend: {
+    baseUrl: import.meta.env.VITE_BACKEND_URL || 'http://localhost:5000/api'
+  },
+
   // Real-time Configuration
   realtime: {
     websocketUrl: import.meta.env.VITE_WEBSOCKET_URL || 'wss://ws.coastalguardian.com',
+    // Server-Sent Events stream on the backend, relative to backend.baseUrl
+    streamPath: '/realtime/stream',
     reconnectInterval: 5000, // 5 seconds
     heartbeatInterval: 30000, // 30 seconds
     maxReconnectAttempts: 10
@@ -168,8 +175,12 @@ export interface AppConfig {
     retryAttempts: number;
     endpoints: Record<string, string>;
   };
+  backend: {
+    baseUrl: string;
+  };
   realtime: {
     websocketUrl: string;
+    streamPath: string;
     reconnectInterval: number;
     heartbeatInterval: number;
     maxReconnectAttempts: number;
@@ -0,0 +1,23 @@
+// Badge colours for incident statuses and severities, shared by the report list and detail pages
+
+export const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'verified': return 'bg-safe text-safe-foreground';
+    case 'triaged':
+    case 'investigating': return 'bg-advisory text-advisory-foreground';
+    case 'pending':
+    case 'reopened': return 'bg-warning text-warning-foreground';
+    case 'resolved': return 'bg-primary text-primary-foreground';
+    default: return 'bg-muted text-muted-foreground';
+  }
+};
+
+export const getSeverityColor = (severity: string) => {
+  switch (severity) {
+    case 'low': return 'bg-safe text-safe-foreground';
+    case 'medium': return 'bg-advisory text-advisory-foreground';
+    case 'high': return 'bg-warning text-warning-foreground';
+    case 'critical': return 'bg-emergency text-emergency-foreground';
+    default: return 'bg-muted text-muted-foreground';
+  }
+};
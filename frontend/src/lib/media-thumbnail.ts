@@ -0,0 +1,51 @@
+// Client-side thumbnails for uploads the server cannot preview itself (videos, and photos without an embedded preview)
+
+const THUMBNAIL_SIZE = 320;
+
+const drawThumbnail = (source: CanvasImageSource, width: number, height: number): Promise<Blob | null> => {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+};
+
+const photoThumbnail = async (file: File) => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    return await drawThumbnail(bitmap, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+};
+
+// A frame shortly after the start, which is less often black than the first one
+const videoThumbnail = (file: File) => new Promise<Blob | null>(resolve => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  const finish = (blob: Blob | null) => {
+    URL.revokeObjectURL(url);
+    resolve(blob);
+  };
+
+  video.muted = true;
+  video.preload = 'metadata';
+  video.onloadedmetadata = () => {
+    video.currentTime = Math.min(1, video.duration / 2 || 0);
+  };
+  video.onseeked = () => {
+    drawThumbnail(video, video.videoWidth, video.videoHeight).then(finish, () => finish(null));
+  };
+  video.onerror = () => finish(null);
+  video.src = url;
+});
+
+// A small JPEG of the file, or null when the browser cannot decode it
+export const createThumbnail = async (file: File): Promise<Blob | null> => {
+  try {
+    return file.type.startsWith('video/') ? await videoThumbnail(file) : await photoThumbnail(file);
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,164 @@
+// Reports sent without an account: proof of work, device id and an outbox for reports written offline
+import { coastalAPI, type NewPublicReport, type PublicReportChallenge, type PublicReportReceipt } from './api';
+import { BackendAPIError } from './backend-api';
+
+const DEVICE_ID_KEY = 'publicReportDeviceId';
+const CHALLENGE_KEY = 'publicReportChallenge';
+const OUTBOX_KEY = 'publicReportOutbox';
+
+// Used until the server has been reached once; matches the backend defaults
+const DEFAULT_CHALLENGE: PublicReportChallenge = {
+  algorithm: 'sha256',
+  prefix: 'coastal-report:v1',
+  bits: 18,
+  max_age_hours: 72,
+  format: 'coastal-report:v1:<client_report_id>:<issued_at>:<nonce>'
+};
+
+// Hashes per batch; enough to keep the loop cheap without freezing the page between batches
+const PROOF_BATCH = 512;
+
+export interface QueuedPublicReport {
+  client_report_id: string;
+  report: NewPublicReport;
+  proof: { issued_at: string; nonce: string };
+  queued_at: string;
+  // Set once the server has taken or refused the report
+  receipt?: PublicReportReceipt;
+  error?: string;
+}
+
+// A random id kept on this device; the server only stores a keyed hash of it
+export const getDeviceId = () => {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+};
+
+const cachedChallenge = (): PublicReportChallenge => {
+  try {
+    return JSON.parse(localStorage.getItem(CHALLENGE_KEY) || '') as PublicReportChallenge;
+  } catch {
+    return DEFAULT_CHALLENGE;
+  }
+};
+
+// The server's current parameters when online, otherwise the last ones seen
+const loadChallenge = async (refresh = false) => {
+  if (!refresh && !navigator.onLine) return cachedChallenge();
+  try {
+    const challenge = await coastalAPI.getPublicReportChallenge();
+    localStorage.setItem(CHALLENGE_KEY, JSON.stringify(challenge));
+    return challenge;
+  } catch {
+    return cachedChallenge();
+  }
+};
+
+const leadingZeroBits = (hash: Uint8Array) => {
+  let bits = 0;
+  for (const byte of hash) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+};
+
+/**
+ * Find a nonce whose SHA-256 with the report id and issue time has the
+ * required leading zero bits. Needs no network, so it also works offline;
+ * a few seconds of work on a phone.
+ */
+export const solveProof = async (clientReportId: string, challenge: PublicReportChallenge) => {
+  const issuedAt = new Date().toISOString();
+  const encoder = new TextEncoder();
+
+  for (let start = 0; ; start += PROOF_BATCH) {
+    const nonces = Array.from({ length: PROOF_BATCH }, (_, i) => String(start + i));
+    const hashes = await Promise.all(nonces.map(nonce =>
+      crypto.subtle.digest('SHA-256', encoder.encode(`${challenge.prefix}:${clientReportId}:${issuedAt}:${nonce}`))
+    ));
+    const found = hashes.findIndex(hash => leadingZeroBits(new Uint8Array(hash)) >= challenge.bits);
+    if (found >= 0) return { issued_at: issuedAt, nonce: nonces[found] };
+  }
+};
+
+export const getQueuedPublicReports = (): QueuedPublicReport[] => {
+  try {
+    return JSON.parse(localStorage.getItem(OUTBOX_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const saveQueue = (queued: QueuedPublicReport[]) => localStorage.setItem(OUTBOX_KEY, JSON.stringify(queued));
+
+const updateQueued = (clientReportId: string, changes: Partial<QueuedPublicReport>) => {
+  saveQueue(getQueuedPublicReports().map(queued =>
+    queued.client_report_id === clientReportId ? { ...queued, ...changes } : queued
+  ));
+};
+
+const send = (queued: QueuedPublicReport) => coastalAPI.submitPublicReport({
+  ...queued.report,
+  client_report_id: queued.client_report_id,
+  device_id: getDeviceId(),
+  proof: queued.proof
+});
+
+/**
+ * Try to deliver every report still waiting in the outbox. Reports stay
+ * queued while offline or rate limited; a stale or outdated proof is solved
+ * again once. Resending is safe: the server recognises a report it already has.
+ */
+export const flushPublicReports = async () => {
+  for (const queued of getQueuedPublicReports().filter(entry => !entry.receipt && !entry.error)) {
+    if (!navigator.onLine) return;
+
+    try {
+      updateQueued(queued.client_report_id, { receipt: await send(queued) });
+    } catch (error) {
+      if (!(error instanceof BackendAPIError) || error.status === 429) continue;
+
+      if (error.status === 400 && /proof/i.test(error.message)) {
+        const proof = await solveProof(queued.client_report_id, await loadChallenge(true));
+        updateQueued(queued.client_report_id, { proof });
+        try {
+          updateQueued(queued.client_report_id, { receipt: await send({ ...queued, proof }) });
+        } catch (retryError) {
+          if (retryError instanceof BackendAPIError && retryError.status !== 429) {
+            updateQueued(queued.client_report_id, { error: retryError.message });
+          }
+        }
+        continue;
+      }
+
+      updateQueued(queued.client_report_id, { error: error.message });
+    }
+  }
+};
+
+// Prepare a report (including its proof of work) and put it in the outbox, sending it right away when online
+export const queuePublicReport = async (report: NewPublicReport) => {
+  const clientReportId = crypto.randomUUID();
+  const proof = await solveProof(clientReportId, await loadChallenge());
+
+  saveQueue([
+    ...getQueuedPublicReports(),
+    { client_report_id: clientReportId, report, proof, queued_at: new Date().toISOString() }
+  ]);
+  await flushPublicReports();
+
+  return getQueuedPublicReports().find(queued => queued.client_report_id === clientReportId)!;
+};
+
+// Forget reports that have been delivered or refused
+export const clearSettledPublicReports = () => {
+  saveQueue(getQueuedPublicReports().filter(queued => !queued.receipt && !queued.error));
+};
@@ -0,0 +1,171 @@
+// Live event stream from the backend (Server-Sent Events read over fetch so the
+// access token travels in the Authorization header rather than the URL)
+import { config } from './config';
+import { getAccessToken, refreshAccessToken } from './backend-api';
+
+export type RealtimeEventType =
+  | 'alert.created'
+  | 'alert.updated'
+  | 'alert.deactivated'
+  | 'alert.acknowledged'
+  | 'reading.created'
+  | 'incident.status_changed'
+  | 'incident.assigned'
+  | 'incident.commented'
+  | 'incident.mentioned'
+  | 'incident.duplicates_found'
+  | 'incident.merged'
+  | 'incident.public_report_queued';
+
+export interface RealtimeEvent {
+  type: RealtimeEventType;
+  sector: string | null;
+  data: Record<string, unknown>;
+  emitted_at: string;
+}
+
+export type RealtimeStatus = 'connecting' | 'open' | 'closed';
+
+interface RealtimeOptions {
+  sectors?: string[];
+  topics?: ('alert' | 'reading' | 'incident')[];
+  onEvent: (event: RealtimeEvent) => void;
+  onStatusChange?: (status: RealtimeStatus) => void;
+}
+
+const EVENT_TYPES: RealtimeEventType[] = [
+  'alert.created',
+  'alert.updated',
+  'alert.deactivated',
+  'alert.acknowledged',
+  'reading.created',
+  'incident.status_changed',
+  'incident.assigned',
+  'incident.commented',
+  'incident.mentioned',
+  'incident.duplicates_found',
+  'incident.merged',
+  'incident.public_report_queued'
+];
+
+// Parse one SSE block ("event: x\ndata: {...}") into its event name and data
+const parseBlock = (block: string) => {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).trim());
+  }
+  return { event, data: data.join('\n') };
+};
+
+// Open the stream and keep it open; returns a function that disconnects for good
+export const connectRealtime = ({ sectors, topics, onEvent, onStatusChange }: RealtimeOptions) => {
+  const { streamPath, reconnectInterval, heartbeatInterval, maxReconnectAttempts } = config.realtime;
+  let stopped = false;
+  let failures = 0;
+  // One refresh per connection, so a token the stream keeps refusing cannot loop
+  let refreshed = false;
+  let controller: AbortController | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const params = new URLSearchParams();
+  if (sectors?.length) params.set('sectors', sectors.join(','));
+  if (topics?.length) params.set('topics', topics.join(','));
+  const url = `${config.backend.baseUrl}${streamPath}${params.toString() ? `?${params}` : ''}`;
+
+  const stop = () => {
+    stopped = true;
+    clearTimeout(reconnectTimer);
+    controller?.abort();
+    onStatusChange?.('closed');
+  };
+
+  const scheduleReconnect = () => {
+    if (stopped) return;
+    failures += 1;
+    if (failures > maxReconnectAttempts) {
+      stop();
+      return;
+    }
+    onStatusChange?.('connecting');
+    reconnectTimer = setTimeout(open, reconnectInterval);
+  };
+
+  const open = async () => {
+    const token = getAccessToken();
+    if (!token || stopped) {
+      stop();
+      return;
+    }
+
+    controller = new AbortController();
+    // Missing two heartbeats means the connection is dead even if the socket is not
+    let watchdog: ReturnType<typeof setTimeout> | undefined;
+    const resetWatchdog = () => {
+      clearTimeout(watchdog);
+      watchdog = setTimeout(() => controller?.abort(), heartbeatInterval * 2);
+    };
+
+    try {
+      onStatusChange?.('connecting');
+      const response = await fetch(url, {
+        headers: { Accept: 'text/event-stream', Authorization: `Bearer ${token}` },
+        signal: controller.signal
+      });
+
+      // An expired access token is refreshed once and the stream reopened straight away;
+      // a refused refresh or a 403 will not fix itself by retrying
+      if (response.status === 401 && !refreshed && await refreshAccessToken()) {
+        refreshed = true;
+        if (!stopped) open();
+        return;
+      }
+      if (response.status === 401 || response.status === 403) {
+        stop();
+        return;
+      }
+      if (!response.ok || !response.body) {
+        throw new Error(`Realtime stream responded ${response.status}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      resetWatchdog();
+
+      while (!stopped) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        resetWatchdog();
+
+        buffer += decoder.decode(value, { stream: true });
+        const blocks = buffer.split('\n\n');
+        buffer = blocks.pop() || '';
+
+        for (const block of blocks) {
+          const { event, data } = parseBlock(block);
+          if (event === 'ready') {
+            failures = 0;
+            refreshed = false;
+            onStatusChange?.('open');
+          } else if (event === 'session_revoked') {
+            stop();
+            return;
+          } else if (EVENT_TYPES.includes(event as RealtimeEventType) && data) {
+            onEvent(JSON.parse(data) as RealtimeEvent);
+          }
+        }
+      }
+    } catch (error) {
+      if (!stopped) console.warn('Realtime stream interrupted:', error);
+    } finally {
+      clearTimeout(watchdog);
+    }
+
+    scheduleReconnect();
+  };
+
+  open();
+  return stop;
+};
@@ -3,6 +3,11 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { AlertBadge } from '@/components/ui/alert-badge';
 import { Switch } from '@/components/ui/switch';
+import { AlertHistoryPanel } from '@/components/dashboard/AlertHistoryPanel';
+import { IncidentMediaGallery } from '@/components/dashboard/IncidentMediaGallery';
+import { useAcknowledgeAlert, useAlertRecords } from '@/hooks/use-coastal-data';
+import { useToast } from '@/hooks/use-toast';
+import type { AcknowledgementResponse, AlertRecord } from '@/lib/api';
 import { 
   Bell, 
   Mail, 
@@ -72,6 +77,17 @@ const mockAlerts: AlertItem[] = [
   }
 ];
 
+// Backend alerts in the shape the list renders
+const toAlertItem = (alert: AlertRecord): AlertItem => ({
+  id: alert.id,
+  type: alert.type,
+  title: alert.title,
+  message: alert.message,
+  timestamp: new Date(alert.published_at || alert.created_at).toLocaleString(),
+  location: alert.location,
+  category: alert.category
+});
+
 const alertIcons = {
   safe: CheckCircle,
   advisory: AlertCircle,
@@ -89,6 +105,30 @@ const Alerts = () => {
     pollution: false,
     tidal: true
   });
+  const { data: alertRecords } = useAlertRecords();
+  const [selectedAlertId, setSelectedAlertId] = useState<string | null>(null);
+  const acknowledge = useAcknowledgeAlert();
+  const { toast } = useToast();
+
+  const handleAcknowledge = (alertId: string, response?: AcknowledgementResponse) => {
+    acknowledge.mutate({ alertId, response }, {
+      onSuccess: () => toast({
+        title: response === 'need_help' ? 'Help request sent' : 'Alert acknowledged',
+        description: response === 'need_help'
+          ? 'Emergency coordinators can see that you need help.'
+          : 'Thank you for confirming you received this alert.'
+      }),
+      onError: (error) => toast({
+        title: 'Could not acknowledge alert',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive'
+      })
+    });
+  };
+
+  // Signed-in users see live alerts; the sample list is shown otherwise
+  const alerts = alertRecords ? alertRecords.map(toAlertItem) : mockAlerts;
+  const selectedRecord = alertRecords?.find(alert => alert.id === selectedAlertId);
 
   const handleNotificationChange = (key: string, value: boolean) => {
     setNotifications(prev => ({ ...prev, [key]: value }));
@@ -113,12 +153,18 @@ const Alerts = () => {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                {mockAlerts.map((alert) => {
+                {alerts.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No active alerts.</p>
+                )}
+                {alerts.map((alert) => {
                   const Icon = alertIcons[alert.type];
                   return (
                     <div 
                       key={alert.id} 
-                      className="p-4 rounded-lg border border-border/50 bg-card hover:shadow-card transition-smooth"
+                      onClick={() => setSelectedAlertId(alert.id === selectedAlertId ? null : alert.id)}
+                      className={`p-4 rounded-lg border bg-card hover:shadow-card transition-smooth cursor-pointer ${
+                        alert.id === selectedAlertId ? 'border-primary' : 'border-border/50'
+                      }`}
                     >
                       <div className="flex items-start space-x-3">
                         <Icon className={`h-6 w-6 mt-1 ${
@@ -137,6 +183,19 @@ const Alerts = () => {
                             <span>{alert.location}</span>
                             <span className="px-2 py-1 bg-muted rounded-sm">{alert.category}</span>
                           </div>
+                          {alertRecords && (
+                            <div className="flex items-center space-x-2 mt-3" onClick={(event) => event.stopPropagation()}>
+                              <Button size="sm" variant="outline" disabled={acknowledge.isPending} onClick={() => handleAcknowledge(alert.id)}>
+                                Acknowledge
+                              </Button>
+                              <Button size="sm" variant="outline" disabled={acknowledge.isPending} onClick={() => handleAcknowledge(alert.id, 'safe')}>
+                                I'm safe
+                              </Button>
+                              <Button size="sm" variant="destructive" disabled={acknowledge.isPending} onClick={() => handleAcknowledge(alert.id, 'need_help')}>
+                                Need help
+                              </Button>
+                            </div>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -144,6 +203,14 @@ const Alerts = () => {
                 })}
               </CardContent>
             </Card>
+
+            {/* Selected alert history */}
+            {selectedAlertId && <AlertHistoryPanel alertId={selectedAlertId} />}
+
+            {/* Photos and videos from the incident report the alert was promoted from */}
+            {selectedRecord?.incident_id && (
+              <IncidentMediaGallery incidentId={selectedRecord.incident_id} title="Evidence behind this alert" />
+            )}
           </div>
 
           {/* Notification Settings */}
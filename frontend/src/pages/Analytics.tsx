@@ -0,0 +1,327 @@
+import React, { useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from '@/components/ui/chart';
+import { Activity, CheckCircle, Clock, FileText, HeartPulse, MapPin } from 'lucide-react';
+import { useIncidentAnalytics } from '@/hooks/use-coastal-data';
+import type { IncidentAnalytics, IncidentAnalyticsInterval, IncidentRecord } from '@/lib/api';
+
+type Breakdown = 'by_type' | 'by_severity' | 'by_status' | 'by_sector';
+
+const BREAKDOWNS: { value: Breakdown; label: string }[] = [
+  { value: 'by_type', label: 'Incident type' },
+  { value: 'by_severity', label: 'Severity' },
+  { value: 'by_status', label: 'Status' },
+  { value: 'by_sector', label: 'Sector' }
+];
+
+// Series colours, reused in order when there are more series than colours
+const PALETTE = [
+  'hsl(214 76% 45%)',
+  'hsl(21 90% 48%)',
+  'hsl(142 60% 40%)',
+  'hsl(0 84% 60%)',
+  'hsl(262 52% 55%)',
+  'hsl(190 80% 40%)',
+  'hsl(45 93% 47%)',
+  'hsl(330 65% 50%)'
+];
+
+// Only the busiest series get their own colour; the rest are summed into "other"
+const MAX_SERIES = 7;
+
+const formatLabel = (key: string) => key.replace(/[-_]/g, ' ').replace(/^\w/, c => c.toUpperCase());
+
+const formatHours = (hours: number | null) => {
+  if (hours === null) return '—';
+  if (hours < 1) return `${Math.round(hours * 60)} min`;
+  if (hours < 48) return `${hours.toFixed(1)} h`;
+  return `${(hours / 24).toFixed(1)} days`;
+};
+
+const formatPeriod = (period: string, interval: IncidentAnalyticsInterval) =>
+  interval === 'month'
+    ? new Date(`${period}-01T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', year: 'numeric', timeZone: 'UTC' })
+    : new Date(`${period}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+// Rows for a stacked bar chart of one breakdown over time, with its chart config.
+// Series get generated ids because sector names are not valid CSS variable names.
+const stackedTimeline = (analytics: IncidentAnalytics, breakdown: Breakdown) => {
+  const keys = Object.entries(analytics[breakdown]).sort((a, b) => b[1] - a[1]).map(([key]) => key);
+  const shown = keys.slice(0, MAX_SERIES);
+  const labels = keys.length > MAX_SERIES ? [...shown, 'other'] : shown;
+  const series = labels.map((_, i) => `series${i}`);
+
+  const config: ChartConfig = Object.fromEntries(labels.map((label, i) => [
+    series[i],
+    { label: label === 'none' ? 'No sector' : formatLabel(label), color: PALETTE[i % PALETTE.length] }
+  ]));
+
+  const rows = analytics.timeline.map(bucket => {
+    const row: Record<string, string | number> = { period: formatPeriod(bucket.period, analytics.range.interval) };
+    series.forEach(id => { row[id] = 0; });
+    Object.entries(bucket[breakdown]).forEach(([key, count]) => {
+      const index = shown.indexOf(key);
+      const id = series[index >= 0 ? index : series.length - 1];
+      row[id] = Number(row[id]) + count;
+    });
+    return row;
+  });
+
+  return { rows, series, config };
+};
+
+const durationConfig: ChartConfig = {
+  verify: { label: 'Median hours to verify', color: PALETTE[0] },
+  resolve: { label: 'Median hours to resolve', color: PALETTE[2] }
+};
+
+const totalsConfig: ChartConfig = {
+  incidents: { label: 'Incidents', color: PALETTE[0] }
+};
+
+const Analytics = () => {
+  const [rangeInterval, setRangeInterval] = useState<IncidentAnalyticsInterval>('month');
+  const [severity, setSeverity] = useState<IncidentRecord['severity'] | 'all'>('all');
+  const [breakdown, setBreakdown] = useState<Breakdown>('by_type');
+
+  const { data: analytics, isLoading } = useIncidentAnalytics({
+    interval: rangeInterval,
+    severity: severity === 'all' ? undefined : severity
+  });
+
+  const stacked = useMemo(() => analytics ? stackedTimeline(analytics, breakdown) : null, [analytics, breakdown]);
+
+  const durations = useMemo(() => analytics?.timeline.map(bucket => ({
+    period: formatPeriod(bucket.period, analytics.range.interval),
+    verify: bucket.median_hours_to_verify,
+    resolve: bucket.median_hours_to_resolve
+  })) || [], [analytics]);
+
+  const sectorTotals = useMemo(() => Object.entries(analytics?.by_sector || {})
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 10)
+    .map(([sector, incidents]) => ({ sector: sector === 'none' ? 'No sector' : sector, incidents })), [analytics]);
+
+  const stats = analytics ? [
+    { title: 'Incidents', value: String(analytics.totals.incidents), icon: FileText },
+    {
+      title: 'Public health risk',
+      value: `${Math.round(analytics.totals.public_health_risk_share * 100)}%`,
+      detail: `${analytics.totals.public_health_risk} reports`,
+      icon: HeartPulse
+    },
+    {
+      title: 'Median time to verify',
+      value: formatHours(analytics.time_to_verify.median_hours),
+      detail: `${analytics.time_to_verify.count} verified`,
+      icon: CheckCircle
+    },
+    {
+      title: 'Median time to resolve',
+      value: formatHours(analytics.time_to_resolve.median_hours),
+      detail: `${analytics.time_to_resolve.count} resolved`,
+      icon: Clock
+    }
+  ] : [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted/20 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2">Incident Analytics</h1>
+            <p className="text-muted-foreground">
+              Reported incidents over time, how quickly they are handled, and where they cluster
+              {analytics?.scope === 'organization' && ` (${analytics.organization} only)`}
+              {analytics?.scope === 'own' && ' (your own reports only)'}
+            </p>
+          </div>
+
+          <div className="flex gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="interval" className="text-xs">Per</Label>
+              <Select value={rangeInterval} onValueChange={(value) => setRangeInterval(value as IncidentAnalyticsInterval)}>
+                <SelectTrigger id="interval" className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="day">Day (30 days)</SelectItem>
+                  <SelectItem value="week">Week (12 weeks)</SelectItem>
+                  <SelectItem value="month">Month (12 months)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="severity" className="text-xs">Severity</Label>
+              <Select value={severity} onValueChange={(value) => setSeverity(value as typeof severity)}>
+                <SelectTrigger id="severity" className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  <SelectItem value="low">Low</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="high">High</SelectItem>
+                  <SelectItem value="critical">Critical</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        {isLoading && <p className="text-sm text-muted-foreground">Loading analytics...</p>}
+        {!isLoading && !analytics && (
+          <p className="text-sm text-muted-foreground">Analytics are unavailable right now.</p>
+        )}
+
+        {analytics && stacked && (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+              {stats.map(stat => (
+                <Card key={stat.title} className="shadow-card border-border/50">
+                  <CardContent className="p-4 flex items-center justify-between">
+                    <div>
+                      <p className="text-sm text-muted-foreground">{stat.title}</p>
+                      <p className="text-2xl font-bold text-foreground">{stat.value}</p>
+                      {stat.detail && <p className="text-xs text-muted-foreground">{stat.detail}</p>}
+                    </div>
+                    <stat.icon className="h-8 w-8 text-primary" />
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <Card className="shadow-card border-border/50">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="flex items-center space-x-2">
+                  <Activity className="h-5 w-5 text-primary" />
+                  <span>Incidents over time</span>
+                </CardTitle>
+                <Select value={breakdown} onValueChange={(value) => setBreakdown(value as Breakdown)}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BREAKDOWNS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={stacked.config} className="h-80 w-full aspect-auto">
+                  <BarChart data={stacked.rows}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="period" tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {stacked.series.map(key => (
+                      <Bar key={key} dataKey={key} stackId="incidents" fill={`var(--color-${key})`} />
+                    ))}
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card className="shadow-card border-border/50">
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Clock className="h-5 w-5 text-primary" />
+                    <span>Handling time</span>
+                  </CardTitle>
+                  <p className="text-sm text-muted-foreground">Median hours from report, grouped by when reports arrived</p>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={durationConfig} className="h-64 w-full aspect-auto">
+                    <LineChart data={durations}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="period" tickLine={false} axisLine={false} />
+                      <YAxis tickLine={false} axisLine={false} width={40} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      <Line dataKey="verify" type="monotone" stroke="var(--color-verify)" strokeWidth={2} connectNulls />
+                      <Line dataKey="resolve" type="monotone" stroke="var(--color-resolve)" strokeWidth={2} connectNulls />
+                    </LineChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <Card className="shadow-card border-border/50">
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <MapPin className="h-5 w-5 text-primary" />
+                    <span>Incidents by sector</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={totalsConfig} className="h-64 w-full aspect-auto">
+                    <BarChart data={sectorTotals} layout="vertical">
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                      <YAxis type="category" dataKey="sector" tickLine={false} axisLine={false} width={140} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="incidents" fill="var(--color-incidents)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card className="shadow-card border-border/50">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <MapPin className="h-5 w-5 text-primary" />
+                  <span>Hotspots</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {analytics.hotspots.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No area had more than one located report in this range.</p>
+                )}
+                {analytics.hotspots.map(hotspot => (
+                  <div key={hotspot.center.join(',')} className="p-3 rounded-lg border border-border/50 flex items-start justify-between gap-4">
+                    <div className="space-y-1">
+                      <p className="text-sm font-medium text-foreground">
+                        {hotspot.locations.join(' · ') || `${hotspot.center[1]}, ${hotspot.center[0]}`}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {hotspot.incident_types.map(formatLabel).join(', ')}
+                        {hotspot.sectors.length > 0 && ` · ${hotspot.sectors.join(', ')}`}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Around {hotspot.center[1]}, {hotspot.center[0]} (within ~{hotspot.cell_km} km) · last reported{' '}
+                        {new Date(hotspot.last_reported).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="flex flex-col items-end gap-1 shrink-0">
+                      <Badge variant="secondary">{hotspot.incidents} reports</Badge>
+                      <Badge variant="outline" className="text-xs">worst: {hotspot.severity}</Badge>
+                      {hotspot.public_health_risk > 0 && (
+                        <Badge variant="destructive" className="text-xs">{hotspot.public_health_risk} health risk</Badge>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Analytics;
@@ -1,6 +1,7 @@
 import React from 'react';
 import { SensorCard } from '@/components/dashboard/SensorCard';
 import { AlertPanel } from '@/components/dashboard/AlertPanel';
+import { AcknowledgementCoverage } from '@/components/dashboard/AcknowledgementCoverage';
 import { RealTimeDataTest } from '@/components/dashboard/RealTimeDataTest';
 import { EarthdataPanel } from '@/components/dashboard/EarthdataPanel';
 import { EarthdataDatasets } from '@/components/dashboard/EarthdataDatasets';
@@ -197,6 +198,9 @@ const Dashboard = () => {
           <div className="space-y-6">
             {/* Alerts Panel */}
             <AlertPanel />
+
+            {/* Who has confirmed live alerts (staff only) */}
+            <AcknowledgementCoverage />
             
             {/* NASA Earthdata Datasets Panel */}
             <Card className="shadow-card border-border/50">
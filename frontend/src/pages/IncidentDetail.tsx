@@ -0,0 +1,227 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { IncidentActivityTimeline } from '@/components/dashboard/IncidentActivityTimeline';
+import { IncidentAlertsPanel } from '@/components/dashboard/IncidentAlertsPanel';
+import { IncidentDuplicatesPanel } from '@/components/dashboard/IncidentDuplicatesPanel';
+import { IncidentMediaGallery } from '@/components/dashboard/IncidentMediaGallery';
+import { useIncidentRecord } from '@/hooks/use-coastal-data';
+import { getSeverityColor, getStatusColor } from '@/lib/incident-status';
+import { ArrowLeft, CheckCircle, Clock, FileText, GitMerge, MapPin, User, Users } from 'lucide-react';
+
+const outcomeLabel = (outcome: string) =>
+  outcome.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const IncidentDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { data: detail, isLoading } = useIncidentRecord(id || null);
+
+  const incident = detail && !('redacted' in detail) ? detail.incident : undefined;
+  const overdue = incident?.due_at ? new Date(incident.due_at) < new Date() : false;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted/20 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <Button variant="ghost" size="sm" asChild className="mb-4">
+          <Link to="/reports">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to reports
+          </Link>
+        </Button>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading incident…</p>
+        ) : !detail ? (
+          <p className="text-sm text-muted-foreground">This incident report could not be found.</p>
+        ) : 'redacted' in detail ? (
+          <div className="max-w-3xl space-y-6">
+            <Card className="shadow-card border-border/50">
+              <CardHeader>
+                <CardTitle className="flex items-start justify-between">
+                  <span className="flex items-center space-x-2">
+                    <FileText className="h-5 w-5 text-primary" />
+                    <span>{detail.incident.incident_title}</span>
+                  </span>
+                  <Badge className={getStatusColor(detail.incident.status)}>{detail.incident.status}</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  <Badge className={getSeverityColor(detail.incident.severity)} variant="outline">
+                    {detail.incident.severity} severity
+                  </Badge>
+                  <Badge variant="outline">{detail.incident.incident_type}</Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Another person reported this in the same incident as you. Only its status and public comments are shared.
+                </p>
+                {detail.parent && (
+                  <div className="p-3 rounded-lg bg-muted/30 border border-border/30 text-sm">
+                    Merged into{' '}
+                    <Link to={`/reports/${detail.parent.id}`} className="font-medium text-primary hover:underline">
+                      {detail.parent.incident_title}
+                    </Link>
+                    , which is {detail.parent.status}.
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <IncidentActivityTimeline incidentId={detail.incident.id} canPostInternal={false} />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 space-y-6">
+              <Card className="shadow-card border-border/50">
+                <CardHeader>
+                  <CardTitle className="flex items-start justify-between">
+                    <span className="flex items-center space-x-2">
+                      <FileText className="h-5 w-5 text-primary" />
+                      <span>{incident.incident_title}</span>
+                    </span>
+                    <Badge className={getStatusColor(incident.status)}>{incident.status}</Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex flex-wrap gap-2">
+                    <Badge className={getSeverityColor(incident.severity)} variant="outline">
+                      {incident.severity} severity
+                    </Badge>
+                    <Badge variant="outline">{incident.incident_type}</Badge>
+                    {incident.public_health_risk && (
+                      <Badge className="bg-emergency text-emergency-foreground">Public health risk</Badge>
+                    )}
+                  </div>
+
+                  <p className="text-sm text-foreground whitespace-pre-wrap">{incident.description}</p>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm text-muted-foreground">
+                    <div className="flex items-center space-x-2">
+                      <MapPin className="h-4 w-4" />
+                      <span>{incident.location}{incident.sector ? ` (sector ${incident.sector})` : ''}</span>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Clock className="h-4 w-4" />
+                      <span>Observed {new Date(incident.date_time).toLocaleString()}</span>
+                    </div>
+                    {incident.users && (
+                      <div className="flex items-center space-x-2">
+                        <User className="h-4 w-4" />
+                        <span>Reported by {incident.users.full_name}</span>
+                      </div>
+                    )}
+                    {(incident.assignee || incident.team) && (
+                      <div className="flex items-center space-x-2">
+                        <Users className="h-4 w-4" />
+                        <span>
+                          Assigned to {[incident.assignee?.full_name, incident.team?.name].filter(Boolean).join(' · ')}
+                        </span>
+                      </div>
+                    )}
+                  </div>
+
+                  {detail.parent && (
+                    <div className="p-3 rounded-lg bg-muted/30 border border-border/30 text-sm">
+                      Merged into{' '}
+                      <Link to={`/reports/${detail.parent.id}`} className="font-medium text-primary hover:underline">
+                        {detail.parent.incident_title}
+                      </Link>
+                      , which carries on the investigation.
+                    </div>
+                  )}
+
+                  {incident.due_at && (
+                    <p className={`text-xs ${overdue ? 'text-emergency font-medium' : 'text-muted-foreground'}`}>
+                      {overdue ? 'Overdue since' : 'Due by'} {new Date(incident.due_at).toLocaleString()}
+                    </p>
+                  )}
+
+                  {incident.additional_notes && (
+                    <div className="p-3 rounded-lg bg-muted/30 border border-border/30">
+                      <p className="text-xs font-medium text-muted-foreground mb-1">Reporter's notes</p>
+                      <p className="text-sm text-foreground whitespace-pre-wrap">{incident.additional_notes}</p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <IncidentMediaGallery incidentId={incident.id} />
+
+              <IncidentActivityTimeline incidentId={incident.id} canPostInternal={!!detail.transitions} />
+            </div>
+
+            <div className="space-y-6">
+              <IncidentAlertsPanel
+                incidentId={incident.id}
+                incidentStatus={incident.status}
+                alerts={detail.alerts}
+                openAlerts={detail.open_alerts}
+                canManage={!!detail.transitions}
+              />
+
+              {detail.transitions && !detail.parent && <IncidentDuplicatesPanel incidentId={incident.id} />}
+
+              {detail.merged_reports.length > 0 && (
+                <Card className="shadow-card border-border/50">
+                  <CardHeader>
+                    <CardTitle className="flex items-center space-x-2">
+                      <GitMerge className="h-5 w-5 text-primary" />
+                      <span>Merged reports</span>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {detail.merged_reports.map(report => (
+                      <div key={report.id} className="p-3 rounded-lg border border-border/50 space-y-1">
+                        <Link to={`/reports/${report.id}`} className="text-sm font-medium text-foreground hover:underline">
+                          {report.incident_title}
+                        </Link>
+                        <p className="text-xs text-muted-foreground">
+                          {report.location ? `${report.location} · ` : ''}{new Date(report.date_time).toLocaleString()}
+                          {report.users ? ` · ${report.users.full_name}` : ''}
+                        </p>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+
+              <Card className="shadow-card border-border/50">
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <CheckCircle className="h-5 w-5 text-primary" />
+                    <span>Resolutions</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {detail.resolutions.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Not resolved yet.</p>
+                  ) : (
+                    detail.resolutions.map(resolution => (
+                      <div key={resolution.id} className="p-3 rounded-lg border border-border/50 space-y-1">
+                        <div className="flex items-center justify-between text-xs text-muted-foreground">
+                          <Badge variant="outline" className="text-xs">{outcomeLabel(resolution.outcome)}</Badge>
+                          <span>{new Date(resolution.created_at).toLocaleString()}</span>
+                        </div>
+                        <p className="text-sm text-foreground">{resolution.summary}</p>
+                        {resolution.actions_taken && (
+                          <p className="text-xs text-muted-foreground">Actions: {resolution.actions_taken}</p>
+                        )}
+                        {resolution.users && (
+                          <p className="text-xs text-muted-foreground">By {resolution.users.full_name}</p>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default IncidentDetail;
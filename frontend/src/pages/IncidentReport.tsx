@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -8,6 +9,7 @@ import { Badge } from '@/components/ui/badge';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Separator } from '@/components/ui/separator';
+import { ToastAction } from '@/components/ui/toast';
 import { 
   FileText, 
   Upload, 
@@ -32,6 +34,10 @@ import {
   EyeOff
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { coastalAPI, type IncidentMediaRecord } from '@/lib/api';
+import { getAccessToken } from '@/lib/backend-api';
+import { createThumbnail } from '@/lib/media-thumbnail';
+import { getSeverityColor } from '@/lib/incident-status';
 
 interface FormData {
   // Basic Information
@@ -80,6 +86,27 @@ interface FormData {
   consentToShare: boolean;
 }
 
+// Server-side state of a chosen photo or video; files upload as soon as they are picked
+interface MediaUpload {
+  file: File;
+  progress: number;
+  media?: IncidentMediaRecord;
+  error?: string;
+}
+
+interface MetadataSuggestion {
+  filename: string;
+  coordinates?: string;
+  dateTime?: string;
+}
+
+// datetime-local wants local wall-clock time; camera times without an offset already are
+const toLocalInput = (value: string) => {
+  if (!/(Z|[+-]\d{2}:\d{2})$/.test(value)) return value.slice(0, 16);
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
 const incidentTypes = [
   { value: 'oil-spill', label: 'Oil Spill', description: 'Petroleum or chemical spills in water' },
   { value: 'water-pollution', label: 'Water Pollution', description: 'Contamination of coastal waters' },
@@ -116,20 +143,13 @@ const sectors = [
   'Sector D-3 (Residential Zone)'
 ];
 
-const getSeverityColor = (severity: string) => {
-  switch (severity) {
-    case 'low': return 'bg-safe text-safe-foreground';
-    case 'medium': return 'bg-advisory text-advisory-foreground';
-    case 'high': return 'bg-warning text-warning-foreground';
-    case 'critical': return 'bg-emergency text-emergency-foreground';
-    default: return 'bg-muted text-muted-foreground';
-  }
-};
-
 const IncidentReport = () => {
   const { toast } = useToast();
+  const navigate = useNavigate();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showAdvancedFields, setShowAdvancedFields] = useState(false);
+  const [uploads, setUploads] = useState<MediaUpload[]>([]);
+  const [metadataSuggestion, setMetadataSuggestion] = useState<MetadataSuggestion | null>(null);
   const [formData, setFormData] = useState<FormData>({
     // Basic Information
     incidentType: '',
@@ -181,6 +201,45 @@ const IncidentReport = () => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  const updateUpload = (file: File, changes: Partial<MediaUpload>) => {
+    setUploads(prev => prev.map(upload => upload.file === file ? { ...upload, ...changes } : upload));
+  };
+
+  // Offer the first photo's location and capture time for the report
+  const offerMetadata = (file: File, media: IncidentMediaRecord) => {
+    const { coordinates, captured_at } = media.metadata || {};
+    if (!coordinates && !captured_at) return;
+
+    setMetadataSuggestion(prev => prev || {
+      filename: file.name,
+      coordinates: coordinates ? `${coordinates[1].toFixed(6)}, ${coordinates[0].toFixed(6)}` : undefined,
+      dateTime: captured_at ? toLocalInput(captured_at) : undefined
+    });
+  };
+
+  const startUpload = async (file: File) => {
+    setUploads(prev => [...prev, { file, progress: 0 }]);
+
+    try {
+      let media = await coastalAPI.uploadIncidentMedia(file, {
+        onProgress: progress => updateUpload(file, { progress })
+      });
+
+      // Videos and PNGs carry no preview the server can use; a missing thumbnail is not worth failing over
+      if (!media.has_thumbnail) {
+        const thumbnail = await createThumbnail(file);
+        if (thumbnail) {
+          media = await coastalAPI.uploadIncidentMediaThumbnail(media.id, thumbnail).catch(() => media);
+        }
+      }
+
+      updateUpload(file, { progress: 1, media });
+      offerMetadata(file, media);
+    } catch (error) {
+      updateUpload(file, { error: error instanceof Error ? error.message : 'Upload failed' });
+    }
+  };
+
   const handleFileUpload = (field: 'photos' | 'videos', files: FileList | null) => {
     if (!files) return;
     
@@ -189,15 +248,45 @@ const IncidentReport = () => {
       ...prev,
       [field]: [...prev[field], ...newFiles]
     }));
+
+    if (getAccessToken()) {
+      newFiles.forEach(startUpload);
+    }
   };
 
   const removeFile = (field: 'photos' | 'videos', index: number) => {
+    const file = formData[field][index];
+    const upload = uploads.find(candidate => candidate.file === file);
+    if (upload?.media) {
+      coastalAPI.deleteIncidentMedia(upload.media.id).catch(error => console.warn('Could not remove upload:', error));
+    }
+
+    setUploads(prev => prev.filter(candidate => candidate.file !== file));
     setFormData(prev => ({
       ...prev,
       [field]: prev[field].filter((_, i) => i !== index)
     }));
   };
 
+  const applyMetadataSuggestion = () => {
+    if (!metadataSuggestion) return;
+
+    setFormData(prev => ({
+      ...prev,
+      coordinates: metadataSuggestion.coordinates || prev.coordinates,
+      dateTime: metadataSuggestion.dateTime || prev.dateTime
+    }));
+    setMetadataSuggestion(null);
+  };
+
+  const renderUploadStatus = (file: File) => {
+    const upload = uploads.find(candidate => candidate.file === file);
+    if (!upload) return null;
+    if (upload.error) return <span className="text-xs text-emergency">{upload.error}</span>;
+    if (!upload.media) return <span className="text-xs text-muted-foreground">Uploading {Math.round(upload.progress * 100)}%</span>;
+    return <span className="text-xs text-safe">Uploaded</span>;
+  };
+
   const validateForm = (): boolean => {
     const requiredFields = ['incidentType', 'incidentTitle', 'description', 'severity', 'location', 'reporterName'];
     const missingFields = requiredFields.filter(field => !formData[field as keyof FormData]);
@@ -227,12 +316,63 @@ const IncidentReport = () => {
     e.preventDefault();
     
     if (!validateForm()) return;
+
+    if (!getAccessToken()) {
+      toast({
+        title: "Sign In Required",
+        description: "Please sign in to submit an incident report.",
+        variant: "destructive",
+        action: (
+          <ToastAction altText="Sign in" onClick={() => navigate('/login')}>
+            Sign in
+          </ToastAction>
+        )
+      });
+      return;
+    }
+
+    if (uploads.some(upload => !upload.media && !upload.error)) {
+      toast({
+        title: "Uploads In Progress",
+        description: "Please wait for your photos and videos to finish uploading.",
+        variant: "destructive"
+      });
+      return;
+    }
     
     setIsSubmitting(true);
     
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      await coastalAPI.createIncidentReport({
+        incident_type: formData.incidentType,
+        incident_title: formData.incidentTitle,
+        description: formData.description,
+        severity: formData.severity as 'low' | 'medium' | 'high' | 'critical',
+        location: formData.location,
+        coordinates: formData.coordinates || undefined,
+        sector: formData.sector.match(/^Sector (\S+)/)?.[1],
+        nearest_landmark: formData.nearestLandmark || undefined,
+        date_time: new Date(formData.dateTime).toISOString(),
+        weather_conditions: formData.weatherConditions || undefined,
+        tide_level: formData.tideLevel || undefined,
+        wind_speed: formData.windSpeed || undefined,
+        affected_area: formData.affectedArea || undefined,
+        marine_life_impact: formData.marineLifeImpact || undefined,
+        water_quality_impact: formData.waterQualityImpact || undefined,
+        public_health_risk: formData.publicHealthRisk,
+        immediate_actions: formData.immediateActions || undefined,
+        authorities_notified: formData.authoritiesNotified,
+        emergency_services_called: formData.emergencyServicesCalled,
+        reporter_name: formData.reporterName,
+        reporter_phone: formData.reporterPhone || undefined,
+        reporter_email: formData.reporterEmail || undefined,
+        organization: formData.organization || undefined,
+        relationship_to_incident: formData.relationshipToIncident || undefined,
+        additional_notes: formData.additionalNotes || undefined,
+        consent_to_contact: formData.consentToContact,
+        consent_to_share: formData.consentToShare,
+        media_ids: uploads.flatMap(upload => upload.media ? [upload.media.id] : [])
+      });
       
       toast({
         title: "Report Submitted Successfully",
@@ -271,11 +411,13 @@ const IncidentReport = () => {
         consentToContact: false,
         consentToShare: false
       });
+      setUploads([]);
+      setMetadataSuggestion(null);
       
     } catch (error) {
       toast({
         title: "Submission Failed",
-        description: "There was an error submitting your report. Please try again.",
+        description: error instanceof Error ? error.message : "There was an error submitting your report. Please try again.",
         variant: "destructive"
       });
     } finally {
@@ -698,6 +840,26 @@ const IncidentReport = () => {
                   <Camera className="h-5 w-5 text-primary" />
                   <h3 className="text-lg font-semibold">Evidence & Documentation</h3>
                 </div>
+
+                {metadataSuggestion && (
+                  <div className="flex items-start justify-between p-3 rounded-lg border border-primary/30 bg-primary/5">
+                    <div className="flex items-start space-x-2">
+                      <MapPin className="h-4 w-4 text-primary mt-0.5" />
+                      <p className="text-sm text-foreground">
+                        {metadataSuggestion.filename} was taken
+                        {metadataSuggestion.coordinates && <> at {metadataSuggestion.coordinates}</>}
+                        {metadataSuggestion.dateTime && <> on {new Date(metadataSuggestion.dateTime).toLocaleString()}</>}.
+                        {' '}Use this for the report's location and time?
+                      </p>
+                    </div>
+                    <div className="flex space-x-2 ml-4">
+                      <Button type="button" size="sm" onClick={applyMetadataSuggestion}>Use</Button>
+                      <Button type="button" size="sm" variant="ghost" onClick={() => setMetadataSuggestion(null)}>
+                        Dismiss
+                      </Button>
+                    </div>
+                  </div>
+                )}
                 
                 {/* Photo Upload */}
                 <div className="space-y-3">
@@ -705,7 +867,7 @@ const IncidentReport = () => {
                   <div className="border-2 border-dashed border-border rounded-lg p-6 text-center">
                     <Upload className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
                     <p className="text-sm text-muted-foreground mb-2">
-                      Upload photos of the incident (JPG, PNG, max 5MB each)
+                      Upload photos of the incident (JPG, PNG, max 15MB each)
                     </p>
                     <Button 
                       type="button"
@@ -720,7 +882,7 @@ const IncidentReport = () => {
                       id="photoUpload"
                       type="file"
                       multiple
-                      accept="image/*"
+                      accept="image/jpeg,image/png"
                       className="hidden"
                       onChange={(e) => handleFileUpload('photos', e.target.files)}
                     />
@@ -736,6 +898,7 @@ const IncidentReport = () => {
                             alt={`Photo ${index + 1}`}
                             className="w-full h-20 object-cover rounded-lg"
                           />
+                          <div className="mt-1 truncate">{renderUploadStatus(file)}</div>
                           <Button
                             type="button"
                             variant="destructive"
@@ -757,7 +920,7 @@ const IncidentReport = () => {
                   <div className="border-2 border-dashed border-border rounded-lg p-6 text-center">
                     <Upload className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
                     <p className="text-sm text-muted-foreground mb-2">
-                      Upload videos of the incident (MP4, MOV, max 50MB each)
+                      Upload videos of the incident (MP4, MOV, max 200MB each)
                     </p>
                     <Button 
                       type="button"
@@ -772,7 +935,7 @@ const IncidentReport = () => {
                       id="videoUpload"
                       type="file"
                       multiple
-                      accept="video/*"
+                      accept="video/mp4,video/quicktime"
                       className="hidden"
                       onChange={(e) => handleFileUpload('videos', e.target.files)}
                     />
@@ -783,7 +946,10 @@ const IncidentReport = () => {
                     <div className="space-y-2">
                       {formData.videos.map((file, index) => (
                         <div key={index} className="flex items-center justify-between p-2 bg-muted/30 rounded-lg">
-                          <span className="text-sm text-muted-foreground">{file.name}</span>
+                          <div className="flex flex-col">
+                            <span className="text-sm text-muted-foreground">{file.name}</span>
+                            {renderUploadStatus(file)}
+                          </div>
                           <Button
                             type="button"
                             variant="destructive"
@@ -843,7 +1009,8 @@ const IncidentReport = () => {
                     <div className="space-y-1">
                       <Label htmlFor="consentToShare">Consent to Share Information</Label>
                       <p className="text-xs text-muted-foreground">
-                        I consent to my report being shared with relevant authorities and organizations for response purposes
+                        I consent to my report being shared with relevant authorities and organizations for response purposes.
+                        Without this consent, GPS location embedded in your photos and videos is removed before they are stored.
                       </p>
                     </div>
                   </div>
@@ -101,6 +101,10 @@ const Landing: React.FC = () => {
                 </Button>
               </Link>
             </div>
+            <p className="mt-6 text-gray-600">
+              Seen something on the coast?{' '}
+              <Link to="/report" className="text-blue-600 hover:underline">Report it without an account</Link>
+            </p>
           </div>
         </div>
         
@@ -137,15 +137,6 @@ const Login: React.FC = () => {
               </Button>
             </form>
 
-            {/* Demo Credentials */}
-            <div className="text-center space-y-2">
-              <p className="text-sm text-gray-500">Demo Credentials:</p>
-              <div className="text-xs text-gray-400 space-y-1">
-                <p>Admin: admin@disaster.gov / password123</p>
-                <p>Mayor: mayor@mumbai.gov / password123</p>
-              </div>
-            </div>
-
             {/* Divider */}
             <div className="relative">
               <div className="absolute inset-0 flex items-center">
@@ -0,0 +1,485 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Separator } from '@/components/ui/separator';
+import { FileText, Info, MapPin, Shield, User, WifiOff } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { NewPublicReport } from '@/lib/api';
+import {
+  clearSettledPublicReports,
+  flushPublicReports,
+  getQueuedPublicReports,
+  queuePublicReport,
+  type QueuedPublicReport
+} from '@/lib/public-report';
+
+interface FormData {
+  incidentType: string;
+  incidentTitle: string;
+  description: string;
+  severity: string;
+  location: string;
+  coordinates: string;
+  nearestLandmark: string;
+  dateTime: string;
+  publicHealthRisk: boolean;
+  additionalNotes: string;
+  contactName: string;
+  contactPhone: string;
+  contactEmail: string;
+  consentToContact: boolean;
+  consentToShare: boolean;
+}
+
+const emptyForm: FormData = {
+  incidentType: '',
+  incidentTitle: '',
+  description: '',
+  severity: '',
+  location: '',
+  coordinates: '',
+  nearestLandmark: '',
+  dateTime: '',
+  publicHealthRisk: false,
+  additionalNotes: '',
+  contactName: '',
+  contactPhone: '',
+  contactEmail: '',
+  consentToContact: false,
+  consentToShare: false
+};
+
+const incidentTypes = [
+  { value: 'oil-spill', label: 'Oil Spill' },
+  { value: 'water-pollution', label: 'Water Pollution' },
+  { value: 'dead-marine-life', label: 'Dead Marine Life' },
+  { value: 'unusual-tides', label: 'Unusual Tides' },
+  { value: 'coastal-erosion', label: 'Coastal Erosion' },
+  { value: 'algal-bloom', label: 'Algal Bloom' },
+  { value: 'marine-debris', label: 'Marine Debris' },
+  { value: 'vessel-incident', label: 'Vessel Incident' },
+  { value: 'sewage-discharge', label: 'Sewage Discharge' },
+  { value: 'chemical-release', label: 'Chemical Release' },
+  { value: 'other', label: 'Other' }
+];
+
+const severityLevels = [
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+  { value: 'critical', label: 'Critical' }
+];
+
+const describeQueued = (queued: QueuedPublicReport) => {
+  if (queued.error) return { label: 'Not accepted', variant: 'destructive' as const };
+  if (!queued.receipt) return { label: 'Waiting to send', variant: 'outline' as const };
+  if (queued.receipt.status === 'approved') return { label: 'Accepted', variant: 'default' as const };
+  if (queued.receipt.status === 'rejected') return { label: 'Not accepted', variant: 'destructive' as const };
+  return { label: 'Received, awaiting review', variant: 'secondary' as const };
+};
+
+// Incident reporting for the public: no account, held for moderation before responders see it
+const PublicReport = () => {
+  const { toast } = useToast();
+  const [formData, setFormData] = useState<FormData>(emptyForm);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [queued, setQueued] = useState<QueuedPublicReport[]>(getQueuedPublicReports);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  // Send anything written while offline as soon as the connection is back
+  useEffect(() => {
+    const refresh = () => setQueued(getQueuedPublicReports());
+    const goOnline = () => {
+      setIsOnline(true);
+      flushPublicReports().finally(refresh);
+    };
+    const goOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    if (navigator.onLine) flushPublicReports().finally(refresh);
+
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  const handleInputChange = (field: keyof FormData, value: string | boolean) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const fillCurrentLocation = () => {
+    navigator.geolocation?.getCurrentPosition(
+      ({ coords }) => handleInputChange('coordinates', `${coords.latitude.toFixed(6)}, ${coords.longitude.toFixed(6)}`),
+      () => toast({ title: 'Location unavailable', description: 'Enter the coordinates or a landmark instead.' })
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.incidentType || !formData.incidentTitle || !formData.description ||
+        !formData.severity || !formData.location || !formData.dateTime) {
+      toast({
+        title: 'Missing Information',
+        description: 'Please fill in all required fields.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    const report: NewPublicReport = {
+      incident_type: formData.incidentType,
+      incident_title: formData.incidentTitle,
+      description: formData.description,
+      severity: formData.severity as NewPublicReport['severity'],
+      location: formData.location,
+      date_time: new Date(formData.dateTime).toISOString(),
+      coordinates: formData.coordinates || undefined,
+      nearest_landmark: formData.nearestLandmark || undefined,
+      public_health_risk: formData.publicHealthRisk,
+      additional_notes: formData.additionalNotes || undefined,
+      consent_to_share: formData.consentToShare,
+      contact_name: formData.contactName || undefined,
+      contact_phone: formData.contactPhone || undefined,
+      contact_email: formData.contactEmail || undefined,
+      consent_to_contact: formData.consentToContact
+    };
+
+    setIsSubmitting(true);
+    try {
+      const result = await queuePublicReport(report);
+      setQueued(getQueuedPublicReports());
+
+      if (result.error) {
+        toast({ title: 'Report Not Accepted', description: result.error, variant: 'destructive' });
+        return;
+      }
+
+      toast(result.receipt
+        ? { title: 'Report Received', description: 'Thank you. Your report will be reviewed before it is passed to responders.' }
+        : {
+            title: 'Report Saved',
+            description: navigator.onLine
+              ? 'It could not be sent yet; it is kept on this device and will be retried next time you open this page.'
+              : 'It will be sent automatically once you are back online.'
+          });
+      setFormData(emptyForm);
+    } catch (error) {
+      toast({
+        title: 'Submission Failed',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted/20 py-8">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground mb-2">Report a Coastal Incident</h1>
+          <p className="text-muted-foreground">
+            No account needed. Reports are checked by our team before they reach responders.
+            Have an account? <Link to="/reports/new" className="text-primary hover:underline">Sign in to report</Link> and follow up on your report.
+          </p>
+        </div>
+
+        {!isOnline && (
+          <div className="flex items-center space-x-2 p-3 rounded-lg bg-warning/10 border border-warning/30 text-sm text-foreground">
+            <WifiOff className="h-4 w-4 shrink-0" />
+            <span>You are offline. Your report will be saved on this device and sent when you reconnect.</span>
+          </div>
+        )}
+
+        {queued.length > 0 && (
+          <Card className="shadow-card border-border/50">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span className="text-base">Your reports from this device</span>
+                <Button variant="ghost" size="sm" onClick={() => { clearSettledPublicReports(); setQueued(getQueuedPublicReports()); }}>
+                  Clear sent
+                </Button>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {queued.map(entry => {
+                const { label, variant } = describeQueued(entry);
+                return (
+                  <div key={entry.client_report_id} className="flex items-center justify-between gap-2 text-sm">
+                    <div>
+                      <div className="font-medium text-foreground">{entry.report.incident_title}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(entry.queued_at).toLocaleString()}{entry.error ? ` · ${entry.error}` : ''}
+                      </div>
+                    </div>
+                    <Badge variant={variant} className="text-xs shrink-0">{label}</Badge>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="shadow-card border-border/50">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <FileText className="h-5 w-5 text-primary" />
+              <span>What did you see?</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="space-y-4">
+                <div className="flex items-center space-x-2">
+                  <Info className="h-5 w-5 text-primary" />
+                  <h3 className="text-lg font-semibold">Incident</h3>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="incidentType">Incident Type *</Label>
+                    <Select value={formData.incidentType} onValueChange={(value) => handleInputChange('incidentType', value)}>
+                      <SelectTrigger id="incidentType">
+                        <SelectValue placeholder="Select incident type" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {incidentTypes.map(type => (
+                          <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="severity">How serious is it? *</Label>
+                    <Select value={formData.severity} onValueChange={(value) => handleInputChange('severity', value)}>
+                      <SelectTrigger id="severity">
+                        <SelectValue placeholder="Select severity" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {severityLevels.map(level => (
+                          <SelectItem key={level.value} value={level.value}>{level.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="incidentTitle">Short Title *</Label>
+                  <Input
+                    id="incidentTitle"
+                    maxLength={200}
+                    placeholder="e.g., Oil sheen near the harbour entrance"
+                    value={formData.incidentTitle}
+                    onChange={(e) => handleInputChange('incidentTitle', e.target.value)}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="description">Description *</Label>
+                  <Textarea
+                    id="description"
+                    rows={4}
+                    maxLength={5000}
+                    placeholder="What did you see, how large is it, is it spreading?"
+                    value={formData.description}
+                    onChange={(e) => handleInputChange('description', e.target.value)}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="dateTime">When did you see it? *</Label>
+                  <Input
+                    id="dateTime"
+                    type="datetime-local"
+                    value={formData.dateTime}
+                    onChange={(e) => handleInputChange('dateTime', e.target.value)}
+                  />
+                </div>
+
+                <div className="flex items-start space-x-2">
+                  <Checkbox
+                    id="publicHealthRisk"
+                    checked={formData.publicHealthRisk}
+                    onCheckedChange={(checked) => handleInputChange('publicHealthRisk', checked === true)}
+                  />
+                  <Label htmlFor="publicHealthRisk">People may be at risk (e.g., swimmers, fumes, contaminated catch)</Label>
+                </div>
+              </div>
+
+              <Separator />
+
+              <div className="space-y-4">
+                <div className="flex items-center space-x-2">
+                  <MapPin className="h-5 w-5 text-primary" />
+                  <h3 className="text-lg font-semibold">Location</h3>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="location">Location *</Label>
+                  <Input
+                    id="location"
+                    maxLength={300}
+                    placeholder="e.g., North Beach, near the pier"
+                    value={formData.location}
+                    onChange={(e) => handleInputChange('location', e.target.value)}
+                  />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="coordinates">GPS Coordinates (Optional)</Label>
+                    <div className="flex space-x-2">
+                      <Input
+                        id="coordinates"
+                        placeholder="e.g., 12.3456, -78.9012"
+                        value={formData.coordinates}
+                        onChange={(e) => handleInputChange('coordinates', e.target.value)}
+                      />
+                      <Button type="button" variant="outline" size="icon" onClick={fillCurrentLocation} title="Use my location">
+                        <MapPin className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="nearestLandmark">Nearest Landmark</Label>
+                    <Input
+                      id="nearestLandmark"
+                      maxLength={300}
+                      placeholder="e.g., Lighthouse, Hotel, Park"
+                      value={formData.nearestLandmark}
+                      onChange={(e) => handleInputChange('nearestLandmark', e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="additionalNotes">Anything else?</Label>
+                  <Textarea
+                    id="additionalNotes"
+                    rows={2}
+                    maxLength={2000}
+                    value={formData.additionalNotes}
+                    onChange={(e) => handleInputChange('additionalNotes', e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <Separator />
+
+              <div className="space-y-4">
+                <div className="flex items-center space-x-2">
+                  <User className="h-5 w-5 text-primary" />
+                  <h3 className="text-lg font-semibold">Contact Details (Optional)</h3>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Leave these empty to report anonymously. They are only used to follow up on this report.
+                </p>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="contactName">Name</Label>
+                    <Input
+                      id="contactName"
+                      maxLength={200}
+                      value={formData.contactName}
+                      onChange={(e) => handleInputChange('contactName', e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="contactPhone">Phone</Label>
+                    <Input
+                      id="contactPhone"
+                      type="tel"
+                      maxLength={50}
+                      value={formData.contactPhone}
+                      onChange={(e) => handleInputChange('contactPhone', e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="contactEmail">Email</Label>
+                    <Input
+                      id="contactEmail"
+                      type="email"
+                      maxLength={320}
+                      value={formData.contactEmail}
+                      onChange={(e) => handleInputChange('contactEmail', e.target.value)}
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <Separator />
+
+              <div className="space-y-4">
+                <div className="flex items-center space-x-2">
+                  <Shield className="h-5 w-5 text-primary" />
+                  <h3 className="text-lg font-semibold">Privacy & Consent</h3>
+                </div>
+
+                <div className="space-y-3">
+                  <div className="flex items-start space-x-2">
+                    <Checkbox
+                      id="consentToContact"
+                      checked={formData.consentToContact}
+                      onCheckedChange={(checked) => handleInputChange('consentToContact', checked === true)}
+                    />
+                    <Label htmlFor="consentToContact">I agree to be contacted about this report</Label>
+                  </div>
+
+                  <div className="flex items-start space-x-2">
+                    <Checkbox
+                      id="consentToShare"
+                      checked={formData.consentToShare}
+                      onCheckedChange={(checked) => handleInputChange('consentToShare', checked === true)}
+                    />
+                    <Label htmlFor="consentToShare">My report may be shared with the public if an alert is issued about it</Label>
+                  </div>
+                </div>
+              </div>
+
+              <div className="pt-4">
+                <Button
+                  type="submit"
+                  className="w-full bg-primary hover:bg-primary/90 text-primary-foreground"
+                  disabled={isSubmitting}
+                >
+                  {isSubmitting ? (
+                    <>
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2" />
+                      Preparing Report...
+                    </>
+                  ) : (
+                    <>
+                      <FileText className="h-4 w-4 mr-2" />
+                      Send Report
+                    </>
+                  )}
+                </Button>
+
+                <p className="text-xs text-muted-foreground text-center mt-2">
+                  * Required fields. Preparing a report takes a few seconds; this keeps automated spam out.
+                </p>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default PublicReport;
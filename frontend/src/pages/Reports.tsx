@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -27,12 +28,16 @@ import {
   EyeOff
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useIncidentRecords } from '@/hooks/use-coastal-data';
+import { PublicReportQueue } from '@/components/dashboard/PublicReportQueue';
+import type { IncidentRecord } from '@/lib/api';
+import { getSeverityColor, getStatusColor } from '@/lib/incident-status';
 
 interface IncidentReport {
   id: string;
   type: string;
   title: string;
-  status: 'pending' | 'verified' | 'investigating' | 'resolved';
+  status: IncidentRecord['status'];
   timestamp: string;
   reporter: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
@@ -102,6 +107,16 @@ const mockReports: IncidentReport[] = [
   }
 ];
 
+const toIncidentReport = (incident: IncidentRecord): IncidentReport => ({
+  id: incident.id,
+  type: incident.incident_type,
+  title: incident.incident_title,
+  status: incident.status,
+  timestamp: new Date(incident.created_at).toLocaleString(),
+  reporter: incident.users?.full_name || 'Unknown reporter',
+  severity: incident.severity
+});
+
 const incidentTypes = [
   { value: 'oil-spill', label: 'Oil Spill', description: 'Petroleum or chemical spills in water' },
   { value: 'water-pollution', label: 'Water Pollution', description: 'Contamination of coastal waters' },
@@ -125,16 +140,6 @@ const severityLevels = [
 
 
 
-const getStatusColor = (status: string) => {
-  switch (status) {
-    case 'verified': return 'bg-safe text-safe-foreground';
-    case 'investigating': return 'bg-advisory text-advisory-foreground';
-    case 'pending': return 'bg-warning text-warning-foreground';
-    case 'resolved': return 'bg-primary text-primary-foreground';
-    default: return 'bg-muted text-muted-foreground';
-  }
-};
-
 const getStatusIcon = (status: string) => {
   switch (status) {
     case 'verified': return CheckCircle;
@@ -145,18 +150,9 @@ const getStatusIcon = (status: string) => {
   }
 };
 
-const getSeverityColor = (severity: string) => {
-  switch (severity) {
-    case 'low': return 'bg-safe text-safe-foreground';
-    case 'medium': return 'bg-advisory text-advisory-foreground';
-    case 'high': return 'bg-warning text-warning-foreground';
-    case 'critical': return 'bg-emergency text-emergency-foreground';
-    default: return 'bg-muted text-muted-foreground';
-  }
-};
-
 const Reports = () => {
   const { toast } = useToast();
+  const { data: incidentRecords } = useIncidentRecords();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [formData, setFormData] = useState<FormData>({
     // Basic Information
@@ -192,6 +188,9 @@ const Reports = () => {
     consentToShare: false
   });
 
+  // Signed-in users see stored reports; the sample list is shown otherwise
+  const recentReports = incidentRecords ? incidentRecords.slice(0, 10).map(toIncidentReport) : mockReports;
+
   const handleInputChange = (field: keyof FormData, value: any) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
@@ -563,6 +562,10 @@ const Reports = () => {
                       <Camera className="h-5 w-5 text-primary" />
                       <h3 className="text-lg font-semibold">Evidence & Documentation</h3>
                     </div>
+                    <p className="text-xs text-muted-foreground">
+                      To attach videos, or use a photo's location and time, use the{' '}
+                      <Link to="/reports/new" className="text-primary hover:underline">full report form</Link>.
+                    </p>
                     
                     {/* Photo Upload */}
                     <div className="space-y-3">
@@ -701,6 +704,8 @@ const Reports = () => {
 
           {/* Recent Reports Sidebar */}
           <div className="space-y-6">
+            <PublicReportQueue />
+
             <Card className="shadow-card border-border/50">
               <CardHeader>
                 <CardTitle className="flex items-center space-x-2">
@@ -709,10 +714,13 @@ const Reports = () => {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                {mockReports.map((report) => {
+                {recentReports.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No reports yet.</p>
+                )}
+                {recentReports.map((report) => {
                   const StatusIcon = getStatusIcon(report.status);
-                  return (
-                    <div key={report.id} className="p-3 rounded-lg border border-border/30 bg-muted/20">
+                  const card = (
+                    <div className="p-3 rounded-lg border border-border/30 bg-muted/20">
                       <div className="flex items-start justify-between mb-2">
                         <h4 className="text-sm font-medium text-foreground">{report.title}</h4>
                         <Badge className={getStatusColor(report.status)}>
@@ -730,6 +738,14 @@ const Reports = () => {
                       </Badge>
                     </div>
                   );
+                  // Stored reports open their detail page; the samples are not clickable
+                  return incidentRecords ? (
+                    <Link key={report.id} to={`/reports/${report.id}`} className="block hover:opacity-90 transition-smooth">
+                      {card}
+                    </Link>
+                  ) : (
+                    <React.Fragment key={report.id}>{card}</React.Fragment>
+                  );
                 })}
               </CardContent>
             </Card>